@@ -3,9 +3,22 @@ import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { validationPipeProvider } from './app.validation';
 import { Campaign } from './campaigns/entities/campaign.entity';
 import { MatchRecord } from './campaigns/entities/match-record.entity';
+import { CampaignFile } from './campaigns/entities/campaign-file.entity';
+import { CampaignCost } from './campaigns/entities/campaign-cost.entity';
 import { User } from './users/entities/user.entity';
+import { Client } from './clients/entities/client.entity';
+import { Vendor } from './vendors/entities/vendor.entity';
+import { Market } from './markets/entities/market.entity';
+import { UnresolvedMarketValue } from './markets/entities/unresolved-market-value.entity';
+import { DcmIdRegistration } from './matching/entities/dcm-id-registration.entity';
+import { LoginToken } from './auth/entities/login-token.entity';
+import { ColumnMappingProfile } from './file-processing/entities/column-mapping-profile.entity';
+import { PatternRuleSet } from './patterns/entities/pattern-rule-set.entity';
+import { InboundEmailEvent } from './email/entities/inbound-email-event.entity';
+import { OutboundEmail } from './email/entities/outbound-email.entity';
 import { CampaignsModule } from './campaigns/campaigns.module';
 import { UploadsModule } from './uploads/uploads.module';
 import { FileProcessingModule } from './file-processing/file-processing.module';
@@ -13,6 +26,11 @@ import { MatchingModule } from './matching/matching.module';
 import { ReportsModule } from './reports/reports.module';
 import { JobsModule } from './jobs/jobs.module';
 import { EmailModule } from './email/email.module';
+import { UsersModule } from './users/users.module';
+import { AuthModule } from './auth/auth.module';
+import { ClientsModule } from './clients/clients.module';
+import { VendorsModule } from './vendors/vendors.module';
+import { MarketsModule } from './markets/markets.module';
 
 @Module({
   imports: [
@@ -26,7 +44,23 @@ import { EmailModule } from './email/email.module';
       username: process.env.DATABASE_USER || 'matchback',
       password: process.env.DATABASE_PASSWORD || 'matchback_dev_password',
       database: process.env.DATABASE_NAME || 'matchback_db',
-      entities: [Campaign, MatchRecord, User],
+      entities: [
+        Campaign,
+        MatchRecord,
+        CampaignFile,
+        CampaignCost,
+        User,
+        Client,
+        Vendor,
+        LoginToken,
+        ColumnMappingProfile,
+        PatternRuleSet,
+        InboundEmailEvent,
+        OutboundEmail,
+        Market,
+        UnresolvedMarketValue,
+        DcmIdRegistration,
+      ],
       synchronize: false,
       logging: process.env.NODE_ENV === 'development',
     }),
@@ -37,8 +71,13 @@ import { EmailModule } from './email/email.module';
     ReportsModule,
     JobsModule,
     EmailModule,
+    UsersModule,
+    AuthModule,
+    ClientsModule,
+    VendorsModule,
+    MarketsModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [AppService, validationPipeProvider],
 })
 export class AppModule {}
@@ -0,0 +1,14 @@
+import { Provider, ValidationPipe } from '@nestjs/common';
+import { APP_PIPE } from '@nestjs/core';
+
+/**
+ * Global request validation
+ *
+ * Enforces the class-validator rules of every DTO; properties a DTO
+ * does not declare are dropped, and bodies are turned into DTO
+ * instances (so nested @Type() DTOs are validated too).
+ */
+export const validationPipeProvider: Provider = {
+  provide: APP_PIPE,
+  useValue: new ValidationPipe({ whitelist: true, transform: true }),
+};
@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { validationPipeProvider } from '../app.validation';
+
+describe('AuthController', () => {
+  let app: INestApplication<App>;
+
+  const mockAuthService = {
+    login: jest.fn(),
+    requestMagicLink: jest.fn(),
+    verifyMagicLink: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        { provide: AuthService, useValue: mockAuthService },
+        validationPipeProvider,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await app.close();
+  });
+
+  describe('POST /auth/login', () => {
+    it('should reject a login without an email', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ password: 'secret-password' })
+        .expect(400);
+
+      expect(mockAuthService.login).not.toHaveBeenCalled();
+    });
+
+    it('should drop unknown properties', async () => {
+      mockAuthService.login.mockResolvedValue({ accessToken: 'token' });
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({
+          email: 'analyst@example.com',
+          password: 'secret-password',
+          role: 'admin',
+        })
+        .expect(200);
+
+      expect(mockAuthService.login).toHaveBeenCalledWith(
+        'analyst@example.com',
+        'secret-password',
+      );
+    });
+  });
+
+  describe('POST /auth/magic-link', () => {
+    it('should reject an invalid email', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/magic-link')
+        .send({ email: 'not-an-email' })
+        .expect(400);
+
+      expect(mockAuthService.requestMagicLink).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { AuthUser } from '@matchback/types';
+import { AuthService } from './auth.service';
+import { LoginDto } from './dto/login.dto';
+import { RequestMagicLinkDto, VerifyMagicLinkDto } from './dto/magic-link.dto';
+import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * POST /auth/login
+   * Sign in with email and password
+   */
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() dto: LoginDto) {
+    return this.authService.login(dto.email, dto.password);
+  }
+
+  /**
+   * POST /auth/magic-link
+   * Email a one-time sign-in link (always 202, even for unknown emails)
+   */
+  @Public()
+  @Post('magic-link')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestMagicLink(@Body() dto: RequestMagicLinkDto) {
+    await this.authService.requestMagicLink(dto.email);
+    return { sent: true };
+  }
+
+  /**
+   * POST /auth/magic-link/verify
+   * Exchange a sign-in link token for a session
+   */
+  @Public()
+  @Post('magic-link/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyMagicLink(@Body() dto: VerifyMagicLinkDto) {
+    return this.authService.verifyMagicLink(dto.token);
+  }
+
+  /**
+   * GET /auth/me
+   * The signed-in user
+   */
+  @Get('me')
+  me(@CurrentUser() user: AuthUser) {
+    return user;
+  }
+}
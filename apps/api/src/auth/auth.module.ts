@@ -0,0 +1,57 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { LoginToken } from './entities/login-token.entity';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { PiiRedactionInterceptor } from './interceptors/pii-redaction.interceptor';
+import { UsersModule } from '../users/users.module';
+import { EmailModule } from '../email/email.module';
+
+/**
+ * Auth Module
+ *
+ * Sign-in (password or magic link) and JWT sessions. Registers the
+ * global guards and PII redaction, so every route is authenticated
+ * unless marked @Public() and client viewers are read-only.
+ *
+ * Dependencies:
+ * - UsersModule: Account lookup and lastLoginAt tracking
+ * - EmailModule: Delivering magic links
+ *
+ * Environment Variables Required:
+ * - JWT_SECRET: Signing secret for access tokens
+ * - JWT_EXPIRATION: Session lifetime (e.g., 12h, 7d)
+ * - WEB_URL: Web app origin used in magic links
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    TypeOrmModule.forFeature([LoginToken]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.getOrThrow<string>('JWT_SECRET'),
+        signOptions: {
+          expiresIn: configService.get('JWT_EXPIRATION') || '12h',
+        },
+      }),
+    }),
+    UsersModule,
+    EmailModule,
+  ],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+    { provide: APP_INTERCEPTOR, useClass: PiiRedactionInterceptor },
+  ],
+  exports: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { AuthService } from './auth.service';
+import { LoginToken } from './entities/login-token.entity';
+import { UsersService } from '../users/users.service';
+import { EmailService } from '../email/email.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const user = {
+    id: 'user-1',
+    email: 'analyst@example.com',
+    name: 'Analyst',
+    role: 'admin',
+    isActive: true,
+    passwordHash: 'hash',
+  };
+
+  const mockTokenRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve(data)),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findByEmail: jest.fn(),
+    findActive: jest.fn(),
+    verifyPassword: jest.fn(),
+    recordLogin: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn().mockResolvedValue('jwt-token'),
+  };
+
+  const mockEmailService = {
+    sendNotification: jest.fn().mockResolvedValue({ success: true }),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => 'https://app.example.com'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        {
+          provide: getRepositoryToken(LoginToken),
+          useValue: mockTokenRepository,
+        },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('login', () => {
+    it('should issue a session and record the login', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(user);
+      mockUsersService.verifyPassword.mockResolvedValue(true);
+
+      const session = await service.login(user.email, 'correct-password');
+
+      expect(mockUsersService.findByEmail).toHaveBeenCalledWith(user.email, {
+        withPassword: true,
+      });
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith({
+        sub: 'user-1',
+        role: 'admin',
+      });
+      expect(mockUsersService.recordLogin).toHaveBeenCalledWith('user-1');
+      expect(session).toEqual({
+        accessToken: 'jwt-token',
+        user: {
+          id: 'user-1',
+          email: user.email,
+          name: 'Analyst',
+          role: 'admin',
+        },
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(user);
+      mockUsersService.verifyPassword.mockResolvedValue(false);
+
+      await expect(service.login(user.email, 'wrong')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockUsersService.recordLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject inactive users', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        ...user,
+        isActive: false,
+      });
+      mockUsersService.verifyPassword.mockResolvedValue(true);
+
+      await expect(service.login(user.email, 'correct')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    it('should store only the token hash and email the link', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(user);
+
+      await service.requestMagicLink(user.email);
+
+      const [to, , message] = mockEmailService.sendNotification.mock.calls[0];
+      const token = /token=([\w-]+)/.exec(message)![1];
+      const stored = mockTokenRepository.save.mock.calls[0][0];
+
+      expect(to).toBe(user.email);
+      expect(message).toContain('https://app.example.com/login/verify');
+      expect(stored.tokenHash).toBe(
+        createHash('sha256').update(token).digest('hex'),
+      );
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should silently ignore unknown emails', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.requestMagicLink('nobody@example.com'),
+      ).resolves.toBeUndefined();
+      expect(mockTokenRepository.save).not.toHaveBeenCalled();
+      expect(mockEmailService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMagicLink', () => {
+    it('should claim the token and start a session', async () => {
+      mockTokenRepository.findOne.mockResolvedValue({
+        id: 'token-1',
+        userId: 'user-1',
+      });
+      mockTokenRepository.update.mockResolvedValue({ affected: 1 });
+      mockUsersService.findActive.mockResolvedValue(user);
+
+      const session = await service.verifyMagicLink('raw-token');
+
+      expect(mockTokenRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'token-1' }),
+        { usedAt: expect.any(Date) },
+      );
+      expect(mockUsersService.recordLogin).toHaveBeenCalledWith('user-1');
+      expect(session.accessToken).toBe('jwt-token');
+    });
+
+    it('should reject unknown, used or expired tokens', async () => {
+      mockTokenRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.verifyMagicLink('raw-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a token claimed by a concurrent request', async () => {
+      mockTokenRepository.findOne.mockResolvedValue({
+        id: 'token-1',
+        userId: 'user-1',
+      });
+      mockTokenRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.verifyMagicLink('raw-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockJwtService.signAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Repository, IsNull, MoreThan } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import type { AuthSession, AuthUser } from '@matchback/types';
+import { LoginToken } from './entities/login-token.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { EmailService } from '../email/email.service';
+import type { JwtPayload } from './guards/jwt-auth.guard';
+
+/**
+ * How long an emailed sign-in link stays valid
+ */
+export const MAGIC_LINK_TTL_MINUTES = 15;
+
+/**
+ * Auth Service
+ *
+ * Issues JWT sessions for:
+ * - Email + password (bcrypt)
+ * - One-time magic links sent by email
+ *
+ * Both paths stamp lastLoginAt. Failures never reveal whether an
+ * email address has an account.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly webUrl: string;
+
+  constructor(
+    @InjectRepository(LoginToken)
+    private readonly tokenRepository: Repository<LoginToken>,
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {
+    this.webUrl =
+      this.configService.get<string>('WEB_URL') || 'http://localhost:3000';
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  async login(email: string, password: string): Promise<AuthSession> {
+    const user = await this.usersService.findByEmail(email, {
+      withPassword: true,
+    });
+
+    if (
+      !user ||
+      !user.isActive ||
+      !(await this.usersService.verifyPassword(user, password))
+    ) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Email a one-time sign-in link
+   * Resolves the same way whether or not the account exists.
+   */
+  async requestMagicLink(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || !user.isActive) {
+      this.logger.warn(`Magic link requested for unknown account`);
+      return;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId: user.id,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+        usedAt: null,
+      }),
+    );
+
+    const link = `${this.webUrl}/login/verify?token=${token}`;
+    await this.emailService.sendNotification(
+      user.email,
+      'Your Matchback sign-in link',
+      `Sign in to Matchback:\n\n${link}\n\n` +
+        `This link expires in ${MAGIC_LINK_TTL_MINUTES} minutes and can be used once.`,
+    );
+  }
+
+  /**
+   * Exchange a magic-link token for a session
+   */
+  async verifyMagicLink(token: string): Promise<AuthSession> {
+    const loginToken = await this.tokenRepository.findOne({
+      where: {
+        tokenHash: this.hashToken(token),
+        usedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+
+    if (!loginToken) {
+      throw new UnauthorizedException('Sign-in link is invalid or expired');
+    }
+
+    // Single use - claim the token before issuing the session
+    const claimed = await this.tokenRepository.update(
+      { id: loginToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new UnauthorizedException('Sign-in link is invalid or expired');
+    }
+
+    const user = await this.usersService.findActive(loginToken.userId);
+    if (!user) {
+      throw new UnauthorizedException('Sign-in link is invalid or expired');
+    }
+
+    return this.startSession(user);
+  }
+
+  private async startSession(user: User): Promise<AuthSession> {
+    const payload: JwtPayload = { sub: user.id, role: user.role };
+    const accessToken = await this.jwtService.signAsync(payload);
+
+    await this.usersService.recordLogin(user.id);
+    this.logger.log(`User ${user.id} signed in`);
+
+    return { accessToken, user: this.toAuthUser(user) };
+  }
+
+  private toAuthUser(user: User): AuthUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      clientId: user.clientId,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
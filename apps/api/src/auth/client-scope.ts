@@ -0,0 +1,22 @@
+import { ForbiddenException } from '@nestjs/common';
+import type { AuthUser } from '@matchback/types';
+
+/**
+ * Client a request is limited to.
+ * Client viewers are always pinned to their own client; admins see
+ * everything unless they ask for one client.
+ */
+export function resolveClientScope(
+  user: AuthUser | undefined,
+  requestedClientId?: string,
+): string | undefined {
+  if (user?.role !== 'client_viewer') {
+    return requestedClientId;
+  }
+
+  if (!user.clientId) {
+    throw new ForbiddenException('Account is not linked to a client');
+  }
+
+  return user.clientId;
+}
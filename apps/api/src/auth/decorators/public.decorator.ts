@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Skip authentication (login endpoints, signed webhooks, health check)
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
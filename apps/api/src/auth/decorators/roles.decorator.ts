@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import type { UserRole } from '@matchback/types';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restrict a route or controller to the given roles
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,12 @@
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
+
+export class RequestMagicLinkDto {
+  @IsEmail()
+  email: string;
+}
+
+export class VerifyMagicLinkDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,77 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import type { Request } from 'express';
+import type { AuthUser } from '@matchback/types';
+import { UsersService } from '../../users/users.service';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+
+export interface JwtPayload {
+  sub: string;
+  role: AuthUser['role'];
+}
+
+/**
+ * JWT Auth Guard
+ *
+ * Registered globally: every route needs a valid Bearer token
+ * unless marked @Public(). The user is reloaded on each request so
+ * deactivated accounts and role changes take effect immediately.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+    const token = this.extractToken(request);
+    if (!token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    const user = await this.usersService.findActive(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    request.user = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      clientId: user.clientId,
+    };
+    return true;
+  }
+
+  private extractToken(request: Request): string | null {
+    const [scheme, token] = (request.headers.authorization || '').split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+  }
+}
@@ -0,0 +1,60 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+describe('RolesGuard', () => {
+  const metadata: Record<string, any> = {};
+  const reflector = {
+    getAllAndOverride: jest.fn((key: string) => metadata[key]),
+  } as unknown as Reflector;
+  const guard = new RolesGuard(reflector);
+
+  const contextFor = (role: string | undefined, method: string) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method,
+          user: role ? { id: 'user-1', role } : undefined,
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  afterEach(() => {
+    delete metadata[IS_PUBLIC_KEY];
+    delete metadata[ROLES_KEY];
+    jest.clearAllMocks();
+  });
+
+  it('should let client viewers read', () => {
+    expect(guard.canActivate(contextFor('client_viewer', 'GET'))).toBe(true);
+  });
+
+  it('should keep client viewers read-only', () => {
+    expect(() =>
+      guard.canActivate(contextFor('client_viewer', 'PATCH')),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should let admins write', () => {
+    expect(guard.canActivate(contextFor('admin', 'POST'))).toBe(true);
+  });
+
+  it('should enforce @Roles on reads', () => {
+    metadata[ROLES_KEY] = ['admin'];
+
+    expect(() => guard.canActivate(contextFor('client_viewer', 'GET'))).toThrow(
+      ForbiddenException,
+    );
+    expect(guard.canActivate(contextFor('admin', 'GET'))).toBe(true);
+  });
+
+  it('should skip public routes', () => {
+    metadata[IS_PUBLIC_KEY] = true;
+
+    expect(guard.canActivate(contextFor(undefined, 'POST'))).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import type { AuthUser, UserRole } from '@matchback/types';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+/**
+ * HTTP methods a client viewer may use
+ */
+export const READ_ONLY_METHODS = ['GET', 'HEAD'];
+
+/**
+ * Roles Guard
+ *
+ * Runs after JwtAuthGuard:
+ * - Routes with @Roles() require one of the listed roles
+ * - Routes without @Roles() are open to admins, and to client
+ *   viewers only for reads (client viewers are read-only)
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+    const user = request.user;
+    if (!user) {
+      throw new ForbiddenException('Not signed in');
+    }
+
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (roles && roles.length > 0) {
+      if (!roles.includes(user.role)) {
+        throw new ForbiddenException(`Requires role: ${roles.join(' or ')}`);
+      }
+      return true;
+    }
+
+    if (
+      user.role === 'client_viewer' &&
+      !READ_ONLY_METHODS.includes(request.method)
+    ) {
+      throw new ForbiddenException('Client viewers have read-only access');
+    }
+
+    return true;
+  }
+}
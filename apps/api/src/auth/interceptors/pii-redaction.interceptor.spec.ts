@@ -0,0 +1,67 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of } from 'rxjs';
+import { PiiRedactionInterceptor } from './pii-redaction.interceptor';
+import { MatchRecord } from '../../campaigns/entities/match-record.entity';
+
+describe('PiiRedactionInterceptor', () => {
+  const interceptor = new PiiRedactionInterceptor();
+
+  const contextFor = (role: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ user: { id: 'user-1', role } }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const handlerFor = (body: unknown): CallHandler<unknown> => ({
+    handle: () => of(body),
+  });
+
+  const campaign = () => ({
+    id: 'campaign-1',
+    name: 'Fall Drop',
+    metrics: { matchRate: 0.42 },
+    dropDate: new Date('2024-10-01'),
+    records: [Object.assign(new MatchRecord(), { emailAddress: 'a@b.com' })],
+  });
+
+  it('should strip records for client viewers', async () => {
+    const body = await lastValueFrom(
+      interceptor.intercept(
+        contextFor('client_viewer'),
+        handlerFor([campaign()]),
+      ),
+    );
+
+    expect(body).toEqual([
+      {
+        id: 'campaign-1',
+        name: 'Fall Drop',
+        metrics: { matchRate: 0.42 },
+        dropDate: new Date('2024-10-01'),
+      },
+    ]);
+  });
+
+  it('should drop nested MatchRecord instances and rawData', () => {
+    const record = Object.assign(new MatchRecord(), { dcmId: 'DCM-1' });
+
+    expect(
+      interceptor.redact({
+        summary: { total: 1 },
+        matched: [record],
+        row: { rawData: { name: 'John' }, market: 'NYC' },
+      }),
+    ).toEqual({ summary: { total: 1 }, matched: [], row: { market: 'NYC' } });
+  });
+
+  it('should leave admin responses untouched', async () => {
+    const original = campaign();
+
+    const body = await lastValueFrom(
+      interceptor.intercept(contextFor('admin'), handlerFor(original)),
+    );
+
+    expect(body).toBe(original);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  StreamableFile,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import type { AuthUser } from '@matchback/types';
+import { MatchRecord } from '../../campaigns/entities/match-record.entity';
+
+/**
+ * Response keys that carry record-level customer data
+ */
+export const PII_RESPONSE_KEYS = ['records', 'rawData'];
+
+/**
+ * PII Redaction Interceptor
+ *
+ * Client viewers see campaign-level metrics only. For them, every
+ * response is stripped of match records (entity instances and the
+ * `records` / `rawData` keys) at any depth. Admin responses are
+ * returned untouched.
+ */
+@Injectable()
+export class PiiRedactionInterceptor implements NestInterceptor {
+  intercept(
+    context: ExecutionContext,
+    next: CallHandler<unknown>,
+  ): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<{ user?: AuthUser }>();
+
+    if (request.user?.role !== 'client_viewer') {
+      return next.handle();
+    }
+
+    return next.handle().pipe(map((body) => this.redact(body)));
+  }
+
+  redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return (value as unknown[])
+        .filter((item) => !(item instanceof MatchRecord))
+        .map((item) => this.redact(item));
+    }
+
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      value instanceof Date ||
+      value instanceof StreamableFile ||
+      Buffer.isBuffer(value)
+    ) {
+      return value;
+    }
+
+    if (value instanceof MatchRecord) {
+      return undefined;
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (PII_RESPONSE_KEYS.includes(key)) continue;
+      redacted[key] = this.redact(item);
+    }
+    return redacted;
+  }
+}
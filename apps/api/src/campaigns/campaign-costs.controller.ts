@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { CampaignCostsService } from './campaign-costs.service';
+import { CreateCampaignCostDto } from './dto/create-campaign-cost.dto';
+import { UpdateCampaignCostDto } from './dto/update-campaign-cost.dto';
+import { CampaignAccessGuard } from './guards/campaign-access.guard';
+
+@Controller('campaigns/:id/costs')
+@UseGuards(CampaignAccessGuard)
+export class CampaignCostsController {
+  constructor(private readonly campaignCostsService: CampaignCostsService) {}
+
+  /**
+   * POST /campaigns/:id/costs
+   * Add a cost line item
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Param('id') id: string, @Body() dto: CreateCampaignCostDto) {
+    return this.campaignCostsService.create(id, dto);
+  }
+
+  /**
+   * GET /campaigns/:id/costs
+   * List cost line items
+   */
+  @Get()
+  async findAll(@Param('id') id: string) {
+    return this.campaignCostsService.findAll(id);
+  }
+
+  /**
+   * GET /campaigns/:id/costs/summary
+   * Totals by category and by market
+   */
+  @Get('summary')
+  async getSummary(@Param('id') id: string) {
+    return this.campaignCostsService.getSummary(id);
+  }
+
+  /**
+   * PATCH /campaigns/:id/costs/:costId
+   */
+  @Patch(':costId')
+  async update(
+    @Param('id') id: string,
+    @Param('costId') costId: string,
+    @Body() dto: UpdateCampaignCostDto,
+  ) {
+    return this.campaignCostsService.update(id, costId, dto);
+  }
+
+  /**
+   * DELETE /campaigns/:id/costs/:costId
+   */
+  @Delete(':costId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string, @Param('costId') costId: string) {
+    return this.campaignCostsService.remove(id, costId);
+  }
+}
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CampaignCostsService } from './campaign-costs.service';
+import { Campaign } from './entities/campaign.entity';
+import { CampaignCost } from './entities/campaign-cost.entity';
+import { MatchRecord } from './entities/match-record.entity';
+
+describe('CampaignCostsService', () => {
+  let service: CampaignCostsService;
+
+  const campaign = { id: 'campaign-1', markets: ['NYC', 'BOS'] };
+
+  const mockCostRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'cost-1', ...data })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(),
+  };
+
+  const marketCounts = jest.fn();
+  const mockRecordRepository = {
+    createQueryBuilder: jest.fn(() => ({
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawMany: marketCounts,
+    })),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignCostsService,
+        {
+          provide: getRepositoryToken(CampaignCost),
+          useValue: mockCostRepository,
+        },
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+        {
+          provide: getRepositoryToken(MatchRecord),
+          useValue: mockRecordRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CampaignCostsService>(CampaignCostsService);
+
+    mockCampaignRepository.findOne.mockResolvedValue(campaign);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should add a shared cost line item', async () => {
+      const cost = await service.create('campaign-1', {
+        category: 'print',
+        amount: 1200,
+      });
+
+      expect(cost).toMatchObject({
+        campaignId: 'campaign-1',
+        category: 'print',
+        amount: 1200,
+        market: null,
+      });
+    });
+
+    it('should reject markets outside the campaign', async () => {
+      await expect(
+        service.create('campaign-1', {
+          category: 'postage',
+          amount: 300,
+          market: 'LA',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw for unknown campaigns', async () => {
+      mockCampaignRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create('missing', { category: 'data', amount: 50 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getSummary', () => {
+    beforeEach(() => {
+      mockCostRepository.find.mockResolvedValue([
+        { category: 'print', amount: '1000.00', market: null },
+        { category: 'postage', amount: '400.00', market: null },
+        { category: 'data', amount: '100.00', market: 'BOS' },
+      ]);
+    });
+
+    it('should split shared costs by record count', async () => {
+      marketCounts.mockResolvedValue([
+        { market: 'NYC', count: '300' },
+        { market: 'BOS', count: '100' },
+      ]);
+
+      const summary = await service.getSummary('campaign-1');
+
+      expect(summary.total).toBe(1500);
+      expect(summary.byCategory).toEqual({
+        print: 1000,
+        postage: 400,
+        data: 100,
+      });
+      expect(summary.byMarket).toEqual({ NYC: 1050, BOS: 450 });
+    });
+
+    it('should split shared costs evenly before records exist', async () => {
+      marketCounts.mockResolvedValue([]);
+
+      const summary = await service.getSummary('campaign-1');
+
+      expect(summary.byMarket).toEqual({ NYC: 700, BOS: 800 });
+    });
+  });
+
+  describe('getTotal', () => {
+    it('should sum decimal amounts', async () => {
+      mockCostRepository.find.mockResolvedValue([
+        { amount: '0.10' },
+        { amount: '0.20' },
+      ]);
+
+      expect(await service.getTotal('campaign-1')).toBe(0.3);
+    });
+  });
+
+  describe('update', () => {
+    it('should throw when the cost belongs to another campaign', async () => {
+      mockCostRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('campaign-1', 'cost-9', { amount: 10 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type {
+  CampaignCostCategory,
+  CampaignCostSummary,
+} from '@matchback/types';
+import { Campaign } from './entities/campaign.entity';
+import { CampaignCost } from './entities/campaign-cost.entity';
+import { MatchRecord } from './entities/match-record.entity';
+
+export interface CampaignCostInput {
+  category: CampaignCostCategory;
+  amount: number;
+  description?: string;
+  market?: string | null;
+  incurredOn?: string | Date;
+}
+
+/**
+ * Campaign Costs Service
+ *
+ * Stores spend line items per campaign and rolls them up for CAC/ROAS:
+ * - Totals by category (print, postage, data, redrop, other)
+ * - Totals by market: market-specific lines plus a share of shared lines
+ *
+ * Shared lines (market = null) are split across the campaign's markets
+ * by MatchRecord count, or evenly before any records exist.
+ */
+@Injectable()
+export class CampaignCostsService {
+  private readonly logger = new Logger(CampaignCostsService.name);
+
+  constructor(
+    @InjectRepository(CampaignCost)
+    private readonly costRepository: Repository<CampaignCost>,
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(MatchRecord)
+    private readonly matchRecordRepository: Repository<MatchRecord>,
+  ) {}
+
+  /**
+   * Add a cost line item
+   */
+  async create(
+    campaignId: string,
+    input: CampaignCostInput,
+  ): Promise<CampaignCost> {
+    const campaign = await this.findCampaign(campaignId);
+    this.assertMarket(campaign, input.market);
+
+    const cost = this.costRepository.create({
+      campaignId,
+      category: input.category,
+      amount: input.amount,
+      description: input.description ?? null,
+      market: input.market ?? null,
+      incurredOn: input.incurredOn ? new Date(input.incurredOn) : null,
+    });
+
+    const saved = await this.costRepository.save(cost);
+
+    this.logger.log(
+      `Cost added to campaign ${campaignId}: ${saved.category} $${Number(saved.amount).toFixed(2)}`,
+    );
+
+    return saved;
+  }
+
+  /**
+   * List a campaign's cost line items
+   */
+  async findAll(campaignId: string): Promise<CampaignCost[]> {
+    await this.findCampaign(campaignId);
+
+    return this.costRepository.find({
+      where: { campaignId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Change a cost line item
+   */
+  async update(
+    campaignId: string,
+    costId: string,
+    changes: Partial<CampaignCostInput>,
+  ): Promise<CampaignCost> {
+    const cost = await this.findCost(campaignId, costId);
+
+    if (changes.market !== undefined) {
+      this.assertMarket(await this.findCampaign(campaignId), changes.market);
+    }
+
+    Object.assign(cost, {
+      ...changes,
+      incurredOn:
+        changes.incurredOn !== undefined
+          ? new Date(changes.incurredOn)
+          : cost.incurredOn,
+    });
+
+    return this.costRepository.save(cost);
+  }
+
+  /**
+   * Delete a cost line item
+   */
+  async remove(campaignId: string, costId: string): Promise<void> {
+    const cost = await this.findCost(campaignId, costId);
+    await this.costRepository.remove(cost);
+  }
+
+  /**
+   * Total spend for a campaign
+   */
+  async getTotal(campaignId: string): Promise<number> {
+    const costs = await this.costRepository.find({ where: { campaignId } });
+    return this.round(
+      costs.reduce((sum, cost) => sum + Number(cost.amount), 0),
+    );
+  }
+
+  /**
+   * Spend by category and by market
+   */
+  async getSummary(campaignId: string): Promise<CampaignCostSummary> {
+    const campaign = await this.findCampaign(campaignId);
+    const costs = await this.costRepository.find({ where: { campaignId } });
+
+    const byCategory: CampaignCostSummary['byCategory'] = {};
+    const byMarket: Record<string, number> = Object.fromEntries(
+      campaign.markets.map((market) => [market, 0]),
+    );
+    let shared = 0;
+
+    for (const cost of costs) {
+      const amount = Number(cost.amount);
+      byCategory[cost.category] = (byCategory[cost.category] || 0) + amount;
+
+      if (cost.market) {
+        byMarket[cost.market] = (byMarket[cost.market] || 0) + amount;
+      } else {
+        shared += amount;
+      }
+    }
+
+    if (shared > 0 && campaign.markets.length > 0) {
+      const shares = await this.getMarketShares(campaign);
+      for (const market of campaign.markets) {
+        byMarket[market] += shared * shares[market];
+      }
+    }
+
+    return {
+      campaignId,
+      total: this.round(costs.reduce((sum, c) => sum + Number(c.amount), 0)),
+      byCategory: Object.fromEntries(
+        Object.entries(byCategory).map(([key, value]) => [
+          key,
+          this.round(value),
+        ]),
+      ),
+      byMarket: Object.fromEntries(
+        Object.entries(byMarket).map(([key, value]) => [
+          key,
+          this.round(value),
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Fraction of shared cost carried by each market
+   */
+  private async getMarketShares(
+    campaign: Campaign,
+  ): Promise<Record<string, number>> {
+    const counts: { market: string; count: string }[] =
+      await this.matchRecordRepository
+        .createQueryBuilder('record')
+        .select('record.market', 'market')
+        .addSelect('COUNT(*)', 'count')
+        .where('record.campaignId = :campaignId', { campaignId: campaign.id })
+        .groupBy('record.market')
+        .getRawMany();
+
+    const byMarket = new Map(
+      counts
+        .filter((row) => campaign.markets.includes(row.market))
+        .map((row) => [row.market, Number(row.count)]),
+    );
+    const total = [...byMarket.values()].reduce((sum, n) => sum + n, 0);
+
+    return Object.fromEntries(
+      campaign.markets.map((market) => [
+        market,
+        total > 0
+          ? (byMarket.get(market) || 0) / total
+          : 1 / campaign.markets.length,
+      ]),
+    );
+  }
+
+  private async findCampaign(campaignId: string): Promise<Campaign> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID "${campaignId}" not found`);
+    }
+
+    return campaign;
+  }
+
+  private async findCost(
+    campaignId: string,
+    costId: string,
+  ): Promise<CampaignCost> {
+    const cost = await this.costRepository.findOne({
+      where: { id: costId, campaignId },
+    });
+
+    if (!cost) {
+      throw new NotFoundException(
+        `Cost ${costId} not found for campaign ${campaignId}`,
+      );
+    }
+
+    return cost;
+  }
+
+  /**
+   * Market-specific costs must name one of the campaign's markets
+   */
+  private assertMarket(campaign: Campaign, market?: string | null): void {
+    if (market && !campaign.markets.includes(market)) {
+      throw new BadRequestException(
+        `Market ${market} is not part of campaign ${campaign.id}`,
+      );
+    }
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -3,11 +3,27 @@ import { CampaignsController } from './campaigns.controller';
 import { CampaignsService } from './campaigns.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
+import type { AuthUser } from '@matchback/types';
 
 describe('CampaignsController', () => {
   let controller: CampaignsController;
   let service: CampaignsService;
 
+  const admin: AuthUser = {
+    id: 'user-1',
+    email: 'admin@example.com',
+    name: null,
+    role: 'admin',
+    clientId: null,
+  };
+  const viewer: AuthUser = {
+    id: 'user-2',
+    email: 'viewer@client.com',
+    name: null,
+    role: 'client_viewer',
+    clientId: 'client-1',
+  };
+
   const mockCampaignsService = {
     create: jest.fn(),
     findAll: jest.fn(),
@@ -75,10 +91,11 @@ describe('CampaignsController', () => {
 
       mockCampaignsService.findAll.mockResolvedValue(mockCampaigns);
 
-      const result = await controller.findAll();
+      const result = await controller.findAll(admin);
 
       expect(result).toEqual(mockCampaigns);
       expect(service.findAll).toHaveBeenCalledWith({
+        clientId: undefined,
         status: undefined,
         market: undefined,
         campaignType: undefined,
@@ -88,14 +105,31 @@ describe('CampaignsController', () => {
     it('should pass filters to service', async () => {
       mockCampaignsService.findAll.mockResolvedValue([]);
 
-      await controller.findAll('pending', 'Houston', 'acquisition');
+      await controller.findAll(
+        admin,
+        undefined,
+        'pending',
+        'Houston',
+        'acquisition',
+      );
 
       expect(service.findAll).toHaveBeenCalledWith({
+        clientId: undefined,
         status: 'pending',
         market: 'Houston',
         campaignType: 'acquisition',
       });
     });
+
+    it('should scope client viewers to their own client', async () => {
+      mockCampaignsService.findAll.mockResolvedValue([]);
+
+      await controller.findAll(viewer, 'client-2');
+
+      expect(service.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: 'client-1' }),
+      );
+    });
   });
 
   describe('findOne', () => {
@@ -151,10 +185,16 @@ describe('CampaignsController', () => {
 
       mockCampaignsService.getStats.mockResolvedValue(mockStats);
 
-      const result = await controller.getStats();
+      const result = await controller.getStats(admin, 'client-1');
 
       expect(result).toEqual(mockStats);
-      expect(service.getStats).toHaveBeenCalled();
+      expect(service.getStats).toHaveBeenCalledWith('client-1');
+    });
+
+    it("should compute stats for the viewer's client only", async () => {
+      await controller.getStats(viewer);
+
+      expect(service.getStats).toHaveBeenCalledWith('client-1');
     });
   });
 });
@@ -9,12 +9,18 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
+import type { AuthUser } from '@matchback/types';
 import { CampaignsService } from './campaigns.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
+import { CampaignAccessGuard } from './guards/campaign-access.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { resolveClientScope } from '../auth/client-scope';
 
 @Controller('campaigns')
+@UseGuards(CampaignAccessGuard)
 export class CampaignsController {
   constructor(private readonly campaignsService: CampaignsService) {}
 
@@ -30,24 +36,36 @@ export class CampaignsController {
 
   /**
    * GET /campaigns
-   * List all campaigns with optional filters
+   * List campaigns with optional filters
+   * (client viewers only see their own client's campaigns)
    */
   @Get()
   async findAll(
+    @CurrentUser() user: AuthUser,
+    @Query('clientId') clientId?: string,
     @Query('status') status?: string,
     @Query('market') market?: string,
     @Query('campaignType') campaignType?: string,
   ) {
-    return this.campaignsService.findAll({ status, market, campaignType });
+    return this.campaignsService.findAll({
+      clientId: resolveClientScope(user, clientId),
+      status,
+      market,
+      campaignType,
+    });
   }
 
   /**
    * GET /campaigns/stats
-   * Get campaign statistics
+   * Get campaign statistics for the caller's client
+   * (admins: all clients, or one with ?clientId=)
    */
   @Get('stats')
-  async getStats() {
-    return this.campaignsService.getStats();
+  async getStats(
+    @CurrentUser() user: AuthUser,
+    @Query('clientId') clientId?: string,
+  ) {
+    return this.campaignsService.getStats(resolveClientScope(user, clientId));
   }
 
   /**
@@ -71,6 +89,19 @@ export class CampaignsController {
     return this.campaignsService.update(id, updateCampaignDto);
   }
 
+  /**
+   * POST /campaigns/:id/alerts/:alertId/acknowledge
+   * Mark a campaign alert as seen
+   */
+  @Post(':id/alerts/:alertId/acknowledge')
+  @HttpCode(HttpStatus.OK)
+  async acknowledgeAlert(
+    @Param('id') id: string,
+    @Param('alertId') alertId: string,
+  ) {
+    return this.campaignsService.acknowledgeAlert(id, alertId);
+  }
+
   /**
    * DELETE /campaigns/:id
    * Delete a campaign (only if no match records exist)
@@ -2,13 +2,25 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CampaignsService } from './campaigns.service';
 import { CampaignsController } from './campaigns.controller';
+import { CampaignCostsService } from './campaign-costs.service';
+import { CampaignCostsController } from './campaign-costs.controller';
 import { Campaign } from './entities/campaign.entity';
 import { MatchRecord } from './entities/match-record.entity';
+import { CampaignCost } from './entities/campaign-cost.entity';
+import { CampaignAccessGuard } from './guards/campaign-access.guard';
+import { ClientsModule } from '../clients/clients.module';
+import { VendorsModule } from '../vendors/vendors.module';
+import { MarketsModule } from '../markets/markets.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Campaign, MatchRecord])],
-  controllers: [CampaignsController],
-  providers: [CampaignsService],
-  exports: [CampaignsService],
+  imports: [
+    TypeOrmModule.forFeature([Campaign, MatchRecord, CampaignCost]),
+    ClientsModule,
+    VendorsModule,
+    MarketsModule,
+  ],
+  controllers: [CampaignsController, CampaignCostsController],
+  providers: [CampaignsService, CampaignCostsService, CampaignAccessGuard],
+  exports: [CampaignsService, CampaignCostsService, CampaignAccessGuard],
 })
 export class CampaignsModule {}
@@ -6,6 +6,9 @@ import { CampaignsService } from './campaigns.service';
 import { Campaign } from './entities/campaign.entity';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
+import { ClientsService } from '../clients/clients.service';
+import { VendorsService } from '../vendors/vendors.service';
+import { MarketsService } from '../markets/markets.service';
 
 describe('CampaignsService', () => {
   let service: CampaignsService;
@@ -16,6 +19,7 @@ describe('CampaignsService', () => {
     save: jest.fn(),
     findOne: jest.fn(),
     find: jest.fn(),
+    update: jest.fn(),
     remove: jest.fn(),
     createQueryBuilder: jest.fn(() => ({
       andWhere: jest.fn().mockReturnThis(),
@@ -24,6 +28,43 @@ describe('CampaignsService', () => {
     })),
   };
 
+  const client = {
+    id: 'client-1',
+    name: 'Tide',
+    billingNumber: 'TIDE123',
+    defaultVendorId: 'vendor-1',
+  };
+
+  const vendor = {
+    id: 'vendor-1',
+    name: 'LeadMe',
+    email: 'default-vendor@example.com',
+    active: true,
+  };
+
+  const mockVendorsService = {
+    findOne: jest.fn(() => Promise.resolve(vendor)),
+    findByEmail: jest.fn<Promise<any>, [string]>(() => Promise.resolve(null)),
+  };
+
+  // Registry knows Houston by its alias
+  const mockMarketsService = {
+    canonicalize: jest.fn((markets: string[]) =>
+      Promise.resolve(
+        markets.map((market) =>
+          market.toLowerCase() === 'houston' ? 'HOU' : market,
+        ),
+      ),
+    ),
+  };
+
+  const mockClientsService = {
+    findOne: jest.fn(),
+    findByBillingNumber: jest.fn<Promise<any>, [string]>(() =>
+      Promise.resolve(client),
+    ),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -32,6 +73,9 @@ describe('CampaignsService', () => {
           provide: getRepositoryToken(Campaign),
           useValue: mockRepository,
         },
+        { provide: ClientsService, useValue: mockClientsService },
+        { provide: VendorsService, useValue: mockVendorsService },
+        { provide: MarketsService, useValue: mockMarketsService },
       ],
     }).compile();
 
@@ -82,6 +126,41 @@ describe('CampaignsService', () => {
       await expect(service.create(dtoWithDuplicates)).rejects.toThrow(BadRequestException);
     });
 
+    it('should store registry codes for market aliases', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockImplementation((campaign) => campaign);
+      mockRepository.save.mockImplementation((campaign) =>
+        Promise.resolve(campaign),
+      );
+
+      const result = await service.create({
+        ...createDto,
+        costs: [{ category: 'postage', amount: 500, market: 'houston' }],
+      });
+
+      expect(result.markets).toEqual(['HOU', 'Austin']);
+      expect(result.costs).toEqual([
+        expect.objectContaining({ market: 'HOU' }),
+      ]);
+    });
+
+    it('should reject two spellings of the same market', async () => {
+      await expect(
+        service.create({ ...createDto, markets: ['Houston', 'HOU'] }),
+      ).rejects.toThrow('Duplicate markets detected');
+    });
+
+    it('should reject costs for markets outside the campaign', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          ...createDto,
+          costs: [{ category: 'postage', amount: 500, market: 'Dallas' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
     it('should reject duplicate email endpoint', async () => {
       mockRepository.findOne.mockResolvedValue({ id: '123' });
 
@@ -89,6 +168,105 @@ describe('CampaignsService', () => {
     });
   });
 
+  describe('client linking', () => {
+    const createDto: CreateCampaignDto = {
+      name: 'October Campaign',
+      billingNumber: 'TIDE123',
+      dropDate: '2024-10-01',
+      markets: ['Houston'],
+      campaignType: 'acquisition',
+    };
+
+    beforeEach(() => {
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockImplementation((data) => data);
+      mockRepository.save.mockImplementation((data) => Promise.resolve(data));
+    });
+
+    it('should link the client owning the billing number and use its vendor', async () => {
+      const result = await service.create(createDto);
+
+      expect(mockClientsService.findByBillingNumber).toHaveBeenCalledWith(
+        'TIDE123',
+      );
+      expect(result.clientId).toBe('client-1');
+      expect(result.vendorId).toBe('vendor-1');
+      expect(result.vendorEmail).toBe('default-vendor@example.com');
+    });
+
+    it('should link a registered vendor given by email', async () => {
+      mockVendorsService.findByEmail.mockResolvedValueOnce({
+        ...vendor,
+        id: 'vendor-2',
+      });
+      mockVendorsService.findOne.mockResolvedValueOnce({
+        ...vendor,
+        id: 'vendor-2',
+        email: 'other@example.com',
+      });
+
+      const result = await service.create({
+        ...createDto,
+        vendorEmail: 'Other@example.com',
+      });
+
+      expect(result.vendorId).toBe('vendor-2');
+      expect(result.vendorEmail).toBe('other@example.com');
+    });
+
+    it('should keep an unregistered vendor email without a vendor', async () => {
+      const result = await service.create({
+        ...createDto,
+        vendorEmail: 'new-vendor@example.com',
+      });
+
+      expect(result.vendorId).toBeNull();
+      expect(result.vendorEmail).toBe('new-vendor@example.com');
+    });
+
+    it('should reject an inactive vendor', async () => {
+      mockVendorsService.findOne.mockResolvedValueOnce({
+        ...vendor,
+        active: false,
+      });
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject billing numbers without a client', async () => {
+      mockClientsService.findByBillingNumber.mockResolvedValueOnce(null);
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a billing number from another client', async () => {
+      mockClientsService.findOne.mockResolvedValue({
+        ...client,
+        id: 'client-2',
+        billingNumber: 'OTHER1',
+      });
+
+      await expect(
+        service.create({ ...createDto, clientId: 'client-2' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require a vendor when the client has no default', async () => {
+      mockClientsService.findByBillingNumber.mockResolvedValueOnce({
+        ...client,
+        defaultVendorId: null,
+      });
+
+      await expect(service.create(createDto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
   describe('findOne', () => {
     it('should return a campaign if found', async () => {
       const mockCampaign = {
@@ -129,6 +307,21 @@ describe('CampaignsService', () => {
       expect(result.status).toBe('collecting');
     });
 
+    it('should record when a campaign completes', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...mockCampaign,
+        status: 'analyzing',
+        completedAt: null,
+      });
+      mockRepository.save.mockImplementation((campaign) =>
+        Promise.resolve(campaign),
+      );
+
+      const result = await service.update('123', { status: 'complete' });
+
+      expect(result.completedAt).toBeInstanceOf(Date);
+    });
+
     it('should validate status transitions', async () => {
       mockRepository.findOne.mockResolvedValue({
         ...mockCampaign,
@@ -169,11 +362,71 @@ describe('CampaignsService', () => {
     });
   });
 
+  describe('alerts', () => {
+    const bounce = {
+      type: 'email-bounced' as const,
+      message: 'Email to vendor@example.com bounced',
+      outboundEmailId: 'outbound-1',
+    };
+
+    it('should append a new alert', async () => {
+      mockRepository.findOne.mockResolvedValue({ id: '123', alerts: [] });
+
+      const alert = await service.addAlert('123', bounce);
+
+      expect(alert).toEqual({
+        ...bounce,
+        id: expect.any(String),
+        raisedAt: expect.any(Date),
+      });
+      expect(mockRepository.update).toHaveBeenCalledWith('123', {
+        alerts: [alert],
+      });
+    });
+
+    it('should not duplicate an alert for the same email', async () => {
+      const existing = { ...bounce, id: 'alert-1', raisedAt: new Date() };
+      mockRepository.findOne.mockResolvedValue({
+        id: '123',
+        alerts: [existing],
+      });
+
+      const alert = await service.addAlert('123', bounce);
+
+      expect(alert).toBe(existing);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge an alert', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        id: '123',
+        alerts: [{ ...bounce, id: 'alert-1', raisedAt: new Date() }],
+      });
+
+      const alert = await service.acknowledgeAlert('123', 'alert-1');
+
+      expect(alert.acknowledgedAt).toEqual(expect.any(Date));
+      expect(mockRepository.update).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown alert', async () => {
+      mockRepository.findOne.mockResolvedValue({ id: '123', alerts: [] });
+
+      await expect(service.acknowledgeAlert('123', 'missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
   describe('getStats', () => {
     it('should return campaign statistics', async () => {
       const mockCampaigns = [
         { status: 'pending', campaignType: 'acquisition' },
-        { status: 'pending', campaignType: 'winback' },
+        {
+          status: 'matching',
+          campaignType: 'winback',
+          vendorResponseOverdue: true,
+        },
         { status: 'complete', campaignType: 'acquisition' },
       ];
 
@@ -182,10 +435,23 @@ describe('CampaignsService', () => {
       const result = await service.getStats();
 
       expect(result.total).toBe(3);
-      expect(result.byStatus.pending).toBe(2);
+      expect(result.byStatus.pending).toBe(1);
+      expect(result.byStatus.matching).toBe(1);
       expect(result.byStatus.complete).toBe(1);
       expect(result.byType.acquisition).toBe(2);
       expect(result.byType.winback).toBe(1);
+      expect(result.overdueVendorResponses).toBe(1);
+    });
+
+    it("should only count the given client's campaigns", async () => {
+      mockRepository.find.mockResolvedValue([]);
+
+      const result = await service.getStats('client-1');
+
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: { clientId: 'client-1' },
+      });
+      expect(result.clientId).toBe('client-1');
     });
   });
 });
@@ -4,9 +4,18 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import type { CampaignStatus } from '@matchback/types';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import { randomUUID } from 'crypto';
+import type {
+  CampaignAlert,
+  CampaignMarketState,
+  CampaignStatus,
+} from '@matchback/types';
 import { Campaign } from './entities/campaign.entity';
+import { Client } from '../clients/entities/client.entity';
+import { ClientsService } from '../clients/clients.service';
+import { VendorsService } from '../vendors/vendors.service';
+import { MarketsService } from '../markets/markets.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
 
@@ -15,15 +24,35 @@ export class CampaignsService {
   constructor(
     @InjectRepository(Campaign)
     private readonly campaignRepository: Repository<Campaign>,
+    private readonly clientsService: ClientsService,
+    private readonly vendorsService: VendorsService,
+    private readonly marketsService: MarketsService,
   ) {}
 
   /**
    * Create a new campaign with auto-generated email endpoint
    */
   async create(createCampaignDto: CreateCampaignDto): Promise<Campaign> {
+    // Store registry codes so "Houston" and "HOU" are one market
+    const markets = await this.marketsService.canonicalize(
+      createCampaignDto.markets,
+    );
+    const costs = await Promise.all(
+      (createCampaignDto.costs || []).map(async (cost) =>
+        cost.market
+          ? {
+              ...cost,
+              market: (
+                await this.marketsService.canonicalize([cost.market])
+              )[0],
+            }
+          : cost,
+      ),
+    );
+
     // Validate markets (ensure no duplicates)
-    const uniqueMarkets = [...new Set(createCampaignDto.markets)];
-    if (uniqueMarkets.length !== createCampaignDto.markets.length) {
+    const uniqueMarkets = [...new Set(markets)];
+    if (uniqueMarkets.length !== markets.length) {
       throw new BadRequestException('Duplicate markets detected');
     }
 
@@ -39,12 +68,32 @@ export class CampaignsService {
     });
 
     if (existingCampaign) {
-      throw new BadRequestException('Campaign with similar name and billing number already exists');
+      throw new BadRequestException(
+        'Campaign with similar name and billing number already exists',
+      );
     }
 
+    // Market-specific costs must name one of the campaign's markets
+    const unknownCostMarkets = costs
+      .map((cost) => cost.market)
+      .filter((market) => market && !uniqueMarkets.includes(market));
+    if (unknownCostMarkets.length > 0) {
+      throw new BadRequestException(
+        `Cost markets not part of campaign: ${unknownCostMarkets.join(', ')}`,
+      );
+    }
+
+    // Every campaign belongs to a client; vendor defaults from it
+    const client = await this.resolveClient(createCampaignDto);
+    const vendor = await this.resolveVendor(createCampaignDto, client);
+
     // Create campaign entity
     const campaign = this.campaignRepository.create({
       ...createCampaignDto,
+      markets,
+      costs,
+      clientId: client.id,
+      ...vendor,
       emailEndpoint,
       status: 'pending',
       priority: createCampaignDto.priority || 'normal',
@@ -58,18 +107,27 @@ export class CampaignsService {
    * Find all campaigns with optional filtering
    */
   async findAll(filters?: {
+    clientId?: string;
     status?: string;
     market?: string;
     campaignType?: string;
   }): Promise<Campaign[]> {
     const query = this.campaignRepository.createQueryBuilder('campaign');
 
+    if (filters?.clientId) {
+      query.andWhere('campaign.clientId = :clientId', {
+        clientId: filters.clientId,
+      });
+    }
+
     if (filters?.status) {
       query.andWhere('campaign.status = :status', { status: filters.status });
     }
 
     if (filters?.market) {
-      query.andWhere(':market = ANY(campaign.markets)', { market: filters.market });
+      query.andWhere(':market = ANY(campaign.markets)', {
+        market: filters.market,
+      });
     }
 
     if (filters?.campaignType) {
@@ -99,27 +157,88 @@ export class CampaignsService {
     return campaign;
   }
 
+  /**
+   * Throw NotFound unless the campaign belongs to the client
+   * (same error as a missing campaign, so other clients' IDs don't leak)
+   */
+  async assertClientAccess(id: string, clientId: string): Promise<void> {
+    const exists = await this.campaignRepository.exists({
+      where: { id, clientId },
+    });
+
+    if (!exists) {
+      throw new NotFoundException(`Campaign with ID "${id}" not found`);
+    }
+  }
+
   /**
    * Update a campaign
    */
-  async update(id: string, updateCampaignDto: UpdateCampaignDto): Promise<Campaign> {
+  async update(
+    id: string,
+    updateCampaignDto: UpdateCampaignDto,
+  ): Promise<Campaign> {
     const campaign = await this.findOne(id);
 
+    // Cost line items have their own endpoints (CampaignCostsService)
+    if (updateCampaignDto.costs) {
+      throw new BadRequestException(
+        'Costs cannot be changed here; use /campaigns/:id/costs',
+      );
+    }
+
+    // Moving a campaign between clients is not supported
+    if (
+      (updateCampaignDto.clientId &&
+        updateCampaignDto.clientId !== campaign.clientId) ||
+      (updateCampaignDto.billingNumber &&
+        updateCampaignDto.billingNumber !== campaign.billingNumber)
+    ) {
+      throw new BadRequestException(
+        'A campaign cannot be moved to another client',
+      );
+    }
+
+    // Switching vendor keeps the request address in sync with the registry
+    if (updateCampaignDto.vendorId || updateCampaignDto.vendorEmail) {
+      Object.assign(
+        updateCampaignDto,
+        await this.resolveVendor({
+          vendorId: updateCampaignDto.vendorId,
+          vendorEmail: updateCampaignDto.vendorEmail,
+        }),
+      );
+    }
+
     // Validate status transitions
     if (updateCampaignDto.status) {
       this.validateStatusTransition(campaign.status, updateCampaignDto.status);
     }
 
     // Validate markets if updated
+    let markets: string[] | undefined;
     if (updateCampaignDto.markets) {
-      const uniqueMarkets = [...new Set(updateCampaignDto.markets)];
-      if (uniqueMarkets.length !== updateCampaignDto.markets.length) {
+      markets = await this.marketsService.canonicalize(
+        updateCampaignDto.markets,
+      );
+      const uniqueMarkets = [...new Set(markets)];
+      if (uniqueMarkets.length !== markets.length) {
         throw new BadRequestException('Duplicate markets detected');
       }
     }
 
+    // Retention periods run from completion
+    const completing =
+      updateCampaignDto.status === 'complete' && campaign.status !== 'complete';
+
     // Update campaign
     Object.assign(campaign, updateCampaignDto);
+    if (markets) {
+      campaign.markets = markets;
+    }
+    if (completing) {
+      campaign.completedAt = new Date();
+    }
 
     return this.campaignRepository.save(campaign);
   }
@@ -131,6 +250,97 @@ export class CampaignsService {
     return this.update(id, { status });
   }
 
+  /**
+   * Raise an alert on the campaign
+   * Only one alert of a type is kept per outbound email, so repeated
+   * webhook events don't pile up duplicates
+   */
+  async addAlert(
+    id: string,
+    alert: Omit<CampaignAlert, 'id' | 'raisedAt'>,
+  ): Promise<CampaignAlert> {
+    const campaign = await this.campaignRepository.findOne({ where: { id } });
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID "${id}" not found`);
+    }
+
+    const alerts = campaign.alerts ?? [];
+    const existing = alerts.find(
+      (a) =>
+        a.type === alert.type &&
+        alert.outboundEmailId &&
+        a.outboundEmailId === alert.outboundEmailId,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const raised: CampaignAlert = {
+      ...alert,
+      id: randomUUID(),
+      raisedAt: new Date(),
+    };
+    await this.campaignRepository.update(id, { alerts: [...alerts, raised] });
+
+    return raised;
+  }
+
+  /**
+   * Mark an alert as seen
+   */
+  async acknowledgeAlert(id: string, alertId: string): Promise<CampaignAlert> {
+    const campaign = await this.campaignRepository.findOne({ where: { id } });
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID "${id}" not found`);
+    }
+
+    const alerts = campaign.alerts ?? [];
+    const alert = alerts.find((a) => a.id === alertId);
+    if (!alert) {
+      throw new NotFoundException(`Alert with ID "${alertId}" not found`);
+    }
+
+    alert.acknowledgedAt ??= new Date();
+    await this.campaignRepository.update(id, { alerts });
+
+    return alert;
+  }
+
+  /**
+   * Merge a partial update into one market's state
+   * (entries are created by the pipeline's sanitize stage)
+   * The row is locked so updates for other markets are not overwritten
+   */
+  async updateMarketState(
+    id: string,
+    market: string,
+    patch: Partial<Omit<CampaignMarketState, 'market'>>,
+  ): Promise<CampaignMarketState> {
+    return this.campaignRepository.manager.transaction(async (manager) => {
+      const campaigns = manager.getRepository(Campaign);
+      const campaign = await campaigns.findOne({
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!campaign) {
+        throw new NotFoundException(`Campaign with ID "${id}" not found`);
+      }
+
+      const marketStates = campaign.marketStates ?? [];
+      const state = marketStates.find((s) => s.market === market);
+      if (!state) {
+        throw new NotFoundException(
+          `Market "${market}" has not been sanitized for campaign "${id}"`,
+        );
+      }
+
+      Object.assign(state, patch);
+      await campaigns.update(id, { marketStates });
+
+      return state;
+    });
+  }
+
   /**
    * Delete a campaign (soft delete by setting status to 'error')
    */
@@ -163,6 +373,61 @@ export class CampaignsService {
     return `${billingNumber}-${sanitized}-${timestamp}@matchbacktool.com`;
   }
 
+  /**
+   * Client named by clientId, or the owner of the billing number
+   */
+  private async resolveClient(dto: CreateCampaignDto): Promise<Client> {
+    const client = dto.clientId
+      ? await this.clientsService.findOne(dto.clientId)
+      : await this.clientsService.findByBillingNumber(dto.billingNumber);
+
+    if (!client) {
+      throw new BadRequestException(
+        `No client has billing number ${dto.billingNumber}; create the client first`,
+      );
+    }
+
+    if (client.billingNumber !== dto.billingNumber) {
+      throw new BadRequestException(
+        `Billing number ${dto.billingNumber} does not belong to client ${client.name}`,
+      );
+    }
+
+    return client;
+  }
+
+  /**
+   * Vendor named by vendorId, the registered owner of vendorEmail,
+   * or the client's default vendor
+   * (an unregistered vendorEmail is kept with the default file profile)
+   */
+  private async resolveVendor(
+    dto: { vendorId?: string; vendorEmail?: string },
+    client?: Client,
+  ): Promise<{ vendorId: string | null; vendorEmail: string }> {
+    if (!dto.vendorId && dto.vendorEmail) {
+      const registered = await this.vendorsService.findByEmail(dto.vendorEmail);
+      if (!registered) {
+        return { vendorId: null, vendorEmail: dto.vendorEmail };
+      }
+      dto = { vendorId: registered.id };
+    }
+
+    const vendorId = dto.vendorId ?? client?.defaultVendorId;
+    if (!vendorId) {
+      throw new BadRequestException(
+        `A vendor is required (client ${client?.name} has no default vendor)`,
+      );
+    }
+
+    const vendor = await this.vendorsService.findOne(vendorId);
+    if (!vendor.active) {
+      throw new BadRequestException(`Vendor ${vendor.name} is inactive`);
+    }
+
+    return { vendorId: vendor.id, vendorEmail: vendor.email };
+  }
+
   /**
    * Validate status transitions follow the correct state machine
    * pending → collecting → matching → analyzing → complete
@@ -185,35 +450,50 @@ export class CampaignsService {
     if (!allowedNextStates.includes(newStatus) && currentStatus !== newStatus) {
       throw new BadRequestException(
         `Invalid status transition from "${currentStatus}" to "${newStatus}". ` +
-        `Allowed transitions: ${allowedNextStates.join(', ') || 'none'}`,
+          `Allowed transitions: ${allowedNextStates.join(', ') || 'none'}`,
       );
     }
   }
 
   /**
-   * Get campaign statistics
+   * Get campaign statistics, for one client or across all clients
    */
-  async getStats(): Promise<{
+  async getStats(clientId?: string): Promise<{
+    clientId: string | null;
     total: number;
     byStatus: Record<string, number>;
     byType: Record<string, number>;
+    overdueVendorResponses: number;
   }> {
-    const campaigns = await this.campaignRepository.find();
+    const where: FindOptionsWhere<Campaign> = {};
+    if (clientId) where.clientId = clientId;
 
-    const byStatus = campaigns.reduce((acc, campaign) => {
-      acc[campaign.status] = (acc[campaign.status] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    const campaigns = await this.campaignRepository.find({ where });
 
-    const byType = campaigns.reduce((acc, campaign) => {
-      acc[campaign.campaignType] = (acc[campaign.campaignType] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    const byStatus = campaigns.reduce(
+      (acc, campaign) => {
+        acc[campaign.status] = (acc[campaign.status] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    const byType = campaigns.reduce(
+      (acc, campaign) => {
+        acc[campaign.campaignType] = (acc[campaign.campaignType] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
 
     return {
+      clientId: clientId ?? null,
       total: campaigns.length,
       byStatus,
       byType,
+      overdueVendorResponses: campaigns.filter(
+        (campaign) => campaign.vendorResponseOverdue,
+      ).length,
     };
   }
 }
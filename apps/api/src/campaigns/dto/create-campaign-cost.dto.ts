@@ -0,0 +1,40 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  IsNumber,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import type { CampaignCostCategory } from '@matchback/types';
+
+export const CAMPAIGN_COST_CATEGORIES: CampaignCostCategory[] = [
+  'print',
+  'postage',
+  'data',
+  'redrop',
+  'other',
+];
+
+export class CreateCampaignCostDto {
+  @IsIn(CAMPAIGN_COST_CATEGORIES)
+  category: CampaignCostCategory;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount: number;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  market?: string;
+
+  @IsDateString()
+  @IsOptional()
+  incurredOn?: string;
+}
@@ -9,14 +9,23 @@ import {
   IsDateString,
   Min,
   ArrayMinSize,
+  ValidateNested,
+  IsUUID,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import type { CampaignType, Priority } from '@matchback/types';
+import { CreateCampaignCostDto } from './create-campaign-cost.dto';
+import { DuplicateMergeRulesDto } from './duplicate-merge-rules.dto';
 
 export class CreateCampaignDto {
   @IsString()
   @IsNotEmpty()
   name: string;
 
+  @IsUUID()
+  @IsOptional()
+  clientId?: string;
+
   @IsString()
   @IsNotEmpty()
   billingNumber: string;
@@ -45,11 +54,29 @@ export class CreateCampaignDto {
   @IsOptional()
   expectedRecords?: number;
 
+  @IsUUID()
+  @IsOptional()
+  vendorId?: string;
+
   @IsEmail()
-  @IsNotEmpty()
-  vendorEmail: string;
+  @IsOptional()
+  vendorEmail?: string;
 
   @IsString()
   @IsOptional()
   notes?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateCampaignCostDto)
+  @IsOptional()
+  costs?: CreateCampaignCostDto[];
+
+  /**
+   * How duplicate customer rows in the client upload are merged
+   */
+  @ValidateNested()
+  @Type(() => DuplicateMergeRulesDto)
+  @IsOptional()
+  duplicateMergeRules?: DuplicateMergeRulesDto;
 }
@@ -0,0 +1,16 @@
+import { IsIn } from 'class-validator';
+import type { DuplicateMergeStrategy } from '@matchback/types';
+
+export const DUPLICATE_MERGE_STRATEGIES: DuplicateMergeStrategy[] = [
+  'sum',
+  'max',
+  'first',
+];
+
+export class DuplicateMergeRulesDto {
+  @IsIn(DUPLICATE_MERGE_STRATEGIES)
+  totalSales: DuplicateMergeStrategy;
+
+  @IsIn(DUPLICATE_MERGE_STRATEGIES)
+  totalVisits: DuplicateMergeStrategy;
+}
@@ -0,0 +1,36 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  IsNumber,
+  IsDateString,
+  Min,
+} from 'class-validator';
+import type { CampaignCostCategory } from '@matchback/types';
+import { CAMPAIGN_COST_CATEGORIES } from './create-campaign-cost.dto';
+
+export class UpdateCampaignCostDto {
+  @IsIn(CAMPAIGN_COST_CATEGORIES)
+  @IsOptional()
+  category?: CampaignCostCategory;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  amount?: number;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  // null moves the cost back to "shared by all markets"
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  market?: string | null;
+
+  @IsDateString()
+  @IsOptional()
+  incurredOn?: string;
+}
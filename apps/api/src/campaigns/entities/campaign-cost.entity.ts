@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import type { CampaignCostCategory } from '@matchback/types';
+import { Campaign } from './campaign.entity';
+
+/**
+ * Spend line item (print, postage, data, redrop...) on a campaign.
+ * market = NULL means the cost is shared by every campaign market.
+ */
+@Entity('campaign_costs')
+@Index('IDX_campaign_costs_campaignId', ['campaignId'])
+export class CampaignCost {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  campaignId: string;
+
+  @ManyToOne(() => Campaign, (campaign) => campaign.costs, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign;
+
+  @Column({
+    type: 'enum',
+    enum: ['print', 'postage', 'data', 'redrop', 'other'],
+  })
+  category: CampaignCostCategory;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string | null) => (value === null ? null : Number(value)),
+    },
+  })
+  amount: number;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  market: string | null;
+
+  @Column({ type: 'date', nullable: true })
+  incurredOn: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import type { CampaignFileKind } from '@matchback/types';
+import { Campaign } from './campaign.entity';
+
+/**
+ * Registry entry for every file stored for a campaign
+ * (client data, sanitized vendor file, vendor response, report).
+ * The file itself lives in R2 under storageKey, encrypted (see
+ * EncryptionService); size and checksum describe the plaintext.
+ */
+@Entity('campaign_files')
+@Index('IDX_campaign_files_campaignId_kind', ['campaignId', 'kind'])
+export class CampaignFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  campaignId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  kind: CampaignFileKind;
+
+  @Column({ type: 'varchar', length: 500, unique: true })
+  storageKey: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  originalFilename: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  contentType: string;
+
+  @Column({ type: 'int' })
+  size: number;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  market: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  recordCount: number | null;
+
+  @Column({ type: 'varchar', length: 64 })
+  checksum: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  uploadedBy: string | null;
+
+  /**
+   * Key ring key that wraps the file's data key; null for files stored
+   * before encryption at rest
+   */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  encryptionKeyId: string | null;
+
+  @ManyToOne(() => Campaign, (campaign) => campaign.files, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -5,16 +5,30 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
 } from 'typeorm';
 import type {
   CampaignStatus,
   CampaignType,
   Priority,
   CampaignMetrics,
+  CampaignPipelineState,
+  CampaignAlert,
+  VendorFollowUpState,
+  CampaignMarketState,
+  DuplicateMergeRules,
+  CampaignDataPurgeState,
 } from '@matchback/types';
 import { MatchRecord } from './match-record.entity';
+import { CampaignFile } from './campaign-file.entity';
+import { CampaignCost } from './campaign-cost.entity';
+import { Client } from '../../clients/entities/client.entity';
+import { Vendor } from '../../vendors/entities/vendor.entity';
 
 @Entity('campaigns')
+@Index('IDX_campaigns_clientId', ['clientId'])
 export class Campaign {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -22,6 +36,15 @@ export class Campaign {
   @Column({ type: 'varchar', length: 255 })
   name: string;
 
+  @Column({ type: 'uuid' })
+  clientId: string;
+
+  @ManyToOne(() => Client, (client) => client.campaigns, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'clientId' })
+  client: Client;
+
   @Column({ type: 'varchar', length: 100 })
   billingNumber: string;
 
@@ -68,6 +91,16 @@ export class Campaign {
   @Column({ type: 'int', nullable: true })
   expectedRecords: number | null;
 
+  /**
+   * Registered vendor; NULL = unregistered address, default file profile
+   */
+  @Column({ type: 'uuid', nullable: true })
+  vendorId: string | null;
+
+  @ManyToOne(() => Vendor, { onDelete: 'RESTRICT', nullable: true })
+  @JoinColumn({ name: 'vendorId' })
+  vendor: Vendor | null;
+
   @Column({ type: 'varchar', length: 255 })
   vendorEmail: string;
 
@@ -77,9 +110,61 @@ export class Campaign {
   @Column({ type: 'jsonb', nullable: true })
   metrics: CampaignMetrics | null;
 
+  @Column({ type: 'jsonb', nullable: true })
+  pipeline: CampaignPipelineState | null;
+
+  /**
+   * Operational alerts (e.g. bounced vendor email), newest last
+   */
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  alerts: CampaignAlert[];
+
+  /**
+   * Reminder schedule for the outstanding vendor request
+   * (managed by VendorRemindersService)
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  vendorFollowUp: VendorFollowUpState | null;
+
+  @Column({ type: 'boolean', default: false })
+  vendorResponseOverdue: boolean;
+
+  /**
+   * Per-market sanitize/vendor-request/response progress, in upload order
+   */
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  marketStates: CampaignMarketState[];
+
+  /**
+   * How totalSales/totalVisits are combined when a customer appears on
+   * several rows of the client upload (NULL = default rules)
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  duplicateMergeRules: DuplicateMergeRules | null;
+
+  /**
+   * When the campaign reached 'complete'; retention periods run from here
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  /**
+   * What the client's retention policy has removed so far
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  dataPurge: CampaignDataPurgeState | null;
+
   @OneToMany(() => MatchRecord, (record) => record.campaign)
   records: MatchRecord[];
 
+  @OneToMany(() => CampaignFile, (file) => file.campaign)
+  files: CampaignFile[];
+
+  @OneToMany(() => CampaignCost, (cost) => cost.campaign, {
+    cascade: ['insert'],
+  })
+  costs: CampaignCost[];
+
   @CreateDateColumn({ type: 'timestamp' })
   createdAt: Date;
 
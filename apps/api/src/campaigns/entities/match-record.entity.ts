@@ -7,11 +7,21 @@ import {
   ManyToOne,
   JoinColumn,
   Index,
+  BeforeInsert,
+  BeforeUpdate,
 } from 'typeorm';
 import type { CustomerType } from '@matchback/types';
 import { Campaign } from './campaign.entity';
+import {
+  computeEmailBlindIndex,
+  encryptedColumn,
+  encryptedJsonColumn,
+} from '../../encryption/field-encryption';
+import { getProcessKeyRing } from '../../encryption/key-ring';
 
 @Entity('match_records')
+@Index('IDX_match_records_campaignId_market', ['campaignId', 'market'])
+@Index('IDX_match_records_emailBlindIndex', ['emailBlindIndex'])
 export class MatchRecord {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -19,12 +29,25 @@ export class MatchRecord {
   @Column({ type: 'varchar', length: 255, unique: true })
   dcmId: string;
 
-  @Column({ type: 'varchar', length: 255 })
-  customerId: string;
-
+  /**
+   * Client's customer ID; cleared (like the contact details) by the
+   * data retention PII purge
+   */
   @Column({ type: 'varchar', length: 255, nullable: true })
+  customerId: string | null;
+
+  /**
+   * Encrypted at rest; look records up by emailBlindIndex
+   */
+  @Column({ type: 'text', nullable: true, transformer: encryptedColumn })
   emailAddress: string | null;
 
+  /**
+   * HMAC of the normalized email, kept in step with emailAddress on save
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  emailBlindIndex: string | null;
+
   @Column({ type: 'date' })
   signupDate: Date;
 
@@ -43,6 +66,16 @@ export class MatchRecord {
   @Column({ type: 'varchar', length: 255, nullable: true })
   patternOverride: string | null;
 
+  /**
+   * Rule set (and version) that produced inPattern.
+   * NULL id with version 0 = built-in or client default rules.
+   */
+  @Column({ type: 'uuid', nullable: true })
+  patternRuleSetId: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  patternRuleSetVersion: number | null;
+
   @Column({
     type: 'enum',
     enum: ['NEW_SIGNUP', 'NEW_VISITOR', 'WINBACK', 'EXISTING'],
@@ -59,6 +92,15 @@ export class MatchRecord {
   @Column({ type: 'varchar', length: 100 })
   market: string;
 
+  /**
+   * Original client row as uploaded, keyed by DCM_ID.
+   * Lets vendor responses be joined back long after the upload,
+   * across restarts and worker processes.
+   * Holds names and contact details, so it is encrypted at rest.
+   */
+  @Column({ type: 'text', nullable: true, transformer: encryptedJsonColumn })
+  rawData: Record<string, any> | null;
+
   @ManyToOne(() => Campaign, (campaign) => campaign.records, {
     onDelete: 'CASCADE',
   })
@@ -70,4 +112,15 @@ export class MatchRecord {
 
   @UpdateDateColumn({ type: 'timestamp' })
   updatedAt: Date;
+
+  @BeforeInsert()
+  @BeforeUpdate()
+  updateEmailBlindIndex() {
+    if (this.emailAddress !== undefined) {
+      this.emailBlindIndex = computeEmailBlindIndex(
+        getProcessKeyRing(),
+        this.emailAddress,
+      );
+    }
+  }
 }
@@ -0,0 +1,54 @@
+import { ExecutionContext, NotFoundException } from '@nestjs/common';
+import { CampaignAccessGuard } from './campaign-access.guard';
+import { CampaignsService } from '../campaigns.service';
+
+describe('CampaignAccessGuard', () => {
+  const mockCampaignsService = {
+    assertClientAccess: jest.fn(),
+  };
+  const guard = new CampaignAccessGuard(
+    mockCampaignsService as unknown as CampaignsService,
+  );
+
+  const contextFor = (user: any, params: Record<string, string>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ user, params }) }),
+    }) as unknown as ExecutionContext;
+
+  const viewer = { id: 'user-2', role: 'client_viewer', clientId: 'client-1' };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should check client viewers against the campaign owner', async () => {
+    mockCampaignsService.assertClientAccess.mockResolvedValue(undefined);
+
+    await expect(
+      guard.canActivate(contextFor(viewer, { id: 'campaign-1' })),
+    ).resolves.toBe(true);
+    expect(mockCampaignsService.assertClientAccess).toHaveBeenCalledWith(
+      'campaign-1',
+      'client-1',
+    );
+  });
+
+  it("should hide other clients' campaigns", async () => {
+    mockCampaignsService.assertClientAccess.mockRejectedValue(
+      new NotFoundException(),
+    );
+
+    await expect(
+      guard.canActivate(contextFor(viewer, { id: 'campaign-9' })),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should let admins through without a lookup', async () => {
+    await expect(
+      guard.canActivate(
+        contextFor({ id: 'user-1', role: 'admin' }, { id: 'campaign-1' }),
+      ),
+    ).resolves.toBe(true);
+    expect(mockCampaignsService.assertClientAccess).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,31 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import type { AuthUser } from '@matchback/types';
+import { CampaignsService } from '../campaigns.service';
+import { resolveClientScope } from '../../auth/client-scope';
+
+/**
+ * Campaign Access Guard
+ *
+ * For routes under /campaigns/:id - client viewers may only reach
+ * campaigns owned by their client. Admins pass through.
+ */
+@Injectable()
+export class CampaignAccessGuard implements CanActivate {
+  constructor(private readonly campaignsService: CampaignsService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+
+    const campaignId = request.params?.id;
+    const clientId = resolveClientScope(request.user);
+    if (!campaignId || !clientId) {
+      return true;
+    }
+
+    await this.campaignsService.assertClientAccess(campaignId, clientId);
+    return true;
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import type { AuthUser } from '@matchback/types';
+import { ClientsService } from './clients.service';
+import { CreateClientDto } from './dto/create-client.dto';
+import { UpdateClientDto } from './dto/update-client.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { resolveClientScope } from '../auth/client-scope';
+
+@Controller('clients')
+export class ClientsController {
+  constructor(private readonly clientsService: ClientsService) {}
+
+  /**
+   * POST /clients
+   * Create a client
+   */
+  @Roles('admin')
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreateClientDto) {
+    return this.clientsService.create(dto);
+  }
+
+  /**
+   * GET /clients
+   * List clients
+   */
+  @Roles('admin')
+  @Get()
+  async findAll() {
+    return this.clientsService.findAll();
+  }
+
+  /**
+   * GET /clients/:id
+   * Client viewers may only read their own client
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    const scope = resolveClientScope(user);
+    if (scope && scope !== id) {
+      throw new NotFoundException(`Client ${id} not found`);
+    }
+    return this.clientsService.findOne(id);
+  }
+
+  /**
+   * PATCH /clients/:id
+   * Update contacts, default vendor, pattern defaults or branding
+   */
+  @Roles('admin')
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateClientDto) {
+    return this.clientsService.update(id, dto);
+  }
+}
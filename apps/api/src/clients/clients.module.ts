@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ClientsService } from './clients.service';
+import { ClientsController } from './clients.controller';
+import { Client } from './entities/client.entity';
+import { VendorsModule } from '../vendors/vendors.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Client]), VendorsModule],
+  controllers: [ClientsController],
+  providers: [ClientsService],
+  exports: [ClientsService],
+})
+export class ClientsModule {}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ClientsService } from './clients.service';
+import { Client } from './entities/client.entity';
+import { VendorsService } from '../vendors/vendors.service';
+
+describe('ClientsService', () => {
+  let service: ClientsService;
+
+  const mockClientRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'client-1', ...data })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockVendorsService = {
+    findOne: jest.fn((id: string) => Promise.resolve({ id, active: true })),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClientsService,
+        { provide: getRepositoryToken(Client), useValue: mockClientRepository },
+        { provide: VendorsService, useValue: mockVendorsService },
+      ],
+    }).compile();
+
+    service = module.get<ClientsService>(ClientsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a client with no contacts by default', async () => {
+      mockClientRepository.findOne.mockResolvedValue(null);
+
+      const client = await service.create({
+        name: 'Tide',
+        billingNumber: 'TIDE123',
+        defaultVendorId: 'vendor-1',
+      });
+
+      expect(client).toEqual(
+        expect.objectContaining({
+          id: 'client-1',
+          billingNumber: 'TIDE123',
+          contacts: [],
+          defaultVendorId: 'vendor-1',
+        }),
+      );
+    });
+
+    it('should reject an inactive default vendor', async () => {
+      mockClientRepository.findOne.mockResolvedValue(null);
+      mockVendorsService.findOne.mockResolvedValueOnce({
+        id: 'vendor-1',
+        active: false,
+      });
+
+      await expect(
+        service.create({
+          name: 'Tide',
+          billingNumber: 'TIDE123',
+          defaultVendorId: 'vendor-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a billing number owned by another client', async () => {
+      mockClientRepository.findOne.mockResolvedValue({
+        id: 'client-2',
+        name: 'Other',
+      });
+
+      await expect(
+        service.create({ name: 'Tide', billingNumber: 'TIDE123' }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should replace branding and pattern defaults', async () => {
+      mockClientRepository.findOne.mockResolvedValue({
+        id: 'client-1',
+        name: 'Tide',
+        branding: null,
+        patternDefaults: null,
+      });
+
+      const client = await service.update('client-1', {
+        branding: { primaryColor: '#667eea' },
+        patternDefaults: { visitThreshold: 4 },
+      });
+
+      expect(client.branding).toEqual({ primaryColor: '#667eea' });
+      expect(client.patternDefaults).toEqual({ visitThreshold: 4 });
+    });
+
+    it('should throw for unknown clients', async () => {
+      mockClientRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.update('missing', { name: 'X' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Client } from './entities/client.entity';
+import { CreateClientDto } from './dto/create-client.dto';
+import { UpdateClientDto } from './dto/update-client.dto';
+import { VendorsService } from '../vendors/vendors.service';
+
+/**
+ * Clients Service
+ *
+ * Manages the brands campaigns are run for:
+ * - Contacts and branding
+ * - Default vendor for new campaigns (from the vendor registry)
+ * - Default pattern settings (below campaign/client rule sets)
+ * - Data retention policy for completed campaigns (DataRetentionService)
+ *
+ * Each client has exactly one billing number; campaigns created with
+ * that billing number are linked to the client automatically.
+ */
+@Injectable()
+export class ClientsService {
+  private readonly logger = new Logger(ClientsService.name);
+
+  constructor(
+    @InjectRepository(Client)
+    private readonly clientRepository: Repository<Client>,
+    private readonly vendorsService: VendorsService,
+  ) {}
+
+  /**
+   * Create a client
+   */
+  async create(dto: CreateClientDto): Promise<Client> {
+    const existing = await this.findByBillingNumber(dto.billingNumber);
+    if (existing) {
+      throw new ConflictException(
+        `Billing number ${dto.billingNumber} already belongs to ${existing.name}`,
+      );
+    }
+    await this.assertUsableVendor(dto.defaultVendorId);
+
+    const client = this.clientRepository.create({
+      ...dto,
+      contacts: dto.contacts ?? [],
+    });
+    const saved = await this.clientRepository.save(client);
+
+    this.logger.log(`Client ${saved.name} (${saved.billingNumber}) created`);
+    return saved;
+  }
+
+  /**
+   * List clients
+   */
+  async findAll(): Promise<Client[]> {
+    return this.clientRepository.find({ order: { name: 'ASC' } });
+  }
+
+  /**
+   * Get a client by ID
+   */
+  async findOne(id: string): Promise<Client> {
+    const client = await this.clientRepository.findOne({ where: { id } });
+    if (!client) {
+      throw new NotFoundException(`Client ${id} not found`);
+    }
+    return client;
+  }
+
+  /**
+   * Look up the client that owns a billing number
+   */
+  async findByBillingNumber(billingNumber: string): Promise<Client | null> {
+    return this.clientRepository.findOne({ where: { billingNumber } });
+  }
+
+  /**
+   * Update contacts, vendor, pattern defaults, branding or retention
+   */
+  async update(id: string, dto: UpdateClientDto): Promise<Client> {
+    const client = await this.findOne(id);
+    if (dto.defaultVendorId !== client.defaultVendorId) {
+      await this.assertUsableVendor(dto.defaultVendorId);
+    }
+    Object.assign(client, dto);
+    return this.clientRepository.save(client);
+  }
+
+  /**
+   * A default vendor must be registered and active
+   */
+  private async assertUsableVendor(
+    vendorId: string | null | undefined,
+  ): Promise<void> {
+    if (!vendorId) return;
+
+    const vendor = await this.vendorsService
+      .findOne(vendorId)
+      .catch(() => null);
+    if (!vendor || !vendor.active) {
+      throw new BadRequestException(
+        `Vendor ${vendorId} is not registered or is inactive`,
+      );
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsUUID,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsUrl,
+  IsHexColor,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type {
+  PatternCorrectionType,
+  PatternDetectionMode,
+} from '@matchback/types';
+import {
+  PATTERN_CORRECTIONS,
+  PATTERN_DETECTION_MODES,
+} from '../../patterns/pattern-rule-sets.service';
+
+export class ClientContactDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsString()
+  @IsOptional()
+  role?: string;
+}
+
+export class ClientBrandingDto {
+  @IsString()
+  @IsOptional()
+  displayName?: string;
+
+  @IsUrl()
+  @IsOptional()
+  logoUrl?: string;
+
+  @IsHexColor()
+  @IsOptional()
+  primaryColor?: string;
+}
+
+export class ClientPatternDefaultsDto {
+  @IsIn(PATTERN_DETECTION_MODES)
+  @IsOptional()
+  mode?: PatternDetectionMode;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  visitThreshold?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  windowDays?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  requireVisit1Date?: boolean;
+
+  @IsArray()
+  @IsIn(PATTERN_CORRECTIONS, { each: true })
+  @IsOptional()
+  corrections?: PatternCorrectionType[];
+}
+
+/**
+ * null for a period keeps that data until it is removed by hand
+ */
+export class ClientRetentionPolicyDto {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  rawFilesDays: number | null;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  piiDays: number | null;
+}
+
+export class CreateClientDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  billingNumber: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ClientContactDto)
+  @IsOptional()
+  contacts?: ClientContactDto[];
+
+  @IsUUID()
+  @IsOptional()
+  defaultVendorId?: string;
+
+  @ValidateNested()
+  @Type(() => ClientPatternDefaultsDto)
+  @IsOptional()
+  patternDefaults?: ClientPatternDefaultsDto;
+
+  @ValidateNested()
+  @Type(() => ClientBrandingDto)
+  @IsOptional()
+  branding?: ClientBrandingDto;
+
+  @ValidateNested()
+  @Type(() => ClientRetentionPolicyDto)
+  @IsOptional()
+  retentionPolicy?: ClientRetentionPolicyDto;
+}
@@ -0,0 +1,50 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ClientContactDto,
+  ClientBrandingDto,
+  ClientPatternDefaultsDto,
+  ClientRetentionPolicyDto,
+} from './create-client.dto';
+
+/**
+ * Billing number is fixed once campaigns reference it
+ */
+export class UpdateClientDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ClientContactDto)
+  @IsOptional()
+  contacts?: ClientContactDto[];
+
+  @IsUUID()
+  @IsOptional()
+  defaultVendorId?: string | null;
+
+  @ValidateNested()
+  @Type(() => ClientPatternDefaultsDto)
+  @IsOptional()
+  patternDefaults?: ClientPatternDefaultsDto | null;
+
+  @ValidateNested()
+  @Type(() => ClientBrandingDto)
+  @IsOptional()
+  branding?: ClientBrandingDto | null;
+
+  @ValidateNested()
+  @Type(() => ClientRetentionPolicyDto)
+  @IsOptional()
+  retentionPolicy?: ClientRetentionPolicyDto | null;
+}
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import type {
+  ClientContact,
+  ClientBranding,
+  ClientPatternDefaults,
+  ClientRetentionPolicy,
+} from '@matchback/types';
+import { Campaign } from '../../campaigns/entities/campaign.entity';
+import { Vendor } from '../../vendors/entities/vendor.entity';
+
+/**
+ * A brand we run matchback campaigns for. Owns its campaigns and
+ * client-viewer accounts; one billing number per client.
+ */
+@Entity('clients')
+export class Client {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  billingNumber: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  contacts: ClientContact[];
+
+  /**
+   * Vendor used for new campaigns that don't name one
+   */
+  @Column({ type: 'uuid', nullable: true })
+  defaultVendorId: string | null;
+
+  @ManyToOne(() => Vendor, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'defaultVendorId' })
+  defaultVendor: Vendor | null;
+
+  /**
+   * Pattern settings used when no campaign or client rule set exists
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  patternDefaults: ClientPatternDefaults | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  branding: ClientBranding | null;
+
+  /**
+   * How long completed campaign data is kept (NULL = default policy)
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  retentionPolicy: ClientRetentionPolicy | null;
+
+  @OneToMany(() => Campaign, (campaign) => campaign.client)
+  campaigns: Campaign[];
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
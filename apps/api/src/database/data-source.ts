@@ -2,7 +2,19 @@ import { DataSource } from 'typeorm';
 import { config } from 'dotenv';
 import { Campaign } from '../campaigns/entities/campaign.entity';
 import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { CampaignCost } from '../campaigns/entities/campaign-cost.entity';
 import { User } from '../users/entities/user.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Vendor } from '../vendors/entities/vendor.entity';
+import { Market } from '../markets/entities/market.entity';
+import { UnresolvedMarketValue } from '../markets/entities/unresolved-market-value.entity';
+import { DcmIdRegistration } from '../matching/entities/dcm-id-registration.entity';
+import { LoginToken } from '../auth/entities/login-token.entity';
+import { ColumnMappingProfile } from '../file-processing/entities/column-mapping-profile.entity';
+import { PatternRuleSet } from '../patterns/entities/pattern-rule-set.entity';
+import { InboundEmailEvent } from '../email/entities/inbound-email-event.entity';
+import { OutboundEmail } from '../email/entities/outbound-email.entity';
 
 config();
 
@@ -13,7 +25,23 @@ export const AppDataSource = new DataSource({
   username: process.env.DATABASE_USER || 'matchback',
   password: process.env.DATABASE_PASSWORD || 'matchback_dev_password',
   database: process.env.DATABASE_NAME || 'matchback_db',
-  entities: [Campaign, MatchRecord, User],
+  entities: [
+    Campaign,
+    MatchRecord,
+    CampaignFile,
+    CampaignCost,
+    User,
+    Client,
+    Vendor,
+    LoginToken,
+    ColumnMappingProfile,
+    PatternRuleSet,
+    InboundEmailEvent,
+    OutboundEmail,
+    Market,
+    UnresolvedMarketValue,
+    DcmIdRegistration,
+  ],
   migrations: ['src/database/migrations/*.ts'],
   synchronize: false, // Use migrations in production
   logging: process.env.NODE_ENV === 'development',
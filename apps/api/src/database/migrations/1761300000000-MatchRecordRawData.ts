@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MatchRecordRawData1761300000000 implements MigrationInterface {
+  name = 'MatchRecordRawData1761300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Store the original client row so DCM_ID mappings survive restarts
+    await queryRunner.query(`ALTER TABLE "match_records" ADD "rawData" jsonb`);
+
+    // Vendor responses are loaded back per campaign and market
+    await queryRunner.query(
+      `CREATE INDEX "IDX_match_records_campaignId_market" ON "match_records" ("campaignId", "market")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_match_records_campaignId_market"`);
+    await queryRunner.query(
+      `ALTER TABLE "match_records" DROP COLUMN "rawData"`,
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CampaignFiles1761300100000 implements MigrationInterface {
+  name = 'CampaignFiles1761300100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Registry of every file stored for a campaign
+    await queryRunner.query(`
+      CREATE TABLE "campaign_files" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "campaignId" uuid NOT NULL,
+        "kind" varchar(20) NOT NULL,
+        "storageKey" varchar(500) NOT NULL UNIQUE,
+        "originalFilename" varchar(255) NOT NULL,
+        "contentType" varchar(255) NOT NULL,
+        "size" int NOT NULL,
+        "market" varchar(100),
+        "recordCount" int,
+        "checksum" varchar(64) NOT NULL,
+        "uploadedBy" varchar(255),
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_campaign_files_campaignId_kind" ON "campaign_files" ("campaignId", "kind")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_campaign_files_campaignId_kind"`);
+    await queryRunner.query(`DROP TABLE "campaign_files"`);
+  }
+}
@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CampaignPipelineState1761300200000 implements MigrationInterface {
+  name = 'CampaignPipelineState1761300200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Tracks matchback pipeline progress so failed runs can resume
+    await queryRunner.query(`ALTER TABLE "campaigns" ADD "pipeline" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "campaigns" DROP COLUMN "pipeline"`);
+  }
+}
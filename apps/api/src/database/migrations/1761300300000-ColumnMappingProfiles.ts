@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ColumnMappingProfiles1761300300000 implements MigrationInterface {
+  name = 'ColumnMappingProfiles1761300300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-client mapping of source headers to ClientDataRow fields
+    await queryRunner.query(`
+      CREATE TABLE "column_mapping_profiles" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "billingNumber" varchar(100) NOT NULL,
+        "name" varchar(255) NOT NULL,
+        "mappings" jsonb NOT NULL,
+        "lastUsedAt" timestamp,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        "updatedAt" timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_column_mapping_profiles_billingNumber" ON "column_mapping_profiles" ("billingNumber")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_column_mapping_profiles_billingNumber"`,
+    );
+    await queryRunner.query(`DROP TABLE "column_mapping_profiles"`);
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class PatternRuleSets1761300400000 implements MigrationInterface {
+  name = 'PatternRuleSets1761300400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Versioned pattern rules per campaign or client
+    await queryRunner.query(`
+      CREATE TABLE "pattern_rule_sets" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(255) NOT NULL,
+        "version" int NOT NULL,
+        "campaignId" uuid,
+        "billingNumber" varchar(100),
+        "visitThreshold" int NOT NULL DEFAULT 3,
+        "windowDays" int NOT NULL DEFAULT 30,
+        "requireVisit1Date" boolean NOT NULL DEFAULT true,
+        "corrections" jsonb NOT NULL,
+        "createdBy" varchar(255),
+        "createdAt" timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_pattern_rule_sets_campaignId" ON "pattern_rule_sets" ("campaignId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_pattern_rule_sets_billingNumber" ON "pattern_rule_sets" ("billingNumber")`,
+    );
+
+    // Rules that produced each record's pattern result (NULL id = built-in defaults)
+    await queryRunner.query(`
+      ALTER TABLE "match_records"
+        ADD COLUMN "patternRuleSetId" uuid,
+        ADD COLUMN "patternRuleSetVersion" int
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "match_records"
+        DROP COLUMN "patternRuleSetVersion",
+        DROP COLUMN "patternRuleSetId"
+    `);
+    await queryRunner.query(`DROP INDEX "IDX_pattern_rule_sets_billingNumber"`);
+    await queryRunner.query(`DROP INDEX "IDX_pattern_rule_sets_campaignId"`);
+    await queryRunner.query(`DROP TABLE "pattern_rule_sets"`);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class PatternRuleSetMode1761300500000 implements MigrationInterface {
+  name = 'PatternRuleSetMode1761300500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 'visit-count' (existing behaviour) or 'visit-cadence'
+    await queryRunner.query(
+      `ALTER TABLE "pattern_rule_sets" ADD "mode" varchar(20) NOT NULL DEFAULT 'visit-count'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "pattern_rule_sets" DROP COLUMN "mode"`,
+    );
+  }
+}
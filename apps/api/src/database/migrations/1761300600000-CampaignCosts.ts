@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CampaignCosts1761300600000 implements MigrationInterface {
+  name = 'CampaignCosts1761300600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Spend line items per campaign (market NULL = shared by all markets)
+    await queryRunner.query(`
+      CREATE TABLE "campaign_costs" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "campaignId" uuid NOT NULL,
+        "category" varchar(20) NOT NULL,
+        "description" varchar(255),
+        "amount" decimal(12,2) NOT NULL,
+        "market" varchar(100),
+        "incurredOn" date,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        "updatedAt" timestamp NOT NULL DEFAULT now(),
+        FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_campaign_costs_campaignId" ON "campaign_costs" ("campaignId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_campaign_costs_campaignId"`);
+    await queryRunner.query(`DROP TABLE "campaign_costs"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Auth1761300700000 implements MigrationInterface {
+  name = 'Auth1761300700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Password login (NULL = magic link only)
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD COLUMN "passwordHash" varchar(255)`,
+    );
+
+    // One-time magic-link tokens (hash only)
+    await queryRunner.query(`
+      CREATE TABLE "login_tokens" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "tokenHash" varchar(64) NOT NULL UNIQUE,
+        "expiresAt" timestamp NOT NULL,
+        "usedAt" timestamp,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_login_tokens_userId" ON "login_tokens" ("userId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_login_tokens_userId"`);
+    await queryRunner.query(`DROP TABLE "login_tokens"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "passwordHash"`);
+  }
+}
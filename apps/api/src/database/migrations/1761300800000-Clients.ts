@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Clients1761300800000 implements MigrationInterface {
+  name = 'Clients1761300800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Brands that own campaigns and client-viewer accounts
+    await queryRunner.query(`
+      CREATE TABLE "clients" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(255) NOT NULL,
+        "billingNumber" varchar(100) NOT NULL UNIQUE,
+        "contacts" jsonb NOT NULL DEFAULT '[]',
+        "defaultVendorEmail" varchar(255),
+        "defaultVendorName" varchar(255),
+        "patternDefaults" jsonb,
+        "branding" jsonb,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        "updatedAt" timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    // One client per billing number already in use; the most recent
+    // campaign's vendor becomes the default
+    await queryRunner.query(`
+      INSERT INTO "clients" ("name", "billingNumber", "defaultVendorEmail")
+      SELECT DISTINCT ON ("billingNumber") "billingNumber", "billingNumber", "vendorEmail"
+      FROM "campaigns"
+      ORDER BY "billingNumber", "createdAt" DESC
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "clientId" uuid`,
+    );
+    await queryRunner.query(`
+      UPDATE "campaigns" SET "clientId" = "clients"."id"
+      FROM "clients"
+      WHERE "clients"."billingNumber" = "campaigns"."billingNumber"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ALTER COLUMN "clientId" SET NOT NULL`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "campaigns" ADD CONSTRAINT "FK_campaigns_clientId"
+      FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE RESTRICT
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_campaigns_clientId" ON "campaigns" ("clientId")`,
+    );
+
+    // Client viewers belong to one client (admins have none)
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN "clientId" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "users" ADD CONSTRAINT "FK_users_clientId"
+      FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP CONSTRAINT "FK_users_clientId"`,
+    );
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "clientId"`);
+    await queryRunner.query(`DROP INDEX "IDX_campaigns_clientId"`);
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" DROP CONSTRAINT "FK_campaigns_clientId"`,
+    );
+    await queryRunner.query(`ALTER TABLE "campaigns" DROP COLUMN "clientId"`);
+    await queryRunner.query(`DROP TABLE "clients"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InboundEmailEvents1761300900000 implements MigrationInterface {
+  name = 'InboundEmailEvents1761300900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Verified inbound webhook deliveries and their processing outcome
+    await queryRunner.query(`
+      CREATE TABLE "inbound_email_events" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "messageId" varchar(255) NOT NULL UNIQUE,
+        "eventType" varchar(100) NOT NULL,
+        "fromAddress" varchar(255),
+        "subject" varchar(500),
+        "payload" jsonb NOT NULL,
+        "campaignId" uuid,
+        "status" varchar(20) NOT NULL DEFAULT 'received',
+        "error" text,
+        "result" jsonb,
+        "attempts" int NOT NULL DEFAULT 0,
+        "signedAt" timestamp NOT NULL,
+        "processedAt" timestamp,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inbound_email_events_status" ON "inbound_email_events" ("status")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_inbound_email_events_status"`);
+    await queryRunner.query(`DROP TABLE "inbound_email_events"`);
+  }
+}
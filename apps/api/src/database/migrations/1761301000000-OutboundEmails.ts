@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class OutboundEmails1761301000000 implements MigrationInterface {
+  name = 'OutboundEmails1761301000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Sent emails and their delivery lifecycle from the status webhook
+    await queryRunner.query(`
+      CREATE TABLE "outbound_emails" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "providerId" varchar(255) UNIQUE,
+        "kind" varchar(20) NOT NULL,
+        "campaignId" uuid,
+        "toAddress" varchar(255) NOT NULL,
+        "subject" varchar(500) NOT NULL,
+        "status" varchar(20) NOT NULL DEFAULT 'sent',
+        "error" text,
+        "events" jsonb NOT NULL DEFAULT '[]',
+        "deliveredAt" timestamp,
+        "openedAt" timestamp,
+        "bouncedAt" timestamp,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        "updatedAt" timestamp NOT NULL DEFAULT now(),
+        FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_outbound_emails_campaignId" ON "outbound_emails" ("campaignId")`,
+    );
+
+    // Bounce and delivery-delay alerts raised from the status webhook
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "alerts" jsonb NOT NULL DEFAULT '[]'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "campaigns" DROP COLUMN "alerts"`);
+    await queryRunner.query(`DROP INDEX "IDX_outbound_emails_campaignId"`);
+    await queryRunner.query(`DROP TABLE "outbound_emails"`);
+  }
+}
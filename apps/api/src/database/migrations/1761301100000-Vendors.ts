@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class Vendors1761301100000 implements MigrationInterface {
+  name = 'Vendors1761301100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Matching vendors and the file conventions they use
+    await queryRunner.query(`
+      CREATE TABLE "vendors" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(255) NOT NULL,
+        "email" varchar(255) NOT NULL UNIQUE,
+        "contacts" jsonb NOT NULL DEFAULT '[]',
+        "acceptedFormats" text NOT NULL,
+        "dcmIdColumn" varchar(100) NOT NULL DEFAULT 'DCM_ID',
+        "matchColumn" varchar(100) NOT NULL DEFAULT 'Match',
+        "matchedValues" text NOT NULL,
+        "unmatchedValues" text NOT NULL,
+        "allowedFields" text NOT NULL,
+        "active" boolean NOT NULL DEFAULT true,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        "updatedAt" timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    // Register every vendor address already in use with the original
+    // fixed file format; client default names are kept where known
+    await queryRunner.query(`
+      INSERT INTO "vendors" ("name", "email", "acceptedFormats", "matchedValues", "unmatchedValues", "allowedFields")
+      SELECT DISTINCT ON (lower("email")) COALESCE("name", "email"), lower("email"),
+        'xlsx', 'Y,YES,1,TRUE', 'N,NO,0,FALSE', 'name,email,address,phone'
+      FROM (
+        SELECT "defaultVendorEmail" AS "email", "defaultVendorName" AS "name"
+        FROM "clients" WHERE "defaultVendorEmail" IS NOT NULL
+        UNION ALL
+        SELECT "vendorEmail", NULL FROM "campaigns"
+      ) AS "addresses"
+      ORDER BY lower("email"), "name" NULLS LAST
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "campaigns" ADD COLUMN "vendorId" uuid
+      REFERENCES "vendors"("id") ON DELETE RESTRICT
+    `);
+    await queryRunner.query(`
+      UPDATE "campaigns" SET "vendorId" = "vendors"."id"
+      FROM "vendors"
+      WHERE "vendors"."email" = lower("campaigns"."vendorEmail")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "clients" ADD COLUMN "defaultVendorId" uuid
+      REFERENCES "vendors"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(`
+      UPDATE "clients" SET "defaultVendorId" = "vendors"."id"
+      FROM "vendors"
+      WHERE "vendors"."email" = lower("clients"."defaultVendorEmail")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "clients" DROP COLUMN "defaultVendorEmail",
+        DROP COLUMN "defaultVendorName"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "clients" ADD COLUMN "defaultVendorEmail" varchar(255),
+        ADD COLUMN "defaultVendorName" varchar(255)
+    `);
+    await queryRunner.query(`
+      UPDATE "clients" SET "defaultVendorEmail" = "vendors"."email",
+        "defaultVendorName" = "vendors"."name"
+      FROM "vendors"
+      WHERE "vendors"."id" = "clients"."defaultVendorId"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "clients" DROP COLUMN "defaultVendorId"`,
+    );
+    await queryRunner.query(`ALTER TABLE "campaigns" DROP COLUMN "vendorId"`);
+    await queryRunner.query(`DROP TABLE "vendors"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class VendorFollowUps1761301200000 implements MigrationInterface {
+  name = 'VendorFollowUps1761301200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Business days each vendor has to return a match file
+    await queryRunner.query(
+      `ALTER TABLE "vendors" ADD COLUMN "responseSlaDays" int NOT NULL DEFAULT 3`,
+    );
+
+    // Reminder schedule for the outstanding vendor request
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "vendorFollowUp" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "vendorResponseOverdue" boolean NOT NULL DEFAULT false`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" DROP COLUMN "vendorResponseOverdue"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" DROP COLUMN "vendorFollowUp"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vendors" DROP COLUMN "responseSlaDays"`,
+    );
+  }
+}
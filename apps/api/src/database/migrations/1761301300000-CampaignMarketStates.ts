@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CampaignMarketStates1761301300000 implements MigrationInterface {
+  name = 'CampaignMarketStates1761301300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-market DCM_ID range, sanitized file and vendor request status
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "marketStates" jsonb NOT NULL DEFAULT '[]'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" DROP COLUMN "marketStates"`,
+    );
+  }
+}
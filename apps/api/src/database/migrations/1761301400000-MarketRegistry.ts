@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MarketRegistry1761301400000 implements MigrationInterface {
+  name = 'MarketRegistry1761301400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Canonical markets with aliases, ZIP prefixes and time zones
+    await queryRunner.query(`
+      CREATE TABLE "markets" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "code" varchar(20) NOT NULL UNIQUE,
+        "name" varchar(100) NOT NULL,
+        "aliases" jsonb NOT NULL DEFAULT '[]',
+        "zipPrefixes" jsonb NOT NULL DEFAULT '[]',
+        "timezone" varchar(64),
+        "active" boolean NOT NULL DEFAULT true,
+        "createdAt" timestamp NOT NULL DEFAULT now(),
+        "updatedAt" timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    // Market values from uploads awaiting an admin decision
+    await queryRunner.query(`
+      CREATE TABLE "unresolved_market_values" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "value" varchar(255) NOT NULL,
+        "normalizedValue" varchar(255) NOT NULL,
+        "campaignId" uuid NOT NULL REFERENCES "campaigns"("id") ON DELETE CASCADE,
+        "occurrences" int NOT NULL DEFAULT 0,
+        "firstSeenAt" timestamp NOT NULL,
+        "lastSeenAt" timestamp NOT NULL,
+        "resolvedMarketCode" varchar(20),
+        "resolvedBy" uuid,
+        "resolvedAt" timestamp
+      )
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_unresolved_market_values_campaign_value"
+      ON "unresolved_market_values" ("campaignId", "normalizedValue")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "unresolved_market_values"`);
+    await queryRunner.query(`DROP TABLE "markets"`);
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CampaignDuplicateMergeRules1761301500000
+  implements MigrationInterface
+{
+  name = 'CampaignDuplicateMergeRules1761301500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // How duplicate client rows are merged (NULL = default rules)
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "duplicateMergeRules" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" DROP COLUMN "duplicateMergeRules"`,
+    );
+  }
+}
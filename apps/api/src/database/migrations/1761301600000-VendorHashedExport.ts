@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class VendorHashedExport1761301600000 implements MigrationInterface {
+  name = 'VendorHashedExport1761301600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Vendors that only accept hashed identifiers
+    await queryRunner.query(
+      `ALTER TABLE "vendors" ADD COLUMN "exportMode" varchar(20) NOT NULL DEFAULT 'plaintext'`,
+    );
+    await queryRunner.query(`ALTER TABLE "vendors" ADD COLUMN "hashing" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vendors" DROP COLUMN "hashing"`);
+    await queryRunner.query(`ALTER TABLE "vendors" DROP COLUMN "exportMode"`);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class VendorSharingPolicy1761301700000 implements MigrationInterface {
+  name = 'VendorSharingPolicy1761301700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Data-sharing agreement terms; NULL = default policy
+    await queryRunner.query(
+      `ALTER TABLE "vendors" ADD COLUMN "sharingPolicy" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "vendors" DROP COLUMN "sharingPolicy"`,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DcmIdRegistry1761301800000 implements MigrationInterface {
+  name = 'DcmIdRegistry1761301800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Opaque DCM_ID -> campaign, market and row
+    await queryRunner.query(`
+      CREATE TABLE "dcm_id_registry" (
+        "dcmId" varchar(20) PRIMARY KEY,
+        "campaignId" uuid NOT NULL REFERENCES "campaigns"("id") ON DELETE CASCADE,
+        "market" varchar(100) NOT NULL,
+        "sequence" int NOT NULL,
+        "createdAt" timestamp NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dcm_id_registry_campaignId_market" ON "dcm_id_registry" ("campaignId", "market")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "dcm_id_registry"`);
+  }
+}
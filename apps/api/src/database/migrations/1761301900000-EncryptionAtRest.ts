@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EncryptionAtRest1761301900000 implements MigrationInterface {
+  name = 'EncryptionAtRest1761301900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Key that wraps each file's data key; NULL = stored before encryption
+    await queryRunner.query(
+      `ALTER TABLE "campaign_files" ADD COLUMN "encryptionKeyId" varchar(50)`,
+    );
+
+    // Encrypted values are longer than the plaintext and cannot be indexed
+    await queryRunner.query(`DROP INDEX "IDX_match_records_emailAddress"`);
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ALTER COLUMN "emailAddress" TYPE text`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ALTER COLUMN "rawData" TYPE text USING "rawData"::text`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ADD COLUMN "emailBlindIndex" varchar(64)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_match_records_emailBlindIndex" ON "match_records" ("emailBlindIndex")`,
+    );
+    // Existing rows stay readable as plaintext until the key rotation job
+    // encrypts them and fills in their blind index
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Only reversible while no row has been encrypted
+    await queryRunner.query(`DROP INDEX "IDX_match_records_emailBlindIndex"`);
+    await queryRunner.query(
+      `ALTER TABLE "match_records" DROP COLUMN "emailBlindIndex"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ALTER COLUMN "rawData" TYPE jsonb USING "rawData"::jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ALTER COLUMN "emailAddress" TYPE varchar(255)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_match_records_emailAddress" ON "match_records" ("emailAddress")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaign_files" DROP COLUMN "encryptionKeyId"`,
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DataRetention1761302000000 implements MigrationInterface {
+  name = 'DataRetention1761302000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Retention periods per client; NULL = default policy
+    await queryRunner.query(
+      `ALTER TABLE "clients" ADD COLUMN "retentionPolicy" jsonb`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "completedAt" timestamp`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" ADD COLUMN "dataPurge" jsonb`,
+    );
+
+    // Best available completion date for campaigns completed before now
+    await queryRunner.query(
+      `UPDATE "campaigns" SET "completedAt" = "updatedAt" WHERE "status" = 'complete'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "campaigns" DROP COLUMN "dataPurge"`);
+    await queryRunner.query(
+      `ALTER TABLE "campaigns" DROP COLUMN "completedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "clients" DROP COLUMN "retentionPolicy"`,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EncryptInboundEmailPayload1761302100000
+  implements MigrationInterface
+{
+  name = 'EncryptInboundEmailPayload1761302100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Existing payloads stay readable as plaintext until the key rotation
+    // job encrypts them
+    await queryRunner.query(
+      `ALTER TABLE "inbound_email_events" ALTER COLUMN "payload" TYPE text USING "payload"::text`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Only reversible while no payload has been encrypted
+    await queryRunner.query(
+      `ALTER TABLE "inbound_email_events" ALTER COLUMN "payload" TYPE jsonb USING "payload"::jsonb`,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NullableMatchRecordCustomerId1761302200000
+  implements MigrationInterface
+{
+  name = 'NullableMatchRecordCustomerId1761302200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Cleared together with the contact details by the PII purge
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ALTER COLUMN "customerId" DROP NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Only reversible while no campaign has been PII purged
+    await queryRunner.query(
+      `ALTER TABLE "match_records" ALTER COLUMN "customerId" SET NOT NULL`,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { OutboundEmailService } from './outbound-email.service';
+import { CampaignAccessGuard } from '../campaigns/guards/campaign-access.guard';
+
+@Controller('campaigns/:id/emails')
+@UseGuards(CampaignAccessGuard)
+export class CampaignEmailsController {
+  constructor(private readonly outboundEmailService: OutboundEmailService) {}
+
+  /**
+   * GET /campaigns/:id/emails
+   * Emails sent for the campaign with their delivery timelines
+   */
+  @Get()
+  async findAll(@Param('id') id: string) {
+    return this.outboundEmailService.findForCampaign(id);
+  }
+}
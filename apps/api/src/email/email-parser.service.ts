@@ -1,5 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
+import type { VendorFileProfile } from '@matchback/types';
 import { ExcelParser } from '../file-processing/parsers/excel.parser';
+import { CSVParser } from '../file-processing/parsers/csv.parser';
+import {
+  DEFAULT_VENDOR_FILE_PROFILE,
+  detectVendorFileFormat,
+} from '../vendors/vendor-file-profile';
 
 export interface ParsedVendorResponse {
   success: boolean;
@@ -30,18 +36,21 @@ export interface InboundEmailAttachment {
  * Email Parser Service
  *
  * Parses vendor response emails and extracts match data:
- * - Parse Excel attachments from vendor replies
+ * - Parse Excel or CSV attachments from vendor replies
  * - Map DCM_IDs to match flags
  * - Validate match data integrity
  * - Calculate match statistics
  *
+ * File format, column names and match values come from the vendor's
+ * file profile (DEFAULT_VENDOR_FILE_PROFILE for unregistered vendors).
+ *
  * CRITICAL Match Value Handling:
- * - Accept: Y, YES, 1, TRUE, true (case-insensitive) = matched
- * - Accept: N, NO, 0, FALSE, false, empty = not matched
+ * - Accept: the profile's matched values (case-insensitive) = matched
+ * - Accept: the profile's unmatched values, or empty = not matched
  * - Reject: Any other value = validation error
  *
  * CRITICAL DCM_ID Mapping:
- * - Every record MUST have a DCM_ID column
+ * - Every record MUST have the profile's DCM_ID column
  * - DCM_IDs are the ONLY way to map vendor matches back to original records
  * - Missing or invalid DCM_IDs = data integrity error
  */
@@ -49,12 +58,18 @@ export interface InboundEmailAttachment {
 export class EmailParserService {
   private readonly logger = new Logger(EmailParserService.name);
 
-  constructor(private readonly excelParser: ExcelParser) {}
+  constructor(
+    private readonly excelParser: ExcelParser,
+    private readonly csvParser: CSVParser,
+  ) {}
 
   /**
    * Parse vendor response from email attachment
    */
-  async parseVendorResponse(attachment: InboundEmailAttachment): Promise<ParsedVendorResponse> {
+  async parseVendorResponse(
+    attachment: InboundEmailAttachment,
+    profile: VendorFileProfile = DEFAULT_VENDOR_FILE_PROFILE,
+  ): Promise<ParsedVendorResponse> {
     this.logger.log(`Parsing vendor response from ${attachment.filename}`);
 
     const result: ParsedVendorResponse = {
@@ -72,19 +87,25 @@ export class EmailParserService {
 
     try {
       // Validate file type
-      if (!this.isExcelFile(attachment.filename)) {
+      const format = detectVendorFileFormat(attachment.filename);
+      if (!format || !profile.acceptedFormats.includes(format)) {
         result.errors.push(
-          `Invalid file type: ${attachment.filename}. Expected Excel file (.xlsx, .xls)`,
+          `Invalid file type: ${attachment.filename}. Expected ${this.describeFormats(profile)}`,
         );
         return result;
       }
 
-      // Parse Excel file
-      const parseResult = await this.excelParser.parseFromBuffer(attachment.content, {
-        headerRow: 1,
-        requiredColumns: ['DCM_ID', 'Match'],
-        trimValues: true,
-      });
+      // Parse file (columns are located by the vendor's header names below)
+      const parseResult =
+        format === 'csv'
+          ? await this.csvParser.parseFromBuffer(attachment.content, {
+              trimValues: true,
+              convertDates: false,
+            })
+          : await this.excelParser.parseFromBuffer(attachment.content, {
+              headerRow: 1,
+              trimValues: true,
+            });
 
       // Check for parsing errors
       if (parseResult.metadata.hasErrors) {
@@ -98,23 +119,25 @@ export class EmailParserService {
       }
 
       // Validate required columns exist
-      const hasMatchColumn = parseResult.headers.some((h) =>
-        h.toLowerCase() === 'match',
+      const dcmIdHeader = this.findHeader(
+        parseResult.headers,
+        profile.dcmIdColumn,
       );
-      const hasDcmIdColumn = parseResult.headers.some((h) =>
-        h.toLowerCase() === 'dcm_id' || h.toLowerCase().replace('_', '') === 'dcmid',
+      const matchHeader = this.findHeader(
+        parseResult.headers,
+        profile.matchColumn,
       );
 
-      if (!hasMatchColumn) {
+      if (!matchHeader) {
         result.errors.push(
-          'Missing required "Match" column. Vendor must add a Match column with Y/N values.',
+          `Missing required "${profile.matchColumn}" column. Vendor must add a ${profile.matchColumn} column with ${this.describeMatchValues(profile)} values.`,
         );
         return result;
       }
 
-      if (!hasDcmIdColumn) {
+      if (!dcmIdHeader) {
         result.errors.push(
-          'Missing "DCM_ID" column. This column is required to map matches back to original records.',
+          `Missing "${profile.dcmIdColumn}" column. This column is required to map matches back to original records.`,
         );
         return result;
       }
@@ -126,7 +149,7 @@ export class EmailParserService {
 
       for (const row of parseResult.data) {
         // Get DCM_ID
-        const dcmId = this.extractDcmId(row);
+        const dcmId = this.extractDcmId(row, dcmIdHeader);
         if (!dcmId) {
           result.errors.push(
             `Row ${row._rowNumber}: Missing or invalid DCM_ID`,
@@ -135,12 +158,12 @@ export class EmailParserService {
         }
 
         // Get match value
-        const matchValue = this.extractMatchValue(row);
-        const matched = this.parseMatchValue(matchValue);
+        const matchValue = this.extractMatchValue(row, matchHeader);
+        const matched = this.parseMatchValue(matchValue, profile);
 
         if (matched === null) {
           result.errors.push(
-            `Row ${row._rowNumber}: Invalid match value "${matchValue}". Expected Y/N, YES/NO, 1/0, or TRUE/FALSE`,
+            `Row ${row._rowNumber}: Invalid match value "${matchValue}". Expected ${this.describeMatchValues(profile)}`,
           );
           continue;
         }
@@ -198,59 +221,57 @@ export class EmailParserService {
   }
 
   /**
-   * Extract DCM_ID from row (handles different column name variations)
+   * Header matching the vendor's column name
+   * (case, spaces and underscores are ignored: "DCM ID" = "dcm_id")
    */
-  private extractDcmId(row: Record<string, any>): string | null {
-    // Try common variations
-    const variations = ['DCM_ID', 'DCM ID', 'DCMID', 'dcm_id', 'dcmId', 'dcm id'];
-
-    for (const key of Object.keys(row)) {
-      if (variations.some((v) => key.toLowerCase().replace(/[_\s]/g, '') === v.toLowerCase().replace(/[_\s]/g, ''))) {
-        const value = row[key];
-        if (value && typeof value === 'string') {
-          return value.trim();
-        }
-      }
-    }
+  private findHeader(headers: string[], column: string): string | null {
+    const normalize = (value: string) =>
+      value.toLowerCase().replace(/[_\s]/g, '');
+    return headers.find((h) => normalize(h) === normalize(column)) ?? null;
+  }
 
+  /**
+   * Extract DCM_ID from row
+   */
+  private extractDcmId(row: Record<string, any>, header: string): string | null {
+    const value = row[header];
+    if (value && typeof value === 'string') {
+      return value.trim();
+    }
     return null;
   }
 
   /**
-   * Extract match value from row (handles different column name variations)
+   * Extract match value from row
    */
-  private extractMatchValue(row: Record<string, any>): string {
-    // Try common variations
-    const variations = ['Match', 'MATCH', 'match', 'Matched', 'MATCHED', 'matched'];
-
-    for (const key of Object.keys(row)) {
-      if (variations.some((v) => key.toLowerCase() === v.toLowerCase())) {
-        const value = row[key];
-        if (value !== null && value !== undefined) {
-          return String(value).trim();
-        }
-      }
+  private extractMatchValue(row: Record<string, any>, header: string): string {
+    const value = row[header];
+    if (value !== null && value !== undefined) {
+      return String(value).trim();
     }
-
     return '';
   }
 
   /**
-   * Parse match value to boolean
-   * Accepts: Y, YES, 1, TRUE (case-insensitive) = true
-   * Accepts: N, NO, 0, FALSE, empty = false
+   * Parse match value to boolean using the vendor's values
+   * (case-insensitive; empty = not matched)
    * Returns null for invalid values
    */
-  private parseMatchValue(value: string): boolean | null {
+  private parseMatchValue(
+    value: string,
+    profile: VendorFileProfile,
+  ): boolean | null {
     const normalized = value.toLowerCase().trim();
+    const matches = (values: string[]) =>
+      values.some((v) => v.toLowerCase().trim() === normalized);
 
     // Matched values
-    if (['y', 'yes', '1', 'true'].includes(normalized)) {
+    if (matches(profile.matchedValues)) {
       return true;
     }
 
     // Not matched values
-    if (['n', 'no', '0', 'false', ''].includes(normalized)) {
+    if (normalized === '' || matches(profile.unmatchedValues)) {
       return false;
     }
 
@@ -258,12 +279,24 @@ export class EmailParserService {
     return null;
   }
 
+  private describeMatchValues(profile: VendorFileProfile): string {
+    return `${profile.matchedValues.join('/')} (matched) or ${profile.unmatchedValues.join('/')} (not matched)`;
+  }
+
+  private describeFormats(profile: VendorFileProfile): string {
+    const names = { xlsx: 'Excel file (.xlsx, .xls)', csv: 'CSV file (.csv)' };
+    return profile.acceptedFormats.map((format) => names[format]).join(' or ');
+  }
+
   /**
-   * Check if filename is an Excel file
+   * Check if filename is in one of the vendor's accepted formats
    */
-  private isExcelFile(filename: string): boolean {
-    const lowerFilename = filename.toLowerCase();
-    return lowerFilename.endsWith('.xlsx') || lowerFilename.endsWith('.xls');
+  isAcceptedFile(
+    filename: string,
+    profile: VendorFileProfile = DEFAULT_VENDOR_FILE_PROFILE,
+  ): boolean {
+    const format = detectVendorFileFormat(filename);
+    return !!format && profile.acceptedFormats.includes(format);
   }
 
   /**
@@ -291,15 +324,18 @@ export class EmailParserService {
   /**
    * Validate vendor response before processing
    */
-  async validateVendorResponse(attachment: InboundEmailAttachment): Promise<{
+  async validateVendorResponse(
+    attachment: InboundEmailAttachment,
+    profile: VendorFileProfile = DEFAULT_VENDOR_FILE_PROFILE,
+  ): Promise<{
     valid: boolean;
     errors: string[];
   }> {
     const errors: string[] = [];
 
     // Check file type
-    if (!this.isExcelFile(attachment.filename)) {
-      errors.push('Attachment must be an Excel file (.xlsx or .xls)');
+    if (!this.isAcceptedFile(attachment.filename, profile)) {
+      errors.push(`Attachment must be a ${this.describeFormats(profile)}`);
     }
 
     // Check file size (max 10MB)
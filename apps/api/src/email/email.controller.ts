@@ -1,259 +1,138 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Param,
+  Query,
+  Req,
   HttpCode,
   HttpStatus,
   Logger,
-  BadRequestException,
 } from '@nestjs/common';
-import { EmailService } from './email.service';
-import { EmailParserService } from './email-parser.service';
-import { MatchingService } from '../matching/matching.service';
-import { CampaignsService } from '../campaigns/campaigns.service';
-
-export interface ResendWebhookPayload {
-  type: string;
-  created_at: string;
-  data: {
-    created_at: string;
-    email_id: string;
-    from: string;
-    to: string[];
-    subject: string;
-    html?: string;
-    text?: string;
-    reply_to?: string;
-    attachments?: Array<{
-      filename: string;
-      content: string; // base64
-      contentType: string;
-    }>;
-  };
-}
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import type { InboundEmailEventStatus } from '@matchback/types';
+import { InboundEmailService } from './inbound-email.service';
+import type { ResendWebhookPayload } from './inbound-email.service';
+import { OutboundEmailService } from './outbound-email.service';
+import type { ResendStatusPayload } from './outbound-email.service';
+import { PipelineService } from '../jobs/pipeline.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
 
 /**
  * Email Controller
  *
  * Handles email-related endpoints:
  * - Resend webhook for inbound emails (vendor responses)
- * - Email status callbacks
+ * - Email status callbacks (delivery lifecycle of sent emails)
  * - Manual vendor email triggers
+ * - Inbound event audit log and re-processing (admins)
  *
- * Webhook Flow:
+ * Webhook Flow (see InboundEmailService):
  * 1. Vendor replies to campaign email
  * 2. Resend forwards to webhook endpoint
- * 3. Extract campaign ID from reply-to address
- * 4. Parse Excel attachment for match data
- * 5. Update campaign with vendor matches
- * 6. Trigger pattern analysis and reporting
+ * 3. Verify the Svix signature, drop replays, store the event
+ * 4. Parse the Excel attachment and apply vendor matches
+ * 5. Continue the campaign pipeline (pattern analysis and reporting)
  *
  * CRITICAL Security:
- * - Validate webhook signature from Resend
+ * - Webhooks must carry a valid signature (RESEND_INBOUND_WEBHOOK_SECRET,
+ *   RESEND_STATUS_WEBHOOK_SECRET) and a fresh timestamp
  * - Verify campaign exists before processing
- * - Log all webhook events for audit
+ * - Every inbound event is stored for audit
  */
 @Controller('email')
 export class EmailController {
   private readonly logger = new Logger(EmailController.name);
 
   constructor(
-    private readonly emailService: EmailService,
-    private readonly emailParser: EmailParserService,
-    private readonly matchingService: MatchingService,
-    private readonly campaignsService: CampaignsService,
+    private readonly inboundEmailService: InboundEmailService,
+    private readonly outboundEmailService: OutboundEmailService,
+    private readonly pipelineService: PipelineService,
   ) {}
 
   /**
    * Resend inbound email webhook
    * Triggered when vendor replies with matches
    */
+  @Public()
   @Post('webhook/inbound')
   @HttpCode(HttpStatus.OK)
-  async handleInboundEmail(@Body() payload: ResendWebhookPayload) {
-    this.logger.log(`Received inbound email webhook: ${payload.type}`);
-
-    try {
-      // Only process email.received events
-      if (payload.type !== 'email.received') {
-        this.logger.log(`Ignoring webhook type: ${payload.type}`);
-        return { success: true, message: 'Event ignored' };
-      }
-
-      const { data } = payload;
-
-      // Extract campaign ID from reply-to address
-      const replyTo = data.reply_to || data.to[0];
-      const campaignId = this.emailService.parseCampaignIdFromEmail(replyTo);
-
-      if (!campaignId) {
-        this.logger.warn(`Could not extract campaign ID from email: ${replyTo}`);
-        return {
-          success: false,
-          error: 'Invalid reply-to address - cannot determine campaign',
-        };
-      }
-
-      this.logger.log(`Processing vendor response for campaign: ${campaignId}`);
-
-      // Verify campaign exists
-      const campaign = await this.campaignsService.findOne(campaignId);
-      if (!campaign) {
-        this.logger.error(`Campaign not found: ${campaignId}`);
-        return {
-          success: false,
-          error: `Campaign ${campaignId} not found`,
-        };
-      }
-
-      // Extract attachments
-      const attachments = this.emailParser.extractAttachments(data);
-
-      if (attachments.length === 0) {
-        this.logger.warn(`No attachments found in vendor response for campaign ${campaignId}`);
-        return {
-          success: false,
-          error: 'No Excel attachment found in email',
-        };
-      }
-
-      // Process first Excel attachment (vendors should only send one)
-      const excelAttachment = attachments.find((a) =>
-        a.filename.toLowerCase().endsWith('.xlsx') ||
-        a.filename.toLowerCase().endsWith('.xls'),
-      );
-
-      if (!excelAttachment) {
-        this.logger.warn(`No Excel attachment found for campaign ${campaignId}`);
-        return {
-          success: false,
-          error: 'No Excel attachment found. Please attach the completed match file.',
-        };
-      }
-
-      // Validate attachment
-      const validation = await this.emailParser.validateVendorResponse(excelAttachment);
-      if (!validation.valid) {
-        this.logger.error(
-          `Invalid vendor response for campaign ${campaignId}: ${validation.errors.join(', ')}`,
-        );
-        return {
-          success: false,
-          error: validation.errors.join('; '),
-        };
-      }
-
-      // Parse vendor response
-      this.logger.log(`Parsing vendor response: ${excelAttachment.filename}`);
-      const parseResult = await this.emailParser.parseVendorResponse(excelAttachment);
-
-      if (!parseResult.success) {
-        this.logger.error(
-          `Failed to parse vendor response for campaign ${campaignId}: ${parseResult.errors.join(', ')}`,
-        );
-        return {
-          success: false,
-          error: parseResult.errors.join('; '),
-          warnings: parseResult.warnings,
-        };
-      }
-
-      // Update campaign with matches
-      this.logger.log(
-        `Updating campaign ${campaignId} with ${parseResult.matches.length} matches (${parseResult.statistics.matchRate}% match rate)`,
-      );
-
-      await this.matchingService.applyVendorMatches(campaignId, parseResult.matches);
-
-      // Update campaign status
-      await this.campaignsService.updateStatus(campaignId, 'analyzing');
+  async handleInboundEmail(
+    @Req() request: RawBodyRequest<Request>,
+    @Body() payload: ResendWebhookPayload,
+  ) {
+    this.logger.log(`Received inbound email webhook: ${payload?.type}`);
+
+    return this.inboundEmailService.receive(
+      request.headers,
+      request.rawBody,
+      payload,
+    );
+  }
 
-      this.logger.log(`Successfully processed vendor response for campaign ${campaignId}`);
+  /**
+   * List stored inbound webhook events
+   */
+  @Roles('admin')
+  @Get('inbound-events')
+  async findInboundEvents(
+    @Query('status') status?: InboundEmailEventStatus,
+    @Query('campaignId') campaignId?: string,
+  ) {
+    return this.inboundEmailService.findAll({ status, campaignId });
+  }
 
-      return {
-        success: true,
-        message: 'Vendor response processed successfully',
-        statistics: parseResult.statistics,
-        warnings: parseResult.warnings,
-      };
-    } catch (error) {
-      this.logger.error(
-        `Error processing inbound email webhook: ${error.message}`,
-        error.stack,
-      );
+  /**
+   * Get one stored inbound webhook event
+   */
+  @Roles('admin')
+  @Get('inbound-events/:eventId')
+  async findInboundEvent(@Param('eventId') eventId: string) {
+    return this.inboundEmailService.findOne(eventId);
+  }
 
-      return {
-        success: false,
-        error: error.message,
-      };
-    }
+  /**
+   * Re-process a stored inbound webhook event
+   */
+  @Roles('admin')
+  @Post('inbound-events/:eventId/reprocess')
+  @HttpCode(HttpStatus.OK)
+  async reprocessInboundEvent(@Param('eventId') eventId: string) {
+    return this.inboundEmailService.reprocess(eventId);
   }
 
   /**
    * Send vendor match request manually
    * (Usually triggered automatically after client data upload and sanitization)
+   *
+   * Sends one request per sanitized market, or only `market` when given
    */
+  @Roles('admin')
   @Post('send-vendor-request')
-  async sendVendorRequest(@Body() body: { campaignId: string }) {
-    const { campaignId } = body;
+  async sendVendorRequest(
+    @Body() body: { campaignId: string; market?: string },
+  ) {
+    const { campaignId, market } = body;
 
-    this.logger.log(`Manual trigger: Sending vendor request for campaign ${campaignId}`);
+    this.logger.log(
+      `Manual trigger: Sending vendor request for campaign ${campaignId}`,
+    );
 
     try {
-      // Get campaign
-      const campaign = await this.campaignsService.findOne(campaignId);
-      if (!campaign) {
-        throw new BadRequestException(`Campaign ${campaignId} not found`);
-      }
+      const { requests, followUp } =
+        await this.pipelineService.requestVendorMatches(campaignId, market);
 
-      // Verify campaign has sanitized data ready
-      if (campaign.status !== 'collecting' && campaign.status !== 'matching') {
-        throw new BadRequestException(
-          `Campaign ${campaignId} is not ready for vendor request (current status: ${campaign.status})`,
-        );
-      }
-
-      // Get sanitized Excel from storage
-      const sanitizedExcel = await this.matchingService.getSanitizedExcel(campaignId);
-      if (!sanitizedExcel) {
-        throw new BadRequestException(
-          `No sanitized data found for campaign ${campaignId}`,
-        );
-      }
-
-      // Generate reply-to email
-      const replyToEmail = this.emailService.generateReplyToEmail(campaignId);
-
-      // Send email
-      const result = await this.emailService.sendVendorMatchRequest({
-        campaignId: campaign.id,
-        campaignName: campaign.name,
-        vendorEmail: campaign.vendorEmail,
-        vendorName: undefined, // Not stored in campaign entity
-        sanitizedExcelBuffer: sanitizedExcel.buffer,
-        sanitizedFileName: sanitizedExcel.filename,
-        replyToEmail,
-        campaignDate: campaign.dropDate,
-        market: campaign.markets[0] || 'Unknown', // Use first market
-        recordCount: sanitizedExcel.recordCount,
-      });
-
-      if (!result.success) {
-        throw new Error(result.error);
-      }
-
-      // Update campaign
-      await this.campaignsService.update(campaignId, {
-        status: 'matching', // Update to matching status
-      });
-
-      this.logger.log(`Vendor request sent successfully for campaign ${campaignId}`);
+      this.logger.log(
+        `Vendor request sent successfully for campaign ${campaignId}`,
+      );
 
       return {
         success: true,
-        emailId: result.emailId,
-        sentAt: result.sentAt,
-        replyToEmail,
+        requests,
+        responseDueAt: followUp?.dueAt,
       };
     } catch (error) {
       this.logger.error(
@@ -267,28 +146,21 @@ export class EmailController {
 
   /**
    * Resend delivery status webhook
-   * Tracks email delivery, bounces, opens, etc.
+   * Updates the sent email's timeline; bounces and delays raise campaign alerts
    */
+  @Public()
   @Post('webhook/status')
   @HttpCode(HttpStatus.OK)
-  async handleStatusWebhook(@Body() payload: any) {
-    this.logger.log(`Received status webhook: ${payload.type}`);
-
-    // Log status events for monitoring
-    const eventTypes = [
-      'email.sent',
-      'email.delivered',
-      'email.delivery_delayed',
-      'email.bounced',
-      'email.opened',
-    ];
-
-    if (eventTypes.includes(payload.type)) {
-      this.logger.log(
-        `Email ${payload.data.email_id} status: ${payload.type} (to: ${payload.data.to})`,
-      );
-    }
-
-    return { success: true };
+  async handleStatusWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Body() payload: ResendStatusPayload,
+  ) {
+    this.logger.log(`Received status webhook: ${payload?.type}`);
+
+    return this.outboundEmailService.receiveStatus(
+      request.headers,
+      request.rawBody,
+      payload,
+    );
   }
 }
@@ -1,39 +1,66 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { EmailController } from './email.controller';
 import { EmailService } from './email.service';
 import { EmailParserService } from './email-parser.service';
+import { InboundEmailService } from './inbound-email.service';
+import { OutboundEmailService } from './outbound-email.service';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { InboundEmailEvent } from './entities/inbound-email-event.entity';
+import { OutboundEmail } from './entities/outbound-email.entity';
+import { CampaignEmailsController } from './campaign-emails.controller';
 import { FileProcessingModule } from '../file-processing/file-processing.module';
 import { MatchingModule } from '../matching/matching.module';
 import { CampaignsModule } from '../campaigns/campaigns.module';
+import { StorageModule } from '../storage/storage.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { VendorsModule } from '../vendors/vendors.module';
 
 /**
  * Email Module
  *
  * Handles all email operations via Resend:
  * - Sending vendor match requests
- * - Receiving and parsing vendor responses via webhooks
- * - Email delivery tracking
+ * - Receiving and parsing vendor responses via signed webhooks
+ * - Audit log of inbound events, with re-processing
+ * - Email delivery tracking, with bounce/delay alerts on campaigns
  *
  * Dependencies:
  * - FileProcessingModule: Excel parsing for vendor responses
  * - MatchingModule: Apply vendor matches to campaign data
- * - CampaignsModule: Update campaign status
+ * - CampaignsModule: Update campaign status, raise alerts
+ * - StorageModule: Keep vendor response files
+ * - JobsModule: Continue the campaign pipeline after a vendor reply and
+ *   schedule or stop vendor reminders
+ * - VendorsModule: Vendor names and response file profiles
  *
  * Environment Variables Required:
  * - RESEND_API_KEY: Resend API key for sending emails
  * - EMAIL_FROM: From email address (e.g., noreply@matchbacktool.com)
  * - EMAIL_DOMAIN: Domain for generating reply-to addresses (e.g., matchbacktool.com)
+ * - RESEND_INBOUND_WEBHOOK_SECRET: Signing secret of the inbound webhook (whsec_...)
+ * - RESEND_STATUS_WEBHOOK_SECRET: Signing secret of the status webhook (whsec_...)
  */
 @Module({
   imports: [
     ConfigModule,
+    TypeOrmModule.forFeature([InboundEmailEvent, OutboundEmail]),
     FileProcessingModule,
     MatchingModule,
     CampaignsModule,
+    StorageModule,
+    VendorsModule,
+    forwardRef(() => JobsModule),
+  ],
+  controllers: [EmailController, CampaignEmailsController],
+  providers: [
+    EmailService,
+    EmailParserService,
+    InboundEmailService,
+    OutboundEmailService,
+    WebhookSignatureService,
   ],
-  controllers: [EmailController],
-  providers: [EmailService, EmailParserService],
   exports: [EmailService, EmailParserService],
 })
 export class EmailModule {}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EmailService } from './email.service';
+import { OutboundEmail } from './entities/outbound-email.entity';
+
+const mockSend = jest.fn();
+
+jest.mock('resend', () => ({
+  Resend: jest.fn(() => ({ emails: { send: mockSend } })),
+}));
+
+describe('EmailService', () => {
+  let service: EmailService;
+
+  const mockOutboundRepository = {
+    create: jest.fn((e) => e),
+    save: jest.fn((e) => Promise.resolve({ id: 'outbound-1', ...e })),
+  };
+
+  const requestOptions = {
+    campaignId: 'campaign-1',
+    campaignName: 'Fall Drop',
+    vendorEmail: 'vendor@example.com',
+    sanitizedExcelBuffer: Buffer.from('xlsx'),
+    sanitizedFileName: 'fall-drop.xlsx',
+    replyToEmail: 'campaign-1-123@matchbacktool.com',
+    campaignDate: new Date('2025-01-15'),
+    market: 'Dallas',
+    recordCount: 250,
+  };
+
+  const reminderOptions = {
+    campaignId: 'campaign-1',
+    campaignName: 'Fall Drop',
+    vendorEmail: 'vendor@example.com',
+    replyToEmail: 'campaign-1-123@matchbacktool.com',
+    requestedAt: new Date('2025-01-15'),
+    dueAt: new Date('2025-01-20'),
+    level: 'overdue' as const,
+  };
+
+  const rejected = {
+    data: null,
+    error: { name: 'validation_error', message: 'Invalid `to` field' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailService,
+        {
+          provide: getRepositoryToken(OutboundEmail),
+          useValue: mockOutboundRepository,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 're_key') } },
+      ],
+    }).compile();
+
+    service = module.get<EmailService>(EmailService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('sendVendorMatchRequest', () => {
+    it('should record a sent email with the provider ID', async () => {
+      mockSend.mockResolvedValue({ data: { id: 're_1' }, error: null });
+
+      const result = await service.sendVendorMatchRequest(requestOptions);
+
+      expect(result).toMatchObject({
+        success: true,
+        emailId: 're_1',
+        outboundEmailId: 'outbound-1',
+      });
+      expect(mockOutboundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ providerId: 're_1', status: 'sent' }),
+      );
+    });
+
+    it('should record a send rejected by Resend as failed', async () => {
+      mockSend.mockResolvedValue(rejected);
+
+      const result = await service.sendVendorMatchRequest(requestOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid `to` field');
+      expect(mockOutboundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: 'vendor-request',
+          providerId: null,
+          status: 'failed',
+          error: expect.stringContaining('Invalid `to` field'),
+        }),
+      );
+    });
+
+    it('should record a send that throws as failed', async () => {
+      mockSend.mockRejectedValue(new Error('socket hang up'));
+
+      const result = await service.sendVendorMatchRequest(requestOptions);
+
+      expect(result).toMatchObject({ success: false, error: 'socket hang up' });
+    });
+  });
+
+  describe('sendVendorReminder', () => {
+    it('should record a send rejected by Resend as failed', async () => {
+      mockSend.mockResolvedValue(rejected);
+
+      const result = await service.sendVendorReminder(reminderOptions);
+
+      expect(result.success).toBe(false);
+      expect(mockOutboundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: 'vendor-reminder', status: 'failed' }),
+      );
+    });
+  });
+
+  describe('sendNotification', () => {
+    it('should record a send rejected by Resend as failed', async () => {
+      mockSend.mockResolvedValue(rejected);
+
+      const result = await service.sendNotification(
+        'ops@example.com',
+        'Campaign error',
+        'Sanitization failed',
+        'campaign-1',
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockOutboundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: 'notification', status: 'failed' }),
+      );
+    });
+  });
+});
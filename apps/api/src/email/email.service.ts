@@ -1,12 +1,22 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Resend } from 'resend';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Resend, type CreateEmailOptions } from 'resend';
+import type {
+  OutboundEmailKind,
+  VendorFileProfile,
+  VendorReminderLevel,
+} from '@matchback/types';
+import { OutboundEmail } from './entities/outbound-email.entity';
+import { DEFAULT_VENDOR_FILE_PROFILE } from '../vendors/vendor-file-profile';
 
 export interface SendVendorEmailOptions {
   campaignId: string;
   campaignName: string;
   vendorEmail: string;
   vendorName?: string;
+  fileProfile?: VendorFileProfile; // Vendor's columns and match values (default when unregistered)
   sanitizedExcelBuffer: Buffer;
   sanitizedFileName: string;
   replyToEmail: string; // Campaign-specific email for vendor replies
@@ -15,9 +25,22 @@ export interface SendVendorEmailOptions {
   recordCount: number;
 }
 
+export interface SendVendorReminderOptions {
+  campaignId: string;
+  campaignName: string;
+  vendorEmail: string;
+  vendorName?: string;
+  cc?: string[]; // Vendor contacts copied on overdue reminders
+  replyToEmail: string; // Same address as the original request
+  requestedAt: Date;
+  dueAt: Date;
+  level: VendorReminderLevel;
+}
+
 export interface SendVendorEmailResult {
   success: boolean;
   emailId?: string;
+  outboundEmailId?: string;
   error?: string;
   sentAt: Date;
 }
@@ -27,8 +50,10 @@ export interface SendVendorEmailResult {
  *
  * Handles all email operations via Resend:
  * - Send sanitized data to vendors
+ * - Remind vendors that have not replied (VendorRemindersService)
  * - Generate campaign-specific reply-to addresses
- * - Track email delivery status
+ * - Record every send as an OutboundEmail (delivery tracked by
+ *   OutboundEmailService from the status webhook)
  *
  * CRITICAL: Never expose client data in emails
  * - Only send sanitized Excel (no sales, visits, or revenue)
@@ -42,26 +67,38 @@ export class EmailService {
   private readonly fromEmail: string;
   private readonly emailDomain: string;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(OutboundEmail)
+    private readonly outboundRepository: Repository<OutboundEmail>,
+  ) {
     const apiKey = this.configService.get<string>('RESEND_API_KEY');
     if (!apiKey) {
-      this.logger.warn('RESEND_API_KEY not configured - email sending disabled');
+      this.logger.warn(
+        'RESEND_API_KEY not configured - email sending disabled',
+      );
     }
 
     this.resend = new Resend(apiKey);
-    this.fromEmail = this.configService.get<string>('EMAIL_FROM') || 'noreply@matchbacktool.com';
-    this.emailDomain = this.configService.get<string>('EMAIL_DOMAIN') || 'matchbacktool.com';
+    this.fromEmail =
+      this.configService.get<string>('EMAIL_FROM') ||
+      'noreply@matchbacktool.com';
+    this.emailDomain =
+      this.configService.get<string>('EMAIL_DOMAIN') || 'matchbacktool.com';
   }
 
   /**
    * Send sanitized data to vendor for matching
    */
-  async sendVendorMatchRequest(options: SendVendorEmailOptions): Promise<SendVendorEmailResult> {
+  async sendVendorMatchRequest(
+    options: SendVendorEmailOptions,
+  ): Promise<SendVendorEmailResult> {
     const {
       campaignId,
       campaignName,
       vendorEmail,
       vendorName,
+      fileProfile = DEFAULT_VENDOR_FILE_PROFILE,
       sanitizedExcelBuffer,
       sanitizedFileName,
       replyToEmail,
@@ -74,15 +111,17 @@ export class EmailService {
       `Sending match request to ${vendorEmail} for campaign ${campaignName} (${recordCount} records)`,
     );
 
+    // Create email subject
+    const subject = `Match Request: ${campaignName} - ${market} (${this.formatDate(campaignDate)})`;
+
     try {
       // Validate email configuration
       if (!this.resend) {
-        throw new Error('Email service not configured - missing RESEND_API_KEY');
+        throw new Error(
+          'Email service not configured - missing RESEND_API_KEY',
+        );
       }
 
-      // Create email subject
-      const subject = `Match Request: ${campaignName} - ${market} (${this.formatDate(campaignDate)})`;
-
       // Create email body
       const htmlBody = this.generateVendorEmailHtml({
         campaignName,
@@ -91,6 +130,7 @@ export class EmailService {
         campaignDate,
         recordCount,
         replyToEmail,
+        fileProfile,
       });
 
       const textBody = this.generateVendorEmailText({
@@ -100,10 +140,11 @@ export class EmailService {
         campaignDate,
         recordCount,
         replyToEmail,
+        fileProfile,
       });
 
       // Send email with attachment
-      const result = await this.resend.emails.send({
+      const emailId = await this.deliver({
         from: this.fromEmail,
         to: vendorEmail,
         replyTo: replyToEmail,
@@ -118,24 +159,79 @@ export class EmailService {
         ],
       });
 
-      this.logger.log(`Email sent successfully: ${result.data?.id}`);
+      this.logger.log(`Email sent successfully: ${emailId}`);
 
-      return {
+      return this.record('vendor-request', vendorEmail, subject, campaignId, {
         success: true,
-        emailId: result.data?.id,
+        emailId,
         sentAt: new Date(),
-      };
+      });
     } catch (error) {
       this.logger.error(
         `Failed to send email to ${vendorEmail}: ${error.message}`,
         error.stack,
       );
 
-      return {
+      return this.record('vendor-request', vendorEmail, subject, campaignId, {
+        success: false,
+        error: error.message,
+        sentAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Follow up on a match request the vendor has not replied to
+   * Sent from the same reply-to address so the vendor's reply still
+   * routes to the campaign
+   */
+  async sendVendorReminder(
+    options: SendVendorReminderOptions,
+  ): Promise<SendVendorEmailResult> {
+    const { campaignId, campaignName, vendorEmail, level } = options;
+
+    const subject = {
+      reminder: `Reminder: Match Request: ${campaignName}`,
+      overdue: `Overdue: Match Request: ${campaignName}`,
+      final: `Final notice: Match Request: ${campaignName}`,
+    }[level];
+
+    this.logger.log(
+      `Sending ${level} reminder to ${vendorEmail} for campaign ${campaignName}`,
+    );
+
+    try {
+      if (!this.resend) {
+        throw new Error(
+          'Email service not configured - missing RESEND_API_KEY',
+        );
+      }
+
+      const emailId = await this.deliver({
+        from: this.fromEmail,
+        to: vendorEmail,
+        cc: options.cc?.length ? options.cc : undefined,
+        replyTo: options.replyToEmail,
+        subject,
+        text: this.generateVendorReminderText(options),
+      });
+
+      return this.record('vendor-reminder', vendorEmail, subject, campaignId, {
+        success: true,
+        emailId,
+        sentAt: new Date(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send reminder to ${vendorEmail}: ${error.message}`,
+        error.stack,
+      );
+
+      return this.record('vendor-reminder', vendorEmail, subject, campaignId, {
         success: false,
         error: error.message,
         sentAt: new Date(),
-      };
+      });
     }
   }
 
@@ -167,8 +263,18 @@ export class EmailService {
     campaignDate: Date;
     recordCount: number;
     replyToEmail: string;
+    fileProfile: VendorFileProfile;
   }): string {
-    const { campaignName, vendorName, market, campaignDate, recordCount, replyToEmail } = params;
+    const {
+      campaignName,
+      vendorName,
+      market,
+      campaignDate,
+      recordCount,
+      replyToEmail,
+    } = params;
+    const { fileType, matchColumn, matchedValue, unmatchedValue } =
+      this.describeFileProfile(params.fileProfile);
 
     return `
 <!DOCTYPE html>
@@ -254,7 +360,7 @@ export class EmailService {
   <div class="content">
     <p>Hello ${vendorName},</p>
 
-    <p>We're requesting a match for the following campaign. Please review the attached Excel file containing customer records and return your matches.</p>
+    <p>We're requesting a match for the following campaign. Please review the attached ${fileType} file containing customer records and return your matches.</p>
 
     <table class="info-table">
       <tr>
@@ -278,12 +384,12 @@ export class EmailService {
     <div class="instructions">
       <h3>📋 Instructions</h3>
       <ol>
-        <li>Download the attached Excel file</li>
-        <li>Add a new column called <strong>"Match"</strong></li>
-        <li>Mark each row with <strong>"Y"</strong> (matched) or <strong>"N"</strong> (not matched)</li>
-        <li>Reply to this email with the completed Excel file attached</li>
+        <li>Download the attached ${fileType} file</li>
+        <li>Add a new column called <strong>"${matchColumn}"</strong></li>
+        <li>Mark each row with <strong>"${matchedValue}"</strong> (matched) or <strong>"${unmatchedValue}"</strong> (not matched)</li>
+        <li>Reply to this email with the completed ${fileType} file attached</li>
       </ol>
-      <p><strong>Important:</strong> Do not modify any existing columns. Only add the "Match" column.</p>
+      <p><strong>Important:</strong> Do not modify any existing columns. Only add the "${matchColumn}" column.</p>
     </div>
 
     <p><strong>Reply-To Address:</strong> <code>${replyToEmail}</code></p>
@@ -309,15 +415,25 @@ export class EmailService {
     campaignDate: Date;
     recordCount: number;
     replyToEmail: string;
+    fileProfile: VendorFileProfile;
   }): string {
-    const { campaignName, vendorName, market, campaignDate, recordCount, replyToEmail } = params;
+    const {
+      campaignName,
+      vendorName,
+      market,
+      campaignDate,
+      recordCount,
+      replyToEmail,
+    } = params;
+    const { fileType, matchColumn, matchedValue, unmatchedValue } =
+      this.describeFileProfile(params.fileProfile);
 
     return `
 Match Request: ${campaignName}
 
 Hello ${vendorName},
 
-We're requesting a match for the following campaign. Please review the attached Excel file containing customer records and return your matches.
+We're requesting a match for the following campaign. Please review the attached ${fileType} file containing customer records and return your matches.
 
 Campaign Details:
 - Campaign: ${campaignName}
@@ -326,12 +442,12 @@ Campaign Details:
 - Records to Match: ${recordCount.toLocaleString()}
 
 INSTRUCTIONS:
-1. Download the attached Excel file
-2. Add a new column called "Match"
-3. Mark each row with "Y" (matched) or "N" (not matched)
-4. Reply to this email with the completed Excel file attached
+1. Download the attached ${fileType} file
+2. Add a new column called "${matchColumn}"
+3. Mark each row with "${matchedValue}" (matched) or "${unmatchedValue}" (not matched)
+4. Reply to this email with the completed ${fileType} file attached
 
-IMPORTANT: Do not modify any existing columns. Only add the "Match" column.
+IMPORTANT: Do not modify any existing columns. Only add the "${matchColumn}" column.
 
 Reply-To Address: ${replyToEmail}
 
@@ -343,6 +459,54 @@ If you have questions, please contact your account representative
     `.trim();
   }
 
+  /**
+   * Generate plain text body for a vendor reminder
+   */
+  private generateVendorReminderText(
+    options: SendVendorReminderOptions,
+  ): string {
+    const { campaignName, vendorName, requestedAt, dueAt, level } = options;
+
+    const status = {
+      reminder: `This is a friendly reminder that your matches are due on ${this.formatDate(dueAt)}.`,
+      overdue: `Your matches were due on ${this.formatDate(dueAt)} and we have not received them yet.`,
+      final: `Your matches were due on ${this.formatDate(dueAt)}. This is the last automatic reminder - your account representative has been notified.`,
+    }[level];
+
+    return `
+Match Request: ${campaignName}
+
+Hello ${vendorName || 'Vendor'},
+
+${status}
+
+We sent the match file for this campaign on ${this.formatDate(requestedAt)}. Please reply to this email with the completed file attached.
+
+Reply-To Address: ${options.replyToEmail}
+
+---
+This is an automated message from the Matchback Automation Platform
+If you have questions, please contact your account representative
+    `.trim();
+  }
+
+  /**
+   * Wording for the vendor's file format and match column
+   */
+  private describeFileProfile(profile: VendorFileProfile): {
+    fileType: string;
+    matchColumn: string;
+    matchedValue: string;
+    unmatchedValue: string;
+  } {
+    return {
+      fileType: profile.acceptedFormats[0] === 'csv' ? 'CSV' : 'Excel',
+      matchColumn: profile.matchColumn,
+      matchedValue: profile.matchedValues[0],
+      unmatchedValue: profile.unmatchedValues[0],
+    };
+  }
+
   /**
    * Format date for display
    */
@@ -361,27 +525,82 @@ If you have questions, please contact your account representative
     to: string,
     subject: string,
     message: string,
+    campaignId?: string,
   ): Promise<SendVendorEmailResult> {
     try {
-      const result = await this.resend.emails.send({
+      const emailId = await this.deliver({
         from: this.fromEmail,
         to,
         subject,
         text: message,
       });
 
-      return {
+      return this.record('notification', to, subject, campaignId, {
         success: true,
-        emailId: result.data?.id,
+        emailId,
         sentAt: new Date(),
-      };
+      });
     } catch (error) {
-      this.logger.error(`Failed to send notification to ${to}: ${error.message}`);
-      return {
+      this.logger.error(
+        `Failed to send notification to ${to}: ${error.message}`,
+      );
+      return this.record('notification', to, subject, campaignId, {
         success: false,
         error: error.message,
         sentAt: new Date(),
-      };
+      });
+    }
+  }
+
+  /**
+   * Send through Resend and return the provider's email ID
+   * Resend reports rejected sends in the result instead of throwing, so
+   * they are turned into errors here
+   */
+  private async deliver(email: CreateEmailOptions): Promise<string> {
+    const { data, error } = await this.resend.emails.send(email);
+
+    if (error || !data) {
+      throw new Error(
+        `Resend rejected the email: ${error?.message ?? 'no email ID returned'}`,
+      );
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Store the send as an OutboundEmail so status webhooks can update it
+   * (the body is not stored - it may contain links or data)
+   */
+  private async record(
+    kind: OutboundEmailKind,
+    toAddress: string,
+    subject: string,
+    campaignId: string | undefined,
+    result: SendVendorEmailResult,
+  ): Promise<SendVendorEmailResult> {
+    try {
+      const outbound = await this.outboundRepository.save(
+        this.outboundRepository.create({
+          kind,
+          toAddress,
+          subject,
+          campaignId: campaignId ?? null,
+          providerId: result.emailId ?? null,
+          status: result.success ? 'sent' : 'failed',
+          error: result.error ?? null,
+          events: [],
+        }),
+      );
+
+      return { ...result, outboundEmailId: outbound.id };
+    } catch (error) {
+      // The email itself went out (or failed) - don't change the outcome
+      this.logger.error(
+        `Failed to record outbound email to ${toAddress}: ${error.message}`,
+      );
+      return result;
     }
   }
 }
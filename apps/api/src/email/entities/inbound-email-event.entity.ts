@@ -0,0 +1,79 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import type { InboundEmailEventStatus } from '@matchback/types';
+import { Campaign } from '../../campaigns/entities/campaign.entity';
+import { encryptedJsonColumn } from '../../encryption/field-encryption';
+
+/**
+ * Audit trail of every verified inbound webhook delivery.
+ * The stored payload lets an admin re-run processing later.
+ */
+@Entity('inbound_email_events')
+@Index('IDX_inbound_email_events_status', ['status'])
+export class InboundEmailEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * svix-id header - unique per message, used for replay protection
+   */
+  @Column({ type: 'varchar', length: 255, unique: true })
+  messageId: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  eventType: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  fromAddress: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  subject: string | null;
+
+  /**
+   * Includes the vendor's reply attachments, which list contact details,
+   * so it is encrypted at rest.
+   */
+  @Column({ type: 'text', transformer: encryptedJsonColumn })
+  payload: Record<string, any>;
+
+  @Column({ type: 'uuid', nullable: true })
+  campaignId: string | null;
+
+  @ManyToOne(() => Campaign, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'received' })
+  status: InboundEmailEventStatus;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  /**
+   * Response returned for the last processing attempt
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  result: Record<string, any> | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /**
+   * svix-timestamp header
+   */
+  @Column({ type: 'timestamp' })
+  signedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
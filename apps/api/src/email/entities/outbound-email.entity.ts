@@ -0,0 +1,76 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import type {
+  OutboundEmailKind,
+  OutboundEmailStatus,
+  OutboundEmailEventEntry,
+} from '@matchback/types';
+import { Campaign } from '../../campaigns/entities/campaign.entity';
+
+/**
+ * Every email sent through Resend, with its delivery lifecycle
+ * as reported by the status webhook.
+ */
+@Entity('outbound_emails')
+@Index('IDX_outbound_emails_campaignId', ['campaignId'])
+export class OutboundEmail {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Resend email id - NULL when the send was rejected
+   */
+  @Column({ type: 'varchar', length: 255, unique: true, nullable: true })
+  providerId: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  kind: OutboundEmailKind;
+
+  @Column({ type: 'uuid', nullable: true })
+  campaignId: string | null;
+
+  @ManyToOne(() => Campaign, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  toAddress: string;
+
+  @Column({ type: 'varchar', length: 500 })
+  subject: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'sent' })
+  status: OutboundEmailStatus;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  /**
+   * Status webhook events in the order they were received
+   */
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  events: OutboundEmailEventEntry[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  openedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  bouncedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { InboundEmailService } from './inbound-email.service';
+import { InboundEmailEvent } from './entities/inbound-email-event.entity';
+import { EmailService } from './email.service';
+import { EmailParserService } from './email-parser.service';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { StorageService } from '../storage/storage.service';
+import { PipelineService } from '../jobs/pipeline.service';
+import { VendorsService } from '../vendors/vendors.service';
+import { VendorRemindersService } from '../jobs/vendor-reminders.service';
+
+describe('InboundEmailService', () => {
+  let service: InboundEmailService;
+
+  const payload = {
+    type: 'email.received',
+    created_at: '2025-01-15T12:00:00Z',
+    data: {
+      created_at: '2025-01-15T12:00:00Z',
+      email_id: 'email-1',
+      from: 'vendor@example.com',
+      to: ['campaign1-1736942400000@matchbacktool.com'],
+      subject: 'RE: Match request',
+      attachments: [],
+    },
+  };
+
+  const mockEventRepository = {
+    create: jest.fn((data) => ({ attempts: 0, ...data })),
+    save: jest.fn((event) => Promise.resolve({ id: 'event-1', ...event })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockSignatureService = {
+    verify: jest.fn(() => ({
+      messageId: 'msg_1',
+      signedAt: new Date('2025-01-15T12:00:00Z'),
+    })),
+  };
+
+  const mockEmailService = {
+    parseCampaignIdFromEmail: jest.fn(() => 'campaign1'),
+  };
+
+  const mockEmailParser = {
+    extractAttachments: jest.fn(() => []),
+    isAcceptedFile: jest.fn(),
+    validateVendorResponse: jest.fn(),
+    parseVendorResponse: jest.fn(),
+  };
+
+  const mockCampaignsService = {
+    findOne: jest.fn(() => Promise.resolve({ id: 'campaign1' })),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InboundEmailService,
+        {
+          provide: getRepositoryToken(InboundEmailEvent),
+          useValue: mockEventRepository,
+        },
+        { provide: WebhookSignatureService, useValue: mockSignatureService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'whsec_x') } },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: EmailParserService, useValue: mockEmailParser },
+        { provide: CampaignsService, useValue: mockCampaignsService },
+        { provide: StorageService, useValue: {} },
+        { provide: PipelineService, useValue: {} },
+        { provide: VendorsService, useValue: { getFileProfile: jest.fn() } },
+        { provide: VendorRemindersService, useValue: { cancel: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<InboundEmailService>(InboundEmailService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('receive', () => {
+    it('should store the event and record the failed outcome', async () => {
+      mockEventRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.receive({}, Buffer.from('{}'), payload);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'No Excel attachment found in email',
+        eventId: 'event-1',
+      });
+      const stored = mockEventRepository.save.mock.calls[1][0];
+      expect(stored).toEqual(
+        expect.objectContaining({
+          messageId: 'msg_1',
+          fromAddress: 'vendor@example.com',
+          campaignId: 'campaign1',
+          status: 'failed',
+          error: 'No Excel attachment found in email',
+          attempts: 1,
+          processedAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should not process a replayed message id', async () => {
+      mockEventRepository.findOne.mockResolvedValue({ id: 'event-1' });
+
+      const result = await service.receive({}, Buffer.from('{}'), payload);
+
+      expect(result).toEqual({
+        success: true,
+        duplicate: true,
+        eventId: 'event-1',
+      });
+      expect(mockEventRepository.save).not.toHaveBeenCalled();
+      expect(mockCampaignsService.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should store nothing when the signature is invalid', async () => {
+      mockSignatureService.verify.mockImplementationOnce(() => {
+        throw new UnauthorizedException('Invalid webhook signature');
+      });
+
+      await expect(
+        service.receive({}, Buffer.from('{}'), payload),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockEventRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should mark other event types as ignored', async () => {
+      mockEventRepository.findOne.mockResolvedValue(null);
+
+      await service.receive({}, Buffer.from('{}'), {
+        ...payload,
+        type: 'email.sent',
+      });
+
+      expect(mockEventRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'ignored', error: null }),
+      );
+    });
+  });
+
+  describe('reprocess', () => {
+    it('should run a stored event again and count the attempt', async () => {
+      mockEventRepository.findOne.mockResolvedValue({
+        id: 'event-1',
+        payload,
+        status: 'failed',
+        attempts: 1,
+      });
+
+      await service.reprocess('event-1');
+
+      expect(mockSignatureService.verify).not.toHaveBeenCalled();
+      expect(mockEventRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'event-1', attempts: 2 }),
+      );
+    });
+
+    it('should throw for unknown events', async () => {
+      mockEventRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.reprocess('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import type { InboundEmailEventStatus } from '@matchback/types';
+import { InboundEmailEvent } from './entities/inbound-email-event.entity';
+import { EmailService } from './email.service';
+import { EmailParserService } from './email-parser.service';
+import {
+  WebhookSignatureService,
+  WebhookHeaders,
+} from './webhook-signature.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { StorageService } from '../storage/storage.service';
+import { PipelineService } from '../jobs/pipeline.service';
+import { VendorsService } from '../vendors/vendors.service';
+import { VendorRemindersService } from '../jobs/vendor-reminders.service';
+
+export interface ResendWebhookPayload {
+  type: string;
+  created_at: string;
+  data: {
+    created_at: string;
+    email_id: string;
+    from: string;
+    to: string[];
+    subject: string;
+    html?: string;
+    text?: string;
+    reply_to?: string;
+    attachments?: Array<{
+      filename: string;
+      content: string; // base64
+      contentType: string;
+    }>;
+  };
+}
+
+export interface InboundProcessingResult {
+  success: boolean;
+  eventId?: string;
+  duplicate?: boolean;
+  message?: string;
+  error?: string;
+  [key: string]: any;
+}
+
+/**
+ * Inbound Email Service
+ *
+ * Receives Resend inbound webhooks (vendor replies):
+ * 1. Verify the Svix signature and timestamp
+ * 2. Drop replays - a message id is only ever processed once
+ * 3. Store the payload as an InboundEmailEvent
+ * 4. Extract campaign ID from reply-to address
+ * 5. Parse Excel attachment for match data
+ * 6. Store the vendor file and continue the campaign pipeline; stop
+ *    reminders once every market's vendor file is in
+ * 7. Record outcome, error and linked campaign on the event
+ *
+ * Stored events can be re-processed by an admin (e.g. after fixing
+ * a campaign's state) without the vendor re-sending the email.
+ */
+@Injectable()
+export class InboundEmailService {
+  private readonly logger = new Logger(InboundEmailService.name);
+
+  constructor(
+    @InjectRepository(InboundEmailEvent)
+    private readonly eventRepository: Repository<InboundEmailEvent>,
+    private readonly signatureService: WebhookSignatureService,
+    private readonly configService: ConfigService,
+    private readonly emailService: EmailService,
+    private readonly emailParser: EmailParserService,
+    private readonly campaignsService: CampaignsService,
+    private readonly storageService: StorageService,
+    private readonly pipelineService: PipelineService,
+    private readonly vendorsService: VendorsService,
+    private readonly vendorRemindersService: VendorRemindersService,
+  ) {}
+
+  /**
+   * Verify, store and process a webhook delivery
+   */
+  async receive(
+    headers: WebhookHeaders,
+    rawBody: Buffer | undefined,
+    payload: ResendWebhookPayload,
+  ): Promise<InboundProcessingResult> {
+    const { messageId, signedAt } = this.signatureService.verify(
+      this.configService.get<string>('RESEND_INBOUND_WEBHOOK_SECRET'),
+      headers,
+      rawBody,
+    );
+
+    const existing = await this.eventRepository.findOne({
+      where: { messageId },
+    });
+    if (existing) {
+      this.logger.warn(
+        `Ignoring replayed webhook ${messageId} (event ${existing.id})`,
+      );
+      return { success: true, duplicate: true, eventId: existing.id };
+    }
+
+    let event: InboundEmailEvent;
+    try {
+      event = await this.eventRepository.save(
+        this.eventRepository.create({
+          messageId,
+          signedAt,
+          eventType: payload.type,
+          fromAddress: payload.data?.from ?? null,
+          subject: payload.data?.subject ?? null,
+          payload: payload as unknown as Record<string, any>,
+          status: 'received',
+        }),
+      );
+    } catch (error) {
+      // Concurrent delivery of the same message won the insert
+      const raced = await this.eventRepository.findOne({
+        where: { messageId },
+      });
+      if (raced) {
+        return { success: true, duplicate: true, eventId: raced.id };
+      }
+      throw error;
+    }
+
+    return this.process(event);
+  }
+
+  /**
+   * Run a stored event through processing again
+   */
+  async reprocess(id: string): Promise<InboundProcessingResult> {
+    const event = await this.findOne(id);
+    this.logger.log(
+      `Re-processing inbound event ${id} (attempt ${event.attempts + 1})`,
+    );
+    return this.process(event);
+  }
+
+  /**
+   * List stored events, newest first
+   */
+  async findAll(
+    filters: { status?: InboundEmailEventStatus; campaignId?: string } = {},
+  ): Promise<InboundEmailEvent[]> {
+    const where: FindOptionsWhere<InboundEmailEvent> = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.campaignId) where.campaignId = filters.campaignId;
+
+    return this.eventRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: 200,
+    });
+  }
+
+  /**
+   * Get a stored event by ID
+   */
+  async findOne(id: string): Promise<InboundEmailEvent> {
+    const event = await this.eventRepository.findOne({ where: { id } });
+    if (!event) {
+      throw new NotFoundException(`Inbound email event ${id} not found`);
+    }
+    return event;
+  }
+
+  /**
+   * Process an event and record the outcome on it
+   */
+  private async process(
+    event: InboundEmailEvent,
+  ): Promise<InboundProcessingResult> {
+    const payload = event.payload as ResendWebhookPayload;
+    let result: InboundProcessingResult;
+    let status: InboundEmailEventStatus;
+
+    // Only process email.received events
+    if (payload.type !== 'email.received') {
+      this.logger.log(`Ignoring webhook type: ${payload.type}`);
+      result = { success: true, message: 'Event ignored' };
+      status = 'ignored';
+    } else {
+      try {
+        result = await this.processVendorReply(payload, event);
+      } catch (error) {
+        this.logger.error(
+          `Error processing inbound email webhook: ${error.message}`,
+          error.stack,
+        );
+        result = { success: false, error: error.message };
+      }
+      status = result.success ? 'processed' : 'failed';
+    }
+
+    event.status = status;
+    event.error = result.success ? null : (result.error ?? 'Unknown error');
+    event.result = result;
+    event.attempts += 1;
+    event.processedAt = new Date();
+    await this.eventRepository.save(event);
+
+    return { ...result, eventId: event.id };
+  }
+
+  /**
+   * Apply a vendor reply to its campaign
+   */
+  private async processVendorReply(
+    payload: ResendWebhookPayload,
+    event: InboundEmailEvent,
+  ): Promise<InboundProcessingResult> {
+    const { data } = payload;
+
+    // Extract campaign ID from reply-to address
+    const replyTo = data.reply_to || data.to[0];
+    const campaignId = this.emailService.parseCampaignIdFromEmail(replyTo);
+
+    if (!campaignId) {
+      this.logger.warn(`Could not extract campaign ID from email: ${replyTo}`);
+      return {
+        success: false,
+        error: 'Invalid reply-to address - cannot determine campaign',
+      };
+    }
+
+    this.logger.log(`Processing vendor response for campaign: ${campaignId}`);
+
+    // Verify campaign exists
+    const campaign = await this.campaignsService.findOne(campaignId);
+    if (!campaign) {
+      this.logger.error(`Campaign not found: ${campaignId}`);
+      return {
+        success: false,
+        error: `Campaign ${campaignId} not found`,
+      };
+    }
+    event.campaignId = campaign.id;
+
+    // Extract attachments
+    const attachments = this.emailParser.extractAttachments(data);
+
+    if (attachments.length === 0) {
+      this.logger.warn(
+        `No attachments found in vendor response for campaign ${campaignId}`,
+      );
+      return {
+        success: false,
+        error: 'No Excel attachment found in email',
+      };
+    }
+
+    // Process first attachment in the vendor's format (vendors should only send one)
+    const profile = await this.vendorsService.getFileProfile(campaign.vendorId);
+    const vendorAttachment = attachments.find((a) =>
+      this.emailParser.isAcceptedFile(a.filename, profile),
+    );
+
+    if (!vendorAttachment) {
+      this.logger.warn(
+        `No match file attachment found for campaign ${campaignId}`,
+      );
+      return {
+        success: false,
+        error: `No ${profile.acceptedFormats.join('/')} attachment found. Please attach the completed match file.`,
+      };
+    }
+
+    // Validate attachment
+    const validation = await this.emailParser.validateVendorResponse(
+      vendorAttachment,
+      profile,
+    );
+    if (!validation.valid) {
+      this.logger.error(
+        `Invalid vendor response for campaign ${campaignId}: ${validation.errors.join(', ')}`,
+      );
+      return {
+        success: false,
+        error: validation.errors.join('; '),
+      };
+    }
+
+    // Parse vendor response
+    this.logger.log(`Parsing vendor response: ${vendorAttachment.filename}`);
+    const parseResult = await this.emailParser.parseVendorResponse(
+      vendorAttachment,
+      profile,
+    );
+
+    if (!parseResult.success) {
+      this.logger.error(
+        `Failed to parse vendor response for campaign ${campaignId}: ${parseResult.errors.join(', ')}`,
+      );
+      return {
+        success: false,
+        error: parseResult.errors.join('; '),
+        warnings: parseResult.warnings,
+      };
+    }
+
+    // Keep the vendor file so the merge stage can be re-run
+    await this.storageService.uploadVendorResponse(
+      campaignId,
+      vendorAttachment.content,
+      vendorAttachment.filename,
+      { recordCount: parseResult.matches.length },
+      vendorAttachment.contentType,
+    );
+
+    // Update campaign with matches and continue the pipeline
+    this.logger.log(
+      `Updating campaign ${campaignId} with ${parseResult.matches.length} matches (${parseResult.statistics.matchRate}% match rate)`,
+    );
+
+    const applyResult = await this.pipelineService.handleVendorResponse(
+      campaignId,
+      parseResult.matches,
+    );
+
+    // Every market has replied - stop follow-up reminders
+    if (applyResult.pendingMarkets.length === 0) {
+      await this.vendorRemindersService.cancel(campaignId, 'responded');
+    }
+
+    const warnings = [...parseResult.warnings];
+    if (applyResult.unknownDcmIds.length > 0) {
+      warnings.push(
+        `${applyResult.unknownDcmIds.length} DCM_IDs in vendor file do not belong to this campaign`,
+      );
+    }
+    if (applyResult.mistypedDcmIds.length > 0) {
+      warnings.push(
+        `${applyResult.mistypedDcmIds.length} DCM_IDs in vendor file fail their check character (likely typos): ${applyResult.mistypedDcmIds.slice(0, 5).join(', ')}`,
+      );
+    }
+    if (applyResult.duplicateDcmIds.length > 0) {
+      warnings.push(
+        `${applyResult.duplicateDcmIds.length} DCM_IDs appear more than once in vendor file`,
+      );
+    }
+    if (applyResult.missingDcmIds.length > 0) {
+      warnings.push(
+        `${applyResult.missingDcmIds.length} campaign records were left out by the vendor`,
+      );
+    }
+
+    this.logger.log(
+      `Successfully processed vendor response for campaign ${campaignId}`,
+    );
+
+    return {
+      success: true,
+      message: 'Vendor response processed successfully',
+      statistics: parseResult.statistics,
+      applied: {
+        matched: applyResult.matched,
+        notMatched: applyResult.notMatched,
+        matchRate: applyResult.matchRate,
+        unknownDcmIds: applyResult.unknownDcmIds,
+        mistypedDcmIds: applyResult.mistypedDcmIds,
+        duplicateDcmIds: applyResult.duplicateDcmIds,
+        missingDcmIds: applyResult.missingDcmIds,
+        markets: applyResult.byMarket.map((m) => m.market),
+        pendingMarkets: applyResult.pendingMarkets,
+      },
+      warnings,
+    };
+  }
+}
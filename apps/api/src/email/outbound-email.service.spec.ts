@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { OutboundEmailService } from './outbound-email.service';
+import { OutboundEmail } from './entities/outbound-email.entity';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+
+describe('OutboundEmailService', () => {
+  let service: OutboundEmailService;
+  let email: OutboundEmail;
+
+  const event = (type: string, extra: Record<string, any> = {}) => ({
+    type,
+    created_at: '2025-01-15T12:00:00Z',
+    data: { email_id: 're_1', ...extra },
+  });
+
+  const mockOutboundRepository = {
+    findOne: jest.fn(
+      (): Promise<OutboundEmail | null> => Promise.resolve(email),
+    ),
+    find: jest.fn(),
+    save: jest.fn((e: OutboundEmail) => Promise.resolve(e)),
+  };
+
+  const mockSignatureService = {
+    verify: jest.fn(() => ({
+      messageId: 'msg_1',
+      signedAt: new Date('2025-01-15T12:00:00Z'),
+    })),
+  };
+
+  const mockCampaignsService = {
+    addAlert: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    email = {
+      id: 'outbound-1',
+      providerId: 're_1',
+      kind: 'vendor-request',
+      campaignId: 'campaign-1',
+      toAddress: 'vendor@example.com',
+      subject: 'Match Request: Fall Drop',
+      status: 'sent',
+      error: null,
+      events: [],
+      deliveredAt: null,
+      openedAt: null,
+      bouncedAt: null,
+    } as unknown as OutboundEmail;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboundEmailService,
+        {
+          provide: getRepositoryToken(OutboundEmail),
+          useValue: mockOutboundRepository,
+        },
+        { provide: WebhookSignatureService, useValue: mockSignatureService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'whsec_x') } },
+        { provide: CampaignsService, useValue: mockCampaignsService },
+      ],
+    }).compile();
+
+    service = module.get<OutboundEmailService>(OutboundEmailService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('receiveStatus', () => {
+    it('should append the event and mark the email delivered', async () => {
+      const result = await service.receiveStatus(
+        {},
+        Buffer.from('{}'),
+        event('email.delivered'),
+      );
+
+      expect(result).toEqual({
+        success: true,
+        outboundEmailId: 'outbound-1',
+        status: 'delivered',
+      });
+      expect(email.deliveredAt).toEqual(new Date('2025-01-15T12:00:00Z'));
+      expect(email.events).toEqual([
+        {
+          type: 'email.delivered',
+          occurredAt: new Date('2025-01-15T12:00:00Z'),
+          messageId: 'msg_1',
+        },
+      ]);
+      expect(mockCampaignsService.addAlert).not.toHaveBeenCalled();
+    });
+
+    it('should raise a campaign alert when the email bounces', async () => {
+      await service.receiveStatus(
+        {},
+        Buffer.from('{}'),
+        event('email.bounced', { bounce: { message: 'Mailbox full' } }),
+      );
+
+      expect(email.status).toBe('bounced');
+      expect(email.error).toBe('Mailbox full');
+      expect(mockCampaignsService.addAlert).toHaveBeenCalledWith('campaign-1', {
+        type: 'email-bounced',
+        message:
+          'Email "Match Request: Fall Drop" to vendor@example.com bounced: Mailbox full',
+        outboundEmailId: 'outbound-1',
+      });
+    });
+
+    it('should raise a campaign alert when delivery is delayed', async () => {
+      await service.receiveStatus(
+        {},
+        Buffer.from('{}'),
+        event('email.delivery_delayed'),
+      );
+
+      expect(email.status).toBe('delivery_delayed');
+      expect(mockCampaignsService.addAlert).toHaveBeenCalledWith(
+        'campaign-1',
+        expect.objectContaining({ type: 'email-delayed' }),
+      );
+    });
+
+    it('should not let a late delay event replace delivered', async () => {
+      email.status = 'delivered';
+
+      await service.receiveStatus(
+        {},
+        Buffer.from('{}'),
+        event('email.delivery_delayed'),
+      );
+
+      expect(email.status).toBe('delivered');
+      expect(email.events).toHaveLength(1);
+      expect(mockCampaignsService.addAlert).not.toHaveBeenCalled();
+    });
+
+    it('should only stamp openedAt for open events', async () => {
+      email.status = 'delivered';
+
+      await service.receiveStatus({}, Buffer.from('{}'), event('email.opened'));
+
+      expect(email.status).toBe('delivered');
+      expect(email.openedAt).toEqual(new Date('2025-01-15T12:00:00Z'));
+    });
+
+    it('should ignore a replayed webhook delivery', async () => {
+      email.events = [
+        { type: 'email.delivered', occurredAt: new Date(), messageId: 'msg_1' },
+      ];
+
+      const result = await service.receiveStatus(
+        {},
+        Buffer.from('{}'),
+        event('email.delivered'),
+      );
+
+      expect(result.duplicate).toBe(true);
+      expect(mockOutboundRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should ignore events for emails that were never recorded', async () => {
+      mockOutboundRepository.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.receiveStatus(
+        {},
+        Buffer.from('{}'),
+        event('email.delivered'),
+      );
+
+      expect(result).toEqual({ success: true, message: 'Email not tracked' });
+      expect(mockOutboundRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsigned deliveries', async () => {
+      mockSignatureService.verify.mockImplementationOnce(() => {
+        throw new UnauthorizedException('Missing webhook signature headers');
+      });
+
+      await expect(
+        service.receiveStatus({}, Buffer.from('{}'), event('email.delivered')),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockOutboundRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import type { OutboundEmailStatus } from '@matchback/types';
+import { OutboundEmail } from './entities/outbound-email.entity';
+import {
+  WebhookSignatureService,
+  WebhookHeaders,
+} from './webhook-signature.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+
+export interface ResendStatusPayload {
+  type: string;
+  created_at: string;
+  data: {
+    created_at?: string;
+    email_id: string;
+    to?: string[];
+    subject?: string;
+    bounce?: { message?: string; type?: string; subType?: string };
+  };
+}
+
+export interface StatusWebhookResult {
+  success: boolean;
+  outboundEmailId?: string;
+  status?: OutboundEmailStatus;
+  duplicate?: boolean;
+  message?: string;
+}
+
+/**
+ * Status each Resend event moves an email to
+ * (email.opened / email.clicked only stamp the timeline)
+ */
+const EVENT_STATUS: Record<string, OutboundEmailStatus> = {
+  'email.sent': 'sent',
+  'email.delivery_delayed': 'delivery_delayed',
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+};
+
+/**
+ * Events can arrive out of order; a status only replaces one of lower rank
+ * (a late "delayed" never hides "delivered", nothing follows a bounce)
+ */
+const STATUS_RANK: Record<OutboundEmailStatus, number> = {
+  sent: 0,
+  delivery_delayed: 1,
+  delivered: 2,
+  complained: 3,
+  bounced: 4,
+  failed: 4,
+};
+
+/**
+ * Outbound Email Service
+ *
+ * Applies Resend status webhooks to stored OutboundEmails:
+ * 1. Verify the Svix signature (RESEND_STATUS_WEBHOOK_SECRET)
+ * 2. Find the email by its Resend id and append the event to its timeline
+ * 3. Advance the delivery status
+ * 4. Raise a campaign alert when a campaign email bounces or is delayed
+ */
+@Injectable()
+export class OutboundEmailService {
+  private readonly logger = new Logger(OutboundEmailService.name);
+
+  constructor(
+    @InjectRepository(OutboundEmail)
+    private readonly outboundRepository: Repository<OutboundEmail>,
+    private readonly signatureService: WebhookSignatureService,
+    private readonly configService: ConfigService,
+    private readonly campaignsService: CampaignsService,
+  ) {}
+
+  /**
+   * Verify and apply a status webhook delivery
+   */
+  async receiveStatus(
+    headers: WebhookHeaders,
+    rawBody: Buffer | undefined,
+    payload: ResendStatusPayload,
+  ): Promise<StatusWebhookResult> {
+    const { messageId, signedAt } = this.signatureService.verify(
+      this.configService.get<string>('RESEND_STATUS_WEBHOOK_SECRET'),
+      headers,
+      rawBody,
+    );
+
+    const providerId = payload.data?.email_id;
+    const email = providerId
+      ? await this.outboundRepository.findOne({ where: { providerId } })
+      : null;
+
+    if (!email) {
+      this.logger.log(
+        `Ignoring ${payload.type} for untracked email ${providerId}`,
+      );
+      return { success: true, message: 'Email not tracked' };
+    }
+
+    if (email.events.some((e) => e.messageId === messageId)) {
+      return {
+        success: true,
+        duplicate: true,
+        outboundEmailId: email.id,
+        status: email.status,
+      };
+    }
+
+    const occurredAt = payload.created_at
+      ? new Date(payload.created_at)
+      : signedAt;
+    const detail = payload.data.bounce?.message;
+
+    email.events = [
+      ...email.events,
+      {
+        type: payload.type,
+        occurredAt,
+        messageId,
+        ...(detail ? { detail } : {}),
+      },
+    ];
+
+    if (payload.type === 'email.opened') {
+      email.openedAt ??= occurredAt;
+    }
+
+    const next = EVENT_STATUS[payload.type];
+    const advanced = !!next && STATUS_RANK[next] > STATUS_RANK[email.status];
+
+    if (advanced) {
+      email.status = next;
+      if (next === 'delivered') email.deliveredAt = occurredAt;
+      if (next === 'bounced') {
+        email.bouncedAt = occurredAt;
+        email.error = detail ?? 'Bounced';
+      }
+    }
+
+    await this.outboundRepository.save(email);
+
+    this.logger.log(
+      `Email ${email.id} (${providerId}) ${payload.type} -> ${email.status}`,
+    );
+
+    if (advanced && email.campaignId) {
+      await this.raiseAlert(email.campaignId, email, detail);
+    }
+
+    return { success: true, outboundEmailId: email.id, status: email.status };
+  }
+
+  /**
+   * Emails sent for a campaign with their timelines, newest first
+   */
+  async findForCampaign(campaignId: string): Promise<OutboundEmail[]> {
+    return this.outboundRepository.find({
+      where: { campaignId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Alert the campaign about a bounce or delivery delay
+   */
+  private async raiseAlert(
+    campaignId: string,
+    email: OutboundEmail,
+    detail: string | undefined,
+  ): Promise<void> {
+    const reason = detail ? `: ${detail}` : '';
+
+    if (email.status === 'bounced') {
+      await this.campaignsService.addAlert(campaignId, {
+        type: 'email-bounced',
+        message: `Email "${email.subject}" to ${email.toAddress} bounced${reason}`,
+        outboundEmailId: email.id,
+      });
+    } else if (email.status === 'delivery_delayed') {
+      await this.campaignsService.addAlert(campaignId, {
+        type: 'email-delayed',
+        message: `Delivery of "${email.subject}" to ${email.toAddress} is delayed${reason}`,
+        outboundEmailId: email.id,
+      });
+    }
+  }
+}
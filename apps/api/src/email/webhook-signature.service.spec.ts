@@ -0,0 +1,79 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import {
+  WebhookSignatureService,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from './webhook-signature.service';
+
+describe('WebhookSignatureService', () => {
+  const service = new WebhookSignatureService();
+  const key = Buffer.from('test-signing-key-0123456789');
+  const secret = `whsec_${key.toString('base64')}`;
+  const body = JSON.stringify({ type: 'email.received', data: {} });
+  const now = Date.UTC(2025, 0, 15, 12, 0, 0);
+  const timestamp = String(Math.floor(now / 1000));
+
+  const signature = (id: string, ts: string, payload: string) =>
+    createHmac('sha256', key).update(`${id}.${ts}.${payload}`).digest('base64');
+
+  const headersFor = (overrides: Record<string, string> = {}) => ({
+    'svix-id': 'msg_1',
+    'svix-timestamp': timestamp,
+    'svix-signature': `v1,${signature('msg_1', timestamp, body)}`,
+    ...overrides,
+  });
+
+  it('should accept a valid signature', () => {
+    const result = service.verify(secret, headersFor(), Buffer.from(body), now);
+
+    expect(result).toEqual({
+      messageId: 'msg_1',
+      signedAt: new Date(Number(timestamp) * 1000),
+    });
+  });
+
+  it('should accept any of several signatures (secret rotation)', () => {
+    const headers = headersFor({
+      'svix-signature': `v1,bm90LXRoaXMtb25l v1,${signature('msg_1', timestamp, body)}`,
+    });
+
+    expect(() => service.verify(secret, headers, body, now)).not.toThrow();
+  });
+
+  it('should reject a tampered body', () => {
+    expect(() =>
+      service.verify(
+        secret,
+        headersFor(),
+        body.replace('received', 'sent'),
+        now,
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should reject a signature for another message id', () => {
+    expect(() =>
+      service.verify(secret, headersFor({ 'svix-id': 'msg_2' }), body, now),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should reject stale timestamps', () => {
+    const later = now + (WEBHOOK_TOLERANCE_SECONDS + 1) * 1000;
+
+    expect(() => service.verify(secret, headersFor(), body, later)).toThrow(
+      'Webhook timestamp is outside tolerance',
+    );
+  });
+
+  it('should reject missing headers', () => {
+    expect(() =>
+      service.verify(secret, { 'svix-id': 'msg_1' }, body, now),
+    ).toThrow('Missing webhook signature headers');
+  });
+
+  it('should fail closed without a configured secret', () => {
+    expect(() => service.verify(undefined, headersFor(), body, now)).toThrow(
+      'Webhook secret is not configured',
+    );
+  });
+});
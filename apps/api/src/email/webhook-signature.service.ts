@@ -0,0 +1,107 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Maximum age (either direction) of a signed webhook timestamp
+ */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface VerifiedWebhook {
+  messageId: string;
+  signedAt: Date;
+}
+
+/**
+ * Webhook Signature Service
+ *
+ * Verifies Svix-style signatures (used by Resend webhooks):
+ * - Headers: svix-id, svix-timestamp, svix-signature
+ * - Signed content: `${id}.${timestamp}.${rawBody}`
+ * - HMAC-SHA256 keyed with the base64 part of the `whsec_` secret
+ * - svix-signature may list several space-separated `v1,<base64>`
+ *   signatures (secret rotation); any match is accepted
+ *
+ * Timestamps outside WEBHOOK_TOLERANCE_SECONDS are rejected so a
+ * captured request cannot be replayed later. Replays within the window
+ * are caught by the caller using the message id.
+ */
+@Injectable()
+export class WebhookSignatureService {
+  /**
+   * Verify a delivery; throws UnauthorizedException when invalid
+   */
+  verify(
+    secret: string | undefined,
+    headers: WebhookHeaders,
+    rawBody: Buffer | string | undefined,
+    now: number = Date.now(),
+  ): VerifiedWebhook {
+    if (!secret) {
+      throw new UnauthorizedException('Webhook secret is not configured');
+    }
+
+    const messageId = this.header(headers, 'svix-id');
+    const timestamp = this.header(headers, 'svix-timestamp');
+    const signatures = this.header(headers, 'svix-signature');
+
+    if (!messageId || !timestamp || !signatures) {
+      throw new UnauthorizedException('Missing webhook signature headers');
+    }
+
+    if (rawBody === undefined) {
+      throw new UnauthorizedException('Webhook body is unavailable');
+    }
+
+    const seconds = Number(timestamp);
+    if (!Number.isInteger(seconds)) {
+      throw new UnauthorizedException('Invalid webhook timestamp');
+    }
+    if (Math.abs(now / 1000 - seconds) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new UnauthorizedException('Webhook timestamp is outside tolerance');
+    }
+
+    const expected = this.sign(secret, messageId, timestamp, rawBody);
+    const matched = signatures.split(' ').some((entry) => {
+      const [version, signature] = entry.split(',');
+      return (
+        version === 'v1' && !!signature && this.safeEqual(signature, expected)
+      );
+    });
+
+    if (!matched) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    return { messageId, signedAt: new Date(seconds * 1000) };
+  }
+
+  /**
+   * Base64 HMAC-SHA256 signature for a message
+   */
+  sign(
+    secret: string,
+    messageId: string,
+    timestamp: string,
+    rawBody: Buffer | string,
+  ): string {
+    const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+
+    return createHmac('sha256', key)
+      .update(`${messageId}.${timestamp}.`)
+      .update(rawBody)
+      .digest('base64');
+  }
+
+  private header(headers: WebhookHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
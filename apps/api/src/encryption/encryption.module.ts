@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { EncryptionService } from './encryption.service';
+
+/**
+ * Encryption Module
+ *
+ * Encryption at rest with a locally managed key ring (see key-ring.ts):
+ * - Stored files: envelope encryption in StorageService
+ * - PII columns: field-level encryption via column transformers, with
+ *   a blind index for email lookups
+ *
+ * Keys are rotated by the 'key-rotation' job (JobsModule).
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [EncryptionService],
+  exports: [EncryptionService],
+})
+export class EncryptionModule {}
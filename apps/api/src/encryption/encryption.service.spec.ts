@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EncryptionService } from './encryption.service';
+import { loadKeyRing } from './key-ring';
+import {
+  encryptedColumn,
+  encryptedJsonColumn,
+  getFieldKeyId,
+} from './field-encryption';
+
+const key = (fill: number) => Buffer.alloc(32, fill).toString('base64');
+
+describe('EncryptionService', () => {
+  let service: EncryptionService;
+  let config: Record<string, string | undefined>;
+
+  const mockConfigService = {
+    get: jest.fn((name: string) => config[name]),
+  };
+
+  /**
+   * Service over a fresh key ring (the ring is loaded once per instance)
+   */
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EncryptionService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    return module.get<EncryptionService>(EncryptionService);
+  };
+
+  beforeEach(async () => {
+    config = {
+      ENCRYPTION_KEYS: `2026-01:${key(1)}`,
+      ENCRYPTION_BLIND_INDEX_KEY: key(9),
+    };
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('files', () => {
+    const plaintext = Buffer.from('CustomerID,Email\nC1,jane@example.com');
+
+    it('should round-trip a file without storing the plaintext', () => {
+      const encrypted = service.encryptFile(plaintext);
+
+      expect(service.isEncryptedFile(encrypted)).toBe(true);
+      expect(encrypted.includes(Buffer.from('jane@example.com'))).toBe(false);
+      expect(service.decryptFile(encrypted)).toEqual(plaintext);
+    });
+
+    it('should use a new data key for every file', () => {
+      expect(service.encryptFile(plaintext)).not.toEqual(
+        service.encryptFile(plaintext),
+      );
+    });
+
+    it('should pass files stored before encryption through', () => {
+      expect(service.isEncryptedFile(plaintext)).toBe(false);
+      expect(service.decryptFile(plaintext)).toBe(plaintext);
+    });
+
+    it('should reject a tampered file', () => {
+      const encrypted = service.encryptFile(plaintext);
+      encrypted[encrypted.length - 1] ^= 1;
+
+      expect(() => service.decryptFile(encrypted)).toThrow();
+    });
+
+    it('should re-wrap files onto a new active key', async () => {
+      const encrypted = service.encryptFile(plaintext);
+
+      config.ENCRYPTION_KEYS = `2026-10:${key(2)},2026-01:${key(1)}`;
+      const rotated = await createService();
+      const rewrapped = rotated.rewrapFile(encrypted);
+
+      expect(rewrapped).toEqual(
+        expect.objectContaining({ keyId: '2026-10', changed: true }),
+      );
+      // Only the data key is re-encrypted, the file ciphertext is kept
+      expect(rewrapped.buffer.subarray(-plaintext.length)).toEqual(
+        encrypted.subarray(-plaintext.length),
+      );
+      expect(rotated.rewrapFile(rewrapped.buffer).changed).toBe(false);
+
+      config.ENCRYPTION_KEYS = `2026-10:${key(2)}`;
+      const oldKeyRemoved = await createService();
+      expect(oldKeyRemoved.decryptFile(rewrapped.buffer)).toEqual(plaintext);
+      expect(() => oldKeyRemoved.decryptFile(encrypted)).toThrow(
+        'Encryption key "2026-01" is not configured',
+      );
+    });
+
+    it('should encrypt plaintext files when rotating', () => {
+      const rewrapped = service.rewrapFile(plaintext);
+
+      expect(rewrapped.changed).toBe(true);
+      expect(service.decryptFile(rewrapped.buffer)).toEqual(plaintext);
+    });
+  });
+
+  describe('fields', () => {
+    it('should round-trip a field under the active key', () => {
+      const encrypted = service.encryptField('jane@example.com');
+
+      expect(encrypted).toMatch(/^enc:v1:2026-01:/);
+      expect(encrypted).not.toContain('jane');
+      expect(service.decryptField(encrypted)).toBe('jane@example.com');
+      expect(service.needsRotation(encrypted)).toBe(false);
+    });
+
+    it('should read plaintext fields and mark them for rotation', () => {
+      expect(service.decryptField('jane@example.com')).toBe('jane@example.com');
+      expect(service.needsRotation('jane@example.com')).toBe(true);
+    });
+
+    it('should compute the same blind index however the email is typed', () => {
+      const index = service.emailBlindIndex('jane@example.com');
+
+      expect(index).toMatch(/^[0-9a-f]{64}$/);
+      expect(service.emailBlindIndex(' Jane@Example.COM ')).toBe(index);
+      expect(service.emailBlindIndex('john@example.com')).not.toBe(index);
+      expect(service.emailBlindIndex('')).toBeNull();
+      expect(service.emailBlindIndex(null)).toBeNull();
+    });
+  });
+
+  describe('key ring', () => {
+    it('should default the active key to the first one listed', () => {
+      config.ENCRYPTION_KEYS = `2026-10:${key(2)}, 2026-01:${key(1)}`;
+
+      expect(loadKeyRing((name) => config[name]).active.id).toBe('2026-10');
+    });
+
+    it.each([
+      [{ ENCRYPTION_KEYS: undefined }, 'ENCRYPTION_KEYS is not set'],
+      [{ ENCRYPTION_KEYS: '2026-01:c2hvcnQ=' }, 'must be 32 bytes'],
+      [{ ENCRYPTION_ACTIVE_KEY_ID: '2027-01' }, '"2027-01" is not configured'],
+      [{ ENCRYPTION_BLIND_INDEX_KEY: undefined }, 'BLIND_INDEX_KEY is not set'],
+    ])('should refuse incomplete configuration %#', (overrides, message) => {
+      Object.assign(config, overrides);
+
+      expect(() => service.encryptField('jane@example.com')).toThrow(message);
+    });
+  });
+
+  describe('column transformers', () => {
+    const env = { ...process.env };
+
+    beforeAll(() => {
+      process.env.ENCRYPTION_KEYS = `2026-01:${key(1)}`;
+      process.env.ENCRYPTION_BLIND_INDEX_KEY = key(9);
+    });
+
+    afterAll(() => {
+      process.env = env;
+    });
+
+    it('should store encrypted text and read it back', () => {
+      const stored = encryptedColumn.to('jane@example.com');
+
+      expect(getFieldKeyId(stored)).toBe('2026-01');
+      expect(encryptedColumn.from(stored)).toBe('jane@example.com');
+      expect(encryptedColumn.to(null)).toBeNull();
+      expect(encryptedColumn.from(null)).toBeNull();
+    });
+
+    it('should store JSON encrypted and read legacy plaintext JSON', () => {
+      const row = { name: 'Jane Doe', email: 'jane@example.com' };
+
+      expect(encryptedJsonColumn.from(encryptedJsonColumn.to(row))).toEqual(
+        row,
+      );
+      expect(encryptedJsonColumn.from(JSON.stringify(row))).toEqual(row);
+    });
+  });
+});
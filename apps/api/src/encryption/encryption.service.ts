@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { KeyRing, loadKeyRing } from './key-ring';
+import {
+  computeEmailBlindIndex,
+  decryptField,
+  encryptField,
+  getFieldKeyId,
+} from './field-encryption';
+
+/**
+ * Marks an encrypted file; anything else is a file stored before
+ * encryption at rest and is returned as-is
+ */
+const FILE_MAGIC = Buffer.from('MBENC1', 'ascii');
+
+const IV_LENGTH = 12;
+
+const DATA_KEY_LENGTH = 32;
+
+/**
+ * Stored in front of the file ciphertext, all binary values base64
+ */
+interface FileEnvelopeHeader {
+  keyId: string; // Key-encryption key that wrapped the data key
+  wrappedKey: string;
+  wrapIv: string;
+  wrapTag: string;
+  iv: string; // File ciphertext
+  tag: string;
+}
+
+export interface RewrappedFile {
+  buffer: Buffer;
+  keyId: string;
+  changed: boolean; // false when the file was already on the active key
+}
+
+/**
+ * Encryption Service
+ *
+ * Envelope encryption for stored files: every file gets its own random
+ * data key (AES-256-GCM), and only that data key is encrypted with the
+ * active key of the key ring. Rotating keys therefore re-wraps a few
+ * bytes per file instead of re-encrypting the file.
+ *
+ * Field-level helpers (see field-encryption.ts) use the same key ring;
+ * MatchRecord columns are encrypted by column transformers.
+ */
+@Injectable()
+export class EncryptionService {
+  private readonly logger = new Logger(EncryptionService.name);
+  private keyRing: KeyRing | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * ID of the key new data is encrypted with
+   */
+  get activeKeyId(): string {
+    return this.ring.active.id;
+  }
+
+  /**
+   * Encrypt a file for storage
+   */
+  encryptFile(buffer: Buffer): Buffer {
+    const dataKey = randomBytes(DATA_KEY_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(buffer), cipher.final()]);
+
+    return this.pack(
+      {
+        ...this.wrapDataKey(dataKey),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+      },
+      ciphertext,
+    );
+  }
+
+  /**
+   * Decrypt a stored file; files stored before encryption pass through
+   */
+  decryptFile(buffer: Buffer): Buffer {
+    const envelope = this.unpack(buffer);
+    if (!envelope) return buffer;
+
+    const { header, ciphertext } = envelope;
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.unwrapDataKey(header),
+      Buffer.from(header.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(header.tag, 'base64'));
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  isEncryptedFile(buffer: Buffer): boolean {
+    return this.unpack(buffer) !== null;
+  }
+
+  /**
+   * Move a stored file to the active key
+   * Encrypted files only get their data key re-wrapped; plaintext files
+   * are encrypted
+   */
+  rewrapFile(buffer: Buffer): RewrappedFile {
+    const envelope = this.unpack(buffer);
+    const activeKeyId = this.activeKeyId;
+
+    if (!envelope) {
+      return {
+        buffer: this.encryptFile(buffer),
+        keyId: activeKeyId,
+        changed: true,
+      };
+    }
+    if (envelope.header.keyId === activeKeyId) {
+      return { buffer, keyId: activeKeyId, changed: false };
+    }
+
+    const dataKey = this.unwrapDataKey(envelope.header);
+    const header = { ...envelope.header, ...this.wrapDataKey(dataKey) };
+
+    return {
+      buffer: this.pack(header, envelope.ciphertext),
+      keyId: activeKeyId,
+      changed: true,
+    };
+  }
+
+  encryptField(value: string): string {
+    return encryptField(this.ring, value);
+  }
+
+  decryptField(value: string): string {
+    return decryptField(this.ring, value);
+  }
+
+  /**
+   * Whether an encrypted (or plaintext) field still needs rotating
+   */
+  needsRotation(value: string): boolean {
+    return getFieldKeyId(value) !== this.activeKeyId;
+  }
+
+  /**
+   * Blind index for email lookups (MatchRecord.emailBlindIndex)
+   */
+  emailBlindIndex(email: string | null | undefined): string | null {
+    return computeEmailBlindIndex(this.ring, email);
+  }
+
+  /**
+   * Loaded on first use, so the API starts without keys but refuses to
+   * store anything unencrypted
+   */
+  private get ring(): KeyRing {
+    if (!this.keyRing) {
+      this.keyRing = loadKeyRing((name) =>
+        this.configService.get<string>(name),
+      );
+      this.logger.log(
+        `Encryption key ring loaded: ${this.keyRing.keyIds.length} keys, active ${this.keyRing.active.id}`,
+      );
+    }
+    return this.keyRing;
+  }
+
+  private wrapDataKey(
+    dataKey: Buffer,
+  ): Pick<FileEnvelopeHeader, 'keyId' | 'wrappedKey' | 'wrapIv' | 'wrapTag'> {
+    const { id, key } = this.ring.active;
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const wrappedKey = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: id,
+      wrappedKey: wrappedKey.toString('base64'),
+      wrapIv: iv.toString('base64'),
+      wrapTag: cipher.getAuthTag().toString('base64'),
+    };
+  }
+
+  private unwrapDataKey(header: FileEnvelopeHeader): Buffer {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.ring.get(header.keyId),
+      Buffer.from(header.wrapIv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(header.wrapTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(header.wrappedKey, 'base64')),
+      decipher.final(),
+    ]);
+  }
+
+  /**
+   * MBENC1 | header length (uint32 BE) | header JSON | ciphertext
+   */
+  private pack(header: FileEnvelopeHeader, ciphertext: Buffer): Buffer {
+    const json = Buffer.from(JSON.stringify(header), 'utf8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(json.length);
+
+    return Buffer.concat([FILE_MAGIC, length, json, ciphertext]);
+  }
+
+  private unpack(
+    buffer: Buffer,
+  ): { header: FileEnvelopeHeader; ciphertext: Buffer } | null {
+    const headerStart = FILE_MAGIC.length + 4;
+    if (
+      buffer.length < headerStart ||
+      !buffer.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC)
+    ) {
+      return null;
+    }
+
+    const headerEnd = headerStart + buffer.readUInt32BE(FILE_MAGIC.length);
+
+    return {
+      header: JSON.parse(
+        buffer.subarray(headerStart, headerEnd).toString('utf8'),
+      ),
+      ciphertext: buffer.subarray(headerEnd),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Key Ring
+ *
+ * Locally managed key-encryption keys (KEKs), configured as
+ *   ENCRYPTION_KEYS=2026-10:<base64 32 bytes>,2026-01:<base64 32 bytes>
+ *   ENCRYPTION_ACTIVE_KEY_ID=2026-10   (defaults to the first key)
+ *   ENCRYPTION_BLIND_INDEX_KEY=<base64 32 bytes>
+ *
+ * New data is always encrypted under the active key; older keys stay on
+ * the ring so existing data can still be read until the key rotation job
+ * has moved it to the active key. The blind index key is separate and
+ * does not rotate: changing it would orphan every stored index.
+ */
+
+const KEY_LENGTH = 32; // AES-256
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]{1,50}$/;
+
+export interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+export class KeyRing {
+  private readonly keys = new Map<string, Buffer>();
+
+  constructor(
+    keys: EncryptionKey[],
+    private readonly activeKeyId: string,
+    readonly blindIndexKey: Buffer,
+  ) {
+    keys.forEach(({ id, key }) => this.keys.set(id, key));
+
+    if (!this.keys.has(activeKeyId)) {
+      throw new Error(
+        `Active encryption key "${activeKeyId}" is not configured`,
+      );
+    }
+  }
+
+  get active(): EncryptionKey {
+    return { id: this.activeKeyId, key: this.keys.get(this.activeKeyId)! };
+  }
+
+  get keyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+
+  /**
+   * Key by ID; throws for keys that were removed from the ring
+   */
+  get(id: string): Buffer {
+    const key = this.keys.get(id);
+    if (!key) {
+      throw new Error(`Encryption key "${id}" is not configured`);
+    }
+    return key;
+  }
+}
+
+/**
+ * Build the key ring from configuration
+ * @param get - Config lookup (ConfigService.get or process.env)
+ */
+export function loadKeyRing(
+  get: (name: string) => string | undefined,
+): KeyRing {
+  const entries = (get('ENCRYPTION_KEYS') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    throw new Error('ENCRYPTION_KEYS is not set');
+  }
+
+  const keys = entries.map((entry) => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    if (separator < 0 || !KEY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid ENCRYPTION_KEYS entry "${entry.slice(0, 50)}"`);
+    }
+    return { id, key: decodeKey(entry.slice(separator + 1), `key "${id}"`) };
+  });
+
+  const blindIndexKey = get('ENCRYPTION_BLIND_INDEX_KEY');
+  if (!blindIndexKey) {
+    throw new Error('ENCRYPTION_BLIND_INDEX_KEY is not set');
+  }
+
+  return new KeyRing(
+    keys,
+    get('ENCRYPTION_ACTIVE_KEY_ID') || keys[0].id,
+    decodeKey(blindIndexKey, 'ENCRYPTION_BLIND_INDEX_KEY'),
+  );
+}
+
+let processKeyRing: KeyRing | null = null;
+
+/**
+ * Key ring from process.env, for column transformers, which run outside
+ * dependency injection (like the TypeORM connection settings)
+ */
+export function getProcessKeyRing(): KeyRing {
+  if (!processKeyRing) {
+    processKeyRing = loadKeyRing((name) => process.env[name]);
+  }
+  return processKeyRing;
+}
+
+function decodeKey(value: string, label: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Encryption ${label} must be ${KEY_LENGTH} bytes, base64`);
+  }
+  return key;
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ColumnMappingService } from './column-mapping.service';
+import { CreateColumnMappingProfileDto } from './dto/create-column-mapping-profile.dto';
+import { UpdateColumnMappingProfileDto } from './dto/update-column-mapping-profile.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('column-mappings')
+@Roles('admin')
+export class ColumnMappingController {
+  constructor(private readonly columnMappingService: ColumnMappingService) {}
+
+  /**
+   * POST /column-mappings
+   * Save a mapping profile for a client
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreateColumnMappingProfileDto) {
+    return this.columnMappingService.createProfile(dto);
+  }
+
+  /**
+   * POST /column-mappings/suggest
+   * Suggest fields for a list of headers
+   */
+  @Post('suggest')
+  @HttpCode(HttpStatus.OK)
+  suggest(@Body('headers') headers: string[]) {
+    return this.columnMappingService.suggestMappings(headers || []);
+  }
+
+  /**
+   * GET /column-mappings
+   * List profiles, optionally filtered by billing number
+   */
+  @Get()
+  async findAll(@Query('billingNumber') billingNumber?: string) {
+    return this.columnMappingService.findProfiles(billingNumber);
+  }
+
+  /**
+   * GET /column-mappings/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.columnMappingService.findProfile(id);
+  }
+
+  /**
+   * PATCH /column-mappings/:id
+   */
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateColumnMappingProfileDto,
+  ) {
+    return this.columnMappingService.updateProfile(id, dto);
+  }
+
+  /**
+   * DELETE /column-mappings/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    return this.columnMappingService.removeProfile(id);
+  }
+}
@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ColumnMappingService } from './column-mapping.service';
+import { FileParserService } from './file-parser.service';
+import { ColumnMappingProfile } from './entities/column-mapping-profile.entity';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+
+describe('ColumnMappingService', () => {
+  let service: ColumnMappingService;
+
+  const mockProfileRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'profile-1', ...data })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockFileParser = {
+    parseFile: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ColumnMappingService,
+        {
+          provide: getRepositoryToken(ColumnMappingProfile),
+          useValue: mockProfileRepository,
+        },
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+        { provide: FileParserService, useValue: mockFileParser },
+      ],
+    }).compile();
+
+    service = module.get<ColumnMappingService>(ColumnMappingService);
+
+    mockCampaignRepository.findOne.mockResolvedValue({
+      id: 'campaign-1',
+      billingNumber: 'TIDE123',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('suggestMappings', () => {
+    it('should match exact and near-miss headers', () => {
+      const suggestions = service.suggestMappings([
+        'Customer ID',
+        'Sign-Up Date',
+        'Visit_1',
+        'Primary Email Address',
+        'Totl Sales',
+        'Favorite Color',
+      ]);
+
+      const byHeader = Object.fromEntries(
+        suggestions.map((s) => [s.sourceHeader, s.field]),
+      );
+
+      expect(byHeader).toEqual({
+        'Customer ID': 'CustomerID',
+        'Sign-Up Date': 'SignupDate',
+        Visit_1: 'Visit1',
+        'Primary Email Address': 'EmailAddress',
+        'Totl Sales': 'TotalSales',
+      });
+    });
+
+    it('should assign each field to only the best matching header', () => {
+      const suggestions = service.suggestMappings(['Email', 'Email Addr 2']);
+
+      expect(suggestions).toEqual([
+        { sourceHeader: 'Email', field: 'EmailAddress', confidence: 1 },
+      ]);
+    });
+  });
+
+  describe('selectProfile', () => {
+    it('should pick the profile covering the most uploaded headers', async () => {
+      mockProfileRepository.find.mockResolvedValue([
+        {
+          id: 'small',
+          mappings: { 'Member No': 'CustomerID' },
+        },
+        {
+          id: 'large',
+          mappings: { 'Member No': 'CustomerID', 'Joined On': 'SignupDate' },
+        },
+        {
+          id: 'other-layout',
+          mappings: { 'Cust #': 'CustomerID' },
+        },
+      ]);
+
+      const profile = await service.selectProfile('TIDE123', [
+        'Member No',
+        'Joined On',
+        'Email',
+      ]);
+
+      expect(profile?.id).toBe('large');
+    });
+
+    it('should return null when no profile fits', async () => {
+      mockProfileRepository.find.mockResolvedValue([
+        { id: 'p1', mappings: { 'Cust #': 'CustomerID' } },
+      ]);
+
+      const profile = await service.selectProfile('TIDE123', ['Member No']);
+
+      expect(profile).toBeNull();
+    });
+  });
+
+  describe('resolveForCampaign', () => {
+    it('should use the saved profile for the campaign billing number', async () => {
+      const saved = {
+        id: 'p1',
+        name: 'Tide export',
+        mappings: { X: 'Market' },
+      };
+      mockProfileRepository.find.mockResolvedValue([saved]);
+
+      const resolved = await service.resolveForCampaign('campaign-1', ['X']);
+
+      expect(mockProfileRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { billingNumber: 'TIDE123' } }),
+      );
+      expect(resolved.profile).toBe(saved);
+      expect(resolved.mappings).toEqual({ X: 'Market' });
+    });
+
+    it('should fall back to suggestions without a profile', async () => {
+      mockProfileRepository.find.mockResolvedValue([]);
+
+      const resolved = await service.resolveForCampaign('campaign-1', [
+        'CustomerID',
+      ]);
+
+      expect(resolved.profile).toBeNull();
+      expect(resolved.mappings).toEqual({ CustomerID: 'CustomerID' });
+    });
+
+    it('should throw NotFoundException for unknown campaigns', async () => {
+      mockCampaignRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.resolveForCampaign('missing', ['CustomerID']),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('mapClientRows', () => {
+    it('should rename rows and headers with the resolved mapping', async () => {
+      const saved = {
+        id: 'p1',
+        name: 'Tide export',
+        mappings: { 'Cust #': 'CustomerID' },
+      };
+      mockProfileRepository.find.mockResolvedValue([saved]);
+
+      const mapped = await service.mapClientRows(
+        'campaign-1',
+        ['Cust #', 'Notes'],
+        [{ 'Cust #': 'CUST001', Notes: 'VIP' }],
+      );
+
+      expect(mapped).toEqual({
+        profile: saved,
+        headers: ['CustomerID', 'Notes'],
+        data: [{ CustomerID: 'CUST001', Notes: 'VIP' }],
+      });
+    });
+
+    it('should use an explicitly chosen profile', async () => {
+      const chosen = {
+        id: 'p2',
+        name: 'Tide export v2',
+        mappings: { Email: 'EmailAddress' },
+      };
+      mockProfileRepository.findOne.mockResolvedValue(chosen);
+
+      const mapped = await service.mapClientRows(
+        'campaign-1',
+        ['Email'],
+        [{ Email: 'a@example.com' }],
+        'p2',
+      );
+
+      expect(mockProfileRepository.find).not.toHaveBeenCalled();
+      expect(mapped.profile).toBe(chosen);
+      expect(mapped.data).toEqual([{ EmailAddress: 'a@example.com' }]);
+    });
+  });
+
+  describe('createProfile', () => {
+    it('should reject unknown fields', async () => {
+      await expect(
+        service.createProfile({
+          billingNumber: 'TIDE123',
+          name: 'Bad',
+          mappings: { A: 'NotAField' as any },
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject fields mapped twice', async () => {
+      await expect(
+        service.createProfile({
+          billingNumber: 'TIDE123',
+          name: 'Bad',
+          mappings: { A: 'CustomerID', B: 'CustomerID' },
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('preview', () => {
+    it('should return the first mapped rows and missing required fields', async () => {
+      mockProfileRepository.find.mockResolvedValue([]);
+      mockFileParser.parseFile.mockResolvedValue({
+        headers: ['Customer ID', 'Notes'],
+        data: [
+          { 'Customer ID': 'CUST001', Notes: 'a', _rowNumber: 2 },
+          { 'Customer ID': 'CUST002', Notes: 'b', _rowNumber: 3 },
+        ],
+      });
+
+      const preview = await service.preview(
+        'campaign-1',
+        Buffer.from('csv'),
+        'clients.csv',
+        { limit: 1 },
+      );
+
+      expect(preview.totalRows).toBe(2);
+      expect(preview.rows).toEqual([{ CustomerID: 'CUST001', Notes: 'a' }]);
+      expect(preview.unmappedHeaders).toEqual(['Notes']);
+      expect(preview.missingFields).toEqual(['SignupDate']);
+    });
+  });
+});
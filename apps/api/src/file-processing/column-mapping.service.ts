@@ -0,0 +1,430 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type {
+  ClientDataField,
+  ColumnMappingSuggestion,
+} from '@matchback/types';
+import { ColumnMappingProfile } from './entities/column-mapping-profile.entity';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { FileParserService } from './file-parser.service';
+
+/**
+ * Known header variations for each ClientDataRow field
+ * Compared after normalization (lowercase, alphanumerics only)
+ */
+export const CLIENT_DATA_FIELD_ALIASES: Record<ClientDataField, string[]> = {
+  CustomerID: [
+    'customerid',
+    'custid',
+    'customernumber',
+    'memberid',
+    'clientid',
+  ],
+  LastName: ['lastname', 'lname', 'surname'],
+  FirstName: ['firstname', 'fname', 'givenname'],
+  EmailAddress: ['emailaddress', 'email', 'emailaddr'],
+  SignupDate: ['signupdate', 'signup', 'joindate', 'registrationdate'],
+  Visit1: ['visit1', 'visit1date', 'firstvisit', 'firstvisitdate'],
+  TotalVisits: ['totalvisits', 'visits', 'visitcount'],
+  TotalSales: ['totalsales', 'sales', 'revenue', 'totalspend'],
+  Market: ['market', 'region', 'location'],
+};
+
+/**
+ * Fields every client file must map
+ */
+export const REQUIRED_CLIENT_DATA_FIELDS: ClientDataField[] = [
+  'CustomerID',
+  'SignupDate',
+];
+
+/**
+ * Minimum fuzzy score for a header to be suggested
+ */
+export const SUGGESTION_THRESHOLD = 0.75;
+
+export interface ResolvedColumnMapping {
+  profile: ColumnMappingProfile | null;
+  mappings: Record<string, ClientDataField>;
+  suggestions: ColumnMappingSuggestion[];
+}
+
+export interface MappedClientRows {
+  profile: ColumnMappingProfile | null;
+  headers: string[];
+  data: Record<string, any>[];
+}
+
+export interface ColumnMappingPreview extends ResolvedColumnMapping {
+  headers: string[];
+  unmappedHeaders: string[];
+  missingFields: ClientDataField[];
+  totalRows: number;
+  rows: Record<string, any>[];
+}
+
+export interface CreateColumnMappingProfileOptions {
+  billingNumber: string;
+  name: string;
+  mappings: Record<string, ClientDataField>;
+}
+
+/**
+ * Column Mapping Service
+ *
+ * Maps client export headers to canonical ClientDataRow fields:
+ * - Saved profiles per client (billing number)
+ * - Fuzzy header suggestions for new layouts
+ * - Automatic profile selection for repeat uploads
+ *
+ * A profile is selected when every header it maps is present in the
+ * upload; the profile covering the most headers wins, newest use first.
+ */
+@Injectable()
+export class ColumnMappingService {
+  private readonly logger = new Logger(ColumnMappingService.name);
+
+  constructor(
+    @InjectRepository(ColumnMappingProfile)
+    private readonly profileRepository: Repository<ColumnMappingProfile>,
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    private readonly fileParser: FileParserService,
+  ) {}
+
+  /**
+   * Create a mapping profile
+   */
+  async createProfile(
+    options: CreateColumnMappingProfileOptions,
+  ): Promise<ColumnMappingProfile> {
+    this.validateMappings(options.mappings);
+    const profile = this.profileRepository.create(options);
+    return this.profileRepository.save(profile);
+  }
+
+  /**
+   * List profiles, optionally for one client
+   */
+  async findProfiles(billingNumber?: string): Promise<ColumnMappingProfile[]> {
+    return this.profileRepository.find({
+      where: billingNumber ? { billingNumber } : {},
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  async findProfile(id: string): Promise<ColumnMappingProfile> {
+    const profile = await this.profileRepository.findOne({ where: { id } });
+
+    if (!profile) {
+      throw new NotFoundException(`Column mapping profile ${id} not found`);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Update a profile's name or mappings
+   */
+  async updateProfile(
+    id: string,
+    changes: Partial<Pick<ColumnMappingProfile, 'name' | 'mappings'>>,
+  ): Promise<ColumnMappingProfile> {
+    if (changes.mappings) {
+      this.validateMappings(changes.mappings);
+    }
+
+    const profile = await this.findProfile(id);
+    Object.assign(profile, changes);
+    return this.profileRepository.save(profile);
+  }
+
+  /**
+   * Delete a profile
+   */
+  async removeProfile(id: string): Promise<void> {
+    const profile = await this.findProfile(id);
+    await this.profileRepository.remove(profile);
+  }
+
+  /**
+   * Suggest a field for each header using fuzzy matching
+   * Each field is assigned to at most one header (best score wins)
+   */
+  suggestMappings(headers: string[]): ColumnMappingSuggestion[] {
+    const candidates: ColumnMappingSuggestion[] = [];
+
+    for (const sourceHeader of headers) {
+      const normalized = this.normalizeHeader(sourceHeader);
+      if (!normalized) continue;
+
+      for (const [field, aliases] of Object.entries(
+        CLIENT_DATA_FIELD_ALIASES,
+      )) {
+        const confidence = Math.max(
+          ...aliases.map((alias) => this.scoreHeader(normalized, alias)),
+        );
+
+        if (confidence >= SUGGESTION_THRESHOLD) {
+          candidates.push({
+            sourceHeader,
+            field: field as ClientDataField,
+            confidence: Math.round(confidence * 100) / 100,
+          });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.confidence - a.confidence);
+
+    const usedHeaders = new Set<string>();
+    const usedFields = new Set<ClientDataField>();
+    const suggestions: ColumnMappingSuggestion[] = [];
+
+    for (const candidate of candidates) {
+      if (
+        usedHeaders.has(candidate.sourceHeader) ||
+        usedFields.has(candidate.field)
+      ) {
+        continue;
+      }
+      usedHeaders.add(candidate.sourceHeader);
+      usedFields.add(candidate.field);
+      suggestions.push(candidate);
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Pick the saved profile that fits the uploaded headers
+   */
+  async selectProfile(
+    billingNumber: string,
+    headers: string[],
+  ): Promise<ColumnMappingProfile | null> {
+    const profiles = await this.profileRepository.find({
+      where: { billingNumber },
+      order: { lastUsedAt: { direction: 'DESC', nulls: 'LAST' } },
+    });
+
+    let best: ColumnMappingProfile | null = null;
+
+    for (const profile of profiles) {
+      const sourceHeaders = Object.keys(profile.mappings);
+      const fits =
+        sourceHeaders.length > 0 &&
+        sourceHeaders.every((header) => headers.includes(header));
+
+      if (
+        fits &&
+        (!best || sourceHeaders.length > Object.keys(best.mappings).length)
+      ) {
+        best = profile;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Resolve the mapping to use for a campaign upload
+   * Falls back to fuzzy suggestions when no saved profile fits
+   */
+  async resolveForCampaign(
+    campaignId: string,
+    headers: string[],
+  ): Promise<ResolvedColumnMapping> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID ${campaignId} not found`);
+    }
+
+    const suggestions = this.suggestMappings(headers);
+    const profile = await this.selectProfile(campaign.billingNumber, headers);
+
+    if (profile) {
+      this.logger.log(
+        `Using column mapping profile "${profile.name}" for campaign ${campaignId}`,
+      );
+      return { profile, mappings: profile.mappings, suggestions };
+    }
+
+    return {
+      profile: null,
+      mappings: Object.fromEntries(
+        suggestions.map((s) => [s.sourceHeader, s.field]),
+      ),
+      suggestions,
+    };
+  }
+
+  /**
+   * Rename parsed client rows with the campaign's resolved mapping
+   * The parse job and the pipeline's sanitize stage both read stored
+   * files through this, so they always map them the same way.
+   * An explicit profile wins over automatic selection.
+   */
+  async mapClientRows(
+    campaignId: string,
+    headers: string[],
+    rows: Record<string, unknown>[],
+    profileId?: string,
+  ): Promise<MappedClientRows> {
+    const profile = profileId ? await this.findProfile(profileId) : null;
+    const resolved = profile
+      ? { profile, mappings: profile.mappings }
+      : await this.resolveForCampaign(campaignId, headers);
+
+    return {
+      profile: resolved.profile,
+      headers: headers.map((header) => resolved.mappings[header] || header),
+      data: rows.map((row) => this.applyMapping(row, resolved.mappings)),
+    };
+  }
+
+  /**
+   * Parse a file and show its first rows after mapping
+   * An explicit profile wins over automatic selection.
+   */
+  async preview(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string,
+    options: { profileId?: string; limit?: number } = {},
+  ): Promise<ColumnMappingPreview> {
+    const { limit = 10 } = options;
+    const parsed = await this.fileParser.parseFile(buffer, filename);
+
+    let resolved = await this.resolveForCampaign(campaignId, parsed.headers);
+
+    if (options.profileId) {
+      const profile = await this.findProfile(options.profileId);
+      resolved = { ...resolved, profile, mappings: profile.mappings };
+    }
+
+    const mappedFields = Object.values(resolved.mappings);
+
+    return {
+      ...resolved,
+      headers: parsed.headers,
+      unmappedHeaders: parsed.headers.filter((h) => !resolved.mappings[h]),
+      missingFields: REQUIRED_CLIENT_DATA_FIELDS.filter(
+        (field) => !mappedFields.includes(field),
+      ),
+      totalRows: parsed.data.length,
+      rows: parsed.data.slice(0, limit).map((row) => {
+        // Drop parser bookkeeping fields (_rowNumber, _warnings, ...)
+        const values = Object.fromEntries(
+          Object.entries(row).filter(([key]) => !key.startsWith('_')),
+        );
+        return this.applyMapping(values, resolved.mappings);
+      }),
+    };
+  }
+
+  /**
+   * Record that a profile was applied to an upload
+   */
+  async markUsed(profile: ColumnMappingProfile): Promise<void> {
+    await this.profileRepository.update(profile.id, { lastUsedAt: new Date() });
+  }
+
+  /**
+   * Rename row keys from source headers to canonical fields
+   * Unmapped columns are kept under their original header.
+   */
+  applyMapping(
+    row: Record<string, unknown>,
+    mappings: Record<string, ClientDataField>,
+  ): Record<string, any> {
+    const mapped: Record<string, any> = {};
+
+    for (const [header, value] of Object.entries(row)) {
+      mapped[mappings[header] || header] = value;
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Mappings must target known fields, each at most once
+   */
+  private validateMappings(mappings: Record<string, ClientDataField>): void {
+    const fields = Object.values(mappings);
+    const unknown = fields.filter(
+      (field) => !(field in CLIENT_DATA_FIELD_ALIASES),
+    );
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown client data fields: ${unknown.join(', ')}`,
+      );
+    }
+
+    const duplicates = fields.filter((f, i) => fields.indexOf(f) !== i);
+    if (duplicates.length > 0) {
+      throw new BadRequestException(
+        `Fields mapped more than once: ${[...new Set(duplicates)].join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Normalize a header for comparison
+   */
+  private normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  /**
+   * Similarity between a normalized header and an alias (0-1)
+   * Exact = 1, containment = 0.85, otherwise Levenshtein ratio
+   */
+  private scoreHeader(header: string, alias: string): number {
+    if (header === alias) return 1;
+
+    // "primaryemailaddress" contains "emailaddress"; short aliases
+    // like "st" would match too much, so require a minimum length
+    if (alias.length >= 5 && header.includes(alias)) return 0.85;
+
+    const distance = this.levenshtein(header, alias);
+    return 1 - distance / Math.max(header.length, alias.length);
+  }
+
+  /**
+   * Levenshtein edit distance
+   */
+  private levenshtein(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      let diagonal = previous[0];
+      previous[0] = i;
+
+      for (let j = 1; j <= b.length; j++) {
+        const above = previous[j];
+        previous[j] = Math.min(
+          previous[j] + 1,
+          previous[j - 1] + 1,
+          diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+        diagonal = above;
+      }
+    }
+
+    return previous[b.length];
+  }
+}
@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, IsObject } from 'class-validator';
+import type { ClientDataField } from '@matchback/types';
+
+export class CreateColumnMappingProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  billingNumber: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsObject()
+  mappings: Record<string, ClientDataField>;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty, IsObject, IsOptional } from 'class-validator';
+import type { ClientDataField } from '@matchback/types';
+
+export class UpdateColumnMappingProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsObject()
+  @IsOptional()
+  mappings?: Record<string, ClientDataField>;
+}
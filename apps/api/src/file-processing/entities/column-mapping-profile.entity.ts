@@ -0,0 +1,40 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import type { ClientDataField } from '@matchback/types';
+
+/**
+ * Saved column mapping for a client's data exports.
+ * Profiles are keyed by the campaign billing number so the next upload
+ * from the same client can reuse them.
+ */
+@Entity('column_mapping_profiles')
+@Index('IDX_column_mapping_profiles_billingNumber', ['billingNumber'])
+export class ColumnMappingProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  billingNumber: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  // Source header -> ClientDataRow field
+  @Column({ type: 'jsonb' })
+  mappings: Record<string, ClientDataField>;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -1,10 +1,17 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { FileParserService } from './file-parser.service';
+import { ColumnMappingService } from './column-mapping.service';
+import { ColumnMappingController } from './column-mapping.controller';
 import { ExcelParser } from './parsers/excel.parser';
 import { CSVParser } from './parsers/csv.parser';
+import { ColumnMappingProfile } from './entities/column-mapping-profile.entity';
+import { Campaign } from '../campaigns/entities/campaign.entity';
 
 @Module({
-  providers: [FileParserService, ExcelParser, CSVParser],
-  exports: [FileParserService, ExcelParser, CSVParser],
+  imports: [TypeOrmModule.forFeature([ColumnMappingProfile, Campaign])],
+  controllers: [ColumnMappingController],
+  providers: [FileParserService, ColumnMappingService, ExcelParser, CSVParser],
+  exports: [FileParserService, ColumnMappingService, ExcelParser, CSVParser],
 })
 export class FileProcessingModule {}
@@ -0,0 +1,443 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import type { PurgeCertificate } from '@matchback/types';
+import {
+  DataRetentionService,
+  resolveRetentionPolicy,
+} from './data-retention.service';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { InboundEmailEvent } from '../email/entities/inbound-email-event.entity';
+import { StorageService } from '../storage/storage.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { JobsService } from './jobs.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('DataRetentionService', () => {
+  let service: DataRetentionService;
+
+  const now = new Date('2026-10-19T03:00:00Z');
+
+  const mockQueue = {
+    add: jest.fn(),
+  };
+
+  const mockCampaignRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockRecordRepository = {
+    update: jest.fn(),
+  };
+
+  const mockInboundEventRepository = {
+    delete: jest.fn(),
+  };
+
+  const mockJobsService = {
+    removeCampaignJobs: jest.fn(),
+  };
+
+  const mockStorageService = {
+    deleteFile: jest.fn(),
+    uploadPurgeCertificate: jest.fn(),
+  };
+
+  const mockCampaignFilesService = {
+    findByCampaign: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockConfigService = {
+    getOrThrow: jest.fn(() => 'signing-secret'),
+  };
+
+  const completedDaysAgo = (days: number, overrides = {}) =>
+    ({
+      id: 'campaign-1',
+      name: 'Spring Mailer',
+      clientId: 'client-1',
+      client: { id: 'client-1', name: 'Acme', retentionPolicy: null },
+      status: 'complete',
+      completedAt: new Date(now.getTime() - days * DAY_MS),
+      dataPurge: null,
+      ...overrides,
+    }) as unknown as Campaign;
+
+  const storedFiles = [
+    { id: 'f1', kind: 'client-data', storageKey: 'k/client.csv' },
+    { id: 'f2', kind: 'sanitized', storageKey: 'k/sanitized.csv' },
+    { id: 'f3', kind: 'report', storageKey: 'k/report.pdf' },
+    { id: 'f4', kind: 'policy-report', storageKey: 'k/policy.json' },
+    { id: 'f5', kind: 'purge-certificate', storageKey: 'k/cert.json' },
+  ].map((file) => ({
+    ...file,
+    originalFilename: file.storageKey.slice(2),
+    checksum: `sha-${file.id}`,
+  }));
+
+  const uploadedCertificate = (): PurgeCertificate =>
+    JSON.parse(
+      mockStorageService.uploadPurgeCertificate.mock.calls[0][1].toString(),
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataRetentionService,
+        { provide: getQueueToken('data-retention'), useValue: mockQueue },
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+        {
+          provide: getRepositoryToken(MatchRecord),
+          useValue: mockRecordRepository,
+        },
+        {
+          provide: getRepositoryToken(InboundEmailEvent),
+          useValue: mockInboundEventRepository,
+        },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: CampaignFilesService, useValue: mockCampaignFilesService },
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<DataRetentionService>(DataRetentionService);
+
+    mockCampaignFilesService.findByCampaign.mockResolvedValue(storedFiles);
+    mockRecordRepository.update.mockResolvedValue({ affected: 120 });
+    mockInboundEventRepository.delete.mockResolvedValue({ affected: 2 });
+    mockJobsService.removeCampaignJobs.mockResolvedValue(3);
+    mockStorageService.uploadPurgeCertificate.mockResolvedValue({
+      key: 'k/purge-certificate.json',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveRetentionPolicy', () => {
+    it('should fill in default periods', () => {
+      expect(resolveRetentionPolicy(null)).toEqual({
+        rawFilesDays: 90,
+        piiDays: 365,
+      });
+      expect(resolveRetentionPolicy({ rawFilesDays: 30 })).toEqual({
+        rawFilesDays: 30,
+        piiDays: 365,
+      });
+    });
+
+    it('should keep null periods (no purge)', () => {
+      expect(resolveRetentionPolicy({ piiDays: null }).piiDays).toBeNull();
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('should schedule the nightly purge', async () => {
+      await service.onModuleInit();
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({
+          jobId: 'data-retention',
+          repeat: { cron: '0 3 * * *' },
+        }),
+      );
+    });
+  });
+
+  describe('getDueScopes', () => {
+    it('should return nothing before the raw-files period has passed', () => {
+      expect(service.getDueScopes(completedDaysAgo(89), now)).toEqual([]);
+    });
+
+    it('should return raw-files once its period has passed', () => {
+      expect(service.getDueScopes(completedDaysAgo(90), now)).toEqual([
+        'raw-files',
+      ]);
+    });
+
+    it('should return both scopes when both periods have passed', () => {
+      expect(service.getDueScopes(completedDaysAgo(400), now)).toEqual([
+        'raw-files',
+        'pii',
+      ]);
+    });
+
+    it('should skip scopes that were already purged', () => {
+      const campaign = completedDaysAgo(400, {
+        dataPurge: { rawFilesPurgedAt: '2026-01-01', certificateKeys: [] },
+      });
+
+      expect(service.getDueScopes(campaign, now)).toEqual(['pii']);
+    });
+
+    it('should skip raw-files after a PII purge', () => {
+      const campaign = completedDaysAgo(400, {
+        client: { retentionPolicy: { rawFilesDays: 500, piiDays: 30 } },
+        dataPurge: { piiPurgedAt: '2026-01-01', certificateKeys: [] },
+      });
+
+      expect(service.getDueScopes(campaign, now)).toEqual([]);
+    });
+
+    it('should use the client retention policy', () => {
+      const campaign = completedDaysAgo(1000, {
+        client: { retentionPolicy: { rawFilesDays: 7, piiDays: null } },
+      });
+
+      expect(service.getDueScopes(campaign, now)).toEqual(['raw-files']);
+    });
+
+    it('should ignore campaigns that are not complete', () => {
+      const campaign = completedDaysAgo(400, { status: 'processing' });
+
+      expect(service.getDueScopes(campaign, now)).toEqual([]);
+    });
+  });
+
+  describe('purgeCampaign', () => {
+    it('should delete only raw files for the raw-files scope', async () => {
+      const result = await service.purgeCampaign(
+        completedDaysAgo(100),
+        ['raw-files'],
+        now,
+      );
+
+      expect(mockStorageService.deleteFile.mock.calls).toEqual([
+        ['k/client.csv'],
+        ['k/sanitized.csv'],
+      ]);
+      expect(mockCampaignFilesService.remove).toHaveBeenCalledTimes(2);
+      expect(mockRecordRepository.update).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        campaignId: 'campaign-1',
+        scopes: ['raw-files'],
+        filesDeleted: 2,
+        recordsCleared: 0,
+        inboundEmailEvents: 2,
+        queueJobs: 3,
+        certificateKey: 'k/purge-certificate.json',
+      });
+    });
+
+    it('should clear PII and all files but policy checks and certificates', async () => {
+      const result = await service.purgeCampaign(
+        completedDaysAgo(400),
+        ['raw-files', 'pii'],
+        now,
+      );
+
+      expect(mockStorageService.deleteFile.mock.calls).toEqual([
+        ['k/client.csv'],
+        ['k/sanitized.csv'],
+        ['k/report.pdf'],
+      ]);
+      expect(mockRecordRepository.update).toHaveBeenCalledWith(
+        { campaignId: 'campaign-1' },
+        {
+          customerId: null,
+          emailAddress: null,
+          emailBlindIndex: null,
+          rawData: null,
+        },
+      );
+      expect(result.recordsCleared).toBe(120);
+    });
+
+    it('should delete inbound vendor replies and finished jobs', async () => {
+      await service.purgeCampaign(completedDaysAgo(100), ['raw-files'], now);
+
+      expect(mockInboundEventRepository.delete).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+      });
+      expect(mockJobsService.removeCampaignJobs).toHaveBeenCalledWith(
+        'campaign-1',
+      );
+    });
+
+    it('should store a signed certificate for the client', async () => {
+      await service.purgeCampaign(completedDaysAgo(400), ['pii'], now);
+
+      expect(mockStorageService.uploadPurgeCertificate).toHaveBeenCalledWith(
+        'campaign-1',
+        expect.any(Buffer),
+        'campaign-1-purge-certificate.json',
+      );
+
+      const certificate = uploadedCertificate();
+      expect(certificate).toMatchObject({
+        campaignId: 'campaign-1',
+        clientName: 'Acme',
+        scopes: ['pii'],
+        policy: { rawFilesDays: 90, piiDays: 365 },
+        records: {
+          count: 120,
+          clearedFields: [
+            'customerId',
+            'emailAddress',
+            'emailBlindIndex',
+            'rawData',
+          ],
+        },
+        inboundEmailEvents: 2,
+        queueJobs: 3,
+        purgedAt: now.toISOString(),
+      });
+      expect(certificate.files.map((file) => file.checksum)).toEqual([
+        'sha-f1',
+        'sha-f2',
+        'sha-f3',
+      ]);
+      expect(service.verifyCertificate(certificate)).toBe(true);
+    });
+
+    it('should record the purge on the campaign', async () => {
+      const campaign = completedDaysAgo(400, {
+        dataPurge: {
+          rawFilesPurgedAt: '2026-01-01T03:00:00.000Z',
+          certificateKeys: ['k/first.json'],
+        },
+      });
+
+      await service.purgeCampaign(campaign, ['pii'], now);
+
+      expect(mockCampaignRepository.update).toHaveBeenCalledWith('campaign-1', {
+        dataPurge: {
+          rawFilesPurgedAt: '2026-01-01T03:00:00.000Z',
+          piiPurgedAt: now.toISOString(),
+          certificateKeys: ['k/first.json', 'k/purge-certificate.json'],
+        },
+      });
+    });
+
+    it('should save each deleted file before removing its registry entry', async () => {
+      mockCampaignFilesService.remove.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+
+      await expect(
+        service.purgeCampaign(completedDaysAgo(100), ['raw-files'], now),
+      ).rejects.toThrow('connection lost');
+
+      expect(mockCampaignRepository.update).toHaveBeenCalledWith('campaign-1', {
+        dataPurge: {
+          certificateKeys: [],
+          deletedFiles: [
+            expect.objectContaining({ storageKey: 'k/client.csv' }),
+          ],
+        },
+      });
+      expect(mockStorageService.uploadPurgeCertificate).not.toHaveBeenCalled();
+    });
+
+    it('should finish an interrupted purge and certify every file', async () => {
+      const deletedEarlier = {
+        storageKey: 'k/client.csv',
+        kind: 'client-data' as const,
+        originalFilename: 'client.csv',
+        checksum: 'sha-f1',
+        deletedAt: '2026-10-18T03:00:00.000Z',
+      };
+      const campaign = completedDaysAgo(100, {
+        dataPurge: { certificateKeys: [], deletedFiles: [deletedEarlier] },
+      });
+
+      const result = await service.purgeCampaign(campaign, ['raw-files'], now);
+
+      expect(result.filesDeleted).toBe(2);
+      expect(uploadedCertificate().files).toEqual([
+        deletedEarlier,
+        expect.objectContaining({ storageKey: 'k/sanitized.csv' }),
+      ]);
+      expect(mockCampaignRepository.update).toHaveBeenLastCalledWith(
+        'campaign-1',
+        {
+          dataPurge: {
+            certificateKeys: ['k/purge-certificate.json'],
+            rawFilesPurgedAt: now.toISOString(),
+            deletedFiles: undefined,
+          },
+        },
+      );
+    });
+
+    it('should not delete anything without a signing secret', async () => {
+      mockConfigService.getOrThrow.mockImplementationOnce(() => {
+        throw new Error('PURGE_CERTIFICATE_SIGNING_SECRET is not set');
+      });
+
+      await expect(
+        service.purgeCampaign(completedDaysAgo(400), ['pii'], now),
+      ).rejects.toThrow('PURGE_CERTIFICATE_SIGNING_SECRET');
+      expect(mockStorageService.deleteFile).not.toHaveBeenCalled();
+      expect(mockRecordRepository.update).not.toHaveBeenCalled();
+      expect(mockInboundEventRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyCertificate', () => {
+    it('should reject a changed certificate', async () => {
+      await service.purgeCampaign(completedDaysAgo(400), ['pii'], now);
+      const certificate = uploadedCertificate();
+
+      expect(
+        service.verifyCertificate({
+          ...certificate,
+          records: { ...certificate.records, count: 1 },
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('purgeDue', () => {
+    it('should purge only campaigns with due scopes', async () => {
+      mockCampaignRepository.find.mockResolvedValue([
+        completedDaysAgo(10),
+        completedDaysAgo(100, { id: 'campaign-2' }),
+      ]);
+
+      const { purged, failed } = await service.purgeDue(now);
+
+      expect(purged).toHaveLength(1);
+      expect(purged[0]).toMatchObject({
+        campaignId: 'campaign-2',
+        scopes: ['raw-files'],
+      });
+      expect(failed).toEqual([]);
+      expect(mockCampaignFilesService.findByCampaign).toHaveBeenCalledWith(
+        'campaign-2',
+      );
+    });
+
+    it('should report a failed campaign and purge the others', async () => {
+      mockCampaignRepository.find.mockResolvedValue([
+        completedDaysAgo(100),
+        completedDaysAgo(100, { id: 'campaign-2' }),
+      ]);
+      mockStorageService.deleteFile.mockRejectedValueOnce(
+        new Error('File deletion failed: timeout'),
+      );
+
+      const { purged, failed } = await service.purgeDue(now);
+
+      expect(failed).toEqual([
+        {
+          campaignId: 'campaign-1',
+          scopes: ['raw-files'],
+          error: 'File deletion failed: timeout',
+        },
+      ]);
+      expect(purged.map((result) => result.campaignId)).toEqual(['campaign-2']);
+    });
+  });
+});
@@ -0,0 +1,403 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Not, Repository } from 'typeorm';
+import type { Queue } from 'bull';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type {
+  CampaignFileKind,
+  ClientRetentionPolicy,
+  DataPurgeScope,
+  PurgeCertificate,
+} from '@matchback/types';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { InboundEmailEvent } from '../email/entities/inbound-email-event.entity';
+import { StorageService } from '../storage/storage.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { JobsService } from './jobs.service';
+
+/**
+ * Used for clients without a retention policy of their own
+ */
+export const DEFAULT_RETENTION_POLICY: ClientRetentionPolicy = {
+  rawFilesDays: 90,
+  piiDays: 365,
+};
+
+/**
+ * Files removed by the raw-files purge; the PII purge removes every
+ * file except policy checks and purge certificates (reports list
+ * customers too)
+ */
+const RAW_FILE_KINDS: CampaignFileKind[] = [
+  'client-data',
+  'sanitized',
+  'vendor-response',
+  'duplicate-report',
+  'analyst-patterns',
+];
+
+const KEPT_FILE_KINDS: CampaignFileKind[] = [
+  'policy-report',
+  'purge-certificate',
+];
+
+/**
+ * MatchRecord columns identifying the customer
+ */
+const PII_FIELDS = [
+  'customerId',
+  'emailAddress',
+  'emailBlindIndex',
+  'rawData',
+] as const;
+
+/**
+ * Nightly, server time
+ */
+const PURGE_CRON = '0 3 * * *';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CampaignPurgeResult {
+  campaignId: string;
+  scopes: DataPurgeScope[];
+  filesDeleted: number;
+  recordsCleared: number;
+  inboundEmailEvents: number;
+  queueJobs: number;
+  certificateKey: string;
+}
+
+export interface CampaignPurgeFailure {
+  campaignId: string;
+  scopes: DataPurgeScope[];
+  error: string;
+}
+
+export interface DataRetentionRunResult {
+  purged: CampaignPurgeResult[];
+  failed: CampaignPurgeFailure[]; // Retried by the next run
+}
+
+/**
+ * Take a client's policy, with defaults for periods it leaves out
+ */
+export function resolveRetentionPolicy(
+  policy: Partial<ClientRetentionPolicy> | null | undefined,
+): ClientRetentionPolicy {
+  return {
+    rawFilesDays:
+      policy?.rawFilesDays !== undefined
+        ? policy.rawFilesDays
+        : DEFAULT_RETENTION_POLICY.rawFilesDays,
+    piiDays:
+      policy?.piiDays !== undefined
+        ? policy.piiDays
+        : DEFAULT_RETENTION_POLICY.piiDays,
+  };
+}
+
+/**
+ * Data Retention Service
+ *
+ * Removes completed campaign data once the client's retention periods
+ * (counted from Campaign.completedAt) have passed:
+ * - raw-files: client uploads, vendor files and responses are deleted
+ *   from storage (StorageService.deleteFile) and from the file registry
+ * - pii: customer IDs and contact details on match records are cleared,
+ *   and every file except policy checks and earlier certificates is
+ *   deleted
+ *
+ * Either purge also deletes copies of the campaign data kept outside
+ * files and match records: stored inbound vendor replies (attachments
+ * included) and finished pipeline jobs (job data holds records).
+ *
+ * Files deleted so far are saved on Campaign.dataPurge as the purge goes,
+ * so a purge that fails part-way is finished (and certified in full) by
+ * the next run.
+ *
+ * Campaign metrics, match flags and classifications are kept, so
+ * reporting still works. Every purge writes a signed purge certificate
+ * to the campaign files, where the client can download it.
+ *
+ * Runs nightly as the repeatable 'data-retention' job.
+ *
+ * Environment Variables Required:
+ * - PURGE_CERTIFICATE_SIGNING_SECRET: Key for signing purge certificates
+ */
+@Injectable()
+export class DataRetentionService implements OnModuleInit {
+  private readonly logger = new Logger(DataRetentionService.name);
+
+  constructor(
+    @InjectQueue('data-retention')
+    private readonly retentionQueue: Queue,
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(MatchRecord)
+    private readonly matchRecordRepository: Repository<MatchRecord>,
+    @InjectRepository(InboundEmailEvent)
+    private readonly inboundEventRepository: Repository<InboundEmailEvent>,
+    private readonly storageService: StorageService,
+    private readonly campaignFilesService: CampaignFilesService,
+    private readonly jobsService: JobsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Schedule the nightly purge (replaces the schedule of an earlier start)
+   */
+  async onModuleInit(): Promise<void> {
+    await this.retentionQueue.add(
+      {},
+      {
+        jobId: 'data-retention',
+        repeat: { cron: PURGE_CRON },
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    );
+  }
+
+  /**
+   * Purge every completed campaign whose retention periods have passed
+   * A campaign that fails is reported and does not stop the others.
+   */
+  async purgeDue(now: Date = new Date()): Promise<DataRetentionRunResult> {
+    const campaigns = await this.campaignRepository.find({
+      where: { status: 'complete', completedAt: Not(IsNull()) },
+      relations: ['client'],
+    });
+
+    const result: DataRetentionRunResult = { purged: [], failed: [] };
+
+    for (const campaign of campaigns) {
+      const scopes = this.getDueScopes(campaign, now);
+      if (scopes.length === 0) continue;
+
+      try {
+        result.purged.push(await this.purgeCampaign(campaign, scopes, now));
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(
+          `Purge of ${scopes.join(', ')} failed for campaign ${campaign.id}: ${message}`,
+          error instanceof Error ? error.stack : undefined,
+        );
+        result.failed.push({ campaignId: campaign.id, scopes, error: message });
+      }
+    }
+
+    this.logger.log(
+      `Retention run: ${result.purged.length} of ${campaigns.length} completed campaigns purged, ${result.failed.length} failed`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Scopes whose retention period has passed and that were not purged yet
+   */
+  getDueScopes(campaign: Campaign, now: Date = new Date()): DataPurgeScope[] {
+    if (campaign.status !== 'complete' || !campaign.completedAt) return [];
+
+    const policy = resolveRetentionPolicy(campaign.client?.retentionPolicy);
+    const purge = campaign.dataPurge;
+    const elapsedDays =
+      (now.getTime() - new Date(campaign.completedAt).getTime()) / DAY_MS;
+    const scopes: DataPurgeScope[] = [];
+
+    if (
+      policy.rawFilesDays !== null &&
+      !purge?.rawFilesPurgedAt &&
+      !purge?.piiPurgedAt &&
+      elapsedDays >= policy.rawFilesDays
+    ) {
+      scopes.push('raw-files');
+    }
+    if (
+      policy.piiDays !== null &&
+      !purge?.piiPurgedAt &&
+      elapsedDays >= policy.piiDays
+    ) {
+      scopes.push('pii');
+    }
+
+    return scopes;
+  }
+
+  /**
+   * Delete the campaign's data for the given scopes and certify it
+   */
+  async purgeCampaign(
+    campaign: Campaign,
+    scopes: DataPurgeScope[],
+    now: Date = new Date(),
+  ): Promise<CampaignPurgeResult> {
+    // Fail before deleting anything if the certificate cannot be signed
+    const secret = this.getSigningSecret();
+    const purgedAt = now.toISOString();
+    const stored = await this.campaignFilesService.findByCampaign(campaign.id);
+    const toDelete = stored.filter((file) =>
+      scopes.includes('pii')
+        ? !KEPT_FILE_KINDS.includes(file.kind)
+        : RAW_FILE_KINDS.includes(file.kind),
+    );
+
+    // Start from the files an earlier, unfinished purge already deleted.
+    // Each deletion is saved before its registry entry is removed; a file
+    // still registered is deleted again (deleting a missing key is a no-op)
+    const purge = campaign.dataPurge ?? { certificateKeys: [] };
+    const files: PurgeCertificate['files'] = [...(purge.deletedFiles ?? [])];
+    for (const file of toDelete) {
+      await this.storageService.deleteFile(file.storageKey);
+      if (!files.some((deleted) => deleted.storageKey === file.storageKey)) {
+        files.push({
+          storageKey: file.storageKey,
+          kind: file.kind,
+          originalFilename: file.originalFilename,
+          checksum: file.checksum,
+          deletedAt: new Date().toISOString(),
+        });
+        await this.campaignRepository.update(campaign.id, {
+          dataPurge: { ...purge, deletedFiles: files },
+        });
+      }
+      await this.campaignFilesService.remove(file);
+    }
+
+    let recordsCleared = 0;
+    if (scopes.includes('pii')) {
+      const result = await this.matchRecordRepository.update(
+        { campaignId: campaign.id },
+        {
+          customerId: null,
+          emailAddress: null,
+          emailBlindIndex: null,
+          rawData: null,
+        },
+      );
+      recordsCleared = result.affected ?? 0;
+    }
+
+    const { affected: inboundEmailEvents } =
+      await this.inboundEventRepository.delete({ campaignId: campaign.id });
+    const queueJobs = await this.jobsService.removeCampaignJobs(campaign.id);
+
+    const certificate = this.createCertificate(
+      campaign,
+      scopes,
+      {
+        files,
+        recordsCleared,
+        inboundEmailEvents: inboundEmailEvents ?? 0,
+        queueJobs,
+        purgedAt,
+      },
+      secret,
+    );
+    const { key: certificateKey } =
+      await this.storageService.uploadPurgeCertificate(
+        campaign.id,
+        Buffer.from(JSON.stringify(certificate, null, 2)),
+        `${campaign.id}-purge-certificate.json`,
+      );
+
+    await this.campaignRepository.update(campaign.id, {
+      dataPurge: {
+        ...purge,
+        ...(scopes.includes('raw-files') && { rawFilesPurgedAt: purgedAt }),
+        ...(scopes.includes('pii') && { piiPurgedAt: purgedAt }),
+        certificateKeys: [...purge.certificateKeys, certificateKey],
+        deletedFiles: undefined,
+      },
+    });
+
+    this.logger.log(
+      `Purged ${scopes.join(', ')} for campaign ${campaign.id}: ${files.length} files, ${recordsCleared} records, ${certificate.inboundEmailEvents} inbound emails, ${queueJobs} jobs`,
+    );
+
+    return {
+      campaignId: campaign.id,
+      scopes,
+      filesDeleted: files.length,
+      recordsCleared,
+      inboundEmailEvents: certificate.inboundEmailEvents,
+      queueJobs,
+      certificateKey,
+    };
+  }
+
+  /**
+   * Whether a certificate is unchanged since it was signed
+   */
+  verifyCertificate(certificate: PurgeCertificate): boolean {
+    const { signature, ...unsigned } = certificate;
+    const expected = Buffer.from(
+      this.sign(unsigned, this.getSigningSecret()),
+      'hex',
+    );
+    const actual = Buffer.from(signature, 'hex');
+
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private createCertificate(
+    campaign: Campaign,
+    scopes: DataPurgeScope[],
+    purge: {
+      files: PurgeCertificate['files'];
+      recordsCleared: number;
+      inboundEmailEvents: number;
+      queueJobs: number;
+      purgedAt: string;
+    },
+    secret: string,
+  ): PurgeCertificate {
+    const unsigned: Omit<PurgeCertificate, 'signature'> = {
+      certificateId: randomUUID(),
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      clientId: campaign.clientId,
+      clientName: campaign.client?.name ?? '',
+      scopes,
+      policy: resolveRetentionPolicy(campaign.client?.retentionPolicy),
+      completedAt: new Date(campaign.completedAt!).toISOString(),
+      files: purge.files,
+      records: {
+        count: purge.recordsCleared,
+        clearedFields: scopes.includes('pii') ? [...PII_FIELDS] : [],
+      },
+      inboundEmailEvents: purge.inboundEmailEvents,
+      queueJobs: purge.queueJobs,
+      retained: [
+        'Campaign metrics (revenue, costs, match rate, CAC/ROAS)',
+        'Match flags and customer classifications',
+        'Data-sharing policy checks',
+      ],
+      purgedAt: purge.purgedAt,
+    };
+
+    return { ...unsigned, signature: this.sign(unsigned, secret) };
+  }
+
+  private getSigningSecret(): string {
+    return this.configService.getOrThrow<string>(
+      'PURGE_CERTIFICATE_SIGNING_SECRET',
+    );
+  }
+
+  private sign(
+    unsigned: Omit<PurgeCertificate, 'signature'>,
+    secret: string,
+  ): string {
+    return createHmac('sha256', secret)
+      .update(JSON.stringify(unsigned))
+      .digest('hex');
+  }
+}
@@ -1,12 +1,33 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { FileProcessingModule } from '../file-processing/file-processing.module';
 import { PatternsModule } from '../patterns/patterns.module';
 import { ReportsModule } from '../reports/reports.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { MatchingModule } from '../matching/matching.module';
+import { StorageModule } from '../storage/storage.module';
+import { EmailModule } from '../email/email.module';
+import { VendorsModule } from '../vendors/vendors.module';
+import { MarketsModule } from '../markets/markets.module';
+import { EncryptionModule } from '../encryption/encryption.module';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { InboundEmailEvent } from '../email/entities/inbound-email-event.entity';
 import { FileProcessingProcessor } from './processors/file-processing.processor';
 import { PatternAnalysisProcessor } from './processors/pattern-analysis.processor';
 import { ReportGenerationProcessor } from './processors/report-generation.processor';
+import { VendorReminderProcessor } from './processors/vendor-reminder.processor';
+import { KeyRotationProcessor } from './processors/key-rotation.processor';
+import { DataRetentionProcessor } from './processors/data-retention.processor';
 import { JobsService } from './jobs.service';
+import { PipelineService } from './pipeline.service';
+import { VendorRemindersService } from './vendor-reminders.service';
+import { KeyRotationService } from './key-rotation.service';
+import { DataRetentionService } from './data-retention.service';
+import { PipelineController } from './pipeline.controller';
+import { KeyRotationController } from './key-rotation.controller';
 
 /**
  * Jobs Module
@@ -15,6 +36,9 @@ import { JobsService } from './jobs.service';
  * - File processing (Excel/CSV parsing)
  * - Pattern analysis (customer classification)
  * - Report generation (CAC/ROAS, pivot tables, Excel export)
+ * - Vendor reminders (follow up on unanswered match requests)
+ * - Key rotation (move stored data to the active encryption key)
+ * - Data retention (purge completed campaign data, with certificates)
  *
  * CRITICAL: Never block HTTP requests - always use job queues for:
  * - Large file uploads
@@ -26,6 +50,13 @@ import { JobsService } from './jobs.service';
  * - 'file-processing': Process uploaded Excel/CSV files
  * - 'pattern-analysis': Analyze customer patterns
  * - 'report-generation': Generate campaign reports
+ * - 'vendor-reminders': Repeatable per-campaign vendor follow-ups
+ * - 'key-rotation': Re-encrypt stored files and PII (admin-triggered)
+ * - 'data-retention': Nightly purge of data past its retention period
+ *
+ * PipelineService chains the three queues into the campaign matchback
+ * pipeline (parse -> sanitize -> vendor request -> merge -> pattern
+ * analysis -> report) and records stage progress on the campaign.
  */
 @Module({
   imports: [
@@ -39,17 +70,41 @@ import { JobsService } from './jobs.service';
       { name: 'file-processing' },
       { name: 'pattern-analysis' },
       { name: 'report-generation' },
+      { name: 'vendor-reminders' },
+      { name: 'key-rotation' },
+      { name: 'data-retention' },
     ),
     FileProcessingModule,
     PatternsModule,
     ReportsModule,
+    CampaignsModule,
+    MatchingModule,
+    VendorsModule,
+    MarketsModule,
+    StorageModule,
+    EncryptionModule,
+    forwardRef(() => EmailModule),
+    TypeOrmModule.forFeature([
+      Campaign,
+      MatchRecord,
+      CampaignFile,
+      InboundEmailEvent,
+    ]),
   ],
+  controllers: [PipelineController, KeyRotationController],
   providers: [
     FileProcessingProcessor,
     PatternAnalysisProcessor,
     ReportGenerationProcessor,
+    VendorReminderProcessor,
+    KeyRotationProcessor,
+    DataRetentionProcessor,
     JobsService,
+    PipelineService,
+    VendorRemindersService,
+    KeyRotationService,
+    DataRetentionService,
   ],
-  exports: [JobsService, BullModule],
+  exports: [JobsService, PipelineService, VendorRemindersService, BullModule],
 })
 export class JobsModule {}
@@ -13,6 +13,7 @@ describe('JobsService', () => {
     const mockQueue = {
       add: jest.fn().mockResolvedValue({ id: '123' }),
       getJob: jest.fn(),
+      getJobs: jest.fn().mockResolvedValue([]),
       getWaitingCount: jest.fn().mockResolvedValue(0),
       getActiveCount: jest.fn().mockResolvedValue(0),
       getCompletedCount: jest.fn().mockResolvedValue(0),
@@ -73,7 +74,7 @@ describe('JobsService', () => {
   describe('addPatternAnalysisJob', () => {
     it('should add job to pattern analysis queue', async () => {
       const jobData = {
-        records: [],
+        recordIds: [],
         campaignId: 'test-campaign',
         campaignDate: new Date(),
       };
@@ -156,4 +157,26 @@ describe('JobsService', () => {
       expect(status?.progress).toBe(50);
     });
   });
+
+  describe('removeCampaignJobs', () => {
+    it("should remove only the campaign's finished jobs", async () => {
+      const job = (campaignId: string) => ({
+        data: { campaignId },
+        remove: jest.fn(),
+      });
+      const own = job('campaign-1');
+      const other = job('campaign-2');
+      fileProcessingQueue.getJobs.mockResolvedValueOnce([own, other, null]);
+
+      const removed = await service.removeCampaignJobs('campaign-1');
+
+      expect(removed).toBe(1);
+      expect(fileProcessingQueue.getJobs).toHaveBeenCalledWith([
+        'completed',
+        'failed',
+      ]);
+      expect(own.remove).toHaveBeenCalled();
+      expect(other.remove).not.toHaveBeenCalled();
+    });
+  });
 });
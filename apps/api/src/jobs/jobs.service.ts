@@ -220,6 +220,36 @@ export class JobsService {
     }
   }
 
+  /**
+   * Remove a campaign's finished jobs
+   * Kept jobs hold the customer records they processed (data and result),
+   * so they go when the campaign's data is purged
+   */
+  async removeCampaignJobs(campaignId: string): Promise<number> {
+    let removed = 0;
+
+    for (const queue of [
+      this.fileProcessingQueue,
+      this.patternAnalysisQueue,
+      this.reportGenerationQueue,
+    ] as Queue[]) {
+      const jobs = await queue.getJobs(['completed', 'failed']);
+
+      for (const job of jobs) {
+        if (job?.data?.campaignId === campaignId) {
+          await job.remove();
+          removed++;
+        }
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} jobs of campaign ${campaignId}`);
+    }
+
+    return removed;
+  }
+
   /**
    * Get queue statistics
    */
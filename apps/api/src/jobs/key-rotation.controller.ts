@@ -0,0 +1,19 @@
+import { Controller, Post, HttpCode, HttpStatus } from '@nestjs/common';
+import { KeyRotationService } from './key-rotation.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('encryption')
+@Roles('admin')
+export class KeyRotationController {
+  constructor(private readonly keyRotationService: KeyRotationService) {}
+
+  /**
+   * POST /encryption/rotate
+   * Queue moving stored files and PII to the active encryption key
+   */
+  @Post('rotate')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async rotate() {
+    return this.keyRotationService.queueRotation();
+  }
+}
@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { KeyRotationService } from './key-rotation.service';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { InboundEmailEvent } from '../email/entities/inbound-email-event.entity';
+import { StorageService } from '../storage/storage.service';
+import { EncryptionService } from '../encryption/encryption.service';
+
+describe('KeyRotationService', () => {
+  let service: KeyRotationService;
+
+  const mockQueue = {
+    add: jest.fn(),
+  };
+
+  const mockFileRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    setParameter: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockRecordRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    update: jest.fn(),
+  };
+
+  const mockEventQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockEventRepository = {
+    createQueryBuilder: jest.fn(() => mockEventQueryBuilder),
+    update: jest.fn(),
+  };
+
+  const mockStorageService = {
+    rewrapFile: jest.fn(),
+  };
+
+  const mockEncryptionService = {
+    activeKeyId: '2026-10',
+    emailBlindIndex: jest.fn((email: string | null) =>
+      email?.trim() ? `index:${email}` : null,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeyRotationService,
+        { provide: getQueueToken('key-rotation'), useValue: mockQueue },
+        {
+          provide: getRepositoryToken(CampaignFile),
+          useValue: mockFileRepository,
+        },
+        {
+          provide: getRepositoryToken(MatchRecord),
+          useValue: mockRecordRepository,
+        },
+        {
+          provide: getRepositoryToken(InboundEmailEvent),
+          useValue: mockEventRepository,
+        },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: EncryptionService, useValue: mockEncryptionService },
+      ],
+    }).compile();
+
+    service = module.get<KeyRotationService>(KeyRotationService);
+
+    mockFileRepository.find.mockResolvedValue([]);
+    mockQueryBuilder.getMany.mockResolvedValue([]);
+    mockEventQueryBuilder.getMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('queueRotation', () => {
+    it('should queue a rotation job', async () => {
+      mockQueue.add.mockResolvedValue({ id: 42 });
+
+      await expect(service.queueRotation()).resolves.toEqual({
+        jobId: '42',
+        activeKeyId: '2026-10',
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should move stale files to the active key and record it', async () => {
+      mockFileRepository.find.mockResolvedValue([
+        { id: 'file-1', storageKey: 'campaigns/c1/client-data/1-a.xlsx' },
+        { id: 'file-2', storageKey: 'campaigns/c1/report/2-b.xlsx' },
+      ]);
+      mockStorageService.rewrapFile
+        .mockResolvedValueOnce({ keyId: '2026-10', changed: true })
+        .mockRejectedValueOnce(new Error('NoSuchKey'));
+
+      const result = await service.rotate();
+
+      expect(mockFileRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockFileRepository.update).toHaveBeenCalledWith('file-1', {
+        encryptionKeyId: '2026-10',
+      });
+      expect(result).toEqual({
+        activeKeyId: '2026-10',
+        files: 1,
+        failedFiles: ['campaigns/c1/report/2-b.xlsx'],
+        records: 0,
+        inboundEvents: 0,
+      });
+    });
+
+    it('should re-encrypt match records in batches until none are stale', async () => {
+      mockQueryBuilder.getMany
+        .mockResolvedValueOnce([
+          { id: 'r1', emailAddress: 'jane@example.com', rawData: { a: 1 } },
+          { id: 'r2', emailAddress: null, rawData: null },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.rotate();
+
+      expect(mockQueryBuilder.setParameter).toHaveBeenCalledWith(
+        'current',
+        'enc:v1:2026-10:%',
+      );
+      expect(mockRecordRepository.update).toHaveBeenCalledWith('r1', {
+        emailAddress: 'jane@example.com',
+        emailBlindIndex: 'index:jane@example.com',
+        rawData: { a: 1 },
+      });
+      expect(mockRecordRepository.update).toHaveBeenCalledWith('r2', {
+        emailAddress: null,
+        emailBlindIndex: null,
+        rawData: null,
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'record.id > :lastId',
+        { lastId: 'r2' },
+      );
+      expect(result.records).toBe(2);
+    });
+
+    it('should not fetch a record with a blank email again', async () => {
+      const blank = { id: 'r1', emailAddress: '  ', rawData: null };
+      // Like the database: the record stays stale (no blind index) and
+      // only the id cursor moves past it
+      let lastId: string | undefined;
+      mockQueryBuilder.andWhere.mockImplementation(
+        (...[, params]: [string, { lastId: string }]) => {
+          lastId = params.lastId;
+          return mockQueryBuilder;
+        },
+      );
+      mockQueryBuilder.getMany.mockImplementation(() =>
+        Promise.resolve(lastId === 'r1' ? [] : [blank]),
+      );
+
+      const result = await service.rotate();
+
+      expect(mockRecordRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockRecordRepository.update).toHaveBeenCalledWith('r1', {
+        emailAddress: '  ',
+        emailBlindIndex: null,
+        rawData: null,
+      });
+      expect(result.records).toBe(1);
+    });
+
+    it('should re-encrypt inbound webhook payloads', async () => {
+      const payload = { type: 'email.received', data: { attachments: [] } };
+      mockEventQueryBuilder.getMany
+        .mockResolvedValueOnce([{ id: 'e1', payload }])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.rotate();
+
+      expect(mockEventQueryBuilder.where).toHaveBeenCalledWith(
+        'event.payload NOT LIKE :current',
+        { current: 'enc:v1:2026-10:%' },
+      );
+      expect(mockEventRepository.update).toHaveBeenCalledWith('e1', {
+        payload,
+      });
+      expect(result.inboundEvents).toBe(1);
+    });
+  });
+});
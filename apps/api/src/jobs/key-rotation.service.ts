@@ -0,0 +1,224 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, IsNull, Not, Repository } from 'typeorm';
+import type { Queue } from 'bull';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { InboundEmailEvent } from '../email/entities/inbound-email-event.entity';
+import { StorageService } from '../storage/storage.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { ENCRYPTED_FIELD_PREFIX } from '../encryption/field-encryption';
+
+export interface KeyRotationResult {
+  activeKeyId: string;
+  files: number; // Files moved to the active key
+  failedFiles: string[]; // Storage keys that could not be re-encrypted
+  records: number; // Match records re-encrypted
+  inboundEvents: number; // Inbound webhook payloads re-encrypted
+}
+
+const RECORD_BATCH_SIZE = 500;
+
+/**
+ * Key Rotation Service
+ *
+ * Moves everything stored under older keys to the active key of the key
+ * ring, run as a 'key-rotation' job:
+ * 1. Campaign files: data keys are re-wrapped (files stored before
+ *    encryption at rest are encrypted)
+ * 2. Match records: PII columns are re-encrypted and blind indexes
+ *    filled in
+ * 3. Inbound email events: stored webhook payloads (vendor attachments)
+ *    are re-encrypted
+ *
+ * To rotate: add a new key to ENCRYPTION_KEYS, make it
+ * ENCRYPTION_ACTIVE_KEY_ID, restart, queue a rotation, and remove the
+ * old key once the job has finished without failed files.
+ */
+@Injectable()
+export class KeyRotationService {
+  private readonly logger = new Logger(KeyRotationService.name);
+
+  constructor(
+    @InjectQueue('key-rotation')
+    private readonly keyRotationQueue: Queue,
+    @InjectRepository(CampaignFile)
+    private readonly campaignFileRepository: Repository<CampaignFile>,
+    @InjectRepository(MatchRecord)
+    private readonly matchRecordRepository: Repository<MatchRecord>,
+    @InjectRepository(InboundEmailEvent)
+    private readonly inboundEventRepository: Repository<InboundEmailEvent>,
+    private readonly storageService: StorageService,
+    private readonly encryptionService: EncryptionService,
+  ) {}
+
+  /**
+   * Queue a rotation to the active key
+   */
+  async queueRotation(): Promise<{ jobId: string; activeKeyId: string }> {
+    const job = await this.keyRotationQueue.add(
+      {},
+      { attempts: 3, backoff: { type: 'exponential', delay: 5000 } },
+    );
+
+    return {
+      jobId: String(job.id),
+      activeKeyId: this.encryptionService.activeKeyId,
+    };
+  }
+
+  /**
+   * Move all stored files and match records to the active key
+   */
+  async rotate(): Promise<KeyRotationResult> {
+    const activeKeyId = this.encryptionService.activeKeyId;
+    this.logger.log(`Rotating stored data to key ${activeKeyId}`);
+
+    const { files, failedFiles } = await this.rotateFiles(activeKeyId);
+    const records = await this.rotateRecords(activeKeyId);
+    const inboundEvents = await this.rotateInboundEvents(activeKeyId);
+
+    this.logger.log(
+      `Key rotation to ${activeKeyId} done: ${files} files, ${records} records, ${inboundEvents} inbound events, ${failedFiles.length} files failed`,
+    );
+
+    return { activeKeyId, files, failedFiles, records, inboundEvents };
+  }
+
+  private async rotateFiles(
+    activeKeyId: string,
+  ): Promise<{ files: number; failedFiles: string[] }> {
+    const stale = await this.campaignFileRepository.find({
+      where: [
+        { encryptionKeyId: IsNull() },
+        { encryptionKeyId: Not(activeKeyId) },
+      ],
+      select: ['id', 'storageKey'],
+    });
+
+    let files = 0;
+    const failedFiles: string[] = [];
+
+    for (const file of stale) {
+      try {
+        const { keyId } = await this.storageService.rewrapFile(file.storageKey);
+        await this.campaignFileRepository.update(file.id, {
+          encryptionKeyId: keyId,
+        });
+        files++;
+      } catch (error) {
+        // One missing object must not hold up the rest
+        this.logger.error(
+          `Could not move ${file.storageKey} to key ${activeKeyId}: ${error.message}`,
+        );
+        failedFiles.push(file.storageKey);
+      }
+    }
+
+    return { files, failedFiles };
+  }
+
+  /**
+   * Re-encrypt records whose PII is plaintext or under an older key
+   * Loading decrypts and update() encrypts again, under the active key.
+   * Batches are paged by id: a blank email gets no blind index, so its
+   * record still matches after the update and must not be fetched again.
+   */
+  private async rotateRecords(activeKeyId: string): Promise<number> {
+    const current = this.currentKeyPattern(activeKeyId);
+    let records = 0;
+    let lastId: string | undefined;
+
+    for (;;) {
+      const query = this.matchRecordRepository
+        .createQueryBuilder('record')
+        .where(
+          new Brackets((stale) =>
+            stale
+              .where(
+                '(record.emailAddress IS NOT NULL AND record.emailAddress NOT LIKE :current)',
+              )
+              .orWhere(
+                '(record.rawData IS NOT NULL AND record.rawData NOT LIKE :current)',
+              )
+              .orWhere(
+                '(record.emailAddress IS NOT NULL AND record.emailBlindIndex IS NULL)',
+              ),
+          ),
+        )
+        .setParameter('current', current);
+
+      if (lastId) {
+        query.andWhere('record.id > :lastId', { lastId });
+      }
+
+      const batch = await query
+        .orderBy('record.id')
+        .take(RECORD_BATCH_SIZE)
+        .getMany();
+
+      if (batch.length === 0) return records;
+
+      for (const record of batch) {
+        await this.matchRecordRepository.update(record.id, {
+          emailAddress: record.emailAddress,
+          emailBlindIndex: this.encryptionService.emailBlindIndex(
+            record.emailAddress,
+          ),
+          rawData: record.rawData,
+        });
+      }
+
+      records += batch.length;
+      lastId = batch[batch.length - 1].id;
+      this.logger.log(`Re-encrypted ${records} match records`);
+    }
+  }
+
+  /**
+   * Re-encrypt inbound webhook payloads that are plaintext or under an
+   * older key (paged by id, like the records)
+   */
+  private async rotateInboundEvents(activeKeyId: string): Promise<number> {
+    const current = this.currentKeyPattern(activeKeyId);
+    let inboundEvents = 0;
+    let lastId: string | undefined;
+
+    for (;;) {
+      const query = this.inboundEventRepository
+        .createQueryBuilder('event')
+        .select(['event.id', 'event.payload'])
+        .where('event.payload NOT LIKE :current', { current });
+
+      if (lastId) {
+        query.andWhere('event.id > :lastId', { lastId });
+      }
+
+      const batch = await query
+        .orderBy('event.id')
+        .take(RECORD_BATCH_SIZE)
+        .getMany();
+
+      if (batch.length === 0) return inboundEvents;
+
+      for (const event of batch) {
+        await this.inboundEventRepository.update(event.id, {
+          payload: event.payload,
+        });
+      }
+
+      inboundEvents += batch.length;
+      lastId = batch[batch.length - 1].id;
+      this.logger.log(`Re-encrypted ${inboundEvents} inbound email events`);
+    }
+  }
+
+  /**
+   * LIKE pattern matching values encrypted under the active key
+   */
+  private currentKeyPattern(activeKeyId: string): string {
+    const prefix = `${ENCRYPTED_FIELD_PREFIX}${activeKeyId}:`;
+    return `${prefix.replace(/[\\%_]/g, '\\$&')}%`;
+  }
+}
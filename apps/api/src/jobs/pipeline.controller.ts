@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { PipelineService } from './pipeline.service';
+import { CampaignAccessGuard } from '../campaigns/guards/campaign-access.guard';
+
+@Controller('campaigns/:id')
+@UseGuards(CampaignAccessGuard)
+export class PipelineController {
+  constructor(private readonly pipelineService: PipelineService) {}
+
+  /**
+   * POST /campaigns/:id/process
+   * Restart the pipeline from the latest uploaded client data file
+   * (uploads start it automatically)
+   */
+  @Post('process')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async process(@Param('id') id: string) {
+    return this.pipelineService.startFromLatestClientFile(id);
+  }
+
+  /**
+   * GET /campaigns/:id/pipeline
+   * Get pipeline stage progress
+   */
+  @Get('pipeline')
+  async getState(@Param('id') id: string) {
+    return this.pipelineService.getState(id);
+  }
+
+  /**
+   * POST /campaigns/:id/pipeline/resume
+   * Resume a failed pipeline from the last completed stage
+   */
+  @Post('pipeline/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async resume(@Param('id') id: string) {
+    return this.pipelineService.resume(id);
+  }
+}
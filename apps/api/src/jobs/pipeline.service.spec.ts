@@ -0,0 +1,810 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import type {
+  CampaignMarketState,
+  CampaignMarketStatus,
+  CampaignPipelineState,
+  CampaignStatus,
+} from '@matchback/types';
+import { PipelineService } from './pipeline.service';
+import { JobsService } from './jobs.service';
+import { VendorRemindersService } from './vendor-reminders.service';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { CampaignCostsService } from '../campaigns/campaign-costs.service';
+import { MatchingService } from '../matching/matching.service';
+import { EmailService } from '../email/email.service';
+import { EmailParserService } from '../email/email-parser.service';
+import { StorageService } from '../storage/storage.service';
+import { FileParserService } from '../file-processing/file-parser.service';
+import { ColumnMappingService } from '../file-processing/column-mapping.service';
+import { MarketsService } from '../markets/markets.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { VendorsService } from '../vendors/vendors.service';
+import { CampaignReport } from '../reports/reports.service';
+import { DEFAULT_VENDOR_FILE_PROFILE } from '../vendors/vendor-file-profile';
+
+describe('PipelineService', () => {
+  let service: PipelineService;
+  let campaign: Campaign;
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(() => Promise.resolve(campaign)),
+    findOneOrFail: jest.fn(() => Promise.resolve(campaign)),
+    update: jest.fn((id, patch) => {
+      Object.assign(campaign, patch);
+      return Promise.resolve();
+    }),
+    save: jest.fn((c) => Promise.resolve(c)),
+  };
+
+  const mockRecordRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work: (manager: any) => Promise<any>) =>
+      work({
+        getRepository: (entity) =>
+          entity === Campaign ? mockCampaignRepository : mockRecordRepository,
+      }),
+    ),
+  };
+
+  const mockCampaignsService = {
+    findOne: jest.fn(() => Promise.resolve(campaign)),
+    updateStatus: jest.fn((id: string, status: CampaignStatus) => {
+      campaign.status = status;
+      return Promise.resolve(campaign);
+    }),
+    updateMarketState: jest.fn(
+      (id: string, market: string, patch: Partial<CampaignMarketState>) => {
+        const state = campaign.marketStates.find((s) => s.market === market);
+        Object.assign(state!, patch);
+        return Promise.resolve(state);
+      },
+    ),
+  };
+
+  const mockCampaignCostsService = {
+    getSummary: jest
+      .fn()
+      .mockResolvedValue({ total: 1500, byMarket: { Houston: 1500 } }),
+  };
+
+  const mockJobsService = {
+    addFileProcessingJob: jest.fn().mockResolvedValue('job-parse'),
+    addPatternAnalysisJob: jest.fn().mockResolvedValue('job-patterns'),
+    addReportGenerationJob: jest.fn().mockResolvedValue('job-report'),
+  };
+
+  const mockMatchingService = {
+    prepareMarketsForVendorMatching: jest.fn(),
+    getSanitizedExcel: jest.fn(),
+    applyVendorMatches: jest.fn(),
+  };
+
+  const mockEmailService = {
+    generateReplyToEmail: jest.fn(() => 'campaign-1@example.com'),
+    sendVendorMatchRequest: jest.fn(),
+  };
+
+  const mockEmailParser = {
+    parseVendorResponse: jest.fn(),
+  };
+
+  const mockStorageService = {
+    downloadFile: jest.fn(),
+    uploadReport: jest.fn(),
+  };
+
+  const mockFileParser = {
+    parseExcel: jest.fn(),
+    parseCSV: jest.fn(),
+  };
+
+  const mockColumnMappingService = {
+    mapClientRows: jest.fn(),
+  };
+
+  const mockMarketsService = {
+    applyToRows: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockCampaignFilesService = {
+    findLatest: jest.fn(),
+  };
+
+  const mockVendorRemindersService = {
+    schedule: jest.fn(),
+  };
+
+  const mockVendorsService = {
+    findForCampaign: jest.fn(() =>
+      Promise.resolve({ id: 'vendor-1', name: 'Acme Data' }),
+    ),
+    getFileProfile: jest.fn(() => Promise.resolve(DEFAULT_VENDOR_FILE_PROFILE)),
+  };
+
+  const marketState = (
+    market: string,
+    status: CampaignMarketStatus = 'requested',
+  ): CampaignMarketState => ({
+    market,
+    status,
+    recordCount: 1,
+    dcmIdRange: { first: `${market}-1`, last: `${market}-1` },
+    sanitizedFileKey: `campaigns/campaign-1/sanitized/${market}.xlsx`,
+  });
+
+  const pipelineState = (
+    state: Omit<CampaignPipelineState, 'updatedAt'>,
+  ): CampaignPipelineState => ({
+    ...state,
+    updatedAt: '2024-10-01T00:00:00.000Z',
+  });
+
+  beforeEach(async () => {
+    campaign = {
+      id: 'campaign-1',
+      name: 'Fall Drop',
+      status: 'pending',
+      markets: ['Houston'],
+      dropDate: new Date('2024-10-01'),
+      vendorId: 'vendor-1',
+      vendorEmail: 'vendor@example.com',
+      metrics: null,
+      pipeline: null,
+      marketStates: [],
+      duplicateMergeRules: { totalSales: 'sum', totalVisits: 'max' },
+    } as unknown as Campaign;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PipelineService,
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+        {
+          provide: getRepositoryToken(MatchRecord),
+          useValue: mockRecordRepository,
+        },
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: CampaignsService, useValue: mockCampaignsService },
+        { provide: CampaignCostsService, useValue: mockCampaignCostsService },
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: MatchingService, useValue: mockMatchingService },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: EmailParserService, useValue: mockEmailParser },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: FileParserService, useValue: mockFileParser },
+        { provide: ColumnMappingService, useValue: mockColumnMappingService },
+        { provide: MarketsService, useValue: mockMarketsService },
+        { provide: CampaignFilesService, useValue: mockCampaignFilesService },
+        { provide: VendorsService, useValue: mockVendorsService },
+        {
+          provide: VendorRemindersService,
+          useValue: mockVendorRemindersService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PipelineService>(PipelineService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startFromClientUpload', () => {
+    it('should queue the stored file for parsing and move to collecting', async () => {
+      await service.startFromClientUpload(
+        'campaign-1',
+        'campaigns/campaign-1/client-data/1-data.xlsx',
+        'excel',
+      );
+
+      expect(mockJobsService.addFileProcessingJob).toHaveBeenCalledWith({
+        fileKey: 'campaigns/campaign-1/client-data/1-data.xlsx',
+        fileType: 'excel',
+        campaignId: 'campaign-1',
+        uploadType: 'client-data',
+        pipeline: true,
+      });
+      expect(mockCampaignsService.updateStatus).toHaveBeenCalledWith(
+        'campaign-1',
+        'collecting',
+      );
+      expect(campaign.pipeline).toEqual(
+        expect.objectContaining({
+          currentStage: 'parse',
+          completedStages: [],
+          jobIds: { parse: 'job-parse' },
+        }),
+      );
+    });
+
+    it('should keep the column mapping profile chosen at upload', async () => {
+      await service.startFromClientUpload(
+        'campaign-1',
+        'campaigns/campaign-1/client-data/1-data.xlsx',
+        'excel',
+        'profile-1',
+      );
+
+      expect(mockJobsService.addFileProcessingJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          options: { columnMappingProfileId: 'profile-1' },
+        }),
+      );
+      expect(campaign.pipeline?.columnMappingProfileId).toBe('profile-1');
+    });
+  });
+
+  describe('startFromLatestClientFile', () => {
+    it('should reuse the profile chosen for the same file', async () => {
+      campaign.pipeline = pipelineState({
+        currentStage: 'parse',
+        completedStages: [],
+        failedStage: 'parse',
+        clientFileKey: 'campaigns/campaign-1/client-data/1-data.csv',
+        clientFileType: 'csv',
+        columnMappingProfileId: 'profile-1',
+        jobIds: {},
+      });
+      mockCampaignFilesService.findLatest.mockResolvedValue({
+        storageKey: 'campaigns/campaign-1/client-data/1-data.csv',
+        originalFilename: 'data.csv',
+      });
+
+      await service.startFromLatestClientFile('campaign-1');
+
+      expect(mockJobsService.addFileProcessingJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fileType: 'csv',
+          options: { columnMappingProfileId: 'profile-1' },
+        }),
+      );
+    });
+  });
+
+  describe('onParseCompleted', () => {
+    beforeEach(() => {
+      campaign.status = 'collecting';
+      campaign.pipeline = pipelineState({
+        currentStage: 'parse',
+        completedStages: [],
+        clientFileKey: 'key',
+        clientFileType: 'excel',
+        jobIds: { parse: 'job-parse' },
+      });
+    });
+
+    const sanitized = (market: string, first: string, last: string) => ({
+      market,
+      dcmIdRange: { first, last },
+      sanitizedFileKey: `campaigns/campaign-1/sanitized/${market}.xlsx`,
+      policyReportKey: `campaigns/campaign-1/policy-report/${market}.json`,
+      statistics: { totalRecords: 1 },
+    });
+
+    it('should sanitize, email the vendor and wait for the reply', async () => {
+      mockStorageService.downloadFile.mockResolvedValue(Buffer.from('xlsx'));
+      mockFileParser.parseExcel.mockResolvedValue({
+        headers: ['Customer ID', 'Signup Date'],
+        data: [{ 'Customer ID': 'CUST001', 'Signup Date': '2024-09-01' }],
+      });
+      mockColumnMappingService.mapClientRows.mockResolvedValue({
+        profile: null,
+        headers: ['CustomerID', 'SignupDate'],
+        data: [{ CustomerID: 'CUST001', SignupDate: '2024-09-01' }],
+      });
+      mockMatchingService.prepareMarketsForVendorMatching.mockResolvedValue([
+        sanitized('Houston', 'CAMPAIGN1-HOUSTON-1', 'CAMPAIGN1-HOUSTON-1'),
+      ]);
+      mockMatchingService.getSanitizedExcel.mockResolvedValue({
+        buffer: Buffer.from('xlsx'),
+        filename: 'sanitized.xlsx',
+        recordCount: 1,
+      });
+      mockEmailService.sendVendorMatchRequest.mockResolvedValue({
+        success: true,
+        emailId: 'resend-1',
+        outboundEmailId: 'email-1',
+      });
+
+      await service.onParseCompleted('campaign-1', {
+        success: true,
+        recordCount: 1,
+        headers: [],
+        data: [],
+      });
+
+      expect(mockStorageService.downloadFile).toHaveBeenCalledWith('key');
+      expect(mockColumnMappingService.mapClientRows).toHaveBeenCalledWith(
+        'campaign-1',
+        ['Customer ID', 'Signup Date'],
+        [{ 'Customer ID': 'CUST001', 'Signup Date': '2024-09-01' }],
+        undefined,
+      );
+      expect(mockMarketsService.applyToRows).toHaveBeenCalledWith(
+        'campaign-1',
+        [{ CustomerID: 'CUST001', SignupDate: '2024-09-01' }],
+        { record: false },
+      );
+      expect(
+        mockMatchingService.prepareMarketsForVendorMatching,
+      ).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+        markets: ['Houston'],
+        clientRecords: [
+          expect.objectContaining({
+            customerId: 'CUST001',
+            signupDate: expect.any(Date) as unknown,
+          }),
+        ],
+        vendorProfile: DEFAULT_VENDOR_FILE_PROFILE,
+        campaignName: 'Fall Drop',
+        mergeRules: { totalSales: 'sum', totalVisits: 'max' },
+      });
+      expect(mockVendorsService.getFileProfile).toHaveBeenCalledWith(
+        'vendor-1',
+      );
+      expect(mockMatchingService.getSanitizedExcel).toHaveBeenCalledWith(
+        'campaign-1',
+        'Houston',
+      );
+      expect(mockEmailService.sendVendorMatchRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ vendorName: 'Acme Data', market: 'Houston' }),
+      );
+      expect(campaign.marketStates).toEqual([
+        expect.objectContaining({
+          market: 'Houston',
+          status: 'requested',
+          recordCount: 1,
+          dcmIdRange: {
+            first: 'CAMPAIGN1-HOUSTON-1',
+            last: 'CAMPAIGN1-HOUSTON-1',
+          },
+          policyReportKey: 'campaigns/campaign-1/policy-report/Houston.json',
+          outboundEmailId: 'email-1',
+        }),
+      ]);
+      expect(mockVendorRemindersService.schedule).toHaveBeenCalledWith(
+        'campaign-1',
+        'campaign-1@example.com',
+      );
+      expect(campaign.status).toBe('matching');
+      expect(campaign.pipeline?.currentStage).toBe('awaiting-vendor');
+      expect(campaign.pipeline?.completedStages).toEqual([
+        'parse',
+        'sanitize',
+        'vendor-request',
+      ]);
+    });
+
+    it('should send one vendor request per market and retry only failed markets', async () => {
+      campaign.markets = ['Houston', 'Dallas'];
+      mockFileParser.parseExcel.mockResolvedValue({ headers: [], data: [] });
+      mockColumnMappingService.mapClientRows.mockResolvedValue({
+        profile: null,
+        headers: [],
+        data: [],
+      });
+      mockMatchingService.prepareMarketsForVendorMatching.mockResolvedValue([
+        sanitized('Houston', 'CAMPAIGN1-HOUSTON-1', 'CAMPAIGN1-HOUSTON-1'),
+        sanitized('Dallas', 'CAMPAIGN1-DALLAS-2', 'CAMPAIGN1-DALLAS-2'),
+      ]);
+      mockMatchingService.getSanitizedExcel.mockResolvedValue({
+        buffer: Buffer.from('xlsx'),
+        filename: 'sanitized.xlsx',
+        recordCount: 1,
+      });
+      mockEmailService.sendVendorMatchRequest
+        .mockResolvedValueOnce({ success: true, emailId: 'email-1' })
+        .mockResolvedValueOnce({ success: false, error: 'Rate limited' });
+
+      await service.onParseCompleted('campaign-1', {
+        success: true,
+        recordCount: 2,
+        headers: [],
+        data: [],
+      });
+
+      expect(campaign.marketStates.map((s) => s.status)).toEqual([
+        'requested',
+        'error',
+      ]);
+      expect(campaign.pipeline?.failedStage).toBe('vendor-request');
+      expect(mockVendorRemindersService.schedule).not.toHaveBeenCalled();
+
+      mockEmailService.sendVendorMatchRequest.mockResolvedValue({
+        success: true,
+        emailId: 'email-2',
+      });
+
+      await service.resume('campaign-1');
+
+      expect(mockEmailService.sendVendorMatchRequest).toHaveBeenCalledTimes(3);
+      expect(mockEmailService.sendVendorMatchRequest).toHaveBeenLastCalledWith(
+        expect.objectContaining({ market: 'Dallas' }),
+      );
+      expect(campaign.marketStates.map((s) => s.status)).toEqual([
+        'requested',
+        'requested',
+      ]);
+      expect(campaign.status).toBe('matching');
+    });
+
+    it('should record the failed stage and move the campaign to error', async () => {
+      await service.onParseCompleted('campaign-1', {
+        success: false,
+        recordCount: 0,
+        headers: [],
+        data: [],
+        error: 'Corrupt file',
+      });
+
+      expect(campaign.pipeline).toEqual(
+        expect.objectContaining({
+          failedStage: 'parse',
+          lastError: 'Corrupt file',
+        }),
+      );
+      expect(mockCampaignsService.updateStatus).toHaveBeenCalledWith(
+        'campaign-1',
+        'error',
+      );
+    });
+  });
+
+  describe('handleVendorResponse', () => {
+    const applied = (market: string) => ({
+      matched: 1,
+      byMarket: [{ market, totalRecords: 1, matched: 1, matchRate: 1 }],
+    });
+
+    beforeEach(() => {
+      campaign.status = 'matching';
+      campaign.pipeline = pipelineState({
+        currentStage: 'awaiting-vendor',
+        completedStages: ['parse', 'sanitize', 'vendor-request'],
+        jobIds: {},
+      });
+    });
+
+    it('should wait for the other markets before analysis', async () => {
+      campaign.markets = ['Houston', 'Dallas'];
+      campaign.marketStates = [marketState('Houston'), marketState('Dallas')];
+      mockMatchingService.applyVendorMatches.mockResolvedValue(
+        applied('Dallas'),
+      );
+
+      const result = await service.handleVendorResponse('campaign-1', [
+        { dcmId: 'DCM-2', matched: true },
+      ]);
+
+      expect(result.pendingMarkets).toEqual(['Houston']);
+      expect(campaign.marketStates[1]).toEqual(
+        expect.objectContaining({
+          status: 'responded',
+          matchedRecords: 1,
+          matchRate: 1,
+        }),
+      );
+      expect(campaign.status).toBe('matching');
+      expect(campaign.pipeline?.currentStage).toBe('awaiting-vendor');
+      expect(campaign.pipeline?.completedStages).not.toContain('merge');
+      expect(mockJobsService.addPatternAnalysisJob).not.toHaveBeenCalled();
+    });
+
+    describe('with replies arriving together', () => {
+      const lockedManager = {
+        getRepository: (entity) =>
+          entity === Campaign ? mockCampaignRepository : mockRecordRepository,
+      };
+
+      beforeEach(() => {
+        // Reads return snapshots like rows loaded from the database, and
+        // a transaction holds the row lock until its work is done
+        let rowLock: Promise<unknown> = Promise.resolve();
+        mockCampaignRepository.findOneOrFail.mockImplementation(() =>
+          Promise.resolve(structuredClone(campaign)),
+        );
+        mockDataSource.transaction.mockImplementation(
+          (work: (manager: any) => Promise<any>) => {
+            const run = rowLock.then(() => work(lockedManager));
+            rowLock = run.catch(() => undefined);
+            return run;
+          },
+        );
+      });
+
+      afterEach(() => {
+        mockCampaignRepository.findOneOrFail.mockImplementation(() =>
+          Promise.resolve(campaign),
+        );
+        mockDataSource.transaction.mockImplementation(
+          (work: (manager: any) => Promise<any>) => work(lockedManager),
+        );
+      });
+
+      it('should keep both markets responded and start analysis once', async () => {
+        campaign.markets = ['Houston', 'Dallas'];
+        campaign.marketStates = [marketState('Houston'), marketState('Dallas')];
+        mockMatchingService.applyVendorMatches.mockImplementation(
+          (id: string, matches: { dcmId: string }[]) =>
+            Promise.resolve(
+              applied(matches[0].dcmId === 'DCM-1' ? 'Houston' : 'Dallas'),
+            ),
+        );
+        mockRecordRepository.find.mockResolvedValue([]);
+
+        const results = await Promise.all([
+          service.handleVendorResponse('campaign-1', [
+            { dcmId: 'DCM-1', matched: true },
+          ]),
+          service.handleVendorResponse('campaign-1', [
+            { dcmId: 'DCM-2', matched: true },
+          ]),
+        ]);
+
+        expect(campaign.marketStates.map((s) => s.status)).toEqual([
+          'responded',
+          'responded',
+        ]);
+        expect(results.map((r) => r.pendingMarkets.length).sort()).toEqual([
+          0, 1,
+        ]);
+        expect(campaign.status).toBe('analyzing');
+        expect(campaign.pipeline?.completedStages).toContain('merge');
+        expect(mockJobsService.addPatternAnalysisJob).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should fail the merge when the file has no campaign DCM_IDs', async () => {
+      campaign.marketStates = [marketState('Houston')];
+      mockMatchingService.applyVendorMatches.mockResolvedValue({
+        matched: 0,
+        byMarket: [],
+      });
+
+      await expect(
+        service.handleVendorResponse('campaign-1', [
+          { dcmId: 'OTHER-1', matched: true },
+        ]),
+      ).rejects.toThrow('does not contain any DCM_IDs');
+      expect(campaign.pipeline?.failedStage).toBe('merge');
+    });
+
+    it('should apply matches and queue pattern analysis', async () => {
+      campaign.marketStates = [marketState('Houston')];
+      mockMatchingService.applyVendorMatches.mockResolvedValue(
+        applied('Houston'),
+      );
+      mockRecordRepository.find.mockResolvedValue([{ id: 'record-1' }]);
+
+      const matches = [{ dcmId: 'DCM-1', matched: true }];
+      const result = await service.handleVendorResponse('campaign-1', matches);
+
+      expect(result).toEqual({ ...applied('Houston'), pendingMarkets: [] });
+      expect(mockMatchingService.applyVendorMatches).toHaveBeenCalledWith(
+        'campaign-1',
+        matches,
+      );
+      expect(campaign.status).toBe('analyzing');
+      expect(mockRecordRepository.find).toHaveBeenCalledWith({
+        select: { id: true },
+        where: { campaignId: 'campaign-1' },
+      });
+      expect(mockJobsService.addPatternAnalysisJob).toHaveBeenCalledWith({
+        recordIds: ['record-1'],
+        campaignId: 'campaign-1',
+        campaignDate: campaign.dropDate,
+        pipeline: true,
+      });
+      expect(campaign.pipeline?.completedStages).toContain('merge');
+    });
+  });
+
+  describe('onReportCompleted', () => {
+    const report = (campaignCost: number) =>
+      ({
+        summary: { totalRecords: 10, attributableRevenue: 3000 },
+        cacMetrics: { campaignCost, cacOutOfPattern: 250, roasOutOfPattern: 2 },
+      }) as unknown as CampaignReport;
+
+    beforeEach(() => {
+      campaign.status = 'analyzing';
+      campaign.pipeline = pipelineState({
+        currentStage: 'report',
+        completedStages: [
+          'parse',
+          'sanitize',
+          'vendor-request',
+          'merge',
+          'pattern-analysis',
+        ],
+        jobIds: {},
+      });
+    });
+
+    it('should store CAC and ROAS from the campaign costs', async () => {
+      await service.onReportCompleted('campaign-1', {
+        success: true,
+        report: report(1500),
+      });
+
+      expect(campaign.metrics).toEqual({
+        revenue: 3000,
+        campaignCost: 1500,
+        cac: 250,
+        roas: 2,
+      });
+      expect(campaign.status).toBe('complete');
+    });
+
+    it('should leave CAC and ROAS empty without recorded costs', async () => {
+      await service.onReportCompleted('campaign-1', {
+        success: true,
+        report: report(0),
+      });
+
+      expect(campaign.metrics?.cac).toBeUndefined();
+      expect(campaign.metrics?.roas).toBeUndefined();
+    });
+  });
+
+  describe('requestVendorMatches', () => {
+    beforeEach(() => {
+      campaign.status = 'collecting';
+      campaign.marketStates = [
+        marketState('Houston', 'sanitized'),
+        marketState('Dallas'),
+      ];
+      mockMatchingService.getSanitizedExcel.mockResolvedValue({
+        buffer: Buffer.from('xlsx'),
+        filename: 'sanitized.xlsx',
+        recordCount: 1,
+      });
+      mockEmailService.sendVendorMatchRequest.mockResolvedValue({
+        success: true,
+        emailId: 'resend-1',
+        outboundEmailId: 'email-1',
+      });
+      mockVendorRemindersService.schedule.mockResolvedValue({
+        replyToEmail: 'campaign-1@example.com',
+        dueAt: '2024-10-08T00:00:00.000Z',
+      });
+    });
+
+    it('should re-send the market and move the campaign through validated transitions', async () => {
+      const result = await service.requestVendorMatches('campaign-1', 'Dallas');
+
+      expect(mockEmailService.sendVendorMatchRequest).toHaveBeenCalledTimes(1);
+      expect(mockEmailService.sendVendorMatchRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ market: 'Dallas' }),
+      );
+      expect(result.requests).toEqual([
+        expect.objectContaining({
+          market: 'Dallas',
+          emailId: 'resend-1',
+          replyToEmail: 'campaign-1@example.com',
+        }),
+      ]);
+      expect(result.followUp?.dueAt).toBe('2024-10-08T00:00:00.000Z');
+      expect(mockCampaignsService.updateStatus).toHaveBeenCalledWith(
+        'campaign-1',
+        'matching',
+      );
+      expect(campaign.status).toBe('matching');
+      expect(mockVendorRemindersService.schedule).toHaveBeenCalledWith(
+        'campaign-1',
+        'campaign-1@example.com',
+      );
+    });
+
+    it('should send every market when none is given', async () => {
+      await service.requestVendorMatches('campaign-1');
+
+      expect(mockEmailService.sendVendorMatchRequest).toHaveBeenCalledTimes(2);
+      expect(campaign.marketStates.map((s) => s.status)).toEqual([
+        'requested',
+        'requested',
+      ]);
+    });
+
+    it('should mark a market that fails to send', async () => {
+      mockEmailService.sendVendorMatchRequest.mockResolvedValue({
+        success: false,
+        error: 'Rate limited',
+      });
+
+      await expect(
+        service.requestVendorMatches('campaign-1', 'Houston'),
+      ).rejects.toThrow('Vendor request failed for Houston: Rate limited');
+      expect(campaign.marketStates[0]).toEqual(
+        expect.objectContaining({ status: 'error', lastError: 'Rate limited' }),
+      );
+      expect(mockCampaignsService.updateStatus).not.toHaveBeenCalled();
+      expect(mockVendorRemindersService.schedule).not.toHaveBeenCalled();
+    });
+
+    it('should refuse campaigns without sanitized data', async () => {
+      campaign.status = 'pending';
+
+      await expect(service.requestVendorMatches('campaign-1')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      campaign.status = 'matching';
+
+      await expect(
+        service.requestVendorMatches('campaign-1', 'Austin'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockEmailService.sendVendorMatchRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resume', () => {
+    it('should restart from the first incomplete stage', async () => {
+      campaign.status = 'error';
+      campaign.pipeline = pipelineState({
+        currentStage: 'report',
+        completedStages: [
+          'parse',
+          'sanitize',
+          'vendor-request',
+          'merge',
+          'pattern-analysis',
+        ],
+        failedStage: 'report',
+        lastError: 'Timeout',
+        jobIds: {},
+      });
+      mockRecordRepository.find.mockResolvedValue([]);
+
+      const state = await service.resume('campaign-1');
+
+      expect(mockCampaignsService.updateStatus).toHaveBeenCalledWith(
+        'campaign-1',
+        'pending',
+      );
+      expect(campaign.status).toBe('analyzing');
+      expect(mockJobsService.addReportGenerationJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          campaignId: 'campaign-1',
+          pipeline: true,
+          campaignCost: 1500,
+          marketCosts: { Houston: 1500 },
+        }),
+      );
+      expect(state.failedStage).toBeUndefined();
+      expect(state.jobIds.report).toBe('job-report');
+    });
+
+    it('should refuse to merge before the vendor has replied', async () => {
+      campaign.pipeline = pipelineState({
+        currentStage: 'awaiting-vendor',
+        completedStages: ['parse', 'sanitize', 'vendor-request'],
+        jobIds: {},
+      });
+      mockCampaignFilesService.findLatest.mockResolvedValue(null);
+
+      await expect(service.resume('campaign-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should throw when the pipeline was never started', async () => {
+      await expect(service.resume('campaign-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
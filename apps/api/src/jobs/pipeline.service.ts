@@ -0,0 +1,1042 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import type {
+  CampaignMarketState,
+  CampaignPipelineState,
+  CampaignStatus,
+  PipelineStage,
+  VendorFollowUpState,
+} from '@matchback/types';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { CampaignCostsService } from '../campaigns/campaign-costs.service';
+import {
+  MatchingService,
+  ApplyVendorMatchesResult,
+} from '../matching/matching.service';
+import { toClientRecord } from '../matching/utils/client-record.mapper';
+import { EmailService } from '../email/email.service';
+import { EmailParserService, VendorMatch } from '../email/email-parser.service';
+import { StorageService } from '../storage/storage.service';
+import { FileParserService } from '../file-processing/file-parser.service';
+import { ColumnMappingService } from '../file-processing/column-mapping.service';
+import { MarketsService } from '../markets/markets.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { VendorsService } from '../vendors/vendors.service';
+import { Vendor } from '../vendors/entities/vendor.entity';
+import { toVendorFileProfile } from '../vendors/vendor-file-profile';
+import { JobsService } from './jobs.service';
+import { VendorRemindersService } from './vendor-reminders.service';
+import type { FileProcessingResult } from './processors/file-processing.processor';
+import type { PatternAnalysisResult } from './processors/pattern-analysis.processor';
+import type { ReportGenerationResult } from './processors/report-generation.processor';
+
+export interface VendorResponseResult extends ApplyVendorMatchesResult {
+  pendingMarkets: string[]; // Markets still waiting on a vendor file
+}
+
+export interface VendorMatchRequest {
+  market: string;
+  emailId?: string;
+  sentAt?: Date;
+  replyToEmail: string;
+}
+
+export interface VendorRequestResult {
+  requests: VendorMatchRequest[];
+  followUp: VendorFollowUpState | null; // null when no market was sent
+}
+
+/**
+ * Pipeline stages in execution order
+ */
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'parse',
+  'sanitize',
+  'vendor-request',
+  'merge',
+  'pattern-analysis',
+  'report',
+];
+
+/**
+ * Campaign status each stage requires before it runs
+ */
+const STAGE_STATUS: Record<PipelineStage, CampaignStatus> = {
+  parse: 'collecting',
+  sanitize: 'collecting',
+  'vendor-request': 'collecting',
+  merge: 'matching',
+  'pattern-analysis': 'analyzing',
+  report: 'analyzing',
+};
+
+/**
+ * Forward order of campaign statuses (see CampaignsService.validateStatusTransition)
+ */
+const STATUS_ORDER: CampaignStatus[] = [
+  'pending',
+  'collecting',
+  'matching',
+  'analyzing',
+  'complete',
+];
+
+/**
+ * Pipeline Service
+ *
+ * Orchestrates the campaign-level matchback pipeline across the
+ * file-processing, pattern-analysis and report-generation queues:
+ *
+ * Client upload:  parse -> sanitize -> vendor-request -> (await vendor reply)
+ * Vendor reply:   merge -> pattern-analysis -> report -> complete
+ *
+ * A multi-market upload is split at sanitize: every market gets its own
+ * DCM_ID range, sanitized file and vendor request, tracked in
+ * Campaign.marketStates. Each vendor reply is merged as it arrives;
+ * pattern analysis starts once every market has responded.
+ *
+ * Stage progress is stored on Campaign.pipeline so a failed run can be
+ * resumed from the last completed stage. Inputs for each stage are loaded
+ * from storage or the database - callers never pass record arrays around.
+ *
+ * Campaign.status is advanced through CampaignsService so every transition
+ * goes through validateStatusTransition.
+ */
+@Injectable()
+export class PipelineService {
+  private readonly logger = new Logger(PipelineService.name);
+
+  constructor(
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(MatchRecord)
+    private readonly matchRecordRepository: Repository<MatchRecord>,
+    private readonly dataSource: DataSource,
+    private readonly campaignsService: CampaignsService,
+    private readonly campaignCostsService: CampaignCostsService,
+    private readonly jobsService: JobsService,
+    private readonly matchingService: MatchingService,
+    private readonly emailService: EmailService,
+    private readonly emailParser: EmailParserService,
+    private readonly storageService: StorageService,
+    private readonly fileParser: FileParserService,
+    private readonly columnMappingService: ColumnMappingService,
+    private readonly marketsService: MarketsService,
+    private readonly campaignFilesService: CampaignFilesService,
+    private readonly vendorsService: VendorsService,
+    private readonly vendorRemindersService: VendorRemindersService,
+  ) {}
+
+  /**
+   * Start the pipeline from a stored client data file
+   * A column mapping profile chosen at upload is kept for every re-read.
+   */
+  async startFromClientUpload(
+    campaignId: string,
+    clientFileKey: string,
+    clientFileType: 'excel' | 'csv',
+    columnMappingProfileId?: string,
+  ): Promise<CampaignPipelineState> {
+    this.logger.log(`Starting pipeline for campaign ${campaignId}`);
+
+    await this.saveState(campaignId, {
+      currentStage: 'parse',
+      completedStages: [],
+      failedStage: undefined,
+      lastError: undefined,
+      clientFileKey,
+      clientFileType,
+      columnMappingProfileId,
+      jobIds: {},
+    });
+
+    await this.runStage(campaignId, 'parse');
+
+    return (await this.getState(campaignId))!;
+  }
+
+  /**
+   * Start the pipeline from the latest registered client data file
+   * Uploads start the pipeline themselves; this restarts it manually.
+   */
+  async startFromLatestClientFile(
+    campaignId: string,
+  ): Promise<CampaignPipelineState> {
+    const file = await this.campaignFilesService.findLatest(
+      campaignId,
+      'client-data',
+    );
+
+    if (!file) {
+      throw new BadRequestException(
+        `No client data uploaded for campaign ${campaignId}`,
+      );
+    }
+
+    const fileType = file.originalFilename.toLowerCase().endsWith('.csv')
+      ? 'csv'
+      : 'excel';
+
+    // Keep the profile chosen when this file was uploaded
+    const state = await this.getState(campaignId);
+    const profileId =
+      state?.clientFileKey === file.storageKey
+        ? state.columnMappingProfileId
+        : undefined;
+
+    return this.startFromClientUpload(
+      campaignId,
+      file.storageKey,
+      fileType,
+      profileId,
+    );
+  }
+
+  /**
+   * Continue the pipeline after a vendor reply has been stored
+   * Runs the merge stage synchronously and queues pattern analysis
+   * once no market is waiting on the vendor
+   */
+  async handleVendorResponse(
+    campaignId: string,
+    matches: VendorMatch[],
+  ): Promise<VendorResponseResult> {
+    const result = await this.merge(campaignId, matches);
+    if (result.pendingMarkets.length === 0) {
+      await this.runStage(campaignId, 'pattern-analysis');
+    }
+    return result;
+  }
+
+  /**
+   * Resume a failed pipeline from the stage after the last completed one
+   */
+  async resume(campaignId: string): Promise<CampaignPipelineState> {
+    const state = await this.getState(campaignId);
+
+    if (!state) {
+      throw new BadRequestException(
+        `Campaign ${campaignId} has no pipeline to resume`,
+      );
+    }
+
+    const nextStage = PIPELINE_STAGES.find(
+      (stage) => !state.completedStages.includes(stage),
+    );
+
+    if (!nextStage) {
+      throw new BadRequestException(
+        `Pipeline for campaign ${campaignId} is already complete`,
+      );
+    }
+
+    // Merge can only run once the vendor has replied
+    if (
+      nextStage === 'merge' &&
+      !(await this.campaignFilesService.findLatest(
+        campaignId,
+        'vendor-response',
+      ))
+    ) {
+      throw new BadRequestException(
+        `Campaign ${campaignId} is still awaiting the vendor response`,
+      );
+    }
+
+    this.logger.log(
+      `Resuming pipeline for campaign ${campaignId} at stage ${nextStage}`,
+    );
+
+    await this.runStage(campaignId, nextStage);
+
+    return (await this.getState(campaignId))!;
+  }
+
+  /**
+   * Get pipeline state for a campaign
+   */
+  async getState(campaignId: string): Promise<CampaignPipelineState | null> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new BadRequestException(`Campaign ${campaignId} not found`);
+    }
+
+    return campaign.pipeline;
+  }
+
+  /**
+   * Called by FileProcessingProcessor when a pipeline parse job finishes
+   */
+  async onParseCompleted(
+    campaignId: string,
+    result: FileProcessingResult,
+  ): Promise<void> {
+    if (!result.success) {
+      await this.failStage(campaignId, 'parse', result.error);
+      return;
+    }
+
+    await this.completeStage(campaignId, 'parse');
+    await this.runStage(campaignId, 'sanitize');
+  }
+
+  /**
+   * Called by PatternAnalysisProcessor when a pipeline job finishes
+   */
+  async onPatternAnalysisCompleted(
+    campaignId: string,
+    result: PatternAnalysisResult,
+  ): Promise<void> {
+    if (!result.success) {
+      await this.failStage(campaignId, 'pattern-analysis', result.error);
+      return;
+    }
+
+    try {
+      await this.savePatternResults(campaignId, result.analyzed);
+      await this.updateMetrics(campaignId, {
+        inPattern: result.statistics.inPattern,
+        outOfPattern: result.statistics.outOfPattern,
+        newCustomers: result.statistics.newSignups,
+      });
+    } catch (error) {
+      await this.failStage(campaignId, 'pattern-analysis', error.message);
+      return;
+    }
+
+    await this.completeStage(campaignId, 'pattern-analysis');
+    await this.runStage(campaignId, 'report');
+  }
+
+  /**
+   * Called by ReportGenerationProcessor when a pipeline job finishes
+   */
+  async onReportCompleted(
+    campaignId: string,
+    result: ReportGenerationResult,
+  ): Promise<void> {
+    if (!result.success || !result.report) {
+      await this.failStage(campaignId, 'report', result.error);
+      return;
+    }
+
+    try {
+      if (result.excelBuffer) {
+        await this.storageService.uploadReport(
+          campaignId,
+          Buffer.from(result.excelBuffer),
+          'matchback-report.xlsx',
+          { recordCount: result.report.summary.totalRecords },
+        );
+      }
+
+      // CAC/ROAS only mean something once spend has been recorded
+      const { campaignCost, cacOutOfPattern, roasOutOfPattern } =
+        result.report.cacMetrics;
+      await this.updateMetrics(campaignId, {
+        revenue: result.report.summary.attributableRevenue,
+        campaignCost,
+        cac: campaignCost > 0 ? cacOutOfPattern : undefined,
+        roas: campaignCost > 0 ? roasOutOfPattern : undefined,
+      });
+
+      await this.advanceStatus(campaignId, 'complete');
+    } catch (error) {
+      await this.failStage(campaignId, 'report', error.message);
+      return;
+    }
+
+    await this.completeStage(campaignId, 'report');
+    await this.saveState(campaignId, { currentStage: 'complete' });
+
+    this.logger.log(`Pipeline complete for campaign ${campaignId}`);
+  }
+
+  /**
+   * Run a single stage
+   * Queue-backed stages return once the job is enqueued; the processor
+   * calls back into this service when the job finishes.
+   */
+  private async runStage(
+    campaignId: string,
+    stage: PipelineStage,
+  ): Promise<void> {
+    this.logger.log(`Running stage ${stage} for campaign ${campaignId}`);
+
+    try {
+      await this.advanceStatus(campaignId, STAGE_STATUS[stage]);
+      await this.saveState(campaignId, {
+        currentStage: stage,
+        failedStage: undefined,
+        lastError: undefined,
+      });
+
+      switch (stage) {
+        case 'parse':
+          await this.enqueueParse(campaignId);
+          break;
+
+        case 'sanitize':
+          await this.sanitize(campaignId);
+          await this.completeStage(campaignId, 'sanitize');
+          await this.runStage(campaignId, 'vendor-request');
+          break;
+
+        case 'vendor-request':
+          await this.sendVendorRequest(campaignId);
+          await this.completeStage(campaignId, 'vendor-request');
+          await this.saveState(campaignId, { currentStage: 'awaiting-vendor' });
+          break;
+
+        case 'merge':
+          if ((await this.merge(campaignId)).pendingMarkets.length === 0) {
+            await this.runStage(campaignId, 'pattern-analysis');
+          }
+          break;
+
+        case 'pattern-analysis':
+          await this.enqueuePatternAnalysis(campaignId);
+          break;
+
+        case 'report':
+          await this.enqueueReport(campaignId);
+          break;
+      }
+    } catch (error) {
+      // Failures of later stages are already recorded by the nested call
+      const state = await this.getState(campaignId);
+      if (!state?.failedStage) {
+        await this.failStage(campaignId, stage, error.message);
+      }
+    }
+  }
+
+  /**
+   * Parse: queue the stored client file for parsing
+   */
+  private async enqueueParse(campaignId: string): Promise<void> {
+    const state = await this.requireState(campaignId);
+
+    if (!state.clientFileKey || !state.clientFileType) {
+      throw new Error('No client file recorded for pipeline');
+    }
+
+    const jobId = await this.jobsService.addFileProcessingJob({
+      fileKey: state.clientFileKey,
+      fileType: state.clientFileType,
+      campaignId,
+      uploadType: 'client-data',
+      pipeline: true,
+      options: state.columnMappingProfileId
+        ? { columnMappingProfileId: state.columnMappingProfileId }
+        : undefined,
+    });
+
+    await this.saveState(campaignId, (current) => ({
+      jobIds: { ...current.jobIds, parse: jobId },
+    }));
+  }
+
+  /**
+   * Sanitize: map parsed rows, merge duplicate customers, then store a
+   * DCM_ID mapping and sanitized file per market
+   * (see MatchingService.prepareMarketsForVendorMatching)
+   * Rows are read again from the stored client file, so a resumed stage
+   * does not depend on the parse job still being kept in the queue
+   */
+  private async sanitize(campaignId: string): Promise<void> {
+    const state = await this.requireState(campaignId);
+    const campaign = await this.campaignsService.findOne(campaignId);
+    const rows = await this.readClientRows(campaignId, state);
+
+    const results = await this.matchingService.prepareMarketsForVendorMatching({
+      campaignId,
+      markets: campaign.markets,
+      clientRecords: rows.map((row) => toClientRecord(row)),
+      vendorProfile: await this.vendorsService.getFileProfile(
+        campaign.vendorId,
+      ),
+      campaignName: campaign.name,
+      mergeRules: campaign.duplicateMergeRules,
+    });
+
+    const marketStates: CampaignMarketState[] = results.map((result) => ({
+      market: result.market,
+      status: 'sanitized',
+      recordCount: result.statistics.totalRecords,
+      duplicatesMerged: result.statistics.duplicatesMerged,
+      dcmIdRange: result.dcmIdRange,
+      sanitizedFileKey: result.sanitizedFileKey,
+      policyReportKey: result.policyReportKey,
+      contactNormalization: result.statistics.normalization,
+    }));
+
+    await this.campaignRepository.update(campaignId, { marketStates });
+  }
+
+  /**
+   * Parse the stored client file the way the parse job did
+   * Unrecognized markets were already recorded by the parse job.
+   */
+  private async readClientRows(
+    campaignId: string,
+    state: CampaignPipelineState,
+  ): Promise<Record<string, any>[]> {
+    if (!state.clientFileKey || !state.clientFileType) {
+      throw new Error('No client file recorded for pipeline');
+    }
+
+    const buffer = await this.storageService.downloadFile(state.clientFileKey);
+    const parseOptions = { trimValues: true, convertDates: true };
+    const parsed =
+      state.clientFileType === 'csv'
+        ? await this.fileParser.parseCSV(buffer, parseOptions)
+        : await this.fileParser.parseExcel(buffer, parseOptions);
+
+    const { data } = await this.columnMappingService.mapClientRows(
+      campaignId,
+      parsed.headers,
+      parsed.data,
+      state.columnMappingProfileId,
+    );
+    await this.marketsService.applyToRows(campaignId, data, { record: false });
+
+    return data;
+  }
+
+  /**
+   * Vendor request: email each market's sanitized file to the vendor
+   * Markets already requested are skipped, so a resumed stage only
+   * retries the markets that failed
+   */
+  private async sendVendorRequest(campaignId: string): Promise<void> {
+    const campaign = await this.campaignsService.findOne(campaignId);
+
+    if (campaign.marketStates.length === 0) {
+      throw new Error(
+        `No sanitized markets recorded for campaign ${campaignId} - re-run sanitize`,
+      );
+    }
+
+    const unsent = campaign.marketStates
+      .filter(
+        (state) => state.status === 'sanitized' || state.status === 'error',
+      )
+      .map((state) => state.market);
+
+    await this.requestMarkets(campaign, unsent);
+  }
+
+  /**
+   * Send (or re-send) vendor match requests outside a pipeline run
+   * Every sanitized market, or only `market` when given. Shares the
+   * vendor-request stage's status transition and reminder schedule.
+   */
+  async requestVendorMatches(
+    campaignId: string,
+    market?: string,
+  ): Promise<VendorRequestResult> {
+    const campaign = await this.campaignsService.findOne(campaignId);
+
+    if (campaign.status !== 'collecting' && campaign.status !== 'matching') {
+      throw new BadRequestException(
+        `Campaign ${campaignId} is not ready for vendor request (current status: ${campaign.status})`,
+      );
+    }
+
+    const markets = campaign.marketStates
+      .map((state) => state.market)
+      .filter((m) => !market || m === market);
+
+    if (markets.length === 0) {
+      throw new BadRequestException(
+        `No sanitized data found for campaign ${campaignId}${market ? `, market ${market}` : ''}`,
+      );
+    }
+
+    return this.requestMarkets(campaign, markets);
+  }
+
+  /**
+   * Email the given markets, move the campaign to "matching" and
+   * (re)start vendor reminders. A market that fails is marked "error";
+   * the others are still sent before the failures are thrown together.
+   */
+  private async requestMarkets(
+    campaign: Campaign,
+    markets: string[],
+  ): Promise<VendorRequestResult> {
+    const vendor = await this.vendorsService.findForCampaign(campaign);
+    const requests: VendorMatchRequest[] = [];
+    const failures: string[] = [];
+
+    for (const market of markets) {
+      try {
+        requests.push(
+          await this.requestMarketMatches(campaign, vendor, market),
+        );
+      } catch (error) {
+        failures.push(`${market}: ${error.message}`);
+        await this.campaignsService.updateMarketState(campaign.id, market, {
+          status: 'error',
+          lastError: error.message,
+        });
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Vendor request failed for ${failures.join('; ')}`);
+    }
+
+    await this.advanceStatus(campaign.id, 'matching');
+
+    // One follow-up schedule per campaign; any request's reply-to routes back
+    const lastRequest = requests[requests.length - 1];
+    const followUp = lastRequest
+      ? await this.vendorRemindersService.schedule(
+          campaign.id,
+          lastRequest.replyToEmail,
+        )
+      : null;
+
+    return { requests, followUp };
+  }
+
+  /**
+   * Email one market's sanitized file to the vendor
+   * Returns the sent request, with the reply-to address the vendor should answer
+   */
+  private async requestMarketMatches(
+    campaign: Campaign,
+    vendor: Vendor | null,
+    market: string,
+  ): Promise<VendorMatchRequest> {
+    const sanitizedExcel = await this.matchingService.getSanitizedExcel(
+      campaign.id,
+      market,
+    );
+
+    if (!sanitizedExcel) {
+      throw new Error(`No sanitized data found for market ${market}`);
+    }
+
+    const replyToEmail = this.emailService.generateReplyToEmail(campaign.id);
+
+    const result = await this.emailService.sendVendorMatchRequest({
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      vendorEmail: campaign.vendorEmail,
+      vendorName: vendor?.name,
+      fileProfile: toVendorFileProfile(vendor),
+      sanitizedExcelBuffer: sanitizedExcel.buffer,
+      sanitizedFileName: sanitizedExcel.filename,
+      replyToEmail,
+      campaignDate: campaign.dropDate,
+      market,
+      recordCount: sanitizedExcel.recordCount,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    await this.campaignsService.updateMarketState(campaign.id, market, {
+      status: 'requested',
+      replyToEmail,
+      outboundEmailId: result.outboundEmailId,
+      requestedAt: new Date().toISOString(),
+      lastError: undefined,
+    });
+
+    return {
+      market,
+      emailId: result.emailId,
+      sentAt: result.sentAt,
+      replyToEmail,
+    };
+  }
+
+  /**
+   * Merge: apply vendor matches to stored records and mark the markets
+   * the vendor file covers as responded. The stage completes (and the
+   * campaign moves to "analyzing") once no market is still pending.
+   * When no matches are passed (resume), the stored vendor responses are re-parsed
+   */
+  private async merge(
+    campaignId: string,
+    matches?: VendorMatch[],
+  ): Promise<VendorResponseResult> {
+    await this.advanceStatus(campaignId, 'matching');
+    await this.saveState(campaignId, {
+      currentStage: 'merge',
+      failedStage: undefined,
+      lastError: undefined,
+    });
+
+    try {
+      const result = await this.matchingService.applyVendorMatches(
+        campaignId,
+        matches ?? (await this.loadStoredVendorMatches(campaignId)),
+      );
+
+      if (result.byMarket.length === 0) {
+        throw new Error(
+          'Vendor file does not contain any DCM_IDs from this campaign',
+        );
+      }
+
+      const respondedAt = new Date().toISOString();
+
+      // Under the row lock, so a reply for another market cannot
+      // overwrite this one's responded flag
+      const pendingMarkets = await this.withLockedCampaign(
+        campaignId,
+        async (campaign, campaigns) => {
+          const marketStates = campaign.marketStates.map((state) => {
+            const summary = result.byMarket.find(
+              (m) => m.market === state.market,
+            );
+            return summary
+              ? {
+                  ...state,
+                  status: 'responded' as const,
+                  respondedAt,
+                  matchedRecords: summary.matched,
+                  matchRate: summary.matchRate,
+                }
+              : state;
+          });
+          const pending = marketStates
+            .filter((state) => state.status !== 'responded')
+            .map((state) => state.market);
+
+          await campaigns.update(campaignId, {
+            marketStates,
+            ...(pending.length > 0 && {
+              pipeline: this.patchState(campaign, {
+                currentStage: 'awaiting-vendor',
+              }),
+            }),
+          });
+
+          return pending;
+        },
+      );
+
+      if (pendingMarkets.length > 0) {
+        this.logger.log(
+          `Campaign ${campaignId} still awaiting vendor files for ${pendingMarkets.join(', ')}`,
+        );
+      } else {
+        await this.advanceStatus(campaignId, 'analyzing');
+        await this.completeStage(campaignId, 'merge');
+      }
+
+      return { ...result, pendingMarkets };
+    } catch (error) {
+      await this.failStage(campaignId, 'merge', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-parse every stored vendor response (one per market, or re-sends)
+   * Newest files come first, so a re-sent DCM_ID uses the latest value
+   */
+  private async loadStoredVendorMatches(
+    campaignId: string,
+  ): Promise<VendorMatch[]> {
+    const files = await this.campaignFilesService.findByCampaign(
+      campaignId,
+      'vendor-response',
+    );
+    if (files.length === 0) {
+      throw new Error('No vendor response stored for campaign');
+    }
+
+    const campaign = await this.campaignRepository.findOneOrFail({
+      where: { id: campaignId },
+    });
+    const profile = await this.vendorsService.getFileProfile(campaign.vendorId);
+    const matches = new Map<string, VendorMatch>();
+
+    for (const file of files) {
+      const parseResult = await this.emailParser.parseVendorResponse(
+        {
+          filename: file.originalFilename,
+          content: await this.storageService.downloadFile(file.storageKey),
+          contentType: file.contentType,
+        },
+        profile,
+      );
+
+      if (!parseResult.success) {
+        throw new Error(parseResult.errors.join('; '));
+      }
+
+      parseResult.matches.forEach((match) => {
+        if (!matches.has(match.dcmId)) {
+          matches.set(match.dcmId, match);
+        }
+      });
+    }
+
+    return Array.from(matches.values());
+  }
+
+  /**
+   * Pattern analysis: queue all campaign records for analysis
+   */
+  private async enqueuePatternAnalysis(campaignId: string): Promise<void> {
+    const campaign = await this.campaignRepository.findOneOrFail({
+      where: { id: campaignId },
+    });
+    const records = await this.matchRecordRepository.find({
+      select: { id: true },
+      where: { campaignId },
+    });
+
+    // Only IDs are queued; the processor loads the records itself so no
+    // client data is written to Redis
+    const jobId = await this.jobsService.addPatternAnalysisJob({
+      recordIds: records.map((record) => record.id),
+      campaignId,
+      campaignDate: campaign.dropDate,
+      pipeline: true,
+    });
+
+    await this.saveState(campaignId, (state) => ({
+      jobIds: { ...state.jobIds, 'pattern-analysis': jobId },
+    }));
+  }
+
+  /**
+   * Report: queue report generation from analyzed records and stored costs
+   * (per-market costs feed the report's by-market rollup)
+   */
+  private async enqueueReport(campaignId: string): Promise<void> {
+    const campaign = await this.campaignRepository.findOneOrFail({
+      where: { id: campaignId },
+    });
+    const records = await this.matchRecordRepository.find({
+      where: { campaignId },
+    });
+    const costs = await this.campaignCostsService.getSummary(campaignId);
+
+    const jobId = await this.jobsService.addReportGenerationJob({
+      campaignId,
+      pipeline: true,
+      records: records.map((record) => ({
+        matched: record.matched,
+        inPattern: record.inPattern === true,
+        totalSales:
+          record.totalSales !== null ? Number(record.totalSales) : undefined,
+        signupDate: record.signupDate,
+        customerType: record.customerType || undefined,
+        email: record.emailAddress || undefined,
+        market: record.market,
+      })),
+      campaignName: campaign.name,
+      campaignDate: campaign.dropDate,
+      market: campaign.markets.join(', '),
+      campaignCost: costs.total,
+      marketCosts: costs.byMarket,
+    });
+
+    await this.saveState(campaignId, (state) => ({
+      jobIds: { ...state.jobIds, report: jobId },
+    }));
+  }
+
+  /**
+   * Persist pattern analysis output onto MatchRecords
+   */
+  private async savePatternResults(
+    campaignId: string,
+    analyzed: PatternAnalysisResult['analyzed'],
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(MatchRecord);
+
+      for (const record of analyzed) {
+        await repository.update(
+          { campaignId, dcmId: record.dcmId },
+          {
+            inPattern: record.inPattern ?? null,
+            patternOverride: record.patternOverride ?? null,
+            customerType: record.customerType ?? null,
+            patternRuleSetId: record.patternRuleSetId ?? null,
+            patternRuleSetVersion: record.patternRuleSetVersion ?? null,
+          },
+        );
+      }
+    });
+  }
+
+  /**
+   * Merge values into Campaign.metrics
+   */
+  private async updateMetrics(
+    campaignId: string,
+    metrics: NonNullable<Campaign['metrics']>,
+  ): Promise<void> {
+    const campaign = await this.campaignRepository.findOneOrFail({
+      where: { id: campaignId },
+    });
+
+    campaign.metrics = { ...(campaign.metrics || {}), ...metrics };
+    await this.campaignRepository.save(campaign);
+  }
+
+  /**
+   * Move campaign status forward to target, one validated transition at a time
+   * A campaign in "error" is first reset to "pending" (the only allowed exit)
+   */
+  private async advanceStatus(
+    campaignId: string,
+    target: CampaignStatus,
+  ): Promise<void> {
+    const campaign = await this.campaignRepository.findOneOrFail({
+      where: { id: campaignId },
+    });
+
+    let current = campaign.status;
+
+    if (current === 'error') {
+      await this.campaignsService.updateStatus(campaignId, 'pending');
+      current = 'pending';
+    }
+
+    const targetIndex = STATUS_ORDER.indexOf(target);
+
+    for (
+      let index = STATUS_ORDER.indexOf(current) + 1;
+      index <= targetIndex;
+      index++
+    ) {
+      await this.campaignsService.updateStatus(campaignId, STATUS_ORDER[index]);
+    }
+  }
+
+  /**
+   * Mark a stage as completed
+   */
+  private async completeStage(
+    campaignId: string,
+    stage: PipelineStage,
+  ): Promise<void> {
+    await this.saveState(campaignId, (state) =>
+      state.completedStages.includes(stage)
+        ? {}
+        : { completedStages: [...state.completedStages, stage] },
+    );
+
+    this.logger.log(`Stage ${stage} completed for campaign ${campaignId}`);
+  }
+
+  /**
+   * Record a stage failure and move the campaign to "error"
+   */
+  private async failStage(
+    campaignId: string,
+    stage: PipelineStage,
+    error?: string,
+  ): Promise<void> {
+    this.logger.error(
+      `Stage ${stage} failed for campaign ${campaignId}: ${error || 'Unknown error'}`,
+    );
+
+    await this.saveState(campaignId, {
+      currentStage: stage,
+      failedStage: stage,
+      lastError: error || 'Unknown error',
+    });
+
+    try {
+      await this.campaignsService.updateStatus(campaignId, 'error');
+    } catch (statusError) {
+      this.logger.error(
+        `Could not move campaign ${campaignId} to error: ${statusError.message}`,
+      );
+    }
+  }
+
+  /**
+   * Load pipeline state, failing if the pipeline was never started
+   */
+  private async requireState(
+    campaignId: string,
+  ): Promise<CampaignPipelineState> {
+    const state = await this.getState(campaignId);
+
+    if (!state) {
+      throw new Error(`Pipeline not started for campaign ${campaignId}`);
+    }
+
+    return state;
+  }
+
+  /**
+   * Merge a partial update into Campaign.pipeline
+   * A function patch is given the state as stored under the row lock
+   */
+  private async saveState(
+    campaignId: string,
+    patch:
+      | Partial<CampaignPipelineState>
+      | ((state: CampaignPipelineState) => Partial<CampaignPipelineState>),
+  ): Promise<CampaignPipelineState> {
+    return this.withLockedCampaign(campaignId, async (campaign, campaigns) => {
+      const state = this.patchState(
+        campaign,
+        typeof patch === 'function'
+          ? patch(this.patchState(campaign, {}))
+          : patch,
+      );
+
+      await campaigns.update(campaignId, { pipeline: state });
+
+      return state;
+    });
+  }
+
+  private patchState(
+    campaign: Campaign,
+    patch: Partial<CampaignPipelineState>,
+  ): CampaignPipelineState {
+    return {
+      currentStage: 'parse',
+      completedStages: [],
+      jobIds: {},
+      ...(campaign.pipeline || {}),
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Read-modify-write of the campaign's jsonb state (pipeline,
+   * marketStates) under a row lock (SELECT ... FOR UPDATE), so
+   * concurrent vendor replies and job callbacks apply one after another
+   */
+  private async withLockedCampaign<T>(
+    campaignId: string,
+    work: (campaign: Campaign, campaigns: Repository<Campaign>) => Promise<T>,
+  ): Promise<T> {
+    return this.dataSource.transaction(async (manager) => {
+      const campaigns = manager.getRepository(Campaign);
+      const campaign = await campaigns.findOneOrFail({
+        where: { id: campaignId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      return work(campaign, campaigns);
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import {
+  DataRetentionService,
+  DataRetentionRunResult,
+} from '../data-retention.service';
+
+/**
+ * Data Retention Processor
+ *
+ * Runs the nightly purge scheduled by DataRetentionService. Campaigns
+ * that fail are listed in the job result and picked up by the next run:
+ * they are only marked purged once their certificate is stored.
+ */
+@Processor('data-retention')
+export class DataRetentionProcessor {
+  private readonly logger = new Logger(DataRetentionProcessor.name);
+
+  constructor(private readonly dataRetentionService: DataRetentionService) {}
+
+  @Process()
+  async handlePurge(): Promise<DataRetentionRunResult> {
+    return this.dataRetentionService.purgeDue();
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error) {
+    this.logger.error(
+      `Data retention job ${job.id} failed: ${error.message}`,
+      error.stack,
+    );
+  }
+}
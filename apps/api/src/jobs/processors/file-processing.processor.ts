@@ -1,18 +1,32 @@
 import { Processor, Process, OnQueueCompleted, OnQueueFailed } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import type { Job } from 'bull';
-import { ExcelParser } from '../../file-processing/parsers/excel.parser';
-import { CSVParser } from '../../file-processing/parsers/csv.parser';
+import {
+  ExcelParser,
+  ExcelParseResult,
+} from '../../file-processing/parsers/excel.parser';
+import {
+  CSVParser,
+  CSVParseResult,
+} from '../../file-processing/parsers/csv.parser';
+import { ColumnMappingService } from '../../file-processing/column-mapping.service';
+import { StorageService } from '../../storage/storage.service';
+import { MarketsService } from '../../markets/markets.service';
+import { PipelineService } from '../pipeline.service';
 
 export interface FileProcessingJobData {
-  fileBuffer: Buffer;
+  fileBuffer?: Buffer;
+  fileKey?: string; // Storage key - used instead of fileBuffer for stored uploads
   fileType: 'excel' | 'csv';
   campaignId: string;
   uploadType: 'client-data' | 'vendor-response';
+  pipeline?: boolean; // Continue the campaign pipeline on completion
   options?: {
     sheetIndex?: number;
     sheetName?: string;
     requiredColumns?: string[];
+    columnMapping?: Record<string, string>; // Explicit header mapping (skips profile selection)
+    columnMappingProfileId?: string; // Profile chosen at upload (skips profile selection)
   };
 }
 
@@ -26,6 +40,8 @@ export interface FileProcessingResult {
     totalRows?: number;
     errors?: string[];
     warnings?: string[];
+    columnMappingProfileId?: string;
+    unresolvedMarkets?: string[]; // Market values the registry did not recognize
   };
   error?: string;
 }
@@ -36,8 +52,11 @@ export interface FileProcessingResult {
  * Handles asynchronous file processing jobs:
  * - Excel file parsing (client data, vendor responses)
  * - CSV file parsing
+ * - Column mapping of client data (saved profile or fuzzy suggestions)
+ * - Market values normalized to registry codes (alias or ZIP prefix)
  * - Data validation and error handling
  * - Progress tracking
+ * - Hand off to the campaign pipeline for pipeline jobs
  *
  * CRITICAL: Never process files synchronously
  * - Large files (100k+ records) can take minutes
@@ -51,11 +70,15 @@ export class FileProcessingProcessor {
   constructor(
     private readonly excelParser: ExcelParser,
     private readonly csvParser: CSVParser,
+    private readonly columnMapping: ColumnMappingService,
+    private readonly storageService: StorageService,
+    private readonly marketsService: MarketsService,
+    private readonly pipelineService: PipelineService,
   ) {}
 
   @Process()
   async handleFileProcessing(job: Job<FileProcessingJobData>): Promise<FileProcessingResult> {
-    const { fileBuffer, fileType, campaignId, uploadType, options } = job.data;
+    const { fileKey, fileType, campaignId, uploadType, options } = job.data;
 
     this.logger.log(
       `Processing ${fileType} file for campaign ${campaignId} (${uploadType})`,
@@ -65,27 +88,71 @@ export class FileProcessingProcessor {
       // Update progress
       await job.progress(10);
 
-      let result;
+      const fileBuffer = fileKey
+        ? await this.storageService.downloadFile(fileKey)
+        : Buffer.from(job.data.fileBuffer as Buffer);
+
+      let result: ExcelParseResult | CSVParseResult;
       if (fileType === 'excel') {
         result = await this.processExcelFile(fileBuffer, options);
       } else {
         result = await this.processCsvFile(fileBuffer, options);
       }
 
+      let data: Record<string, any>[] = result.data;
+      let headers = result.headers;
+
+      // Map client headers to ClientDataRow fields unless the job
+      // already carries an explicit mapping
+      let columnMappingProfileId: string | undefined;
+      if (uploadType === 'client-data' && !options?.columnMapping) {
+        const mapped = await this.columnMapping.mapClientRows(
+          campaignId,
+          headers,
+          data,
+          options?.columnMappingProfileId,
+        );
+        data = mapped.data;
+        headers = mapped.headers;
+
+        if (mapped.profile) {
+          await this.columnMapping.markUsed(mapped.profile);
+          columnMappingProfileId = mapped.profile.id;
+        }
+      }
+
+      // Normalize market values so aliases of one market count once
+      let unresolvedMarkets: string[] | undefined;
+      if (uploadType === 'client-data') {
+        unresolvedMarkets = await this.marketsService.applyToRows(
+          campaignId,
+          data,
+        );
+        if (unresolvedMarkets.length > 0) {
+          result.metadata.warnings.push(
+            `Unrecognized markets (resolve under /markets/unresolved): ${unresolvedMarkets.join(', ')}`,
+          );
+        }
+      }
+
       await job.progress(90);
 
       this.logger.log(
-        `File processing complete: ${result.data.length} records parsed`,
+        `File processing complete: ${data.length} records parsed`,
       );
 
       await job.progress(100);
 
       return {
         success: true,
-        recordCount: result.data.length,
-        headers: result.headers,
-        data: result.data,
-        metadata: result.metadata,
+        recordCount: data.length,
+        headers,
+        data,
+        metadata: {
+          ...result.metadata,
+          columnMappingProfileId,
+          unresolvedMarkets,
+        },
       };
     } catch (error) {
       this.logger.error(
@@ -104,10 +171,17 @@ export class FileProcessingProcessor {
   }
 
   @OnQueueCompleted()
-  onCompleted(job: Job, result: FileProcessingResult) {
+  async onCompleted(
+    job: Job<FileProcessingJobData>,
+    result: FileProcessingResult,
+  ) {
     this.logger.log(
       `Job ${job.id} completed: ${result.recordCount} records processed`,
     );
+
+    if (job.data.pipeline) {
+      await this.pipelineService.onParseCompleted(job.data.campaignId, result);
+    }
   }
 
   @OnQueueFailed()
@@ -123,14 +197,16 @@ export class FileProcessingProcessor {
    */
   private async processExcelFile(
     buffer: Buffer,
-    options?: { sheetIndex?: number; sheetName?: string; requiredColumns?: string[] },
+    options?: FileProcessingJobData['options'],
   ) {
-    const { sheetIndex, sheetName, requiredColumns } = options || {};
+    const { sheetIndex, sheetName, requiredColumns, columnMapping } =
+      options || {};
 
     const result = await this.excelParser.parseFromBuffer(buffer, {
       sheetIndex: sheetIndex || 0,
       sheetName,
       requiredColumns: requiredColumns || [],
+      columnMapping,
       trimValues: true,
       convertDates: true,
     });
@@ -156,12 +232,13 @@ export class FileProcessingProcessor {
    */
   private async processCsvFile(
     buffer: Buffer,
-    options?: { requiredColumns?: string[] },
+    options?: FileProcessingJobData['options'],
   ) {
-    const { requiredColumns } = options || {};
+    const { requiredColumns, columnMapping } = options || {};
 
     const result = await this.csvParser.parseFromBuffer(buffer, {
       requiredColumns: requiredColumns || [],
+      columnMapping,
       trimValues: true,
       convertDates: true,
     });
@@ -0,0 +1,30 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import { KeyRotationService, KeyRotationResult } from '../key-rotation.service';
+
+/**
+ * Key Rotation Processor
+ *
+ * Moves stored files and match record PII to the active encryption key.
+ * Safe to re-run: anything already on the active key is skipped.
+ */
+@Processor('key-rotation')
+export class KeyRotationProcessor {
+  private readonly logger = new Logger(KeyRotationProcessor.name);
+
+  constructor(private readonly keyRotationService: KeyRotationService) {}
+
+  @Process()
+  async handleRotation(): Promise<KeyRotationResult> {
+    return this.keyRotationService.rotate();
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error) {
+    this.logger.error(
+      `Key rotation job ${job.id} failed: ${error.message}`,
+      error.stack,
+    );
+  }
+}
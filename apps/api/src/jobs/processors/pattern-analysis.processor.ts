@@ -1,23 +1,52 @@
 import { Processor, Process, OnQueueCompleted, OnQueueFailed } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
 import type { Job } from 'bull';
+import type { MatchRecord, PatternRuleSet } from '@matchback/types';
+import { MatchRecord as MatchRecordEntity } from '../../campaigns/entities/match-record.entity';
+import { getStoredVisitDates } from '../../matching/utils/client-record.mapper';
 import { PatternAnalysisService } from '../../patterns/pattern-analysis.service';
 import { CustomerClassificationService } from '../../patterns/customer-classification.service';
 import { PatternCorrectionService } from '../../patterns/pattern-correction.service';
+import { PatternRuleSetsService } from '../../patterns/pattern-rule-sets.service';
+import { PipelineService } from '../pipeline.service';
+
+/**
+ * Records loaded per query (keeps IN lists well below the bind limit)
+ */
+const LOAD_CHUNK_SIZE = 1000;
 
 export interface PatternAnalysisJobData {
-  records: any[];
+  recordIds: string[]; // MatchRecord IDs - records are loaded from the database
   campaignId: string;
   campaignDate: Date;
+  pipeline?: boolean; // Continue the campaign pipeline on completion
   options?: {
     skipCorrection?: boolean;
+    ruleSetId?: string; // Pin a rule set version (default: latest for the campaign)
   };
 }
 
+/**
+ * Analysis fields of a record, keyed by DCM_ID
+ * Job results are kept in Redis, so no client data is returned.
+ */
+export type AnalyzedRecord = Pick<
+  MatchRecord,
+  | 'dcmId'
+  | 'inPattern'
+  | 'patternOverride'
+  | 'customerType'
+  | 'patternRuleSetId'
+  | 'patternRuleSetVersion'
+>;
+
 export interface PatternAnalysisResult {
   success: boolean;
   recordCount: number;
-  analyzed: any[];
+  analyzed: AnalyzedRecord[];
+  ruleSet?: Pick<PatternRuleSet, 'id' | 'name' | 'version'>;
   statistics: {
     totalRecords: number;
     inPattern: number;
@@ -33,11 +62,15 @@ export interface PatternAnalysisResult {
  * Pattern Analysis Processor
  *
  * Handles asynchronous pattern analysis jobs:
- * - Analyze customer visit patterns (3+ visits = in-pattern)
+ * - Analyze customer visit patterns (3+ visits = in-pattern, or visit
+ *   cadence before vs after the drop date)
  * - Classify customers (NEW_SIGNUP, NEW_VISITOR, WINBACK, EXISTING)
  * - Apply pattern correction (new signups with 3+ visits in same month)
  * - Progress tracking for large batches
  *
+ * Rules come from the campaign's pattern rule set (or a pinned version);
+ * the thresholds below are the built-in defaults.
+ *
  * CRITICAL Pattern Rules:
  * - 3+ visits in a month = "In Pattern" (regular customer)
  * - NEW_SIGNUP with 3+ visits in signup month = CORRECTED to "Out of Pattern"
@@ -48,27 +81,43 @@ export class PatternAnalysisProcessor {
   private readonly logger = new Logger(PatternAnalysisProcessor.name);
 
   constructor(
+    @InjectRepository(MatchRecordEntity)
+    private readonly matchRecordRepository: Repository<MatchRecordEntity>,
     private readonly patternAnalysis: PatternAnalysisService,
     private readonly customerClassification: CustomerClassificationService,
     private readonly patternCorrection: PatternCorrectionService,
+    private readonly patternRuleSets: PatternRuleSetsService,
+    private readonly pipelineService: PipelineService,
   ) {}
 
   @Process()
   async handlePatternAnalysis(job: Job<PatternAnalysisJobData>): Promise<PatternAnalysisResult> {
-    const { records, campaignId, campaignDate, options } = job.data;
+    const { recordIds, campaignId, campaignDate, options } = job.data;
 
     this.logger.log(
-      `Analyzing patterns for ${records.length} records in campaign ${campaignId}`,
+      `Analyzing patterns for ${recordIds.length} records in campaign ${campaignId}`,
     );
 
     try {
+      const records = await this.loadRecords(recordIds);
+
       // Update progress
       await job.progress(10);
 
+      const rules = options?.ruleSetId
+        ? await this.patternRuleSets.findOne(options.ruleSetId)
+        : await this.patternRuleSets.resolveForCampaign(campaignId);
+
       // Step 1: Analyze patterns
-      this.logger.log(`Step 1/3: Analyzing visit patterns...`);
+      this.logger.log(
+        `Step 1/3: Analyzing visit patterns (rules: ${rules.name} v${rules.version})...`,
+      );
       const withPatterns = records.map((record) => {
-        return this.patternAnalysis.analyzePattern(record);
+        return this.patternAnalysis.analyzePattern(
+          record,
+          rules,
+          new Date(campaignDate),
+        );
       });
       await job.progress(40);
 
@@ -89,8 +138,11 @@ export class PatternAnalysisProcessor {
       if (!options?.skipCorrection) {
         this.logger.log(`Step 3/3: Applying pattern corrections...`);
         analyzed = classified.map((record) => {
-          const corrected = this.patternCorrection.correctPatternFlaws(record);
-          if (corrected.patternOverride) {
+          const corrected = this.patternCorrection.correctPatternFlaws(
+            record,
+            rules,
+          );
+          if (corrected.patternOverride === 'NEW_SIGNUP_CORRECTION') {
             correctedCount++;
           }
           return corrected;
@@ -117,7 +169,15 @@ export class PatternAnalysisProcessor {
       return {
         success: true,
         recordCount: analyzed.length,
-        analyzed,
+        analyzed: analyzed.map((record) => ({
+          dcmId: record.dcmId,
+          inPattern: record.inPattern,
+          patternOverride: record.patternOverride,
+          customerType: record.customerType,
+          patternRuleSetId: record.patternRuleSetId,
+          patternRuleSetVersion: record.patternRuleSetVersion,
+        })),
+        ruleSet: { id: rules.id, name: rules.name, version: rules.version },
         statistics,
       };
     } catch (error) {
@@ -144,10 +204,20 @@ export class PatternAnalysisProcessor {
   }
 
   @OnQueueCompleted()
-  onCompleted(job: Job, result: PatternAnalysisResult) {
+  async onCompleted(
+    job: Job<PatternAnalysisJobData>,
+    result: PatternAnalysisResult,
+  ) {
     this.logger.log(
       `Job ${job.id} completed: ${result.recordCount} records analyzed, ${result.statistics.corrected} corrected`,
     );
+
+    if (job.data.pipeline) {
+      await this.pipelineService.onPatternAnalysisCompleted(
+        job.data.campaignId,
+        result,
+      );
+    }
   }
 
   @OnQueueFailed()
@@ -157,4 +227,42 @@ export class PatternAnalysisProcessor {
       error.stack,
     );
   }
+
+  /**
+   * Load the records to analyze
+   * rawData holds the full client row; only its visit dates are needed
+   * (pattern rule set windows and cadence). Emails are not copied and
+   * earlier pattern overrides are dropped so re-runs start clean.
+   */
+  private async loadRecords(recordIds: string[]): Promise<MatchRecord[]> {
+    const records: MatchRecord[] = [];
+
+    for (let i = 0; i < recordIds.length; i += LOAD_CHUNK_SIZE) {
+      const batch = await this.matchRecordRepository.find({
+        where: { id: In(recordIds.slice(i, i + LOAD_CHUNK_SIZE)) },
+      });
+
+      records.push(
+        ...batch.map((record) => ({
+          id: record.id,
+          dcmId: record.dcmId,
+          customerId: record.customerId,
+          signupDate: record.signupDate,
+          totalVisits: record.totalVisits,
+          visit1Date: record.visit1Date ?? undefined,
+          visitDates: getStoredVisitDates(record.rawData, record.visit1Date),
+          matched: record.matched,
+          inPattern: record.inPattern ?? undefined,
+          customerType: record.customerType ?? undefined,
+          totalSales: record.totalSales ?? undefined,
+          campaignId: record.campaignId,
+          market: record.market,
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+        })),
+      );
+    }
+
+    return records;
+  }
 }
@@ -2,13 +2,17 @@ import { Processor, Process, OnQueueCompleted, OnQueueFailed } from '@nestjs/bul
 import { Logger } from '@nestjs/common';
 import type { Job } from 'bull';
 import { ReportsService, CampaignReport } from '../../reports/reports.service';
+import { PipelineService } from '../pipeline.service';
 
 export interface ReportGenerationJobData {
+  campaignId?: string;
+  pipeline?: boolean; // Continue the campaign pipeline on completion
   records: any[];
   campaignName: string;
   campaignDate: Date;
   market: string;
   campaignCost: number;
+  marketCosts?: Record<string, number>; // Cost per market for the by-market rollup
   format?: 'excel' | 'json';
 }
 
@@ -30,6 +34,7 @@ export interface ReportGenerationResult {
  *
  * Report Components:
  * - Summary sheet (campaign info, quick metrics)
+ * - By Market sheet (per-market rollup with the campaign total)
  * - Matched Sales pivot (Match × Pattern)
  * - New Customers pivot (by signup month)
  * - Missing Email stats
@@ -39,7 +44,10 @@ export interface ReportGenerationResult {
 export class ReportGenerationProcessor {
   private readonly logger = new Logger(ReportGenerationProcessor.name);
 
-  constructor(private readonly reportsService: ReportsService) {}
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly pipelineService: PipelineService,
+  ) {}
 
   @Process()
   async handleReportGeneration(job: Job<ReportGenerationJobData>): Promise<ReportGenerationResult> {
@@ -49,6 +57,7 @@ export class ReportGenerationProcessor {
       campaignDate,
       market,
       campaignCost,
+      marketCosts,
       format = 'excel',
     } = job.data;
 
@@ -68,6 +77,7 @@ export class ReportGenerationProcessor {
         new Date(campaignDate),
         market,
         campaignCost,
+        marketCosts,
       );
 
       await job.progress(60);
@@ -106,12 +116,19 @@ export class ReportGenerationProcessor {
   }
 
   @OnQueueCompleted()
-  onCompleted(job: Job, result: ReportGenerationResult) {
+  async onCompleted(
+    job: Job<ReportGenerationJobData>,
+    result: ReportGenerationResult,
+  ) {
     if (result.success) {
       this.logger.log(
         `Job ${job.id} completed: Report generated with ${result.report?.summary.totalMatches || 0} matches`,
       );
     }
+
+    if (job.data.pipeline && job.data.campaignId) {
+      await this.pipelineService.onReportCompleted(job.data.campaignId, result);
+    }
   }
 
   @OnQueueFailed()
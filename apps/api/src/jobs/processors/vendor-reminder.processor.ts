@@ -0,0 +1,40 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import type { VendorReminderLevel } from '@matchback/types';
+import {
+  VendorRemindersService,
+  VendorReminderJobData,
+} from '../vendor-reminders.service';
+
+/**
+ * Vendor Reminder Processor
+ *
+ * Runs the repeatable per-campaign follow-up job scheduled by
+ * VendorRemindersService once a vendor request has been sent.
+ * Each run sends at most one reminder; the job removes itself once
+ * the vendor replies or the final notice has gone out.
+ */
+@Processor('vendor-reminders')
+export class VendorReminderProcessor {
+  private readonly logger = new Logger(VendorReminderProcessor.name);
+
+  constructor(
+    private readonly vendorRemindersService: VendorRemindersService,
+  ) {}
+
+  @Process()
+  async handleReminder(
+    job: Job<VendorReminderJobData>,
+  ): Promise<VendorReminderLevel | null> {
+    return this.vendorRemindersService.check(job.data.campaignId);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job<VendorReminderJobData>, error: Error) {
+    this.logger.error(
+      `Vendor reminder for campaign ${job.data.campaignId} failed: ${error.message}`,
+      error.stack,
+    );
+  }
+}
@@ -0,0 +1,247 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { VendorRemindersService } from './vendor-reminders.service';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { EmailService } from '../email/email.service';
+import { VendorsService } from '../vendors/vendors.service';
+
+describe('VendorRemindersService', () => {
+  let service: VendorRemindersService;
+  let campaign: Campaign;
+
+  // Monday 10am, 3 business days -> due Thursday 10am
+  const requestedAt = new Date(2025, 0, 13, 10);
+  const dueAt = new Date(2025, 0, 16, 10);
+
+  const mockQueue = {
+    add: jest.fn(),
+    getRepeatableJobs: jest.fn(() =>
+      Promise.resolve([
+        { id: 'vendor-reminder:campaign-1', key: 'repeat-key-1' },
+        { id: 'vendor-reminder:campaign-2', key: 'repeat-key-2' },
+      ]),
+    ),
+    removeRepeatableByKey: jest.fn(),
+  };
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(() => Promise.resolve(campaign)),
+    findOneOrFail: jest.fn(() => Promise.resolve(campaign)),
+    update: jest.fn((id: string, patch: Partial<Campaign>) => {
+      Object.assign(campaign, patch);
+      return Promise.resolve();
+    }),
+  };
+
+  const mockCampaignsService = {
+    addAlert: jest.fn(),
+  };
+
+  const mockVendorsService = {
+    findForCampaign: jest.fn(() =>
+      Promise.resolve({
+        id: 'vendor-1',
+        name: 'Acme Data',
+        responseSlaDays: 3,
+        contacts: [{ name: 'Ops', email: 'ops@acme.com' }],
+      }),
+    ),
+  };
+
+  const mockEmailService = {
+    sendVendorReminder: jest.fn(
+      (): Promise<{ success: boolean; error?: string }> =>
+        Promise.resolve({ success: true }),
+    ),
+  };
+
+  beforeEach(async () => {
+    campaign = {
+      id: 'campaign-1',
+      name: 'Fall Drop',
+      status: 'matching',
+      vendorId: 'vendor-1',
+      vendorEmail: 'matches@acme.com',
+      vendorResponseOverdue: false,
+      vendorFollowUp: {
+        replyToEmail: 'campaign-1-1736784000000@matchbacktool.com',
+        requestedAt: requestedAt.toISOString(),
+        dueAt: dueAt.toISOString(),
+        slaDays: 3,
+        remindersSent: 0,
+      },
+    } as unknown as Campaign;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VendorRemindersService,
+        { provide: getQueueToken('vendor-reminders'), useValue: mockQueue },
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+        { provide: CampaignsService, useValue: mockCampaignsService },
+        { provide: VendorsService, useValue: mockVendorsService },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<VendorRemindersService>(VendorRemindersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('schedule', () => {
+    it("should set the due date from the vendor's SLA and start a repeatable job", async () => {
+      // Friday request -> due the following Wednesday
+      const followUp = await service.schedule(
+        'campaign-1',
+        'reply@matchbacktool.com',
+        new Date(2025, 0, 17, 10),
+      );
+
+      expect(followUp.dueAt).toBe(new Date(2025, 0, 22, 10).toISOString());
+      expect(campaign.vendorResponseOverdue).toBe(false);
+      expect(campaign.vendorFollowUp?.remindersSent).toBe(0);
+      expect(mockQueue.removeRepeatableByKey).toHaveBeenCalledWith(
+        'repeat-key-1',
+      );
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        { campaignId: 'campaign-1' },
+        expect.objectContaining({
+          jobId: 'vendor-reminder:campaign-1',
+          repeat: { cron: '0 9 * * 1-5', tz: 'America/Chicago' },
+        }),
+      );
+    });
+  });
+
+  describe('check', () => {
+    it('should wait until the business day before the due date', async () => {
+      const level = await service.check('campaign-1', new Date(2025, 0, 14, 9));
+
+      expect(level).toBeNull();
+      expect(mockEmailService.sendVendorReminder).not.toHaveBeenCalled();
+    });
+
+    it('should send a friendly reminder the day before the due date', async () => {
+      const level = await service.check(
+        'campaign-1',
+        new Date(2025, 0, 15, 11),
+      );
+
+      expect(level).toBe('reminder');
+      expect(mockEmailService.sendVendorReminder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vendorEmail: 'matches@acme.com',
+          replyToEmail: 'campaign-1-1736784000000@matchbacktool.com',
+          cc: undefined,
+          level: 'reminder',
+        }),
+      );
+      expect(campaign.vendorFollowUp?.remindersSent).toBe(1);
+      expect(campaign.vendorResponseOverdue).toBe(false);
+    });
+
+    it('should not remind twice on the same day', async () => {
+      campaign.vendorFollowUp!.remindersSent = 1;
+      campaign.vendorFollowUp!.lastReminderAt = new Date(
+        2025,
+        0,
+        16,
+        11,
+      ).toISOString();
+
+      const level = await service.check(
+        'campaign-1',
+        new Date(2025, 0, 16, 15),
+      );
+
+      expect(level).toBeNull();
+    });
+
+    it('should flag the campaign overdue and copy vendor contacts', async () => {
+      campaign.vendorFollowUp!.remindersSent = 1;
+
+      const level = await service.check(
+        'campaign-1',
+        new Date(2025, 0, 16, 11),
+      );
+
+      expect(level).toBe('overdue');
+      expect(campaign.vendorResponseOverdue).toBe(true);
+      expect(mockCampaignsService.addAlert).toHaveBeenCalledWith('campaign-1', {
+        type: 'vendor-overdue',
+        message: expect.stringContaining(
+          'Acme Data has not returned matches',
+        ) as unknown,
+      });
+      expect(mockEmailService.sendVendorReminder).toHaveBeenCalledWith(
+        expect.objectContaining({ cc: ['ops@acme.com'], level: 'overdue' }),
+      );
+    });
+
+    it('should stop after the final notice', async () => {
+      campaign.vendorResponseOverdue = true;
+      campaign.vendorFollowUp!.remindersSent = 3;
+
+      const level = await service.check('campaign-1', new Date(2025, 0, 21, 9));
+
+      expect(level).toBe('final');
+      expect(mockCampaignsService.addAlert).not.toHaveBeenCalled();
+      expect(campaign.vendorFollowUp?.stopReason).toBe('reminders-exhausted');
+      expect(mockQueue.removeRepeatableByKey).toHaveBeenCalledWith(
+        'repeat-key-1',
+      );
+    });
+
+    it('should stop when the campaign is no longer waiting on the vendor', async () => {
+      campaign.status = 'analyzing';
+
+      const level = await service.check(
+        'campaign-1',
+        new Date(2025, 0, 16, 11),
+      );
+
+      expect(level).toBeNull();
+      expect(campaign.vendorFollowUp?.stopReason).toBe('campaign-moved-on');
+      expect(mockEmailService.sendVendorReminder).not.toHaveBeenCalled();
+    });
+
+    it('should record the overdue flag even when the reminder fails', async () => {
+      mockEmailService.sendVendorReminder.mockResolvedValueOnce({
+        success: false,
+        error: 'Resend unavailable',
+      });
+
+      await expect(
+        service.check('campaign-1', new Date(2025, 0, 16, 11)),
+      ).rejects.toThrow('Resend unavailable');
+      expect(campaign.vendorResponseOverdue).toBe(true);
+      expect(campaign.vendorFollowUp?.remindersSent).toBe(0);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should stop the job and clear the overdue flag when the vendor replies', async () => {
+      campaign.vendorResponseOverdue = true;
+
+      await service.cancel('campaign-1', 'responded');
+
+      expect(mockQueue.removeRepeatableByKey).toHaveBeenCalledWith(
+        'repeat-key-1',
+      );
+      expect(mockQueue.removeRepeatableByKey).not.toHaveBeenCalledWith(
+        'repeat-key-2',
+      );
+      expect(campaign.vendorResponseOverdue).toBe(false);
+      expect(campaign.vendorFollowUp?.stopReason).toBe('responded');
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import type { Queue } from 'bull';
+import type {
+  VendorFollowUpState,
+  VendorReminderLevel,
+} from '@matchback/types';
+import { addBusinessDays } from '@matchback/utils';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { EmailService } from '../email/email.service';
+import {
+  VendorsService,
+  DEFAULT_VENDOR_RESPONSE_SLA_DAYS,
+} from '../vendors/vendors.service';
+
+export interface VendorReminderJobData {
+  campaignId: string;
+}
+
+/**
+ * Weekday mornings, in VENDOR_REMINDER_TIMEZONE
+ */
+const REMINDER_CRON = '0 9 * * 1-5';
+
+/**
+ * Reminders per request: one before the due date, then overdue
+ * notices - the last one is the final notice
+ */
+const MAX_REMINDERS = 4;
+
+/**
+ * Vendor Reminders Service
+ *
+ * Follows up on vendor match requests that have not been answered:
+ * - schedule(): after a request is sent, start a repeatable
+ *   'vendor-reminders' job for the campaign (replaces any earlier one)
+ * - check(): run by VendorReminderProcessor each weekday morning
+ *   - Business day before the due date: friendly reminder
+ *   - Past the vendor's SLA: flag the campaign overdue, raise a
+ *     'vendor-overdue' alert and send overdue notices (copied to the
+ *     vendor's contacts) until the final notice
+ * - cancel(): stop the job once the vendor replies or the campaign
+ *   has moved on
+ *
+ * Reminders are sent from the request's reply-to address so the vendor
+ * can reply to any of them.
+ */
+@Injectable()
+export class VendorRemindersService {
+  private readonly logger = new Logger(VendorRemindersService.name);
+  private readonly timezone: string;
+
+  constructor(
+    @InjectQueue('vendor-reminders')
+    private readonly reminderQueue: Queue<VendorReminderJobData>,
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    private readonly campaignsService: CampaignsService,
+    private readonly vendorsService: VendorsService,
+    private readonly emailService: EmailService,
+    configService: ConfigService,
+  ) {
+    this.timezone =
+      configService.get<string>('VENDOR_REMINDER_TIMEZONE') ||
+      'America/Chicago';
+  }
+
+  /**
+   * Start following up on a vendor request that was just sent
+   */
+  async schedule(
+    campaignId: string,
+    replyToEmail: string,
+    requestedAt: Date = new Date(),
+  ): Promise<VendorFollowUpState> {
+    const campaign = await this.campaignRepository.findOneOrFail({
+      where: { id: campaignId },
+    });
+    const vendor = await this.vendorsService.findForCampaign(campaign);
+    const slaDays = vendor?.responseSlaDays ?? DEFAULT_VENDOR_RESPONSE_SLA_DAYS;
+
+    // A re-sent request restarts the clock
+    await this.removeSchedule(campaignId);
+
+    const followUp: VendorFollowUpState = {
+      replyToEmail,
+      requestedAt: requestedAt.toISOString(),
+      dueAt: addBusinessDays(requestedAt, slaDays).toISOString(),
+      slaDays,
+      remindersSent: 0,
+    };
+
+    await this.campaignRepository.update(campaignId, {
+      vendorFollowUp: followUp,
+      vendorResponseOverdue: false,
+    });
+
+    await this.reminderQueue.add(
+      { campaignId },
+      {
+        jobId: this.jobId(campaignId),
+        repeat: { cron: REMINDER_CRON, tz: this.timezone },
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    );
+
+    this.logger.log(
+      `Vendor reply for campaign ${campaignId} due ${followUp.dueAt} (${slaDays} business days)`,
+    );
+
+    return followUp;
+  }
+
+  /**
+   * Send the reminder that is due today, if any
+   * Returns the level sent, or null when nothing was due
+   */
+  async check(
+    campaignId: string,
+    now: Date = new Date(),
+  ): Promise<VendorReminderLevel | null> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+    const followUp = campaign?.vendorFollowUp;
+
+    if (!campaign || !followUp || followUp.stoppedAt) {
+      await this.removeSchedule(campaignId);
+      return null;
+    }
+
+    if (campaign.status !== 'matching') {
+      await this.cancel(campaignId, 'campaign-moved-on');
+      return null;
+    }
+
+    const requestedAt = new Date(followUp.requestedAt);
+    const dueAt = new Date(followUp.dueAt);
+    const remindFrom = addBusinessDays(
+      requestedAt,
+      Math.max(1, followUp.slaDays - 1),
+    );
+
+    // Retried jobs must not remind twice on the same day
+    const remindedToday =
+      followUp.lastReminderAt &&
+      new Date(followUp.lastReminderAt).toDateString() === now.toDateString();
+
+    if (now < remindFrom || remindedToday) {
+      return null;
+    }
+
+    const overdue = now >= dueAt;
+    if (!overdue && followUp.remindersSent > 0) {
+      return null;
+    }
+
+    const vendor = await this.vendorsService.findForCampaign(campaign);
+
+    if (overdue && !campaign.vendorResponseOverdue) {
+      followUp.overdueSince = now.toISOString();
+      await this.campaignsService.addAlert(campaignId, {
+        type: 'vendor-overdue',
+        message: `${vendor?.name ?? campaign.vendorEmail} has not returned matches (due ${dueAt.toDateString()})`,
+      });
+    }
+
+    const level: VendorReminderLevel = !overdue
+      ? 'reminder'
+      : followUp.remindersSent + 1 >= MAX_REMINDERS
+        ? 'final'
+        : 'overdue';
+
+    const result = await this.emailService.sendVendorReminder({
+      campaignId,
+      campaignName: campaign.name,
+      vendorEmail: campaign.vendorEmail,
+      vendorName: vendor?.name,
+      cc:
+        level === 'reminder'
+          ? undefined
+          : vendor?.contacts.map((contact) => contact.email),
+      replyToEmail: followUp.replyToEmail,
+      requestedAt,
+      dueAt,
+      level,
+    });
+
+    if (result.success) {
+      followUp.remindersSent++;
+      followUp.lastReminderAt = now.toISOString();
+      followUp.lastReminderLevel = level;
+
+      if (level === 'final') {
+        followUp.stoppedAt = now.toISOString();
+        followUp.stopReason = 'reminders-exhausted';
+        await this.removeSchedule(campaignId);
+      }
+    }
+
+    await this.campaignRepository.update(campaignId, {
+      vendorFollowUp: followUp,
+      vendorResponseOverdue: overdue,
+    });
+
+    if (!result.success) {
+      throw new Error(`Vendor reminder not sent: ${result.error}`);
+    }
+
+    this.logger.log(`Sent ${level} reminder for campaign ${campaignId}`);
+    return level;
+  }
+
+  /**
+   * Stop following up (vendor replied, or the campaign left 'matching')
+   */
+  async cancel(
+    campaignId: string,
+    reason: NonNullable<VendorFollowUpState['stopReason']>,
+  ): Promise<void> {
+    await this.removeSchedule(campaignId);
+
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+    const followUp = campaign?.vendorFollowUp;
+    if (!followUp || followUp.stoppedAt) {
+      return;
+    }
+
+    await this.campaignRepository.update(campaignId, {
+      vendorFollowUp: {
+        ...followUp,
+        stoppedAt: new Date().toISOString(),
+        stopReason: reason,
+      },
+      vendorResponseOverdue: false,
+    });
+
+    this.logger.log(
+      `Stopped vendor reminders for campaign ${campaignId} (${reason})`,
+    );
+  }
+
+  private async removeSchedule(campaignId: string): Promise<void> {
+    const jobId = this.jobId(campaignId);
+    const repeatable = await this.reminderQueue.getRepeatableJobs();
+
+    for (const job of repeatable.filter((j) => j.id === jobId)) {
+      await this.reminderQueue.removeRepeatableByKey(job.key);
+    }
+  }
+
+  private jobId(campaignId: string): string {
+    return `vendor-reminder:${campaignId}`;
+  }
+}
@@ -2,7 +2,8 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw body is kept for webhook signature verification
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   app.enableCors();
   const port = process.env.API_PORT || process.env.PORT || 3001;
   await app.listen(port);
@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  IsTimeZone,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * ZIP prefix ("770") or prefix range ("770-775")
+ */
+export const ZIP_PREFIX_PATTERN = /^\d{1,5}(-\d{1,5})?$/;
+
+export class CreateMarketDto {
+  @Matches(/^[A-Za-z0-9_]+$/, {
+    message: 'code may only contain letters, digits and underscores',
+  })
+  @MaxLength(20)
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsOptional()
+  aliases?: string[];
+
+  @IsArray()
+  @Matches(ZIP_PREFIX_PATTERN, { each: true })
+  @IsOptional()
+  zipPrefixes?: string[];
+
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+}
@@ -0,0 +1,9 @@
+import { IsUUID } from 'class-validator';
+
+export class ResolveMarketValueDto {
+  /**
+   * Market the value refers to - the value is added to its aliases
+   */
+  @IsUUID()
+  marketId: string;
+}
@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsTimeZone,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ZIP_PREFIX_PATTERN } from './create-market.dto';
+
+/**
+ * The code is fixed once created - campaigns and DCM_IDs refer to it.
+ * Markets are deactivated rather than deleted.
+ */
+export class UpdateMarketDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsOptional()
+  aliases?: string[];
+
+  @IsArray()
+  @Matches(ZIP_PREFIX_PATTERN, { each: true })
+  @IsOptional()
+  zipPrefixes?: string[];
+
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * A market in the managed registry.
+ * Market values in client files are normalized to `code` by name,
+ * alias or ZIP prefix (see MarketsService.applyToRows).
+ */
+@Entity('markets')
+export class Market {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Canonical code (stored uppercase) - used on campaigns and in DCM_IDs
+   */
+  @Column({ type: 'varchar', length: 20, unique: true })
+  code: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * Other spellings of the market, as entered
+   */
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  aliases: string[];
+
+  /**
+   * ZIP prefixes ("770") or prefix ranges ("770-775") in the market
+   */
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  zipPrefixes: string[];
+
+  /**
+   * IANA time zone, e.g. "America/Chicago"
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
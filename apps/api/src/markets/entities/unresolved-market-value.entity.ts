@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Campaign } from '../../campaigns/entities/campaign.entity';
+
+/**
+ * A market value found in a campaign upload that the registry did not
+ * recognize. One row per campaign and normalized value; repeat uploads
+ * add to the occurrence count.
+ */
+@Entity('unresolved_market_values')
+@Index(
+  'UQ_unresolved_market_values_campaign_value',
+  ['campaignId', 'normalizedValue'],
+  {
+    unique: true,
+  },
+)
+export class UnresolvedMarketValue {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Value as first seen in the file
+   */
+  @Column({ type: 'varchar', length: 255 })
+  value: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  normalizedValue: string;
+
+  @Column({ type: 'uuid' })
+  campaignId: string;
+
+  @ManyToOne(() => Campaign, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign;
+
+  @Column({ type: 'int', default: 0 })
+  occurrences: number;
+
+  @Column({ type: 'timestamp' })
+  firstSeenAt: Date;
+
+  @Column({ type: 'timestamp' })
+  lastSeenAt: Date;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  resolvedMarketCode: string | null;
+
+  /**
+   * User who resolved the value
+   */
+  @Column({ type: 'uuid', nullable: true })
+  resolvedBy: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+}
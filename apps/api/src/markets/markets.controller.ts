@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { AuthUser } from '@matchback/types';
+import { MarketsService } from './markets.service';
+import { CreateMarketDto } from './dto/create-market.dto';
+import { UpdateMarketDto } from './dto/update-market.dto';
+import { ResolveMarketValueDto } from './dto/resolve-market-value.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('markets')
+@Roles('admin')
+export class MarketsController {
+  constructor(private readonly marketsService: MarketsService) {}
+
+  /**
+   * POST /markets
+   * Register a market
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreateMarketDto) {
+    return this.marketsService.create(dto);
+  }
+
+  /**
+   * GET /markets
+   * List markets (?active=true for the ones uploads resolve against)
+   */
+  @Get()
+  async findAll(@Query('active') active?: string) {
+    return this.marketsService.findAll({
+      active: active === undefined ? undefined : active === 'true',
+    });
+  }
+
+  /**
+   * GET /markets/unresolved
+   * Upload market values the registry did not recognize
+   * (?resolved=false for the ones still waiting on an admin)
+   */
+  @Get('unresolved')
+  async findUnresolved(
+    @Query('resolved') resolved?: string,
+    @Query('campaignId') campaignId?: string,
+  ) {
+    return this.marketsService.findUnresolved({
+      resolved: resolved === undefined ? undefined : resolved === 'true',
+      campaignId,
+    });
+  }
+
+  /**
+   * POST /markets/unresolved/:id/resolve
+   * Map an unrecognized value to a market (adds it as an alias)
+   */
+  @Post('unresolved/:id/resolve')
+  @HttpCode(HttpStatus.OK)
+  async resolveValue(
+    @Param('id') id: string,
+    @Body() dto: ResolveMarketValueDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.marketsService.resolveValue(id, dto.marketId, user?.id ?? null);
+  }
+
+  /**
+   * GET /markets/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.marketsService.findOne(id);
+  }
+
+  /**
+   * PATCH /markets/:id
+   * Update aliases, ZIP prefixes, time zone or deactivate
+   */
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateMarketDto) {
+    return this.marketsService.update(id, dto);
+  }
+}
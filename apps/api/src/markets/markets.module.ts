@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MarketsService } from './markets.service';
+import { MarketsController } from './markets.controller';
+import { Market } from './entities/market.entity';
+import { UnresolvedMarketValue } from './entities/unresolved-market-value.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Market, UnresolvedMarketValue])],
+  controllers: [MarketsController],
+  providers: [MarketsService],
+  exports: [MarketsService],
+})
+export class MarketsModule {}
@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException } from '@nestjs/common';
+import { MarketsService } from './markets.service';
+import { Market } from './entities/market.entity';
+import { UnresolvedMarketValue } from './entities/unresolved-market-value.entity';
+
+describe('MarketsService', () => {
+  let service: MarketsService;
+  let markets: Market[];
+  let unresolved: UnresolvedMarketValue[];
+
+  const mockMarketRepository = {
+    create: jest.fn((market: Partial<Market>) => market),
+    save: jest.fn((market: Partial<Market>) =>
+      Promise.resolve({ id: 'market-new', ...market }),
+    ),
+    find: jest.fn(({ where }: { where?: Partial<Market> } = {}) =>
+      Promise.resolve(
+        markets.filter(
+          (market) =>
+            where?.active === undefined || market.active === where.active,
+        ),
+      ),
+    ),
+    findOne: jest.fn(({ where }: { where: Partial<Market> }) =>
+      Promise.resolve(markets.find((market) => market.id === where.id) ?? null),
+    ),
+  };
+
+  const mockUnresolvedRepository = {
+    create: jest.fn((value: UnresolvedMarketValue) => value),
+    save: jest.fn((value: UnresolvedMarketValue) => {
+      if (!unresolved.includes(value)) unresolved.push(value);
+      return Promise.resolve(value);
+    }),
+    find: jest.fn(),
+    findOne: jest.fn(({ where }: { where: Partial<UnresolvedMarketValue> }) =>
+      Promise.resolve(
+        unresolved.find((value) =>
+          where.id
+            ? value.id === where.id
+            : value.campaignId === where.campaignId &&
+              value.normalizedValue === where.normalizedValue,
+        ) ?? null,
+      ),
+    ),
+  };
+
+  beforeEach(async () => {
+    markets = [
+      {
+        id: 'market-hou',
+        code: 'HOU',
+        name: 'Houston',
+        aliases: ['Houston TX', 'Greater Houston'],
+        zipPrefixes: ['770-775'],
+        timezone: 'America/Chicago',
+        active: true,
+      },
+      {
+        id: 'market-dal',
+        code: 'DAL',
+        name: 'Dallas',
+        aliases: [],
+        zipPrefixes: ['752'],
+        timezone: 'America/Chicago',
+        active: true,
+      },
+    ] as Market[];
+    unresolved = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarketsService,
+        { provide: getRepositoryToken(Market), useValue: mockMarketRepository },
+        {
+          provide: getRepositoryToken(UnresolvedMarketValue),
+          useValue: mockUnresolvedRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MarketsService>(MarketsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the code uppercase', async () => {
+      const market = await service.create({
+        code: 'aus',
+        name: 'Austin',
+        aliases: ['ATX'],
+      });
+
+      expect(market).toEqual(
+        expect.objectContaining({ code: 'AUS', zipPrefixes: [], active: true }),
+      );
+    });
+
+    it('should reject an alias that already refers to another market', async () => {
+      await expect(
+        service.create({
+          code: 'SA',
+          name: 'San Antonio',
+          aliases: ['houston, tx'],
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('canonicalize', () => {
+    it('should map names and aliases to codes and keep unknown values', async () => {
+      await expect(
+        service.canonicalize(['houston tx', 'HOU', ' Dallas ', 'Austin ']),
+      ).resolves.toEqual(['HOU', 'HOU', 'DAL', 'Austin']);
+    });
+
+    it('should ignore inactive markets', async () => {
+      markets[1].active = false;
+
+      await expect(service.canonicalize(['Dallas'])).resolves.toEqual([
+        'Dallas',
+      ]);
+    });
+  });
+
+  describe('applyToRows', () => {
+    it('should rewrite markets to codes, falling back to the ZIP prefix', async () => {
+      const rows = [
+        { CustomerID: '1', Market: 'Houston', 'ZIP Code': '77002' },
+        { CustomerID: '2', Market: 'hou', 'ZIP Code': '77002' },
+        { CustomerID: '3', Market: '', 'ZIP Code': '75201-1234' },
+        { CustomerID: '4', Market: 'Galveston', 'ZIP Code': '77550' },
+      ];
+
+      const unknown = await service.applyToRows('campaign-1', rows);
+
+      expect(rows.map((row) => row.Market)).toEqual([
+        'HOU',
+        'HOU',
+        'DAL',
+        'HOU',
+      ]);
+      expect(unknown).toEqual([]);
+    });
+
+    it('should record unrecognized values against the campaign', async () => {
+      const rows = [
+        { CustomerID: '1', Market: 'Austin' },
+        { CustomerID: '2', Market: 'austin' },
+        { CustomerID: '3', Market: 'Houston' },
+      ];
+
+      const unknown = await service.applyToRows('campaign-1', rows);
+      await service.applyToRows('campaign-1', [{ Market: 'AUSTIN' }]);
+
+      expect(unknown).toEqual(['Austin']);
+      expect(rows[0].Market).toBe('Austin');
+      expect(unresolved).toEqual([
+        expect.objectContaining({
+          campaignId: 'campaign-1',
+          value: 'Austin',
+          normalizedValue: 'austin',
+          occurrences: 3,
+          resolvedAt: null,
+        }),
+      ]);
+    });
+
+    it('should not record values again when asked not to', async () => {
+      const unknown = await service.applyToRows(
+        'campaign-1',
+        [{ Market: 'Austin' }],
+        { record: false },
+      );
+
+      expect(unknown).toEqual(['Austin']);
+      expect(unresolved).toEqual([]);
+    });
+
+    it('should leave files without market or ZIP columns alone', async () => {
+      await expect(
+        service.applyToRows('campaign-1', [{ CustomerID: '1' }]),
+      ).resolves.toEqual([]);
+      expect(mockMarketRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveValue', () => {
+    it('should add the value as an alias so later uploads resolve it', async () => {
+      unresolved.push({
+        id: 'value-1',
+        campaignId: 'campaign-1',
+        value: 'Clear Lake',
+        normalizedValue: 'clear lake',
+        occurrences: 12,
+      } as UnresolvedMarketValue);
+
+      const resolved = await service.resolveValue(
+        'value-1',
+        'market-hou',
+        'user-1',
+      );
+
+      expect(resolved).toEqual(
+        expect.objectContaining({
+          resolvedMarketCode: 'HOU',
+          resolvedBy: 'user-1',
+          resolvedAt: expect.any(Date) as unknown,
+        }),
+      );
+      expect(markets[0].aliases).toContain('Clear Lake');
+      await expect(service.canonicalize(['clear lake'])).resolves.toEqual([
+        'HOU',
+      ]);
+    });
+  });
+});
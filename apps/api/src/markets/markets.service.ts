@@ -0,0 +1,306 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere, IsNull, Not } from 'typeorm';
+import {
+  createMarketResolver,
+  normalizeMarketValue,
+  type MarketResolver,
+} from '@matchback/utils';
+import { Market } from './entities/market.entity';
+import { UnresolvedMarketValue } from './entities/unresolved-market-value.entity';
+import { CreateMarketDto } from './dto/create-market.dto';
+import { UpdateMarketDto } from './dto/update-market.dto';
+import {
+  CLIENT_RECORD_HEADERS,
+  normalizeHeader,
+} from '../matching/utils/client-record.mapper';
+
+/**
+ * Markets Service
+ *
+ * Managed registry of markets:
+ * - Canonical code used on campaigns, DCM_IDs and reports
+ * - Aliases ("HOU", "houston tx") and ZIP prefix ranges that map to it
+ * - Time zone
+ *
+ * Client uploads are normalized against the registry while parsing;
+ * market values it does not recognize are recorded per campaign so an
+ * admin can resolve them to a market (which adds them as an alias).
+ */
+@Injectable()
+export class MarketsService {
+  private readonly logger = new Logger(MarketsService.name);
+
+  constructor(
+    @InjectRepository(Market)
+    private readonly marketRepository: Repository<Market>,
+    @InjectRepository(UnresolvedMarketValue)
+    private readonly unresolvedRepository: Repository<UnresolvedMarketValue>,
+  ) {}
+
+  /**
+   * Register a market
+   */
+  async create(dto: CreateMarketDto): Promise<Market> {
+    const market = this.marketRepository.create({
+      ...dto,
+      code: dto.code.toUpperCase(),
+      aliases: dto.aliases ?? [],
+      zipPrefixes: dto.zipPrefixes ?? [],
+      timezone: dto.timezone ?? null,
+      active: true,
+    });
+    await this.assertValuesAvailable(market);
+
+    const saved = await this.marketRepository.save(market);
+
+    this.logger.log(`Market ${saved.code} (${saved.name}) registered`);
+    return saved;
+  }
+
+  /**
+   * List markets
+   */
+  async findAll(filters: { active?: boolean } = {}): Promise<Market[]> {
+    return this.marketRepository.find({
+      where: filters.active === undefined ? {} : { active: filters.active },
+      order: { code: 'ASC' },
+    });
+  }
+
+  /**
+   * Get a market by ID
+   */
+  async findOne(id: string): Promise<Market> {
+    const market = await this.marketRepository.findOne({ where: { id } });
+    if (!market) {
+      throw new NotFoundException(`Market ${id} not found`);
+    }
+    return market;
+  }
+
+  /**
+   * Update name, aliases, ZIP prefixes, time zone or active flag
+   */
+  async update(id: string, dto: UpdateMarketDto): Promise<Market> {
+    const market = await this.findOne(id);
+
+    Object.assign(market, dto);
+    await this.assertValuesAvailable(market);
+
+    return this.marketRepository.save(market);
+  }
+
+  /**
+   * Resolver over the active markets
+   */
+  async getResolver(): Promise<MarketResolver> {
+    return createMarketResolver(await this.findAll({ active: true }));
+  }
+
+  /**
+   * Replace known market values with their codes
+   * Unknown values are kept (trimmed) so callers can still use them
+   */
+  async canonicalize(markets: string[]): Promise<string[]> {
+    const resolve = await this.getResolver();
+    return markets.map((market) => resolve(market) ?? market.trim());
+  }
+
+  /**
+   * Normalize the Market column of parsed client rows in place
+   *
+   * Recognized values (or blank values with a ZIP in a registered range)
+   * are rewritten to the market code. Unrecognized values are recorded
+   * against the campaign (unless `record` is false) and returned.
+   */
+  async applyToRows(
+    campaignId: string,
+    rows: Record<string, any>[],
+    options: { record?: boolean } = {},
+  ): Promise<string[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const headers = Object.keys(rows[0]);
+    const marketHeader = this.findHeader(headers, 'market');
+    const zipHeader = this.findHeader(headers, 'zip');
+    if (!marketHeader && !zipHeader) {
+      return [];
+    }
+
+    const resolve = await this.getResolver();
+    const unresolved = new Map<string, { value: string; count: number }>();
+
+    rows.forEach((row) => {
+      const value = marketHeader ? this.toText(row[marketHeader]) : '';
+      const zip = zipHeader ? this.toText(row[zipHeader]) : undefined;
+
+      const code = resolve(value, zip);
+      if (code) {
+        row[marketHeader ?? 'Market'] = code;
+        return;
+      }
+
+      const normalized = normalizeMarketValue(value);
+      if (!normalized) {
+        return;
+      }
+      const entry = unresolved.get(normalized) ?? { value, count: 0 };
+      entry.count++;
+      unresolved.set(normalized, entry);
+    });
+
+    if (options.record === false) {
+      return [...unresolved.values()].map((entry) => entry.value);
+    }
+
+    for (const [normalizedValue, { value, count }] of unresolved) {
+      await this.recordUnresolved(campaignId, value, normalizedValue, count);
+    }
+
+    if (unresolved.size > 0) {
+      this.logger.warn(
+        `Campaign ${campaignId} upload has unrecognized markets: ${[...unresolved.values()].map((entry) => entry.value).join(', ')}`,
+      );
+    }
+
+    return [...unresolved.values()].map((entry) => entry.value);
+  }
+
+  /**
+   * Market values from uploads the registry did not recognize
+   */
+  async findUnresolved(
+    filters: { resolved?: boolean; campaignId?: string } = {},
+  ): Promise<UnresolvedMarketValue[]> {
+    const where: FindOptionsWhere<UnresolvedMarketValue> = {};
+    if (filters.resolved !== undefined) {
+      where.resolvedAt = filters.resolved ? Not(IsNull()) : IsNull();
+    }
+    if (filters.campaignId) where.campaignId = filters.campaignId;
+
+    return this.unresolvedRepository.find({
+      where,
+      order: { lastSeenAt: 'DESC' },
+      take: 200,
+    });
+  }
+
+  /**
+   * Resolve an unrecognized value to a market
+   * The value becomes an alias of the market, so later uploads resolve
+   * it automatically. Re-upload the file to apply it to this campaign.
+   */
+  async resolveValue(
+    id: string,
+    marketId: string,
+    userId: string | null,
+  ): Promise<UnresolvedMarketValue> {
+    const unresolved = await this.unresolvedRepository.findOne({
+      where: { id },
+    });
+    if (!unresolved) {
+      throw new NotFoundException(`Unresolved market value ${id} not found`);
+    }
+
+    const market = await this.findOne(marketId);
+    const known = [market.code, market.name, ...market.aliases].map(
+      normalizeMarketValue,
+    );
+    if (!known.includes(unresolved.normalizedValue)) {
+      market.aliases = [...market.aliases, unresolved.value];
+      await this.assertValuesAvailable(market);
+      await this.marketRepository.save(market);
+    }
+
+    unresolved.resolvedMarketCode = market.code;
+    unresolved.resolvedBy = userId;
+    unresolved.resolvedAt = new Date();
+
+    this.logger.log(
+      `Market value "${unresolved.value}" resolved to ${market.code}`,
+    );
+    return this.unresolvedRepository.save(unresolved);
+  }
+
+  /**
+   * Code, name and aliases may only refer to one market
+   */
+  private async assertValuesAvailable(market: Market): Promise<void> {
+    const others = (await this.marketRepository.find()).filter(
+      (other) => other.id !== market.id,
+    );
+    const taken = new Map<string, Market>();
+    others.forEach((other) =>
+      [other.code, other.name, ...other.aliases].forEach((value) =>
+        taken.set(normalizeMarketValue(value), other),
+      ),
+    );
+
+    for (const value of [market.code, market.name, ...market.aliases]) {
+      const owner = taken.get(normalizeMarketValue(value));
+      if (owner) {
+        throw new ConflictException(
+          `"${value}" already refers to market ${owner.code}`,
+        );
+      }
+    }
+  }
+
+  private async recordUnresolved(
+    campaignId: string,
+    value: string,
+    normalizedValue: string,
+    occurrences: number,
+  ): Promise<void> {
+    const now = new Date();
+    const existing = await this.unresolvedRepository.findOne({
+      where: { campaignId, normalizedValue },
+    });
+
+    if (existing) {
+      existing.occurrences += occurrences;
+      existing.lastSeenAt = now;
+      await this.unresolvedRepository.save(existing);
+      return;
+    }
+
+    await this.unresolvedRepository.save(
+      this.unresolvedRepository.create({
+        campaignId,
+        value,
+        normalizedValue,
+        occurrences,
+        firstSeenAt: now,
+        lastSeenAt: now,
+        resolvedMarketCode: null,
+        resolvedBy: null,
+        resolvedAt: null,
+      }),
+    );
+  }
+
+  /**
+   * Row key for a ClientRecord field ("Market", "ZIP Code", ...)
+   */
+  private findHeader(headers: string[], field: string): string | undefined {
+    return headers.find((header) =>
+      CLIENT_RECORD_HEADERS[field].includes(normalizeHeader(header)),
+    );
+  }
+
+  /**
+   * Cell value as text (ZIP codes may be parsed as numbers)
+   */
+  private toText(value: unknown): string {
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' ? value.trim() : '';
+  }
+}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { ContactNormalizationStats } from '@matchback/types';
+import { ContactNormalizationService } from './contact-normalization.service';
+import type { ClientRecord } from './sanitization.service';
+
+describe('ContactNormalizationService', () => {
+  let service: ContactNormalizationService;
+  let stats: ContactNormalizationStats;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ContactNormalizationService],
+    }).compile();
+
+    service = module.get<ContactNormalizationService>(
+      ContactNormalizationService,
+    );
+    stats = service.createStats();
+  });
+
+  describe('emails', () => {
+    it('should trim and lowercase emails', () => {
+      const contact = service.normalize(
+        { email: ' mailto:John.Doe@Example.COM ' },
+        stats,
+      );
+
+      expect(contact.email).toBe('john.doe@example.com');
+      expect(stats.emailsNormalized).toBe(1);
+    });
+
+    it('should drop invalid emails', () => {
+      expect(service.normalize({ email: 'john at example' }, stats).email).toBe(
+        '',
+      );
+      expect(service.normalize({ email: 'jane@localhost' }, stats).email).toBe(
+        '',
+      );
+      expect(stats.invalidEmails).toBe(2);
+    });
+
+    it('should flag typo domains without correcting them', () => {
+      service.normalize({ email: 'a@gmial.com' }, stats);
+      const contact = service.normalize({ email: 'b@GMIAL.com' }, stats);
+      service.normalize({ email: 'c@yaho.com' }, stats);
+
+      expect(contact.email).toBe('b@gmial.com');
+      expect(stats.typoDomains).toEqual([
+        { domain: 'gmial.com', suggestion: 'gmail.com', count: 2 },
+        { domain: 'yaho.com', suggestion: 'yahoo.com', count: 1 },
+      ]);
+    });
+  });
+
+  describe('phones', () => {
+    it.each([
+      ['(713) 555-0100', '+17135550100'],
+      ['713.555.0100 ext. 12', '+17135550100'],
+      ['1-713-555-0100', '+17135550100'],
+      ['+44 20 7946 0958', '+442079460958'],
+      ['0044 20 7946 0958', '+442079460958'],
+      [7135550100, '+17135550100'], // Spreadsheet number cell
+    ])('should format %s as %s', (phone, expected) => {
+      expect(service.normalize({ phone } as ClientRecord, stats).phone).toBe(
+        expected,
+      );
+    });
+
+    it('should drop numbers that cannot be dialed', () => {
+      expect(service.normalize({ phone: '555-1234' }, stats).phone).toBe('');
+      expect(stats.invalidPhones).toBe(1);
+    });
+
+    it('should not count numbers already in E.164', () => {
+      service.normalize({ phone: '+17135550100' }, stats);
+
+      expect(stats.phonesFormatted).toBe(0);
+    });
+  });
+
+  describe('addresses', () => {
+    it.each([
+      ['123 Main Street', '123 Main St'],
+      ['123  main street  ', '123 main St'],
+      ['45 Westheimer Road NW', '45 Westheimer Rd NW'],
+      ['9 Kirby Dr. Apt 4', '9 Kirby Dr Apt 4'],
+      ['500 Court Avenue Suite 200', '500 Court Ave Suite 200'],
+      ['77 Post Oak Blvd # 12', '77 Post Oak Blvd # 12'],
+      ['PO Box 14', 'PO Box 14'],
+    ])('should standardize %s as %s', (address, expected) => {
+      expect(service.normalize({ address }, stats).address).toBe(expected);
+    });
+
+    it('should count suffixes that changed', () => {
+      service.normalize({ address: '123 Main Street' }, stats);
+      service.normalize({ address: '124 Main St' }, stats);
+
+      expect(stats.streetSuffixesStandardized).toBe(1);
+    });
+
+    it('should use two-letter state codes', () => {
+      expect(service.normalize({ state: 'Texas' }, stats).state).toBe('TX');
+      expect(service.normalize({ state: 'tx.' }, stats).state).toBe('TX');
+      expect(service.normalize({ state: 'TX' }, stats).state).toBe('TX');
+      expect(service.normalize({ state: 'Ontario' }, stats).state).toBe(
+        'Ontario',
+      );
+      expect(stats.statesStandardized).toBe(2);
+      expect(stats.invalidStates).toBe(1);
+    });
+
+    it.each([
+      ['77001', '77001'],
+      ['77001-1234', '77001-1234'],
+      ['770011234', '77001-1234'],
+      ['77001 1234', '77001-1234'],
+      [2134, '02134'], // Leading zero lost in a spreadsheet
+    ])('should format ZIP %s as %s', (zip, expected) => {
+      expect(service.normalize({ zip } as ClientRecord, stats).zip).toBe(
+        expected,
+      );
+    });
+
+    it('should drop ZIPs that are not 5 or 9 digits', () => {
+      expect(service.normalize({ zip: '770' }, stats).zip).toBe('');
+      expect(stats.invalidZips).toBe(1);
+    });
+  });
+
+  it('should collapse whitespace in names', () => {
+    expect(
+      service.normalize({ firstName: ' Jane ', lastName: 'Smith' }, stats).name,
+    ).toBe('Jane Smith');
+  });
+});
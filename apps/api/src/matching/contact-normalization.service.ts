@@ -0,0 +1,362 @@
+import { Injectable } from '@nestjs/common';
+import type { ContactNormalizationStats } from '@matchback/types';
+import type { ClientRecord } from './sanitization.service';
+
+/**
+ * Contact fields after normalization
+ * Empty string = missing or invalid
+ */
+export interface NormalizedContact {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+/**
+ * Misspellings of common mailbox providers
+ */
+const TYPO_DOMAINS: Record<string, string> = {
+  'gmial.com': 'gmail.com',
+  'gmai.com': 'gmail.com',
+  'gamil.com': 'gmail.com',
+  'gnail.com': 'gmail.com',
+  'gmaill.com': 'gmail.com',
+  'gmail.co': 'gmail.com',
+  'gmail.cm': 'gmail.com',
+  'gmail.con': 'gmail.com',
+  'hotmial.com': 'hotmail.com',
+  'hotmal.com': 'hotmail.com',
+  'hotmai.com': 'hotmail.com',
+  'hotmail.co': 'hotmail.com',
+  'hotmail.con': 'hotmail.com',
+  'yaho.com': 'yahoo.com',
+  'yahooo.com': 'yahoo.com',
+  'yahoo.co': 'yahoo.com',
+  'yahoo.con': 'yahoo.com',
+  'outlok.com': 'outlook.com',
+  'outlook.co': 'outlook.com',
+  'iclod.com': 'icloud.com',
+  'icloud.co': 'icloud.com',
+  'aol.co': 'aol.com',
+};
+
+/**
+ * USPS street suffix abbreviations (Publication 28, common subset)
+ */
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: 'Aly',
+  avenue: 'Ave',
+  av: 'Ave',
+  ave: 'Ave',
+  boulevard: 'Blvd',
+  blvd: 'Blvd',
+  circle: 'Cir',
+  cir: 'Cir',
+  court: 'Ct',
+  ct: 'Ct',
+  cove: 'Cv',
+  drive: 'Dr',
+  dr: 'Dr',
+  expressway: 'Expy',
+  freeway: 'Fwy',
+  highway: 'Hwy',
+  hwy: 'Hwy',
+  lane: 'Ln',
+  ln: 'Ln',
+  loop: 'Loop',
+  parkway: 'Pkwy',
+  pkwy: 'Pkwy',
+  place: 'Pl',
+  pl: 'Pl',
+  road: 'Rd',
+  rd: 'Rd',
+  square: 'Sq',
+  street: 'St',
+  str: 'St',
+  st: 'St',
+  terrace: 'Ter',
+  trail: 'Trl',
+  way: 'Way',
+};
+
+const DIRECTIONALS = new Set(['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw']);
+
+/**
+ * Unit designator and everything after it ("Apt 4", "Suite 200", "# 12")
+ */
+const UNIT_DESIGNATOR = /\s+(#|(apt|apartment|suite|ste|unit|bldg)\b).*$/i;
+
+const STATE_CODES: Record<string, string> = {
+  alabama: 'AL',
+  alaska: 'AK',
+  arizona: 'AZ',
+  arkansas: 'AR',
+  california: 'CA',
+  colorado: 'CO',
+  connecticut: 'CT',
+  delaware: 'DE',
+  'district of columbia': 'DC',
+  florida: 'FL',
+  georgia: 'GA',
+  hawaii: 'HI',
+  idaho: 'ID',
+  illinois: 'IL',
+  indiana: 'IN',
+  iowa: 'IA',
+  kansas: 'KS',
+  kentucky: 'KY',
+  louisiana: 'LA',
+  maine: 'ME',
+  maryland: 'MD',
+  massachusetts: 'MA',
+  michigan: 'MI',
+  minnesota: 'MN',
+  mississippi: 'MS',
+  missouri: 'MO',
+  montana: 'MT',
+  nebraska: 'NE',
+  nevada: 'NV',
+  'new hampshire': 'NH',
+  'new jersey': 'NJ',
+  'new mexico': 'NM',
+  'new york': 'NY',
+  'north carolina': 'NC',
+  'north dakota': 'ND',
+  ohio: 'OH',
+  oklahoma: 'OK',
+  oregon: 'OR',
+  pennsylvania: 'PA',
+  'puerto rico': 'PR',
+  'rhode island': 'RI',
+  'south carolina': 'SC',
+  'south dakota': 'SD',
+  tennessee: 'TN',
+  texas: 'TX',
+  utah: 'UT',
+  vermont: 'VT',
+  virginia: 'VA',
+  washington: 'WA',
+  'west virginia': 'WV',
+  wisconsin: 'WI',
+  wyoming: 'WY',
+};
+
+const VALID_STATE_CODES = new Set(Object.values(STATE_CODES));
+
+const EMAIL_PATTERN = /^[a-z0-9._%+'-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+/**
+ * Contact Normalization Service
+ *
+ * Cleans contact fields before they are written to the vendor file,
+ * so formatting noise does not cost matches:
+ * - Emails: trimmed, lowercased, validated; typo domains (gmial.com) flagged
+ * - Phones: E.164 (US numbers without a country code get +1)
+ * - Addresses: USPS street suffixes, 2-letter state codes, ZIP / ZIP+4
+ *
+ * Typo domains are only reported - the client owns the customer's address.
+ */
+@Injectable()
+export class ContactNormalizationService {
+  /**
+   * Empty statistics for a file
+   */
+  createStats(): ContactNormalizationStats {
+    return {
+      emailsNormalized: 0,
+      invalidEmails: 0,
+      typoDomains: [],
+      phonesFormatted: 0,
+      invalidPhones: 0,
+      streetSuffixesStandardized: 0,
+      statesStandardized: 0,
+      invalidStates: 0,
+      zipsStandardized: 0,
+      invalidZips: 0,
+    };
+  }
+
+  /**
+   * Normalize a record's contact fields, counting changes into stats
+   */
+  normalize(
+    record: ClientRecord,
+    stats: ContactNormalizationStats,
+  ): NormalizedContact {
+    return {
+      name: this.collapse(this.combineName(record)),
+      email: this.normalizeEmail(record.email, stats),
+      phone: this.normalizePhone(record.phone, stats),
+      address: this.normalizeStreet(record.address, stats),
+      city: this.collapse(record.city),
+      state: this.normalizeState(record.state, stats),
+      zip: this.normalizeZip(record.zip, stats),
+    };
+  }
+
+  private normalizeEmail(
+    value: unknown,
+    stats: ContactNormalizationStats,
+  ): string {
+    const raw = this.text(value);
+    if (!raw) return '';
+
+    const email = raw
+      .replace(/^mailto:/i, '')
+      .replace(/\s+/g, '')
+      .toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      stats.invalidEmails++;
+      return '';
+    }
+    if (email !== raw) stats.emailsNormalized++;
+
+    const domain = email.slice(email.lastIndexOf('@') + 1);
+    const suggestion = TYPO_DOMAINS[domain];
+    if (suggestion) {
+      const typo = stats.typoDomains.find((entry) => entry.domain === domain);
+      if (typo) {
+        typo.count++;
+      } else {
+        stats.typoDomains.push({ domain, suggestion, count: 1 });
+      }
+    }
+
+    return email;
+  }
+
+  /**
+   * E.164: 10-digit US numbers get +1; numbers written with a leading
+   * "+" or "00" keep their country code
+   */
+  private normalizePhone(
+    value: unknown,
+    stats: ContactNormalizationStats,
+  ): string {
+    const raw = this.text(value).replace(/\s*(x|ext\.?)\s*\d+$/i, '');
+    if (!raw) return '';
+
+    const international = /^(\+|00)/.test(raw);
+    let digits = raw.replace(/\D/g, '');
+    if (international && raw.startsWith('00')) digits = digits.slice(2);
+
+    let phone: string | null = null;
+    if (international) {
+      phone = digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+    } else if (digits.length === 10) {
+      phone = `+1${digits}`;
+    } else if (digits.length === 11 && digits.startsWith('1')) {
+      phone = `+${digits}`;
+    }
+
+    if (!phone) {
+      stats.invalidPhones++;
+      return '';
+    }
+    if (phone !== raw) stats.phonesFormatted++;
+    return phone;
+  }
+
+  /**
+   * Abbreviate the street suffix ("Main Street NW" -> "Main St NW")
+   * Unit designators are kept as written
+   */
+  private normalizeStreet(
+    value: unknown,
+    stats: ContactNormalizationStats,
+  ): string {
+    const raw = this.collapse(value);
+    if (!raw) return '';
+
+    const unit = UNIT_DESIGNATOR.exec(raw)?.[0] ?? '';
+    const words = raw.slice(0, raw.length - unit.length).split(' ');
+
+    let index = words.length - 1;
+    if (index > 1 && DIRECTIONALS.has(this.bare(words[index]))) index--;
+
+    // The first word is the house number or the street name itself
+    const suffix = index > 0 ? STREET_SUFFIXES[this.bare(words[index])] : '';
+    if (suffix && words[index] !== suffix) {
+      words[index] = suffix;
+      stats.streetSuffixesStandardized++;
+    }
+
+    return words.join(' ') + unit;
+  }
+
+  private normalizeState(
+    value: unknown,
+    stats: ContactNormalizationStats,
+  ): string {
+    const raw = this.collapse(value);
+    if (!raw) return '';
+
+    const key = raw.toLowerCase().replace(/\./g, '');
+    const code =
+      STATE_CODES[key] ??
+      (VALID_STATE_CODES.has(key.toUpperCase()) ? key.toUpperCase() : null);
+
+    if (!code) {
+      stats.invalidStates++;
+      return raw;
+    }
+    if (code !== raw) stats.statesStandardized++;
+    return code;
+  }
+
+  /**
+   * 5-digit ZIP or ZIP+4 ("77001", "77001-1234")
+   * 4-digit values are ZIPs that lost a leading zero in a spreadsheet
+   */
+  private normalizeZip(
+    value: unknown,
+    stats: ContactNormalizationStats,
+  ): string {
+    const raw = this.text(value);
+    if (!raw) return '';
+
+    let digits = raw.replace(/\D/g, '');
+    if (digits.length === 4 || digits.length === 8) digits = `0${digits}`;
+
+    let zip: string | null = null;
+    if (digits.length === 5) {
+      zip = digits;
+    } else if (digits.length === 9) {
+      zip = `${digits.slice(0, 5)}-${digits.slice(5)}`;
+    }
+
+    if (!zip) {
+      stats.invalidZips++;
+      return '';
+    }
+    if (zip !== raw) stats.zipsStandardized++;
+    return zip;
+  }
+
+  /**
+   * Combine first and last name, or use name field
+   */
+  private combineName(record: ClientRecord): string {
+    if (record.firstName || record.lastName) {
+      return `${record.firstName || ''} ${record.lastName || ''}`;
+    }
+    return record.name || '';
+  }
+
+  private text(value: unknown): string {
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  private collapse(value: unknown): string {
+    return this.text(value).replace(/\s+/g, ' ');
+  }
+
+  private bare(word: string): string {
+    return word.toLowerCase().replace(/\.$/, '');
+  }
+}
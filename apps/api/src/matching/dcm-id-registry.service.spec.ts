@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DcmIdRegistryService } from './dcm-id-registry.service';
+import { DcmIdService } from './dcm-id.service';
+import { DcmIdRegistration } from './entities/dcm-id-registration.entity';
+
+describe('DcmIdRegistryService', () => {
+  let service: DcmIdRegistryService;
+  let dcmIdService: DcmIdService;
+
+  const mockRegistrationRepository = {
+    insert: jest.fn(),
+    find: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DcmIdRegistryService,
+        DcmIdService,
+        {
+          provide: getRepositoryToken(DcmIdRegistration),
+          useValue: mockRegistrationRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DcmIdRegistryService>(DcmIdRegistryService);
+    dcmIdService = module.get<DcmIdService>(DcmIdService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('register', () => {
+    it('should insert DCM_IDs with their sequence', async () => {
+      await service.register('campaign-1', 'Houston', ['A', 'B'], 11);
+
+      expect(mockRegistrationRepository.insert).toHaveBeenCalledWith([
+        {
+          dcmId: 'A',
+          campaignId: 'campaign-1',
+          market: 'Houston',
+          sequence: 11,
+        },
+        {
+          dcmId: 'B',
+          campaignId: 'campaign-1',
+          market: 'Houston',
+          sequence: 12,
+        },
+      ]);
+    });
+
+    it('should insert large markets in chunks', async () => {
+      const dcmIds = dcmIdService.generateBatch(1200);
+
+      await service.register('campaign-1', 'Houston', dcmIds);
+
+      expect(mockRegistrationRepository.insert).toHaveBeenCalledTimes(3);
+      expect(mockRegistrationRepository.insert.mock.calls[2][0][0]).toEqual(
+        expect.objectContaining({ dcmId: dcmIds[1000], sequence: 1001 }),
+      );
+    });
+  });
+
+  describe('unregister', () => {
+    it("should delete the market's DCM_IDs", async () => {
+      mockRegistrationRepository.delete.mockResolvedValue({ affected: 2 });
+
+      await expect(service.unregister('campaign-1', 'Houston')).resolves.toBe(
+        2,
+      );
+      expect(mockRegistrationRepository.delete).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+        market: 'Houston',
+      });
+    });
+
+    it('should delete within the given transaction', async () => {
+      const transactionRepository = {
+        delete: jest.fn().mockResolvedValue({ affected: 0 }),
+      };
+      const manager = {
+        getRepository: jest.fn(() => transactionRepository),
+      } as any;
+
+      await service.unregister('campaign-1', 'Houston', manager);
+
+      expect(manager.getRepository).toHaveBeenCalledWith(DcmIdRegistration);
+      expect(transactionRepository.delete).toHaveBeenCalled();
+      expect(mockRegistrationRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve an opaque DCM_ID as the vendor typed it', async () => {
+      const dcmId = dcmIdService.generateDcmId();
+      mockRegistrationRepository.find.mockResolvedValue([
+        {
+          dcmId,
+          campaignId: 'campaign-1',
+          market: 'Houston',
+          sequence: 7,
+          createdAt: new Date(),
+        },
+      ]);
+
+      const resolution = await service.resolve(
+        dcmId.replace(/-/g, '').toLowerCase(),
+      );
+
+      expect(resolution).toEqual({
+        dcmId,
+        campaignId: 'campaign-1',
+        market: 'Houston',
+        sequence: 7,
+      });
+      expect(mockRegistrationRepository.find).toHaveBeenCalledWith({
+        where: { dcmId: expect.objectContaining({ _value: [dcmId] }) },
+      });
+    });
+
+    it('should not look up legacy or mistyped DCM_IDs', async () => {
+      const dcmId = dcmIdService.generateDcmId();
+      const last = dcmId.slice(-1);
+      const mistyped = dcmId.slice(0, -1) + (last === 'Z' ? 'Y' : 'Z');
+
+      expect(await service.resolve('TIDE123-HOU-1700000000-00001')).toBeNull();
+      expect(await service.resolve(mistyped)).toBeNull();
+      expect(mockRegistrationRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should return null for DCM_IDs that were never issued', async () => {
+      mockRegistrationRepository.find.mockResolvedValue([]);
+
+      expect(await service.resolve(dcmIdService.generateDcmId())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { DcmIdRegistration } from './entities/dcm-id-registration.entity';
+import { DcmIdService } from './dcm-id.service';
+
+export interface DcmIdResolution {
+  dcmId: string;
+  campaignId: string;
+  market: string;
+  sequence: number; // Row in the campaign's DCM_ID range (1-indexed)
+}
+
+/**
+ * DCM_ID Registry Service
+ *
+ * Opaque DCM_IDs carry no campaign details, so where each one was issued
+ * is recorded here when its vendor file is prepared. Rows are inserted,
+ * never updated: an ID issued twice fails instead of being reassigned.
+ * A market's rows are only removed when it is sanitized again, together
+ * with its match records (MatchingService.saveDcmIdMapping).
+ */
+@Injectable()
+export class DcmIdRegistryService {
+  private readonly logger = new Logger(DcmIdRegistryService.name);
+
+  constructor(
+    @InjectRepository(DcmIdRegistration)
+    private readonly registrationRepository: Repository<DcmIdRegistration>,
+    private readonly dcmIdService: DcmIdService,
+  ) {}
+
+  /**
+   * Record the DCM_IDs of one market, in sequence order
+   * @param manager - Transaction to insert in (default: own connection)
+   */
+  async register(
+    campaignId: string,
+    market: string,
+    dcmIds: string[],
+    firstSequence: number = 1,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const repository = this.getRepository(manager);
+    const registrations = dcmIds.map((dcmId, index) => ({
+      dcmId,
+      campaignId,
+      market,
+      sequence: firstSequence + index,
+    }));
+
+    for (let i = 0; i < registrations.length; i += 500) {
+      await repository.insert(registrations.slice(i, i + 500));
+    }
+
+    this.logger.log(
+      `Registered ${dcmIds.length} DCM_IDs for campaign ${campaignId}, market ${market}`,
+    );
+  }
+
+  /**
+   * Remove the DCM_IDs of one market before it is sanitized again
+   * @param manager - Transaction to delete in (default: own connection)
+   */
+  async unregister(
+    campaignId: string,
+    market: string,
+    manager?: EntityManager,
+  ): Promise<number> {
+    const { affected } = await this.getRepository(manager).delete({
+      campaignId,
+      market,
+    });
+
+    return affected ?? 0;
+  }
+
+  /**
+   * Campaign, market and row of an opaque DCM_ID
+   * null for legacy IDs (see DcmIdService.parseDcmId), typos and IDs
+   * that were never issued
+   */
+  async resolve(dcmId: string): Promise<DcmIdResolution | null> {
+    const [resolution] = await this.resolveMany([dcmId]);
+    return resolution ?? null;
+  }
+
+  /**
+   * Resolve many DCM_IDs at once; unresolvable ones are left out
+   */
+  async resolveMany(dcmIds: string[]): Promise<DcmIdResolution[]> {
+    const opaque = dcmIds
+      .map((dcmId) => this.dcmIdService.normalizeDcmId(dcmId))
+      .filter((dcmId) => this.dcmIdService.getFormat(dcmId) === 'opaque');
+    if (opaque.length === 0) return [];
+
+    const registrations = await this.registrationRepository.find({
+      where: { dcmId: In(opaque) },
+    });
+
+    return registrations.map(({ dcmId, campaignId, market, sequence }) => ({
+      dcmId,
+      campaignId,
+      market,
+      sequence,
+    }));
+  }
+
+  private getRepository(
+    manager?: EntityManager,
+  ): Repository<DcmIdRegistration> {
+    return manager
+      ? manager.getRepository(DcmIdRegistration)
+      : this.registrationRepository;
+  }
+}
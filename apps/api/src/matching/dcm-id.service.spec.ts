@@ -17,51 +17,76 @@ describe('DcmIdService', () => {
   });
 
   describe('generateDcmId', () => {
-    it('should generate DCM_ID with correct format', () => {
-      const dcmId = service.generateDcmId('TIDE123', 'HOU', 1, 1700000000);
-      expect(dcmId).toBe('TIDE123-HOU-1700000000-00001');
+    it('should generate opaque DCM_IDs in groups of four', () => {
+      expect(service.generateDcmId()).toMatch(
+        /^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/,
+      );
     });
 
-    it('should pad sequence number with zeros', () => {
-      const dcmId = service.generateDcmId('TIDE123', 'HOU', 42, 1700000000);
-      expect(dcmId).toBe('TIDE123-HOU-1700000000-00042');
+    it('should pass its own check character', () => {
+      for (let i = 0; i < 50; i++) {
+        expect(service.getFormat(service.generateDcmId())).toBe('opaque');
+      }
     });
 
-    it('should handle large sequence numbers', () => {
-      const dcmId = service.generateDcmId('TIDE123', 'HOU', 99999, 1700000000);
-      expect(dcmId).toBe('TIDE123-HOU-1700000000-99999');
+    it('should generate unique IDs', () => {
+      const dcmId1 = service.generateDcmId();
+      const dcmId2 = service.generateDcmId();
+      expect(dcmId1).not.toBe(dcmId2);
     });
+  });
 
-    it('should sanitize campaign ID', () => {
-      const dcmId = service.generateDcmId('TIDE-123', 'HOU', 1, 1700000000);
-      expect(dcmId).toBe('TIDE123-HOU-1700000000-00001');
+  describe('generateBatch', () => {
+    it('should generate multiple unique DCM_IDs', () => {
+      const dcmIds = service.generateBatch(500);
+      expect(dcmIds).toHaveLength(500);
+      expect(new Set(dcmIds).size).toBe(500);
     });
+  });
+
+  describe('check character', () => {
+    it('should catch every single-character typo', () => {
+      const compact = service.generateDcmId().replace(/-/g, '');
+      const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
 
-    it('should uppercase market code', () => {
-      const dcmId = service.generateDcmId('TIDE123', 'hou', 1, 1700000000);
-      expect(dcmId).toBe('TIDE123-HOU-1700000000-00001');
+      for (let i = 0; i < compact.length; i++) {
+        for (const char of alphabet) {
+          if (char === compact[i]) continue;
+          const typo = compact.slice(0, i) + char + compact.slice(i + 1);
+          expect(service.isMistypedDcmId(typo)).toBe(true);
+        }
+      }
     });
 
-    it('should generate unique IDs for different sequences', () => {
-      const dcmId1 = service.generateDcmId('TIDE123', 'HOU', 1, 1700000000);
-      const dcmId2 = service.generateDcmId('TIDE123', 'HOU', 2, 1700000000);
-      expect(dcmId1).not.toBe(dcmId2);
+    it('should not treat legacy or foreign IDs as typos', () => {
+      expect(service.isMistypedDcmId('TIDE123-HOU-1700000000-00001')).toBe(
+        false,
+      );
+      expect(service.isMistypedDcmId('OTHER-99')).toBe(false);
     });
   });
 
-  describe('generateBatch', () => {
-    it('should generate multiple DCM_IDs', () => {
-      const dcmIds = service.generateBatch('TIDE123', 'HOU', 5, 1700000000);
-      expect(dcmIds).toHaveLength(5);
-      expect(dcmIds[0]).toBe('TIDE123-HOU-1700000000-00001');
-      expect(dcmIds[4]).toBe('TIDE123-HOU-1700000000-00005');
+  describe('normalizeDcmId', () => {
+    it('should accept vendor re-formatting of opaque IDs', () => {
+      const dcmId = service.generateDcmId();
+      const retyped = ` ${dcmId.replace(/-/g, '').toLowerCase()} `;
+
+      expect(service.normalizeDcmId(retyped)).toBe(dcmId);
     });
 
-    it('should use same timestamp for all IDs in batch', () => {
-      const dcmIds = service.generateBatch('TIDE123', 'HOU', 3, 1700000000);
-      dcmIds.forEach((dcmId) => {
-        expect(dcmId).toContain('1700000000');
-      });
+    it("should read Crockford's look-alike letters as digits", () => {
+      const dcmId = service
+        .generateBatch(200)
+        .find((id) => id.includes('0') && id.includes('1'))!;
+      const retyped = dcmId.replace(/0/g, 'O').replace(/1/g, 'l');
+
+      expect(service.normalizeDcmId(retyped)).toBe(dcmId);
+    });
+
+    it('should leave legacy IDs as written', () => {
+      expect(service.normalizeDcmId(' TIDE123-HOU-1700000000-00001 ')).toBe(
+        'TIDE123-HOU-1700000000-00001',
+      );
     });
   });
 
@@ -77,6 +102,16 @@ describe('DcmIdService', () => {
       });
     });
 
+    it('should parse sequences past the 5-digit padding', () => {
+      expect(service.parseDcmId('TIDE123-HOU-1700000000-123456')).toEqual(
+        expect.objectContaining({ sequence: 123456, isValid: true }),
+      );
+    });
+
+    it('should not parse opaque DCM_IDs', () => {
+      expect(service.parseDcmId(service.generateDcmId()).isValid).toBe(false);
+    });
+
     it('should handle invalid format', () => {
       const parsed = service.parseDcmId('INVALID');
       expect(parsed.isValid).toBe(false);
@@ -98,6 +133,10 @@ describe('DcmIdService', () => {
       expect(service.isValidDcmId('TIDE123-HOU-1700000000-00001')).toBe(true);
     });
 
+    it('should accept opaque DCM_IDs', () => {
+      expect(service.isValidDcmId(service.generateDcmId())).toBe(true);
+    });
+
     it('should return false for invalid DCM_ID', () => {
       expect(service.isValidDcmId('INVALID')).toBe(false);
     });
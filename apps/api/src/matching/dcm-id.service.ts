@@ -1,11 +1,41 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+
+/**
+ * Crockford Base32: no I, L, O or U, so tokens survive being read aloud
+ * or retyped
+ */
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Random characters per token; the check character makes 12
+ */
+const TOKEN_BODY_LENGTH = 11;
+
+const TOKEN_PATTERN = /^[0-9A-HJKMNP-TV-Z]{12}$/;
+
+/**
+ * Pre-opaque format: {CampaignID}-{Market}-{Timestamp}-{Sequence}
+ */
+const LEGACY_PATTERN = /^([A-Za-z0-9]+)-([A-Za-z0-9]+)-(\d+)-(\d+)$/;
+
+export type DcmIdFormat = 'opaque' | 'legacy' | 'invalid';
 
 /**
  * DCM_ID Generation Service
  *
  * Generates unique tracking IDs for matchback records.
- * Format: {CampaignID}-{Market}-{Timestamp}-{Sequence}
- * Example: TIDE123-HOU-1700000000-00001
+ * Format: 12 Crockford Base32 characters in groups of four, the last
+ * one a Luhn mod 32 check character
+ * Example: 7K3Q-9XH2-TPM4
+ *
+ * DCM_IDs are opaque: campaign, market and row are only known through
+ * the server-side registry (DcmIdRegistryService), so vendors learn
+ * nothing about the client. The check character catches single-character
+ * typos and most swapped neighbours in vendor replies.
+ *
+ * Campaigns created before opaque IDs keep their legacy IDs
+ * ({CampaignID}-{Market}-{Timestamp}-{Sequence}); those still parse.
  *
  * DCM_IDs are the ONLY way to track records through the matchback process
  * while maintaining complete privacy separation between client and vendor.
@@ -16,60 +46,74 @@ export class DcmIdService {
 
   /**
    * Generate a single DCM_ID
-   * @param campaignId - Campaign billing number or identifier
-   * @param market - Market code (e.g., HOU, NYC, LA)
-   * @param sequence - Sequential number for this record (1-indexed)
-   * @param timestamp - Optional custom timestamp (defaults to now)
    * @returns DCM_ID string
    */
-  generateDcmId(
-    campaignId: string,
-    market: string,
-    sequence: number,
-    timestamp?: number,
-  ): string {
-    const ts = timestamp || Date.now();
-    const paddedSequence = sequence.toString().padStart(5, '0');
+  generateDcmId(): string {
+    const body = Array.from(
+      randomBytes(TOKEN_BODY_LENGTH),
+      (byte) => ALPHABET[byte % ALPHABET.length],
+    ).join('');
 
-    // Sanitize inputs
-    const cleanCampaignId = this.sanitizeComponent(campaignId);
-    const cleanMarket = this.sanitizeComponent(market).toUpperCase();
-
-    const dcmId = `${cleanCampaignId}-${cleanMarket}-${ts}-${paddedSequence}`;
-
-    this.logger.debug(`Generated DCM_ID: ${dcmId}`);
-
-    return dcmId;
+    return this.format(body + this.checkCharacter(body));
   }
 
   /**
-   * Generate multiple DCM_IDs for a batch of records
-   * @param campaignId - Campaign billing number
-   * @param market - Market code
+   * Generate multiple DCM_IDs, unique within the batch
    * @param count - Number of IDs to generate
-   * @param timestamp - Optional custom timestamp (same for all IDs in batch)
    * @returns Array of DCM_ID strings
    */
-  generateBatch(
-    campaignId: string,
-    market: string,
-    count: number,
-    timestamp?: number,
-  ): string[] {
-    const ts = timestamp || Date.now();
-    const dcmIds: string[] = [];
-
-    for (let i = 1; i <= count; i++) {
-      dcmIds.push(this.generateDcmId(campaignId, market, i, ts));
+  generateBatch(count: number): string[] {
+    const dcmIds = new Set<string>();
+
+    while (dcmIds.size < count) {
+      dcmIds.add(this.generateDcmId());
     }
 
-    this.logger.log(`Generated ${count} DCM_IDs for ${campaignId}-${market}`);
+    this.logger.log(`Generated ${count} DCM_IDs`);
 
-    return dcmIds;
+    return Array.from(dcmIds);
   }
 
   /**
-   * Parse a DCM_ID back into its components
+   * Canonical form of a DCM_ID as typed by a vendor
+   * Opaque IDs are uppercased and regrouped, with Crockford's look-alikes
+   * (O = 0, I/L = 1) read as digits; anything else is only trimmed
+   */
+  normalizeDcmId(dcmId: string): string {
+    const trimmed = dcmId.trim();
+    const compact = trimmed
+      .toUpperCase()
+      .replace(/[\s-]/g, '')
+      .replace(/O/g, '0')
+      .replace(/[IL]/g, '1');
+
+    return TOKEN_PATTERN.test(compact) ? this.format(compact) : trimmed;
+  }
+
+  /**
+   * Which format a DCM_ID is in; opaque IDs must pass their check
+   */
+  getFormat(dcmId: string): DcmIdFormat {
+    const compact = this.normalizeDcmId(dcmId).replace(/-/g, '');
+
+    if (TOKEN_PATTERN.test(compact)) {
+      return this.passesCheck(compact) ? 'opaque' : 'invalid';
+    }
+    return LEGACY_PATTERN.test(dcmId.trim()) ? 'legacy' : 'invalid';
+  }
+
+  /**
+   * Whether a value has the shape of an opaque DCM_ID but fails its
+   * check character - almost always a typo in a vendor reply
+   */
+  isMistypedDcmId(dcmId: string): boolean {
+    const compact = this.normalizeDcmId(dcmId).replace(/-/g, '');
+    return TOKEN_PATTERN.test(compact) && !this.passesCheck(compact);
+  }
+
+  /**
+   * Parse a legacy DCM_ID back into its components
+   * Opaque IDs carry no components; resolve them with the registry
    * @param dcmId - DCM_ID string to parse
    * @returns Object with campaignId, market, timestamp, sequence
    */
@@ -80,9 +124,9 @@ export class DcmIdService {
     sequence: number;
     isValid: boolean;
   } {
-    const parts = dcmId.split('-');
+    const match = LEGACY_PATTERN.exec(dcmId.trim());
 
-    if (parts.length !== 4) {
+    if (!match) {
       return {
         campaignId: '',
         market: '',
@@ -92,45 +136,28 @@ export class DcmIdService {
       };
     }
 
-    const [campaignId, market, timestampStr, sequenceStr] = parts;
-    const timestamp = parseInt(timestampStr, 10);
-    const sequence = parseInt(sequenceStr, 10);
-
-    const isValid =
-      !isNaN(timestamp) &&
-      !isNaN(sequence) &&
-      campaignId.length > 0 &&
-      market.length > 0;
+    const [, campaignId, market, timestampStr, sequenceStr] = match;
 
     return {
       campaignId,
       market,
-      timestamp,
-      sequence,
-      isValid,
+      timestamp: parseInt(timestampStr, 10),
+      sequence: parseInt(sequenceStr, 10),
+      isValid: true,
     };
   }
 
   /**
    * Validate a DCM_ID format
    * @param dcmId - DCM_ID to validate
-   * @returns true if valid format
+   * @returns true for opaque IDs with a valid check character and legacy IDs
    */
   isValidDcmId(dcmId: string): boolean {
-    const parsed = this.parseDcmId(dcmId);
-    return parsed.isValid;
+    return this.getFormat(dcmId) !== 'invalid';
   }
 
   /**
-   * Sanitize a component to ensure it's safe for DCM_ID
-   * Removes any characters that aren't alphanumeric
-   */
-  private sanitizeComponent(component: string): string {
-    return component.replace(/[^a-zA-Z0-9]/g, '');
-  }
-
-  /**
-   * Extract market from DCM_ID
+   * Extract market from a legacy DCM_ID
    */
   extractMarket(dcmId: string): string | null {
     const parsed = this.parseDcmId(dcmId);
@@ -138,7 +165,7 @@ export class DcmIdService {
   }
 
   /**
-   * Extract campaign ID from DCM_ID
+   * Extract campaign ID from a legacy DCM_ID
    */
   extractCampaignId(dcmId: string): string | null {
     const parsed = this.parseDcmId(dcmId);
@@ -146,10 +173,45 @@ export class DcmIdService {
   }
 
   /**
-   * Extract sequence number from DCM_ID
+   * Extract sequence number from a legacy DCM_ID
    */
   extractSequence(dcmId: string): number | null {
     const parsed = this.parseDcmId(dcmId);
     return parsed.isValid ? parsed.sequence : null;
   }
+
+  /**
+   * Luhn mod 32 check character for a token body
+   */
+  private checkCharacter(body: string): string {
+    const sum = this.luhnSum(body, 2);
+    return ALPHABET[
+      (ALPHABET.length - (sum % ALPHABET.length)) % ALPHABET.length
+    ];
+  }
+
+  private passesCheck(token: string): boolean {
+    return this.luhnSum(token, 1) % ALPHABET.length === 0;
+  }
+
+  /**
+   * Luhn mod N sum from the rightmost character, whose factor is given
+   */
+  private luhnSum(value: string, firstFactor: number): number {
+    const n = ALPHABET.length;
+    let factor = firstFactor;
+    let sum = 0;
+
+    for (let i = value.length - 1; i >= 0; i--) {
+      const addend = factor * ALPHABET.indexOf(value[i]);
+      sum += Math.floor(addend / n) + (addend % n);
+      factor = factor === 2 ? 1 : 2;
+    }
+
+    return sum;
+  }
+
+  private format(token: string): string {
+    return token.match(/.{4}/g)!.join('-');
+  }
 }
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as ExcelJS from 'exceljs';
+import {
+  DeduplicationService,
+  DEFAULT_DUPLICATE_MERGE_RULES,
+} from './deduplication.service';
+import { ContactNormalizationService } from './contact-normalization.service';
+import type { ClientRecord } from './sanitization.service';
+
+describe('DeduplicationService', () => {
+  let service: DeduplicationService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DeduplicationService, ContactNormalizationService],
+    }).compile();
+
+    service = module.get<DeduplicationService>(DeduplicationService);
+  });
+
+  describe('deduplicate', () => {
+    it('should keep distinct customers as they are', () => {
+      const records: ClientRecord[] = [
+        { customerId: 'C1', email: 'a@example.com' },
+        { customerId: 'C2', email: 'b@example.com' },
+      ];
+
+      const result = service.deduplicate(records);
+
+      expect(result.records).toEqual(records);
+      expect(result.duplicateGroups).toEqual([]);
+      expect(result.statistics.duplicateRows).toBe(0);
+    });
+
+    it('should match on CustomerID, then email, then name and address', () => {
+      const result = service.deduplicate([
+        { sourceRow: 2, customerId: 'C1', email: 'jane@example.com' },
+        { sourceRow: 3, customerId: 'c1 ', totalVisits: 2 },
+        { sourceRow: 4, email: ' JANE@example.com' },
+        {
+          sourceRow: 5,
+          firstName: 'John',
+          lastName: 'Smith',
+          address: '12 Main Street',
+          zip: '77001',
+        },
+        {
+          sourceRow: 6,
+          name: 'john  smith',
+          address: '12 Main St',
+          zip: '77001-1234',
+        },
+      ]);
+
+      expect(result.records).toHaveLength(2);
+      expect(result.duplicateGroups.map((group) => group.rows.length)).toEqual([
+        3, 2,
+      ]);
+      expect(
+        result.duplicateGroups[0].rows.map((row) => row.matchedOn),
+      ).toEqual([null, 'customerId', 'email']);
+      expect(result.statistics.byKey).toEqual({
+        customerId: 1,
+        email: 1,
+        nameAddress: 1,
+      });
+    });
+
+    it('should never merge different CustomerIDs or markets', () => {
+      const result = service.deduplicate([
+        { customerId: 'C1', email: 'family@example.com', market: 'HOU' },
+        { customerId: 'C2', email: 'family@example.com', market: 'HOU' },
+        { email: 'family@example.com', market: 'DAL' },
+      ]);
+
+      expect(result.records).toHaveLength(3);
+    });
+
+    it('should combine totals by the merge rules', () => {
+      const rows: ClientRecord[] = [
+        { customerId: 'C1', totalSales: 40, totalVisits: 3 },
+        { customerId: 'C1', totalSales: 60, totalVisits: 5 },
+        { customerId: 'C1', totalVisits: 4 },
+      ];
+
+      expect(service.deduplicate(rows).records[0]).toEqual(
+        expect.objectContaining({ totalSales: 60, totalVisits: 5 }),
+      );
+      expect(
+        service.deduplicate(rows, { totalSales: 'sum', totalVisits: 'first' })
+          .records[0],
+      ).toEqual(expect.objectContaining({ totalSales: 100, totalVisits: 3 }));
+      expect(DEFAULT_DUPLICATE_MERGE_RULES).toEqual({
+        totalSales: 'max',
+        totalVisits: 'max',
+      });
+    });
+
+    it('should fill gaps from later rows and keep the earliest dates', () => {
+      const [merged] = service.deduplicate([
+        {
+          customerId: 'C1',
+          signupDate: new Date('2024-09-10'),
+          visitDates: [new Date('2024-09-12')],
+        },
+        {
+          customerId: 'C1',
+          email: 'jane@example.com',
+          signupDate: new Date('2024-09-01'),
+          visitDates: [new Date('2024-09-05'), new Date('2024-09-12')],
+        },
+      ]).records;
+
+      expect(merged.email).toBe('jane@example.com');
+      expect(merged.signupDate).toEqual(new Date('2024-09-01'));
+      expect(merged.visitDates).toEqual([
+        new Date('2024-09-05'),
+        new Date('2024-09-12'),
+      ]);
+    });
+  });
+
+  describe('createDuplicateReport', () => {
+    it('should list each duplicate row and the merged result', async () => {
+      const result = service.deduplicate(
+        [
+          { sourceRow: 2, customerId: 'C1', totalSales: 40 },
+          { sourceRow: 3, customerId: 'C2' },
+          { sourceRow: 4, customerId: 'C1', totalSales: 60 },
+        ],
+        { totalSales: 'sum', totalVisits: 'max' },
+      );
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(
+        (await service.createDuplicateReport(result, 'Fall Drop')) as any,
+      );
+      const sheet = workbook.getWorksheet('Duplicates')!;
+
+      expect(sheet.getColumn(2).values.slice(1)).toEqual([
+        'Row',
+        2,
+        4,
+        'Merged',
+      ]);
+      expect(sheet.getRow(4).getCell(9).value).toBe(100);
+      expect(workbook.getWorksheet('Summary')!.getRow(5).values).toEqual([
+        undefined,
+        'Duplicate Rows Merged',
+        1,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import type {
+  DuplicateMatchKey,
+  DuplicateMergeRules,
+  DuplicateMergeStrategy,
+} from '@matchback/types';
+import type { ClientRecord } from './sanitization.service';
+import { ContactNormalizationService } from './contact-normalization.service';
+
+/**
+ * Rows of one customer usually repeat the same running totals, so the
+ * default keeps the largest value rather than adding them up
+ */
+export const DEFAULT_DUPLICATE_MERGE_RULES: DuplicateMergeRules = {
+  totalSales: 'max',
+  totalVisits: 'max',
+};
+
+/**
+ * Keys in the order they are tried
+ */
+const MATCH_KEYS: DuplicateMatchKey[] = ['customerId', 'email', 'nameAddress'];
+
+const MATCH_KEY_LABELS: Record<DuplicateMatchKey, string> = {
+  customerId: 'CustomerID',
+  email: 'Email',
+  nameAddress: 'Name + Address',
+};
+
+export interface DuplicateGroupRow {
+  record: ClientRecord;
+  matchedOn: DuplicateMatchKey | null; // null = first row of the customer
+}
+
+export interface DuplicateGroup {
+  rows: DuplicateGroupRow[]; // File order
+  merged: ClientRecord;
+}
+
+export interface DeduplicationResult {
+  records: ClientRecord[]; // One per customer, in order of first appearance
+  duplicateGroups: DuplicateGroup[]; // Customers that appeared on 2+ rows
+  rules: DuplicateMergeRules;
+  statistics: {
+    rowsReceived: number;
+    uniqueCustomers: number;
+    duplicateRows: number; // Rows folded into an earlier row
+    byKey: Record<DuplicateMatchKey, number>;
+  };
+}
+
+/**
+ * Deduplication Service
+ *
+ * Client activity lists often repeat a customer across rows; each row
+ * would otherwise get its own DCM_ID and be counted (and its revenue
+ * attributed) once per row. Rows are the same customer when, in order:
+ * 1. CustomerID matches
+ * 2. Normalized email matches
+ * 3. Normalized name + street address + ZIP5 match
+ *
+ * Rows with different CustomerIDs or markets are never merged.
+ * totalSales/totalVisits are combined by the campaign's merge rules;
+ * other fields keep the first non-empty value, dates the earliest.
+ */
+@Injectable()
+export class DeduplicationService {
+  private readonly logger = new Logger(DeduplicationService.name);
+
+  constructor(
+    private readonly contactNormalization: ContactNormalizationService,
+  ) {}
+
+  /**
+   * Merge rows that belong to the same customer
+   */
+  deduplicate(
+    records: ClientRecord[],
+    rules: DuplicateMergeRules = DEFAULT_DUPLICATE_MERGE_RULES,
+  ): DeduplicationResult {
+    const groups: DuplicateGroupRow[][] = [];
+    const index: Record<DuplicateMatchKey, Map<string, number>> = {
+      customerId: new Map(),
+      email: new Map(),
+      nameAddress: new Map(),
+    };
+    const byKey: Record<DuplicateMatchKey, number> = {
+      customerId: 0,
+      email: 0,
+      nameAddress: 0,
+    };
+
+    records.forEach((record) => {
+      const keys = this.matchKeys(record);
+
+      let groupIndex: number | undefined;
+      let matchedOn: DuplicateMatchKey | null = null;
+      for (const key of MATCH_KEYS) {
+        const candidate = keys[key] ? index[key].get(keys[key]) : undefined;
+        if (
+          candidate !== undefined &&
+          !this.conflicts(groups[candidate][0].record, record)
+        ) {
+          groupIndex = candidate;
+          matchedOn = key;
+          break;
+        }
+      }
+
+      if (groupIndex === undefined) {
+        groupIndex = groups.push([]) - 1;
+      } else {
+        byKey[matchedOn!]++;
+      }
+      groups[groupIndex].push({ record, matchedOn });
+
+      for (const key of MATCH_KEYS) {
+        if (keys[key] && !index[key].has(keys[key])) {
+          index[key].set(keys[key], groupIndex);
+        }
+      }
+    });
+
+    const merged = groups.map((rows) =>
+      rows.length === 1
+        ? { rows, merged: rows[0].record }
+        : { rows, merged: this.merge(rows, rules) },
+    );
+    const duplicateGroups = merged.filter((group) => group.rows.length > 1);
+    const duplicateRows = records.length - groups.length;
+
+    if (duplicateRows > 0) {
+      this.logger.log(
+        `Merged ${duplicateRows} duplicate rows into ${duplicateGroups.length} customers (${records.length} rows -> ${groups.length} customers)`,
+      );
+    }
+
+    return {
+      records: merged.map((group) => group.merged),
+      duplicateGroups,
+      rules,
+      statistics: {
+        rowsReceived: records.length,
+        uniqueCustomers: groups.length,
+        duplicateRows,
+        byKey,
+      },
+    };
+  }
+
+  /**
+   * Workbook listing every merged customer: its source rows, the key
+   * that linked them and the merged values sent on for matching
+   */
+  async createDuplicateReport(
+    result: DeduplicationResult,
+    campaignName: string,
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+
+    const summary = workbook.addWorksheet('Summary');
+    summary.columns = [
+      { header: 'Metric', key: 'metric', width: 30 },
+      { header: 'Value', key: 'value', width: 20 },
+    ];
+    summary.getRow(1).font = { bold: true };
+    summary.addRows([
+      { metric: 'Campaign', value: campaignName },
+      { metric: 'Rows Received', value: result.statistics.rowsReceived },
+      { metric: 'Unique Customers', value: result.statistics.uniqueCustomers },
+      {
+        metric: 'Duplicate Rows Merged',
+        value: result.statistics.duplicateRows,
+      },
+      ...MATCH_KEYS.map((key) => ({
+        metric: `Matched on ${MATCH_KEY_LABELS[key]}`,
+        value: result.statistics.byKey[key],
+      })),
+      { metric: 'Total Sales Rule', value: result.rules.totalSales },
+      { metric: 'Total Visits Rule', value: result.rules.totalVisits },
+    ]);
+
+    const sheet = workbook.addWorksheet('Duplicates');
+    sheet.columns = [
+      { header: 'Customer #', key: 'group', width: 12 },
+      { header: 'Row', key: 'row', width: 16 },
+      { header: 'Matched On', key: 'matchedOn', width: 16 },
+      { header: 'CustomerID', key: 'customerId', width: 15 },
+      { header: 'Name', key: 'name', width: 25 },
+      { header: 'Email', key: 'email', width: 30 },
+      { header: 'Address', key: 'address', width: 40 },
+      { header: 'Market', key: 'market', width: 12 },
+      { header: 'Total Sales', key: 'totalSales', width: 14 },
+      { header: 'Total Visits', key: 'totalVisits', width: 14 },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFE0E0E0' },
+    };
+
+    result.duplicateGroups.forEach((group, groupIndex) => {
+      group.rows.forEach(({ record, matchedOn }) => {
+        sheet.addRow({
+          group: groupIndex + 1,
+          row: record.sourceRow ?? '',
+          matchedOn: matchedOn ? MATCH_KEY_LABELS[matchedOn] : '',
+          ...this.reportValues(record),
+        });
+      });
+
+      const mergedRow = sheet.addRow({
+        group: groupIndex + 1,
+        row: 'Merged',
+        ...this.reportValues(group.merged),
+      });
+      mergedRow.font = { bold: true };
+    });
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Normalized value of each key; empty when the row lacks the fields
+   */
+  private matchKeys(record: ClientRecord): Record<DuplicateMatchKey, string> {
+    const contact = this.contactNormalization.normalize(
+      record,
+      this.contactNormalization.createStats(),
+    );
+    const name = this.compact(contact.name);
+    const street = this.compact(contact.address);
+
+    return {
+      customerId: this.compact(record.customerId),
+      email: contact.email,
+      nameAddress:
+        name && street ? `${name}|${street}|${contact.zip.slice(0, 5)}` : '',
+    };
+  }
+
+  /**
+   * Rows that identify different customers outright
+   */
+  private conflicts(first: ClientRecord, record: ClientRecord): boolean {
+    const differ = (a: unknown, b: unknown) => {
+      const left = this.compact(a);
+      const right = this.compact(b);
+      return left !== '' && right !== '' && left !== right;
+    };
+
+    return (
+      differ(first.customerId, record.customerId) ||
+      differ(first.market, record.market)
+    );
+  }
+
+  private merge(
+    rows: DuplicateGroupRow[],
+    rules: DuplicateMergeRules,
+  ): ClientRecord {
+    const records = rows.map((row) => row.record);
+    const merged: ClientRecord = {};
+
+    records.forEach((record) => {
+      Object.entries(record).forEach(([field, value]) => {
+        if (this.isEmpty(merged[field]) && !this.isEmpty(value)) {
+          merged[field] = value;
+        }
+      });
+    });
+
+    merged.totalSales = this.combine(
+      records.map((record) => record.totalSales),
+      rules.totalSales,
+    );
+    merged.totalVisits = this.combine(
+      records.map((record) => record.totalVisits),
+      rules.totalVisits,
+    );
+    merged.signupDate = this.earliest(records.map((r) => r.signupDate));
+    merged.visit1Date = this.earliest(records.map((r) => r.visit1Date));
+
+    const visitDates = records.flatMap((record) => record.visitDates ?? []);
+    if (visitDates.length > 0) {
+      merged.visitDates = [
+        ...new Map(visitDates.map((date) => [date.getTime(), date])).values(),
+      ].sort((a, b) => a.getTime() - b.getTime());
+    }
+
+    // Drop fields none of the rows had
+    Object.keys(merged).forEach((field) => {
+      if (merged[field] === undefined) delete merged[field];
+    });
+
+    return merged;
+  }
+
+  private combine(
+    values: Array<number | undefined>,
+    strategy: DuplicateMergeStrategy,
+  ): number | undefined {
+    const numbers = values.filter(
+      (value): value is number => typeof value === 'number',
+    );
+    if (numbers.length === 0) return undefined;
+
+    switch (strategy) {
+      case 'sum':
+        return numbers.reduce((total, value) => total + value, 0);
+      case 'max':
+        return Math.max(...numbers);
+      case 'first':
+        return numbers[0];
+    }
+  }
+
+  private earliest(dates: Array<Date | undefined>): Date | undefined {
+    return dates
+      .filter((date): date is Date => date instanceof Date)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  private reportValues(record: ClientRecord) {
+    const contact = this.contactNormalization.normalize(
+      record,
+      this.contactNormalization.createStats(),
+    );
+
+    return {
+      customerId: record.customerId ?? '',
+      name: contact.name,
+      email: contact.email || record.email || '',
+      address: [contact.address, contact.city, contact.state, contact.zip]
+        .filter(Boolean)
+        .join(', '),
+      market: record.market ?? '',
+      totalSales: record.totalSales ?? '',
+      totalVisits: record.totalVisits ?? '',
+    };
+  }
+
+  /**
+   * Lowercase alphanumerics, for comparing identifiers and names
+   */
+  private compact(value: unknown): string {
+    if (typeof value !== 'string' && typeof value !== 'number') return '';
+    return String(value)
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Campaign } from '../../campaigns/entities/campaign.entity';
+
+/**
+ * Where an opaque DCM_ID was issued: campaign, market and the record's
+ * sequence (row) in the campaign's DCM_ID range
+ */
+@Entity('dcm_id_registry')
+@Index('IDX_dcm_id_registry_campaignId_market', ['campaignId', 'market'])
+export class DcmIdRegistration {
+  @PrimaryColumn({ type: 'varchar', length: 20 })
+  dcmId: string;
+
+  @Column({ type: 'uuid' })
+  campaignId: string;
+
+  @ManyToOne(() => Campaign, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign;
+
+  @Column({ type: 'varchar', length: 100 })
+  market: string;
+
+  @Column({ type: 'int' })
+  sequence: number;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
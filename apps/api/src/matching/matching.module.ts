@@ -1,22 +1,59 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { StorageModule } from '../storage/storage.module';
+import { EncryptionModule } from '../encryption/encryption.module';
 import { MatchingService } from './matching.service';
 import { SanitizationService } from './sanitization.service';
 import { DcmIdService } from './dcm-id.service';
+import { DcmIdRegistryService } from './dcm-id-registry.service';
+import { DcmIdRegistration } from './entities/dcm-id-registration.entity';
+import { ContactNormalizationService } from './contact-normalization.service';
+import { DeduplicationService } from './deduplication.service';
+import { PiiPolicyService } from './pii-policy.service';
 
 /**
  * Matching Module
  *
  * Provides services for the vendor matching workflow:
  * - Data sanitization (remove PII)
- * - DCM_ID generation and tracking
+ * - Contact normalization (email, E.164 phone, USPS address)
+ * - Merging duplicate customer rows (with a downloadable report)
+ * - Opaque DCM_ID generation, with a registry of where each was issued
  * - Vendor Excel creation
+ * - Data-sharing policy checks of every vendor file (signed reports)
  * - Response processing
+ * - Persisting vendor match flags on MatchRecord
+ * - Storing and retrieving sanitized vendor files
+ * - Email lookups of stored records (blind index, emails are encrypted)
  *
  * CRITICAL for privacy: Ensures complete separation between
  * client business data and vendor contact information.
+ *
+ * Environment Variables Required:
+ * - PII_POLICY_SIGNING_SECRET: Key for signing policy check reports
  */
 @Module({
-  providers: [MatchingService, SanitizationService, DcmIdService],
-  exports: [MatchingService, SanitizationService, DcmIdService],
+  imports: [
+    TypeOrmModule.forFeature([Campaign, MatchRecord, DcmIdRegistration]),
+    StorageModule,
+    EncryptionModule,
+  ],
+  providers: [
+    MatchingService,
+    SanitizationService,
+    DcmIdService,
+    DcmIdRegistryService,
+    ContactNormalizationService,
+    DeduplicationService,
+    PiiPolicyService,
+  ],
+  exports: [
+    MatchingService,
+    SanitizationService,
+    DcmIdService,
+    DcmIdRegistryService,
+  ],
 })
 export class MatchingModule {}
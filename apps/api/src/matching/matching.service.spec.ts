@@ -0,0 +1,692 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { MatchingService } from './matching.service';
+import { SanitizationService } from './sanitization.service';
+import { DcmIdService } from './dcm-id.service';
+import { DcmIdRegistryService } from './dcm-id-registry.service';
+import { DcmIdRegistration } from './entities/dcm-id-registration.entity';
+import { DeduplicationService } from './deduplication.service';
+import { ContactNormalizationService } from './contact-normalization.service';
+import { PiiPolicyService } from './pii-policy.service';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { StorageService } from '../storage/storage.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { EncryptionService } from '../encryption/encryption.service';
+
+const key = (fill: number) => Buffer.alloc(32, fill).toString('base64');
+
+const testConfig: Record<string, string> = {
+  ENCRYPTION_KEYS: `2026-01:${key(1)}`,
+  ENCRYPTION_BLIND_INDEX_KEY: key(9),
+};
+
+describe('MatchingService', () => {
+  let service: MatchingService;
+  let dcmIdService: DcmIdService;
+  let encryptionService: EncryptionService;
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockRecordRepository = {
+    create: jest.fn((data: Partial<MatchRecord>) =>
+      Object.assign(new MatchRecord(), data),
+    ),
+    find: jest.fn(),
+    update: jest.fn(),
+    save: jest.fn(),
+    delete: jest.fn().mockResolvedValue({ affected: 0 }),
+  };
+
+  const mockRegistrationRepository = {
+    insert: jest.fn(),
+    find: jest.fn(),
+    delete: jest.fn().mockResolvedValue({ affected: 0 }),
+  };
+
+  const mockManager = {
+    getRepository: jest.fn((entity) =>
+      entity === Campaign
+        ? mockCampaignRepository
+        : entity === DcmIdRegistration
+          ? mockRegistrationRepository
+          : mockRecordRepository,
+    ),
+  };
+
+  const mockStorageService = {
+    uploadSanitizedData: jest.fn(),
+    uploadDuplicateReport: jest.fn(),
+    uploadPolicyReport: jest.fn(),
+    downloadFile: jest.fn(),
+  };
+
+  const mockCampaignFilesService = {
+    findLatest: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work: (manager: any) => Promise<any>) =>
+      work(mockManager),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MatchingService,
+        SanitizationService,
+        DcmIdService,
+        DcmIdRegistryService,
+        ContactNormalizationService,
+        DeduplicationService,
+        PiiPolicyService,
+        EncryptionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((name: string) => testConfig[name]),
+            getOrThrow: jest.fn(() => 'signing-secret'),
+          },
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: getRepositoryToken(MatchRecord),
+          useValue: mockRecordRepository,
+        },
+        {
+          provide: getRepositoryToken(DcmIdRegistration),
+          useValue: mockRegistrationRepository,
+        },
+        {
+          provide: StorageService,
+          useValue: mockStorageService,
+        },
+        {
+          provide: CampaignFilesService,
+          useValue: mockCampaignFilesService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MatchingService>(MatchingService);
+    dcmIdService = module.get<DcmIdService>(DcmIdService);
+    encryptionService = module.get<EncryptionService>(EncryptionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applyVendorMatches', () => {
+    const records = [
+      { id: 'r1', dcmId: 'DCM-1' },
+      { id: 'r2', dcmId: 'DCM-2' },
+      { id: 'r3', dcmId: 'DCM-3' },
+      { id: 'r4', dcmId: 'DCM-4' },
+    ];
+
+    beforeEach(() => {
+      mockCampaignRepository.findOne.mockResolvedValue({
+        id: 'campaign-1',
+        metrics: { revenue: 100 },
+      });
+      mockCampaignRepository.save.mockImplementation((c) => Promise.resolve(c));
+      mockRecordRepository.find.mockResolvedValue(records);
+    });
+
+    it('should update matched flags by DCM_ID inside a transaction', async () => {
+      const result = await service.applyVendorMatches('campaign-1', [
+        { dcmId: 'DCM-1', matched: true },
+        { dcmId: 'DCM-2', matched: false },
+        { dcmId: 'DCM-3', matched: true },
+        { dcmId: 'DCM-4', matched: false },
+      ]);
+
+      expect(mockDataSource.transaction).toHaveBeenCalled();
+      expect(mockManager.getRepository).toHaveBeenCalledWith(MatchRecord);
+      expect(mockRecordRepository.update).toHaveBeenCalledWith(
+        { id: expect.objectContaining({ _value: ['r1', 'r3'] }) },
+        { matched: true },
+      );
+      expect(mockRecordRepository.update).toHaveBeenCalledWith(
+        { id: expect.objectContaining({ _value: ['r2', 'r4'] }) },
+        { matched: false },
+      );
+      expect(result.matched).toBe(2);
+      expect(result.notMatched).toBe(2);
+      expect(result.matchRate).toBe(0.5);
+    });
+
+    it('should report unknown, duplicate and missing DCM_IDs', async () => {
+      const result = await service.applyVendorMatches('campaign-1', [
+        { dcmId: 'DCM-1', matched: true },
+        { dcmId: 'DCM-1', matched: false },
+        { dcmId: 'DCM-2', matched: true },
+        { dcmId: 'OTHER-99', matched: true },
+      ]);
+
+      expect(result.unknownDcmIds).toEqual(['OTHER-99']);
+      expect(result.duplicateDcmIds).toEqual(['DCM-1']);
+      expect(result.missingDcmIds).toEqual(['DCM-3', 'DCM-4']);
+      expect(result.applied).toBe(2);
+      expect(result.matched).toBe(2);
+      expect(result.notMatched).toBe(2);
+    });
+
+    it('should accept reformatted opaque DCM_IDs and report typos', async () => {
+      const [dcmId1, dcmId2] = dcmIdService.generateBatch(2);
+      mockRecordRepository.find.mockResolvedValue([
+        { id: 'r1', dcmId: dcmId1 },
+        { id: 'r2', dcmId: dcmId2 },
+      ]);
+      const last = dcmId2.slice(-1);
+      const mistyped = dcmId2.slice(0, -1) + (last === 'Z' ? 'Y' : 'Z');
+
+      const result = await service.applyVendorMatches('campaign-1', [
+        { dcmId: dcmId1.replace(/-/g, '').toLowerCase(), matched: true },
+        { dcmId: mistyped, matched: true },
+      ]);
+
+      expect(result.applied).toBe(1);
+      expect(result.matched).toBe(1);
+      expect(result.mistypedDcmIds).toEqual([mistyped]);
+      expect(result.unknownDcmIds).toEqual([]);
+      expect(result.missingDcmIds).toEqual([dcmId2]);
+    });
+
+    it('should write totals into campaign metrics', async () => {
+      await service.applyVendorMatches('campaign-1', [
+        { dcmId: 'DCM-1', matched: true },
+        { dcmId: 'DCM-2', matched: true },
+        { dcmId: 'DCM-3', matched: true },
+      ]);
+
+      expect(mockCampaignRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metrics: {
+            revenue: 100,
+            totalRecords: 4,
+            matchedRecords: 3,
+            matchRate: 0.75,
+          },
+        }),
+      );
+    });
+
+    it('should only settle the markets covered by the vendor file', async () => {
+      mockRecordRepository.find.mockResolvedValue([
+        { id: 'r1', dcmId: 'DCM-1', market: 'Houston', matched: true },
+        { id: 'r2', dcmId: 'DCM-2', market: 'Houston', matched: false },
+        { id: 'r3', dcmId: 'DCM-3', market: 'Dallas', matched: false },
+        { id: 'r4', dcmId: 'DCM-4', market: 'Dallas', matched: false },
+      ]);
+
+      const result = await service.applyVendorMatches('campaign-1', [
+        { dcmId: 'DCM-3', matched: true },
+      ]);
+
+      expect(result.missingDcmIds).toEqual(['DCM-4']);
+      expect(result.byMarket).toEqual([
+        { market: 'Dallas', totalRecords: 2, matched: 1, matchRate: 0.5 },
+      ]);
+      expect(mockRecordRepository.update).toHaveBeenCalledTimes(2);
+      expect(mockRecordRepository.update).toHaveBeenCalledWith(
+        { id: expect.objectContaining({ _value: ['r4'] }) },
+        { matched: false },
+      );
+      // Houston's earlier match still counts towards the campaign total
+      expect(result.matchRate).toBe(0.5);
+      expect(mockCampaignRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metrics: expect.objectContaining({ matchedRecords: 2 }),
+        }),
+      );
+    });
+
+    it('should throw NotFoundException if campaign not found', async () => {
+      mockCampaignRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.applyVendorMatches('missing', [
+          { dcmId: 'DCM-1', matched: true },
+        ]),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('prepareMarketsForVendorMatching', () => {
+    const record = (customerId: string, market?: string) => ({
+      customerId,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: `${customerId.toLowerCase()}@example.com`,
+      signupDate: new Date('2024-09-01'),
+      market,
+    });
+
+    beforeEach(() => {
+      mockStorageService.uploadSanitizedData.mockImplementation(
+        (campaignId, buffer, filename) =>
+          Promise.resolve({ key: `campaigns/${campaignId}/${filename}` }),
+      );
+      mockStorageService.uploadPolicyReport.mockImplementation(
+        (campaignId, buffer, filename) =>
+          Promise.resolve({ key: `campaigns/${campaignId}/${filename}` }),
+      );
+    });
+
+    it('should give each market its own DCM_ID range and sanitized file', async () => {
+      const results = await service.prepareMarketsForVendorMatching({
+        campaignId: 'campaign-1',
+        markets: ['Houston', 'Dallas'],
+        clientRecords: [
+          record('C1', 'Houston'),
+          record('C2', 'dallas'),
+          record('C3', 'Houston'),
+        ],
+      });
+
+      expect(results.map((r) => r.market)).toEqual(['Houston', 'Dallas']);
+      expect(mockRegistrationRepository.insert).toHaveBeenNthCalledWith(1, [
+        expect.objectContaining({
+          dcmId: results[0].dcmIdRange.first,
+          market: 'Houston',
+          sequence: 1,
+        }),
+        expect.objectContaining({
+          dcmId: results[0].dcmIdRange.last,
+          market: 'Houston',
+          sequence: 2,
+        }),
+      ]);
+      expect(mockRegistrationRepository.insert).toHaveBeenNthCalledWith(2, [
+        expect.objectContaining({
+          dcmId: results[1].dcmIdRange.first,
+          market: 'Dallas',
+          sequence: 3,
+        }),
+      ]);
+      expect(results[1].sanitizedFileKey).toBe(
+        'campaigns/campaign-1/campaign-1-Dallas-sanitized.xlsx',
+      );
+      expect(mockStorageService.uploadSanitizedData).toHaveBeenCalledTimes(2);
+      expect(mockRecordRepository.save).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ market: 'Dallas', customerId: 'C2' })],
+        { chunk: 500 },
+      );
+    });
+
+    it('should store a signed policy check next to each vendor file', async () => {
+      const results = await service.prepareMarketsForVendorMatching({
+        campaignId: 'campaign-1',
+        markets: ['Houston'],
+        clientRecords: [record('C1', 'Houston')],
+      });
+
+      const [, buffer, filename, details] =
+        mockStorageService.uploadPolicyReport.mock.calls[0];
+      const report = JSON.parse(buffer.toString('utf-8'));
+      expect(filename).toBe('campaign-1-Houston-policy-check.json');
+      expect(details).toEqual({ market: 'Houston', recordCount: 1 });
+      expect(report.vendorFile.storageKey).toBe(results[0].sanitizedFileKey);
+      expect(report.violations).toEqual([]);
+      expect(results[0].policyReportKey).toBe(
+        'campaigns/campaign-1/campaign-1-Houston-policy-check.json',
+      );
+    });
+
+    it('should not store a vendor file that leaks a customer ID', async () => {
+      await expect(
+        service.prepareMarketsForVendorMatching({
+          campaignId: 'campaign-1',
+          markets: ['Houston'],
+          clientRecords: [
+            {
+              ...record('CUST123456', 'Houston'),
+              email: 'cust123456@example.com',
+            },
+          ],
+        }),
+      ).rejects.toThrow('data-sharing policy');
+      expect(mockStorageService.uploadSanitizedData).not.toHaveBeenCalled();
+      expect(mockStorageService.uploadPolicyReport).not.toHaveBeenCalled();
+    });
+
+    it('should assign records without a market to a single-market campaign', async () => {
+      const results = await service.prepareMarketsForVendorMatching({
+        campaignId: 'campaign-1',
+        markets: ['Houston'],
+        clientRecords: [record('C1'), record('C2', 'Houston')],
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].statistics.totalRecords).toBe(2);
+    });
+
+    it('should merge duplicate customers and store a duplicate report first', async () => {
+      const results = await service.prepareMarketsForVendorMatching({
+        campaignId: 'campaign-1',
+        campaignName: 'Fall Drop',
+        markets: ['Houston', 'Dallas'],
+        clientRecords: [
+          { ...record('C1', 'Houston'), totalSales: 40 },
+          record('C2', 'Dallas'),
+          { ...record('C1', 'Houston'), totalSales: 60 },
+        ],
+        mergeRules: { totalSales: 'sum', totalVisits: 'max' },
+      });
+
+      expect(results.map((r) => r.statistics.totalRecords)).toEqual([1, 1]);
+      expect(results.map((r) => r.statistics.duplicatesMerged)).toEqual([1, 0]);
+      expect(mockStorageService.uploadDuplicateReport).toHaveBeenCalledWith(
+        'campaign-1',
+        expect.any(Buffer),
+        'campaign-1-duplicates.xlsx',
+        { recordCount: 1 },
+      );
+      expect(
+        mockStorageService.uploadDuplicateReport.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockStorageService.uploadSanitizedData.mock.invocationCallOrder[0],
+      );
+      expect(mockRecordRepository.save).toHaveBeenCalledWith(
+        [expect.objectContaining({ customerId: 'C1', totalSales: 100 })],
+        { chunk: 500 },
+      );
+    });
+
+    it('should reject records for markets not on the campaign', async () => {
+      await expect(
+        service.prepareMarketsForVendorMatching({
+          campaignId: 'campaign-1',
+          markets: ['Houston', 'Dallas'],
+          clientRecords: [record('C1', 'Houston'), record('C2', 'Austin')],
+        }),
+      ).rejects.toThrow('Austin (1 records)');
+      expect(mockStorageService.uploadSanitizedData).not.toHaveBeenCalled();
+    });
+
+    it('should replace the records of an earlier run on restart', async () => {
+      const workflow = {
+        campaignId: 'campaign-1',
+        markets: ['Houston', 'Dallas'],
+        clientRecords: [record('C1', 'Houston'), record('C2', 'Dallas')],
+      };
+
+      await service.prepareMarketsForVendorMatching(workflow);
+      await service.prepareMarketsForVendorMatching(workflow);
+
+      for (const market of ['Houston', 'Dallas']) {
+        const where = { campaignId: 'campaign-1', market };
+        expect(
+          mockRecordRepository.delete.mock.calls.filter(
+            ([arg]) => arg.market === where.market,
+          ),
+        ).toEqual([[where], [where]]);
+        expect(mockRegistrationRepository.delete).toHaveBeenCalledWith(where);
+      }
+      // Every save follows the delete of its market
+      mockRecordRepository.save.mock.invocationCallOrder.forEach(
+        (order, call) => {
+          expect(
+            mockRecordRepository.delete.mock.invocationCallOrder[call],
+          ).toBeLessThan(order);
+        },
+      );
+    });
+  });
+
+  describe('saveDcmIdMapping', () => {
+    it('should store one MatchRecord per DCM_ID with the raw client row', async () => {
+      const mapping = new Map([
+        [
+          'DCM-1',
+          {
+            customerId: 'CUST001',
+            email: 'john@example.com',
+            signupDate: new Date('2024-09-01'),
+            totalVisits: 3,
+            totalSales: 150,
+            visit2Date: new Date('2024-09-10'),
+          },
+        ],
+      ]);
+
+      const stored = await service.saveDcmIdMapping(
+        'campaign-1',
+        'Houston',
+        mapping,
+      );
+
+      expect(stored).toBe(1);
+      expect(mockRecordRepository.save).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            dcmId: 'DCM-1',
+            campaignId: 'campaign-1',
+            market: 'Houston',
+            customerId: 'CUST001',
+            emailAddress: 'john@example.com',
+            emailBlindIndex:
+              encryptionService.emailBlindIndex('john@example.com'),
+            totalVisits: 3,
+            totalSales: 150,
+            matched: false,
+            rawData: expect.objectContaining({
+              visit2Date: new Date('2024-09-10'),
+            }),
+          }),
+        ],
+        { chunk: 500 },
+      );
+    });
+
+    it('should store the email blind index with each new record', async () => {
+      const mapping = new Map([
+        [
+          'DCM-1',
+          {
+            customerId: 'CUST001',
+            email: 'John@Example.com ',
+            signupDate: new Date('2024-09-01'),
+          },
+        ],
+        [
+          'DCM-2',
+          { customerId: 'CUST002', signupDate: new Date('2024-09-01') },
+        ],
+      ]);
+
+      await service.saveDcmIdMapping('campaign-1', 'Houston', mapping);
+
+      const [saved] = mockRecordRepository.save.mock.calls[0] as [
+        MatchRecord[],
+      ];
+      expect(saved[0]).toBeInstanceOf(MatchRecord);
+      expect(saved[0].emailBlindIndex).toMatch(/^[0-9a-f]{64}$/);
+      expect(saved[0].emailBlindIndex).toBe(
+        encryptionService.emailBlindIndex('john@example.com'),
+      );
+      expect(saved[1].emailBlindIndex).toBeNull();
+    });
+
+    it('should replace the market mapping of an earlier run in one transaction', async () => {
+      mockRecordRepository.delete.mockResolvedValueOnce({ affected: 2 });
+      const mapping = new Map([
+        [
+          'DCM-3',
+          { customerId: 'CUST001', signupDate: new Date('2024-09-01') },
+        ],
+      ]);
+
+      await service.saveDcmIdMapping('campaign-1', 'Houston', mapping, 5);
+
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockRecordRepository.delete).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+        market: 'Houston',
+      });
+      expect(mockRegistrationRepository.delete).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+        market: 'Houston',
+      });
+      expect(mockRegistrationRepository.insert).toHaveBeenCalledWith([
+        {
+          dcmId: 'DCM-3',
+          campaignId: 'campaign-1',
+          market: 'Houston',
+          sequence: 5,
+        },
+      ]);
+
+      const [deleteOrder] =
+        mockRecordRepository.delete.mock.invocationCallOrder;
+      const [saveOrder] = mockRecordRepository.save.mock.invocationCallOrder;
+      const [unregisterOrder] =
+        mockRegistrationRepository.delete.mock.invocationCallOrder;
+      const [registerOrder] =
+        mockRegistrationRepository.insert.mock.invocationCallOrder;
+      expect(deleteOrder).toBeLessThan(saveOrder);
+      expect(unregisterOrder).toBeLessThan(registerOrder);
+    });
+
+    it('should reject records without customerId or signupDate', async () => {
+      const mapping = new Map([['DCM-1', { email: 'john@example.com' }]]);
+
+      await expect(
+        service.saveDcmIdMapping('campaign-1', 'Houston', mapping),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRecordRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadDcmIdMapping', () => {
+    it('should rebuild the mapping from stored records', async () => {
+      mockRecordRepository.find.mockResolvedValue([
+        {
+          dcmId: 'DCM-1',
+          customerId: 'CUST001',
+          emailAddress: 'john@example.com',
+          signupDate: new Date('2024-09-01'),
+          totalVisits: 3,
+          visit1Date: null,
+          totalSales: '150.00',
+          market: 'Houston',
+          rawData: { name: 'John Doe' },
+        },
+      ]);
+
+      const mapping = await service.loadDcmIdMapping('campaign-1', 'Houston');
+
+      expect(mockRecordRepository.find).toHaveBeenCalledWith({
+        where: { campaignId: 'campaign-1', market: 'Houston' },
+      });
+      expect(mapping.get('DCM-1')).toEqual(
+        expect.objectContaining({
+          name: 'John Doe',
+          customerId: 'CUST001',
+          totalSales: 150,
+        }),
+      );
+    });
+  });
+
+  describe('findRecordsByEmail', () => {
+    it('should find records by the blind index stored on save', async () => {
+      await service.saveDcmIdMapping(
+        'campaign-1',
+        'Houston',
+        new Map([
+          [
+            'DCM-1',
+            {
+              customerId: 'CUST001',
+              email: 'john@example.com',
+              signupDate: new Date('2024-09-01'),
+            },
+          ],
+        ]),
+      );
+      const [[saved]] = mockRecordRepository.save.mock.calls[0] as [
+        MatchRecord[],
+      ];
+      mockRecordRepository.find.mockResolvedValue([saved]);
+
+      const records = await service.findRecordsByEmail(
+        ' John@Example.com',
+        'campaign-1',
+      );
+
+      expect(saved.emailBlindIndex).not.toBeNull();
+      expect(mockRecordRepository.find).toHaveBeenCalledWith({
+        where: {
+          emailBlindIndex: saved.emailBlindIndex,
+          campaignId: 'campaign-1',
+        },
+      });
+      expect(records).toEqual([saved]);
+    });
+
+    it('should not search for blank emails', async () => {
+      expect(await service.findRecordsByEmail(' ')).toEqual([]);
+      expect(mockRecordRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processVendorResponse', () => {
+    it('should fail when no mapping is stored for the campaign market', async () => {
+      mockRecordRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.processVendorResponse(Buffer.from(''), 'campaign-1', 'Houston'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getSanitizedExcel', () => {
+    it('should download the latest registered sanitized file', async () => {
+      const buffer = Buffer.from('xlsx');
+      mockCampaignFilesService.findLatest.mockResolvedValue({
+        storageKey: 'campaigns/campaign-1/sanitized/123-file.xlsx',
+        originalFilename: 'file.xlsx',
+        recordCount: 42,
+      });
+      mockStorageService.downloadFile.mockResolvedValue(buffer);
+
+      const result = await service.getSanitizedExcel('campaign-1');
+
+      expect(mockCampaignFilesService.findLatest).toHaveBeenCalledWith(
+        'campaign-1',
+        'sanitized',
+        undefined,
+      );
+      expect(mockStorageService.downloadFile).toHaveBeenCalledWith(
+        'campaigns/campaign-1/sanitized/123-file.xlsx',
+      );
+      expect(result).toEqual({
+        buffer,
+        filename: 'file.xlsx',
+        recordCount: 42,
+      });
+    });
+
+    it('should return null when no sanitized file exists', async () => {
+      mockCampaignFilesService.findLatest.mockResolvedValue(null);
+
+      const result = await service.getSanitizedExcel('campaign-1');
+
+      expect(result).toBeNull();
+      expect(mockStorageService.downloadFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,33 +1,100 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import type {
+  ContactNormalizationStats,
+  DuplicateMergeRules,
+  VendorFileProfile,
+} from '@matchback/types';
+import { groupByMarket } from '@matchback/utils';
 import { SanitizationService, ClientRecord } from './sanitization.service';
 import { DcmIdService } from './dcm-id.service';
+import { DcmIdRegistryService } from './dcm-id-registry.service';
+import { DeduplicationService } from './deduplication.service';
+import { PiiPolicyService } from './pii-policy.service';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { safeDateConversion } from '../file-processing/utils/excel-dates';
+import { StorageService } from '../storage/storage.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { DEFAULT_VENDOR_FILE_PROFILE } from '../vendors/vendor-file-profile';
 
 export interface MatchingWorkflow {
   campaignId: string;
   market: string;
   clientRecords: ClientRecord[];
+  vendorProfile?: VendorFileProfile; // Default file profile when omitted
+  firstSequence?: number; // First DCM_ID sequence (default 1)
 }
 
+export interface MultiMarketWorkflow {
+  campaignId: string;
+  markets: string[]; // Campaign markets - every record must belong to one
+  clientRecords: ClientRecord[];
+  vendorProfile?: VendorFileProfile;
+  campaignName?: string; // Shown on the duplicate report
+  mergeRules?: DuplicateMergeRules | null; // Default merge rules when omitted
+}
+
+const VENDOR_FILE_CONTENT_TYPES = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+};
+
 export interface MatchingResult {
+  market: string;
+  dcmIdRange: { first: string; last: string };
   sanitizedExcel: Buffer;
+  sanitizedFileKey: string;
+  policyReportKey: string; // Signed data-sharing policy check of the file
   dcmIdMapping: Map<string, ClientRecord>;
   statistics: {
     totalRecords: number;
     missingEmails: number;
     missingEmailPercentage: number;
     dcmIdsGenerated: number;
+    normalization: ContactNormalizationStats;
+    duplicatesMerged?: number; // Rows merged into another row of the customer
   };
 }
 
+export interface ApplyVendorMatchesResult {
+  campaignId: string;
+  totalReceived: number;
+  applied: number;
+  matched: number;
+  notMatched: number;
+  matchRate: number; // fraction of campaign records matched (0-1), all markets
+  byMarket: VendorMarketMatchSummary[]; // Markets covered by this vendor file
+  unknownDcmIds: string[]; // DCM_IDs in vendor file that don't belong to the campaign
+  mistypedDcmIds: string[]; // DCM_IDs that fail their check character (typos)
+  duplicateDcmIds: string[]; // DCM_IDs that appear more than once in vendor file
+  missingDcmIds: string[]; // Campaign DCM_IDs the vendor left out
+}
+
+export interface VendorMarketMatchSummary {
+  market: string;
+  totalRecords: number;
+  matched: number;
+  matchRate: number;
+}
+
 /**
  * Matching Service - Coordinates the matchback workflow
  *
  * This service orchestrates the entire matching process:
  * 1. Sanitize client data (remove PII)
- * 2. Generate DCM_IDs for tracking
- * 3. Create vendor Excel
- * 4. Process vendor response
- * 5. Merge results with original data
+ * 2. Generate opaque DCM_IDs for tracking (registered server-side)
+ * 3. Persist DCM_ID mapping (MatchRecord rows keyed by DCM_ID)
+ * 4. Create vendor Excel (checked against the data-sharing policy)
+ * 5. Process vendor response
+ * 6. Merge results with original data
  */
 @Injectable()
 export class MatchingService {
@@ -36,8 +103,79 @@ export class MatchingService {
   constructor(
     private readonly sanitizationService: SanitizationService,
     private readonly dcmIdService: DcmIdService,
+    private readonly dcmIdRegistry: DcmIdRegistryService,
+    private readonly deduplicationService: DeduplicationService,
+    private readonly piiPolicyService: PiiPolicyService,
+    private readonly dataSource: DataSource,
+    @InjectRepository(MatchRecord)
+    private readonly matchRecordRepository: Repository<MatchRecord>,
+    private readonly storageService: StorageService,
+    private readonly campaignFilesService: CampaignFilesService,
+    private readonly encryptionService: EncryptionService,
   ) {}
 
+  /**
+   * Prepare a (possibly multi-market) client upload for vendor matching
+   *
+   * Rows of the same customer are merged first (see DeduplicationService)
+   * and, when there were any, a duplicate report is stored with the
+   * campaign files before any vendor file is generated.
+   *
+   * Records are then split with groupByMarket and each market is prepared
+   * on its own: its own DCM_ID range (sequences continue from the previous
+   * market), sanitized file and DCM_ID mapping. Records without a market
+   * are assigned to the campaign's market when it only has one.
+   */
+  async prepareMarketsForVendorMatching(
+    workflow: MultiMarketWorkflow,
+  ): Promise<MatchingResult[]> {
+    const { campaignId, markets, vendorProfile } = workflow;
+    const rowsByMarket = this.splitByMarket(workflow.clientRecords, markets);
+
+    const deduplication = this.deduplicationService.deduplicate(
+      workflow.clientRecords,
+      workflow.mergeRules ?? undefined,
+    );
+    if (deduplication.duplicateGroups.length > 0) {
+      await this.storageService.uploadDuplicateReport(
+        campaignId,
+        await this.deduplicationService.createDuplicateReport(
+          deduplication,
+          workflow.campaignName ?? campaignId,
+        ),
+        `${campaignId}-duplicates.xlsx`,
+        { recordCount: deduplication.statistics.duplicateRows },
+      );
+    }
+
+    // Rows of different markets are never merged
+    const clientRecords = deduplication.records;
+    const recordsByMarket = this.splitByMarket(clientRecords, markets);
+
+    this.logger.log(
+      `Splitting ${clientRecords.length} records for campaign ${campaignId} into ${recordsByMarket.size} markets`,
+    );
+
+    const results: MatchingResult[] = [];
+    let firstSequence = 1;
+
+    for (const [market, records] of recordsByMarket) {
+      const result = await this.prepareForVendorMatching({
+        campaignId,
+        market,
+        clientRecords: records,
+        vendorProfile,
+        firstSequence,
+      });
+      result.statistics.duplicatesMerged =
+        rowsByMarket.get(market)!.length - records.length;
+      results.push(result);
+      firstSequence += records.length;
+    }
+
+    return results;
+  }
+
   /**
    * Prepare client data for vendor matching
    * Step 1 of matchback process
@@ -45,7 +183,13 @@ export class MatchingService {
   async prepareForVendorMatching(
     workflow: MatchingWorkflow,
   ): Promise<MatchingResult> {
-    const { campaignId, market, clientRecords } = workflow;
+    const {
+      campaignId,
+      market,
+      clientRecords,
+      vendorProfile = DEFAULT_VENDOR_FILE_PROFILE,
+      firstSequence = 1,
+    } = workflow;
 
     this.logger.log(
       `Starting vendor matching preparation for campaign ${campaignId}, market ${market}`,
@@ -60,11 +204,50 @@ export class MatchingService {
       campaignId,
       market,
     );
+    const { sanitizedRecords } = sanitizationResult;
+
+    // Persist DCM_ID mapping so the vendor reply can be joined back later
+    await this.saveDcmIdMapping(
+      campaignId,
+      market,
+      sanitizationResult.dcmIdMapping,
+      firstSequence,
+    );
 
-    // Create vendor Excel
-    const sanitizedExcel = await this.sanitizationService.createVendorExcel(
+    // Create vendor file in the vendor's format
+    const format = vendorProfile.acceptedFormats[0];
+    const vendorFile = await this.sanitizationService.createVendorExcel(
       sanitizationResult.sanitizedRecords,
       `${campaignId}-${market}`,
+      vendorProfile,
+      sanitizationResult.dcmIdMapping,
+    );
+    const sanitizedExcel = vendorFile.buffer;
+
+    // Store sanitized file so it can be sent (or re-sent) to the vendor later
+    const stored = await this.storageService.uploadSanitizedData(
+      campaignId,
+      sanitizedExcel,
+      `${campaignId}-${market}-sanitized.${format}`,
+      {
+        market,
+        recordCount: sanitizationResult.sanitizedRecords.length,
+      },
+      VENDOR_FILE_CONTENT_TYPES[format],
+    );
+
+    // Signed record of the policy check, stored next to the file
+    const report = this.piiPolicyService.createReport(vendorFile.policyCheck, {
+      campaignId,
+      market,
+      storageKey: stored.key,
+      buffer: sanitizedExcel,
+    });
+    const storedReport = await this.storageService.uploadPolicyReport(
+      campaignId,
+      Buffer.from(JSON.stringify(report, null, 2), 'utf-8'),
+      `${campaignId}-${market}-policy-check.json`,
+      { market, recordCount: report.vendorFile.rows },
     );
 
     this.logger.log(
@@ -72,7 +255,14 @@ export class MatchingService {
     );
 
     return {
+      market,
+      dcmIdRange: {
+        first: sanitizedRecords[0].dcmId,
+        last: sanitizedRecords[sanitizedRecords.length - 1].dcmId,
+      },
       sanitizedExcel,
+      sanitizedFileKey: stored.key,
+      policyReportKey: storedReport.key,
       dcmIdMapping: sanitizationResult.dcmIdMapping,
       statistics: {
         ...sanitizationResult.statistics,
@@ -84,16 +274,32 @@ export class MatchingService {
   /**
    * Process vendor response and merge with original data
    * Step 2 of matchback process
+   *
+   * The DCM_ID mapping is loaded from the database by campaign and market,
+   * so the vendor reply can arrive days later or on a different worker.
    */
   async processVendorResponse(
     vendorExcel: Buffer,
-    dcmIdMapping: Map<string, ClientRecord>,
+    campaignId: string,
+    market: string,
+    vendorProfile?: VendorFileProfile,
   ): Promise<ClientRecord[]> {
-    this.logger.log('Processing vendor response...');
+    this.logger.log(
+      `Processing vendor response for campaign ${campaignId}, market ${market}...`,
+    );
+
+    const dcmIdMapping = await this.loadDcmIdMapping(campaignId, market);
+
+    if (dcmIdMapping.size === 0) {
+      throw new BadRequestException(
+        `No DCM_ID mapping found for campaign ${campaignId}, market ${market}`,
+      );
+    }
 
     const matchedRecords = await this.sanitizationService.processVendorResponse(
       vendorExcel,
       dcmIdMapping,
+      vendorProfile,
     );
 
     this.logger.log(`Vendor response processed: ${matchedRecords.length} records`);
@@ -101,6 +307,133 @@ export class MatchingService {
     return matchedRecords;
   }
 
+  /**
+   * Persist DCM_ID mapping as MatchRecord rows and register its DCM_IDs
+   * Each row keeps the business fields used for analysis plus the raw client row
+   *
+   * Replaces the market's records and DCM_IDs from an earlier run (pipeline
+   * restart or resume) in the same transaction, so a market never ends up
+   * with two record sets.
+   */
+  async saveDcmIdMapping(
+    campaignId: string,
+    market: string,
+    dcmIdMapping: Map<string, ClientRecord>,
+    firstSequence: number = 1,
+  ): Promise<number> {
+    const errors: string[] = [];
+    const entities: MatchRecord[] = [];
+
+    dcmIdMapping.forEach((record, dcmId) => {
+      const signupDate = safeDateConversion(record.signupDate);
+
+      if (!record.customerId) {
+        errors.push(`${dcmId}: missing customerId`);
+        return;
+      }
+
+      if (!signupDate) {
+        errors.push(`${dcmId}: missing or invalid signupDate`);
+        return;
+      }
+
+      // create() so the entity listeners run on save; the blind index is
+      // also set here so it never depends on them
+      const emailAddress = record.email || null;
+      entities.push(
+        this.matchRecordRepository.create({
+          dcmId,
+          campaignId,
+          market,
+          customerId: String(record.customerId),
+          emailAddress,
+          emailBlindIndex: this.encryptionService.emailBlindIndex(emailAddress),
+          signupDate,
+          totalVisits: Number(record.totalVisits) || 0,
+          visit1Date: safeDateConversion(record.visit1Date),
+          totalSales:
+            record.totalSales !== undefined && record.totalSales !== null
+              ? Number(record.totalSales)
+              : null,
+          matched: false,
+          rawData: { ...record },
+        }),
+      );
+    });
+
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Cannot store DCM_ID mapping: ${errors.length} invalid records. ` +
+          errors.slice(0, 5).join('; '),
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const records = manager.getRepository(MatchRecord);
+
+      const { affected: replaced } = await records.delete({
+        campaignId,
+        market,
+      });
+      await this.dcmIdRegistry.unregister(campaignId, market, manager);
+      if (replaced) {
+        this.logger.log(
+          `Replacing ${replaced} DCM_ID mappings for campaign ${campaignId}, market ${market}`,
+        );
+      }
+
+      await records.save(entities, { chunk: 500 });
+      await this.dcmIdRegistry.register(
+        campaignId,
+        market,
+        Array.from(dcmIdMapping.keys()),
+        firstSequence,
+        manager,
+      );
+    });
+
+    this.logger.log(
+      `Stored ${entities.length} DCM_ID mappings for campaign ${campaignId}, market ${market}`,
+    );
+
+    return entities.length;
+  }
+
+  /**
+   * Load DCM_ID mapping for a campaign and market
+   * Rebuilds the dcmId -> original client record map from stored MatchRecords
+   */
+  async loadDcmIdMapping(
+    campaignId: string,
+    market: string,
+  ): Promise<Map<string, ClientRecord>> {
+    const records = await this.matchRecordRepository.find({
+      where: { campaignId, market },
+    });
+
+    const dcmIdMapping = new Map<string, ClientRecord>();
+
+    records.forEach((record) => {
+      dcmIdMapping.set(record.dcmId, {
+        ...(record.rawData || {}),
+        customerId: record.customerId ?? undefined,
+        email: record.emailAddress || undefined,
+        signupDate: record.signupDate,
+        totalVisits: record.totalVisits,
+        visit1Date: record.visit1Date || undefined,
+        totalSales:
+          record.totalSales !== null ? Number(record.totalSales) : undefined,
+        market: record.market,
+      });
+    });
+
+    this.logger.log(
+      `Loaded ${dcmIdMapping.size} DCM_ID mappings for campaign ${campaignId}, market ${market}`,
+    );
+
+    return dcmIdMapping;
+  }
+
   /**
    * Validate workflow inputs
    */
@@ -117,17 +450,21 @@ export class MatchingService {
       throw new BadRequestException('Client records are required');
     }
 
-    // Check for market mixing
-    const markets = new Set(
+    // Check for market mixing - multi-market uploads are split first
+    // (see prepareMarketsForVendorMatching)
+    const otherMarkets = new Set(
       workflow.clientRecords
         .map((r) => r.market)
-        .filter((m) => m !== undefined),
+        .filter(
+          (m): m is string =>
+            m !== undefined && !this.isSameMarket(m, workflow.market),
+        ),
     );
 
-    if (markets.size > 1) {
+    if (otherMarkets.size > 0) {
       throw new BadRequestException(
-        `Market mixing detected: ${Array.from(markets).join(', ')}. ` +
-          'All records must be from the same market.',
+        `Market mixing detected: ${Array.from(otherMarkets).join(', ')} records ` +
+          `in the ${workflow.market} workflow. All records must be from the same market.`,
       );
     }
 
@@ -137,18 +474,76 @@ export class MatchingService {
   }
 
   /**
-   * Get DCM_ID for a record
+   * Group records under the campaign market they belong to
+   * Market names are compared case-insensitively; the campaign's spelling wins
    */
-  getDcmIdForRecord(
-    campaignId: string,
-    market: string,
-    sequence: number,
-  ): string {
-    return this.dcmIdService.generateDcmId(campaignId, market, sequence);
+  private splitByMarket(
+    records: ClientRecord[],
+    markets: string[],
+  ): Map<string, ClientRecord[]> {
+    const split = new Map<string, ClientRecord[]>();
+    const unexpected: string[] = [];
+
+    groupByMarket(records).forEach((group, recordMarket) => {
+      const hasMarket = group[0].market !== undefined && group[0].market !== '';
+      const market = hasMarket
+        ? markets.find((m) => this.isSameMarket(m, recordMarket))
+        : markets.length === 1
+          ? markets[0]
+          : undefined;
+
+      if (!market) {
+        unexpected.push(
+          `${hasMarket ? recordMarket : 'no market'} (${group.length} records)`,
+        );
+        return;
+      }
+
+      split.set(market, [
+        ...(split.get(market) ?? []),
+        ...group.map((record) => ({ ...record, market })),
+      ]);
+    });
+
+    if (unexpected.length > 0) {
+      throw new BadRequestException(
+        `Records do not belong to a campaign market: ${unexpected.join(', ')}. ` +
+          `Expected one of: ${markets.join(', ')}`,
+      );
+    }
+
+    return split;
+  }
+
+  private isSameMarket(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
   }
 
   /**
-   * Parse DCM_ID
+   * Find stored records by email address, in one campaign or all
+   * Emails are encrypted at rest, so this goes through the blind index
+   */
+  async findRecordsByEmail(
+    email: string,
+    campaignId?: string,
+  ): Promise<MatchRecord[]> {
+    const emailBlindIndex = this.encryptionService.emailBlindIndex(email);
+    if (!emailBlindIndex) return [];
+
+    return this.matchRecordRepository.find({
+      where: campaignId ? { emailBlindIndex, campaignId } : { emailBlindIndex },
+    });
+  }
+
+  /**
+   * Campaign, market and row of an opaque DCM_ID
+   */
+  resolveDcmId(dcmId: string) {
+    return this.dcmIdRegistry.resolve(dcmId);
+  }
+
+  /**
+   * Parse legacy DCM_ID
    */
   parseDcmId(dcmId: string) {
     return this.dcmIdService.parseDcmId(dcmId);
@@ -164,43 +559,236 @@ export class MatchingService {
   /**
    * Apply vendor matches to campaign data
    * Called from email webhook after parsing vendor response
+   *
+   * Updates MatchRecord.matched by DCM_ID and writes the resulting totals
+   * into Campaign.metrics. Runs in a single transaction so a partially
+   * applied vendor file never leaves the campaign in an inconsistent state.
+   *
+   * - Unknown DCM_IDs (not part of this campaign) are reported and skipped
+   * - Duplicate DCM_IDs are reported; the first occurrence wins
+   * - Records the vendor left out are reported and marked as not matched
+   *
+   * Each market is requested separately, so a vendor file only settles
+   * the markets its DCM_IDs belong to; records of other markets keep
+   * their current state and still count towards the campaign totals.
    */
   async applyVendorMatches(
     campaignId: string,
     matches: Array<{ dcmId: string; matched: boolean }>,
-  ): Promise<void> {
+  ): Promise<ApplyVendorMatchesResult> {
     this.logger.log(
       `Applying ${matches.length} vendor matches to campaign ${campaignId}`,
     );
 
-    // TODO: Implement database update to store vendor matches
-    // This would typically update the MatchRecord entity with vendor match flags
-    // For now, just log the operation
+    return this.dataSource.transaction(async (manager) => {
+      const campaignRepository = manager.getRepository(Campaign);
+      const recordRepository = manager.getRepository(MatchRecord);
 
-    const matchedCount = matches.filter((m) => m.matched).length;
-    const matchRate = (matchedCount / matches.length) * 100;
+      const campaign = await campaignRepository.findOne({
+        where: { id: campaignId },
+      });
 
-    this.logger.log(
-      `Applied vendor matches: ${matchedCount}/${matches.length} matched (${matchRate.toFixed(1)}%)`,
-    );
+      if (!campaign) {
+        throw new NotFoundException(
+          `Campaign with ID "${campaignId}" not found`,
+        );
+      }
+
+      const records = await recordRepository.find({
+        where: { campaignId },
+        select: ['id', 'dcmId', 'market', 'matched'],
+      });
+
+      const recordsByDcmId = new Map(records.map((r) => [r.dcmId, r]));
+
+      // Resolve vendor rows against campaign records
+      const seen = new Map<string, boolean>();
+      const unknownDcmIds: string[] = [];
+      const mistypedDcmIds: string[] = [];
+      const duplicateDcmIds = new Set<string>();
+
+      for (const match of matches) {
+        // Vendors may change case or drop the dashes of opaque IDs
+        const dcmId = this.dcmIdService.normalizeDcmId(match.dcmId);
+
+        if (seen.has(dcmId)) {
+          duplicateDcmIds.add(dcmId);
+          continue;
+        }
+
+        if (!recordsByDcmId.has(dcmId)) {
+          if (this.dcmIdService.isMistypedDcmId(dcmId)) {
+            mistypedDcmIds.push(match.dcmId);
+          } else {
+            unknownDcmIds.push(match.dcmId);
+          }
+          continue;
+        }
+
+        seen.set(dcmId, match.matched);
+      }
+
+      const respondedMarkets = new Set(
+        Array.from(seen.keys()).map(
+          (dcmId) => recordsByDcmId.get(dcmId)!.market,
+        ),
+      );
+      const respondedRecords = records.filter((r) =>
+        respondedMarkets.has(r.market),
+      );
+
+      const missingDcmIds = respondedRecords
+        .map((r) => r.dcmId)
+        .filter((dcmId) => !seen.has(dcmId));
+
+      const matchedIds: string[] = [];
+      const notMatchedIds: string[] = [];
+
+      seen.forEach((matched, dcmId) => {
+        const recordId = recordsByDcmId.get(dcmId)!.id;
+        (matched ? matchedIds : notMatchedIds).push(recordId);
+      });
+
+      // Records the vendor left out are treated as not matched
+      missingDcmIds.forEach((dcmId) => {
+        notMatchedIds.push(recordsByDcmId.get(dcmId)!.id);
+      });
+
+      if (matchedIds.length > 0) {
+        await recordRepository.update(
+          { id: In(matchedIds) },
+          { matched: true },
+        );
+      }
+
+      if (notMatchedIds.length > 0) {
+        await recordRepository.update(
+          { id: In(notMatchedIds) },
+          { matched: false },
+        );
+      }
+
+      // Write totals into campaign metrics (markets not in this file
+      // keep the matches applied from their own vendor file)
+      const matchedByRecordId = new Map(
+        records.map((r) => [
+          r.id,
+          !respondedMarkets.has(r.market) && r.matched,
+        ]),
+      );
+      matchedIds.forEach((id) => matchedByRecordId.set(id, true));
+      notMatchedIds.forEach((id) => matchedByRecordId.set(id, false));
+
+      const totalMatched = records.filter((r) =>
+        matchedByRecordId.get(r.id),
+      ).length;
+      const matchRate = records.length > 0 ? totalMatched / records.length : 0;
+
+      campaign.metrics = {
+        ...(campaign.metrics || {}),
+        totalRecords: records.length,
+        matchedRecords: totalMatched,
+        matchRate,
+      };
+
+      const byMarket = Array.from(respondedMarkets).map((market) => {
+        const marketRecords = respondedRecords.filter(
+          (r) => r.market === market,
+        );
+        const matched = marketRecords.filter((r) =>
+          matchedByRecordId.get(r.id),
+        ).length;
+
+        return {
+          market,
+          totalRecords: marketRecords.length,
+          matched,
+          matchRate: matched / marketRecords.length,
+        };
+      });
+
+      await campaignRepository.save(campaign);
+
+      if (unknownDcmIds.length > 0) {
+        this.logger.warn(
+          `Vendor file for campaign ${campaignId} contains ${unknownDcmIds.length} unknown DCM_IDs`,
+        );
+      }
+
+      if (mistypedDcmIds.length > 0) {
+        this.logger.warn(
+          `Vendor file for campaign ${campaignId} contains ${mistypedDcmIds.length} mistyped DCM_IDs`,
+        );
+      }
+
+      if (duplicateDcmIds.size > 0) {
+        this.logger.warn(
+          `Vendor file for campaign ${campaignId} contains ${duplicateDcmIds.size} duplicate DCM_IDs`,
+        );
+      }
+
+      if (missingDcmIds.length > 0) {
+        this.logger.warn(
+          `Vendor left out ${missingDcmIds.length} records for campaign ${campaignId}`,
+        );
+      }
+
+      this.logger.log(
+        `Applied vendor matches for ${byMarket.map((m) => m.market).join(', ') || 'no markets'}: ${totalMatched}/${records.length} campaign records matched (${(matchRate * 100).toFixed(1)}%)`,
+      );
+
+      return {
+        campaignId,
+        totalReceived: matches.length,
+        applied: seen.size,
+        matched: matchedIds.length,
+        notMatched: notMatchedIds.length,
+        matchRate,
+        byMarket,
+        unknownDcmIds,
+        mistypedDcmIds,
+        duplicateDcmIds: Array.from(duplicateDcmIds),
+        missingDcmIds,
+      };
+    });
   }
 
   /**
    * Get sanitized Excel for a campaign
    * Used by email service to send to vendor
+   *
+   * Resolves the latest sanitized file from the campaign file registry
+   * and downloads it from storage.
    */
-  async getSanitizedExcel(campaignId: string): Promise<{
+  async getSanitizedExcel(
+    campaignId: string,
+    market?: string,
+  ): Promise<{
     buffer: Buffer;
     filename: string;
     recordCount: number;
   } | null> {
     this.logger.log(`Retrieving sanitized Excel for campaign ${campaignId}`);
 
-    // TODO: Implement storage retrieval
-    // This would typically fetch from S3/R2 storage or database
-    // For now, return null to indicate not implemented
+    const file = await this.campaignFilesService.findLatest(
+      campaignId,
+      'sanitized',
+      market,
+    );
 
-    this.logger.warn(`getSanitizedExcel not yet implemented for campaign ${campaignId}`);
-    return null;
+    if (!file) {
+      this.logger.warn(
+        `No sanitized file registered for campaign ${campaignId}`,
+      );
+      return null;
+    }
+
+    const buffer = await this.storageService.downloadFile(file.storageKey);
+
+    return {
+      buffer,
+      filename: file.originalFilename,
+      recordCount: file.recordCount ?? 0,
+    };
   }
 }
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PiiPolicyService, VendorFileColumn } from './pii-policy.service';
+import type { SanitizedRecord } from './sanitization.service';
+import { DEFAULT_DATA_SHARING_POLICY } from '../vendors/vendor-file-profile';
+
+describe('PiiPolicyService', () => {
+  let service: PiiPolicyService;
+
+  const mockConfigService = {
+    getOrThrow: jest.fn(() => 'signing-secret'),
+  };
+
+  const columns: VendorFileColumn[] = [
+    { header: 'DCM_ID', key: 'dcmId' },
+    { header: 'Name', key: 'name' },
+    { header: 'Email', key: 'email' },
+    { header: 'Address', key: 'address' },
+    { header: 'Phone', key: 'phone' },
+  ];
+
+  const row = (overrides: Partial<SanitizedRecord> = {}): SanitizedRecord => ({
+    dcmId: 'TIDE123-HOU-1700000000-00001',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    address: '123 Main St, Houston, TX, 77001-1234',
+    phone: '+17135550100',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PiiPolicyService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PiiPolicyService>(PiiPolicyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('check', () => {
+    it('should pass clean contact data', () => {
+      const result = service.check(
+        columns,
+        [row()],
+        DEFAULT_DATA_SHARING_POLICY,
+      );
+
+      expect(result.violations).toEqual([]);
+      expect(result.cellsScanned).toBe(4);
+    });
+
+    it.each([
+      ['sales-amount', { name: '$1,500' }],
+      ['sales-amount', { address: '1500.00' }],
+      ['date', { name: 'Jane 2024-09-01' }],
+      ['date', { address: '9/1/2024' }],
+      ['ssn', { name: '123-45-6789' }],
+      ['card-number', { address: '4111 1111 1111 1111' }],
+    ])('should flag %s values', (check, overrides) => {
+      const result = service.check(
+        columns,
+        [row(overrides)],
+        DEFAULT_DATA_SHARING_POLICY,
+      );
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          dcmId: 'TIDE123-HOU-1700000000-00001',
+          check,
+        }),
+      ]);
+    });
+
+    it("should flag the row's own customer ID and sales amount", () => {
+      const sources = new Map([
+        [
+          'TIDE123-HOU-1700000000-00001',
+          { customerId: 'CUST123456', totalSales: 1500 },
+        ],
+      ]);
+
+      const result = service.check(
+        columns,
+        [row({ email: 'cust123456@example.com', name: '1500' })],
+        DEFAULT_DATA_SHARING_POLICY,
+        sources,
+      );
+
+      expect(result.violations.map((v) => [v.column, v.check])).toEqual([
+        ['Name', 'sales-amount'],
+        ['Email', 'customer-id'],
+      ]);
+    });
+
+    it('should not mistake house numbers for short customer IDs', () => {
+      const result = service.check(
+        columns,
+        [row()],
+        DEFAULT_DATA_SHARING_POLICY,
+        new Map([['TIDE123-HOU-1700000000-00001', { customerId: '123' }]]),
+      );
+
+      expect(result.violations).toEqual([]);
+    });
+
+    it('should flag blocked and unpermitted columns', () => {
+      const result = service.check(
+        [...columns, { header: 'Total Sales', key: 'name' }],
+        [],
+        { ...DEFAULT_DATA_SHARING_POLICY, allowedFields: ['name', 'email'] },
+      );
+
+      expect(result.violations).toEqual([
+        { dcmId: '', column: 'Address', check: 'field-not-allowed' },
+        { dcmId: '', column: 'Phone', check: 'field-not-allowed' },
+        { dcmId: '', column: 'Total Sales', check: 'blocked-field' },
+      ]);
+    });
+
+    it('should only run the checks the policy lists', () => {
+      const result = service.check(columns, [row({ name: '$1,500' })], {
+        ...DEFAULT_DATA_SHARING_POLICY,
+        valueChecks: ['date'],
+      });
+
+      expect(result.violations).toEqual([]);
+    });
+  });
+
+  describe('reports', () => {
+    const report = () =>
+      service.createReport(
+        service.check(columns, [row()], DEFAULT_DATA_SHARING_POLICY),
+        {
+          campaignId: 'campaign-1',
+          market: 'Houston',
+          storageKey: 'campaigns/campaign-1/sanitized/file.xlsx',
+          buffer: Buffer.from('vendor file'),
+        },
+      );
+
+    it('should bind the report to the file contents', () => {
+      expect(report().vendorFile).toEqual({
+        storageKey: 'campaigns/campaign-1/sanitized/file.xlsx',
+        sha256:
+          '995508e47888f3e35e770a8169b6edb9b8a7c96083762a86e18243b6652fbb58',
+        rows: 1,
+      });
+    });
+
+    it('should verify an untouched report', () => {
+      const signed = JSON.parse(JSON.stringify(report()));
+
+      expect(service.verifyReport(signed)).toBe(true);
+    });
+
+    it('should reject a report edited after signing', () => {
+      const signed = report();
+
+      expect(
+        service.verifyReport({ ...signed, violations: [], cellsScanned: 0 }),
+      ).toBe(false);
+      expect(service.verifyReport({ ...signed, signature: 'abc' })).toBe(false);
+    });
+
+    it('should require a signing secret', () => {
+      mockConfigService.getOrThrow.mockImplementationOnce(() => {
+        throw new Error('PII_POLICY_SIGNING_SECRET is not set');
+      });
+
+      expect(() => report()).toThrow('PII_POLICY_SIGNING_SECRET');
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type {
+  DataSharingPolicy,
+  PiiPolicyViolation,
+  PiiValueCheck,
+  PolicyCheckReport,
+  VendorField,
+} from '@matchback/types';
+import type { ClientRecord, SanitizedRecord } from './sanitization.service';
+
+export interface VendorFileColumn {
+  header: string;
+  key: 'dcmId' | VendorField;
+}
+
+export interface PolicyCheckResult {
+  policy: DataSharingPolicy;
+  columns: string[];
+  rows: number;
+  cellsScanned: number;
+  violations: PiiPolicyViolation[];
+}
+
+/**
+ * Shorter customer IDs are only flagged when they fill a whole cell;
+ * embedded in an address they are indistinguishable from house numbers
+ */
+const MIN_EMBEDDED_CUSTOMER_ID_LENGTH = 6;
+
+const SALES_AMOUNT_PATTERNS = [
+  /\$\s?\d/, // "$1,500", "$ 40"
+  /^-?\d{1,3}(,\d{3})*\.\d{2}$/, // "1,500.00"
+  /^-?\d+\.\d{2}$/, // "1500.00"
+];
+
+const DATE_PATTERNS = [
+  /\b\d{4}-\d{1,2}-\d{1,2}\b/, // "2024-09-01", ISO timestamps
+  /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/, // "9/1/2024"
+];
+
+const SSN_PATTERNS = [/\b\d{3}-\d{2}-\d{4}\b/, /\b\d{3} \d{2} \d{4}\b/];
+
+/**
+ * 13-19 digits, optionally grouped by spaces or dashes; not part of a
+ * longer token, and not an E.164 phone ("+...")
+ */
+const CARD_NUMBER_CANDIDATE = /(?<![\w+])\d(?:[ -]?\d){12,18}(?!\w)/g;
+
+/**
+ * PII Policy Service
+ *
+ * Checks a vendor file against the vendor's data-sharing policy before
+ * it is stored or sent:
+ * - Columns: only DCM_ID and fields the agreement permits; no column
+ *   named like a blocked field (customerId, totalSales, ...)
+ * - Values: every outgoing cell is scanned for sales amounts, dates,
+ *   the row's own customer ID, SSN-like and card-like numbers
+ *
+ * Files that pass get a report signed with PII_POLICY_SIGNING_SECRET
+ * (HMAC-SHA256) and bound to the file by its SHA-256.
+ */
+@Injectable()
+export class PiiPolicyService {
+  private readonly logger = new Logger(PiiPolicyService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Scan the columns and rows of a vendor file
+   * sources: dcmId -> client record, used to find the row's own customer ID
+   */
+  check(
+    columns: VendorFileColumn[],
+    rows: SanitizedRecord[],
+    policy: DataSharingPolicy,
+    sources: Map<string, ClientRecord> = new Map(),
+  ): PolicyCheckResult {
+    const violations: PiiPolicyViolation[] = [];
+    const blocked = policy.blockedFieldNames.map((name) => this.compact(name));
+
+    columns.forEach((column) => {
+      if (column.key === 'dcmId') return;
+
+      if (!policy.allowedFields.includes(column.key)) {
+        violations.push({
+          dcmId: '',
+          column: column.header,
+          check: 'field-not-allowed',
+        });
+      }
+
+      const header = this.compact(column.header);
+      if (blocked.some((name) => name && header.includes(name))) {
+        violations.push({
+          dcmId: '',
+          column: column.header,
+          check: 'blocked-field',
+        });
+      }
+    });
+
+    // DCM_IDs are generated here and contain digit runs that look like
+    // card numbers, so only the contact columns are scanned
+    const scanned = columns.filter((column) => column.key !== 'dcmId');
+    let cellsScanned = 0;
+
+    rows.forEach((row) => {
+      const source = sources.get(row.dcmId);
+
+      scanned.forEach((column) => {
+        const value = String(row[column.key] ?? '').trim();
+        if (!value) return;
+        cellsScanned++;
+
+        policy.valueChecks
+          .filter((check) => this.detect(check, value, source))
+          .forEach((check) => {
+            violations.push({ dcmId: row.dcmId, column: column.header, check });
+          });
+      });
+    });
+
+    if (violations.length > 0) {
+      this.logger.error(
+        `Data-sharing policy check failed: ${violations.length} violations`,
+      );
+    }
+
+    return {
+      policy,
+      columns: columns.map((column) => column.header),
+      rows: rows.length,
+      cellsScanned,
+      violations,
+    };
+  }
+
+  /**
+   * Signed report for a vendor file that passed its check
+   */
+  createReport(
+    result: PolicyCheckResult,
+    file: {
+      campaignId: string;
+      market: string;
+      storageKey: string;
+      buffer: Buffer;
+    },
+  ): PolicyCheckReport {
+    const unsigned: Omit<PolicyCheckReport, 'signature'> = {
+      campaignId: file.campaignId,
+      market: file.market,
+      vendorFile: {
+        storageKey: file.storageKey,
+        sha256: createHash('sha256').update(file.buffer).digest('hex'),
+        rows: result.rows,
+      },
+      policy: result.policy,
+      columns: result.columns,
+      cellsScanned: result.cellsScanned,
+      violations: result.violations,
+      checkedAt: new Date().toISOString(),
+    };
+
+    return { ...unsigned, signature: this.sign(unsigned) };
+  }
+
+  /**
+   * Whether a stored report is unchanged since it was signed
+   */
+  verifyReport(report: PolicyCheckReport): boolean {
+    const { signature, ...unsigned } = report;
+    const expected = Buffer.from(this.sign(unsigned), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private sign(unsigned: Omit<PolicyCheckReport, 'signature'>): string {
+    const secret = this.configService.getOrThrow<string>(
+      'PII_POLICY_SIGNING_SECRET',
+    );
+
+    return createHmac('sha256', secret)
+      .update(JSON.stringify(unsigned))
+      .digest('hex');
+  }
+
+  private detect(
+    check: PiiValueCheck,
+    value: string,
+    source: ClientRecord | undefined,
+  ): boolean {
+    switch (check) {
+      case 'sales-amount':
+        return (
+          SALES_AMOUNT_PATTERNS.some((pattern) => pattern.test(value)) ||
+          (typeof source?.totalSales === 'number' &&
+            value === String(source.totalSales))
+        );
+      case 'date':
+        return DATE_PATTERNS.some((pattern) => pattern.test(value));
+      case 'customer-id':
+        return this.containsCustomerId(value, source?.customerId);
+      case 'ssn':
+        return SSN_PATTERNS.some((pattern) => pattern.test(value));
+      case 'card-number':
+        return [...value.matchAll(CARD_NUMBER_CANDIDATE)].some((match) =>
+          this.passesLuhn(match[0].replace(/\D/g, '')),
+        );
+    }
+  }
+
+  private containsCustomerId(value: string, customerId: unknown): boolean {
+    if (typeof customerId !== 'string' && typeof customerId !== 'number') {
+      return false;
+    }
+    const id = String(customerId).trim().toLowerCase();
+    if (!id) return false;
+
+    const cell = value.toLowerCase();
+    if (cell === id) return true;
+    if (id.length < MIN_EMBEDDED_CUSTOMER_ID_LENGTH) return false;
+
+    const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`).test(cell);
+  }
+
+  private passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  /**
+   * Lowercase alphanumerics, for comparing column names
+   */
+  private compact(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
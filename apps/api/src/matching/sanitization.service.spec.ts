@@ -1,6 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { SanitizationService, ClientRecord } from './sanitization.service';
 import { DcmIdService } from './dcm-id.service';
+import { ContactNormalizationService } from './contact-normalization.service';
+import { PiiPolicyService } from './pii-policy.service';
+import {
+  DEFAULT_VENDOR_FILE_PROFILE,
+  DEFAULT_VENDOR_HASHING_RULES,
+} from '../vendors/vendor-file-profile';
 
 describe('SanitizationService', () => {
   let service: SanitizationService;
@@ -8,7 +16,13 @@ describe('SanitizationService', () => {
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SanitizationService, DcmIdService],
+      providers: [
+        SanitizationService,
+        DcmIdService,
+        ContactNormalizationService,
+        PiiPolicyService,
+        { provide: ConfigService, useValue: { getOrThrow: jest.fn() } },
+      ],
     }).compile();
 
     service = module.get<SanitizationService>(SanitizationService);
@@ -85,9 +99,10 @@ describe('SanitizationService', () => {
       );
 
       expect(result.sanitizedRecords.length).toBe(2);
-      result.sanitizedRecords.forEach((record, index) => {
-        expect(record.dcmId).toContain('TIDE123');
-        expect(record.dcmId).toContain('HOU');
+      result.sanitizedRecords.forEach((record) => {
+        expect(dcmIdService.getFormat(record.dcmId)).toBe('opaque');
+        expect(record.dcmId).not.toContain('TIDE123');
+        expect(record.dcmId).not.toContain('HOU');
       });
     });
 
@@ -145,6 +160,43 @@ describe('SanitizationService', () => {
       expect(secondRecord.name).toBe('Jane Smith');
     });
 
+    it('should report what contact normalization changed', async () => {
+      const result = await service.sanitizeForVendor(
+        [
+          {
+            name: 'John Doe',
+            email: 'John@Gmial.com',
+            address: '123 Main Street',
+            state: 'Texas',
+            zip: '770011234',
+            phone: '(713) 555-0100',
+          },
+        ],
+        'TIDE123',
+        'HOU',
+      );
+
+      expect(result.sanitizedRecords[0]).toEqual(
+        expect.objectContaining({
+          email: 'john@gmial.com',
+          address: '123 Main St, TX, 77001-1234',
+          phone: '+17135550100',
+        }),
+      );
+      expect(result.statistics.normalization).toEqual(
+        expect.objectContaining({
+          emailsNormalized: 1,
+          typoDomains: [
+            { domain: 'gmial.com', suggestion: 'gmail.com', count: 1 },
+          ],
+          phonesFormatted: 1,
+          streetSuffixesStandardized: 1,
+          statesStandardized: 1,
+          zipsStandardized: 1,
+        }),
+      );
+    });
+
     it('should combine address components', async () => {
       const result = await service.sanitizeForVendor(
         mockRecords,
@@ -222,7 +274,7 @@ describe('SanitizationService', () => {
         },
       ];
 
-      const buffer = await service.createVendorExcel(
+      const { buffer } = await service.createVendorExcel(
         sanitizedRecords,
         'TIDE123-HOU',
       );
@@ -230,5 +282,151 @@ describe('SanitizationService', () => {
       expect(buffer).toBeInstanceOf(Buffer);
       expect(buffer.length).toBeGreaterThan(0);
     });
+
+    it("should write CSV with only the vendor's columns", async () => {
+      const { buffer } = await service.createVendorExcel(
+        [
+          {
+            dcmId: 'TIDE123-HOU-1700000000-00001',
+            name: 'John Doe',
+            email: 'john@example.com',
+            address: '123 Main St',
+            phone: '555-1234',
+          },
+        ],
+        'TIDE123-HOU',
+        {
+          ...DEFAULT_VENDOR_FILE_PROFILE,
+          acceptedFormats: ['csv'],
+          dcmIdColumn: 'Ref',
+          allowedFields: ['email'],
+        },
+      );
+
+      expect(buffer.toString('utf-8').split(/\r?\n/)).toEqual([
+        'Ref,Email',
+        'TIDE123-HOU-1700000000-00001,john@example.com',
+      ]);
+    });
+
+    it('should refuse to write a file that breaks the data-sharing policy', async () => {
+      await expect(
+        service.createVendorExcel(
+          [
+            {
+              dcmId: 'TIDE123-HOU-1700000000-00001',
+              name: 'CUST001',
+              email: 'john@example.com',
+              address: '123 Main St',
+              phone: '',
+            },
+          ],
+          'TIDE123-HOU',
+          DEFAULT_VENDOR_FILE_PROFILE,
+          new Map([
+            ['TIDE123-HOU-1700000000-00001', { customerId: 'CUST001' }],
+          ]),
+        ),
+      ).rejects.toThrow('data-sharing policy');
+    });
+
+    it('should refuse fields the agreement does not permit', async () => {
+      await expect(
+        service.createVendorExcel(
+          [
+            {
+              dcmId: 'TIDE123-HOU-1700000000-00001',
+              name: 'John Doe',
+              email: 'john@example.com',
+              address: '',
+              phone: '',
+            },
+          ],
+          'TIDE123-HOU',
+          {
+            ...DEFAULT_VENDOR_FILE_PROFILE,
+            sharingPolicy: {
+              agreementReference: 'DSA-2026-014',
+              allowedFields: ['email'],
+              blockedFieldNames: [],
+              valueChecks: [],
+            },
+          },
+        ),
+      ).rejects.toThrow('data-sharing policy');
+    });
+
+    describe('hashed vendors', () => {
+      const sha256 = (value: string) =>
+        createHash('sha256').update(value).digest('hex');
+      const record = {
+        dcmId: 'TIDE123-HOU-1700000000-00001',
+        name: 'John Doe',
+        email: 'john.doe+promo@gmail.com',
+        address: '123 Main St',
+        phone: '+17135550100',
+      };
+      const hashedProfile = {
+        ...DEFAULT_VENDOR_FILE_PROFILE,
+        acceptedFormats: ['csv' as const],
+        exportMode: 'hashed' as const,
+        hashing: DEFAULT_VENDOR_HASHING_RULES,
+      };
+
+      it('should write only DCM_ID and hashes', async () => {
+        const { buffer } = await service.createVendorExcel(
+          [record],
+          'TIDE123-HOU',
+          hashedProfile,
+        );
+        const csv = buffer.toString('utf-8');
+
+        expect(csv.split(/\r?\n/)).toEqual([
+          'DCM_ID,EMAIL_SHA256,PHONE_SHA256',
+          `${record.dcmId},${sha256(record.email)},${sha256(record.phone)}`,
+        ]);
+        expect(csv).not.toContain('John');
+        expect(csv).not.toContain('gmail');
+        expect(csv).not.toContain('Main St');
+      });
+
+      it("should apply the vendor's normalization and salt", async () => {
+        const { buffer } = await service.createVendorExcel(
+          [
+            record,
+            { ...record, dcmId: 'TIDE123-HOU-1700000000-00002', phone: '' },
+          ],
+          'TIDE123-HOU',
+          {
+            ...hashedProfile,
+            hashing: {
+              stripEmailPlusTag: true,
+              stripGmailDots: true,
+              phoneFormat: 'digits',
+              salt: 'pepper-2026',
+              saltPosition: 'prefix',
+            },
+          },
+        );
+
+        expect(buffer.toString('utf-8').split(/\r?\n/).slice(1)).toEqual([
+          `${record.dcmId},${sha256('pepper-2026johndoe@gmail.com')},${sha256('pepper-202617135550100')}`,
+          `TIDE123-HOU-1700000000-00002,${sha256('pepper-2026johndoe@gmail.com')},`,
+        ]);
+      });
+
+      it('should only hash the allowed fields', async () => {
+        const { buffer } = await service.createVendorExcel(
+          [record],
+          'TIDE123-HOU',
+          { ...hashedProfile, allowedFields: ['name', 'email'] },
+        );
+
+        expect(buffer.toString('utf-8').split(/\r?\n/)).toEqual([
+          'DCM_ID,EMAIL_SHA256',
+          `${record.dcmId},${sha256(record.email)}`,
+        ]);
+      });
+    });
   });
 });
@@ -1,6 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DcmIdService } from './dcm-id.service';
 import * as ExcelJS from 'exceljs';
+import * as Papa from 'papaparse';
+import type {
+  ContactNormalizationStats,
+  VendorField,
+  VendorFileProfile,
+} from '@matchback/types';
+import {
+  DEFAULT_DATA_SHARING_POLICY,
+  DEFAULT_VENDOR_FILE_PROFILE,
+  DEFAULT_VENDOR_HASHING_RULES,
+  HASHABLE_VENDOR_FIELDS,
+  resolveSharingPolicy,
+} from '../vendors/vendor-file-profile';
+import {
+  ContactNormalizationService,
+  NormalizedContact,
+} from './contact-normalization.service';
+import {
+  hashIdentifier,
+  normalizeEmailForHash,
+  normalizePhoneForHash,
+  SHA256_HEX_PATTERN,
+} from './utils/identifier-hash';
+import { PiiPolicyService, PolicyCheckResult } from './pii-policy.service';
 
 export interface ClientRecord {
   // Customer info (safe to send to vendor)
@@ -21,7 +45,10 @@ export interface ClientRecord {
   visit1Date?: Date;
   visit2Date?: Date;
   visit3Date?: Date;
+  visitDates?: Date[]; // Every VisitN column, in column order
   totalVisits?: number;
+  market?: string;
+  sourceRow?: number; // Row in the uploaded file
 
   // Any other fields
   [key: string]: any;
@@ -43,55 +70,62 @@ export interface SanitizationResult {
     missingEmails: number;
     missingEmailPercentage: number;
     fieldsRemoved: string[];
+    normalization: ContactNormalizationStats;
   };
 }
 
+/**
+ * Vendor file and the data-sharing policy check it passed
+ */
+export interface VendorFile {
+  buffer: Buffer;
+  policyCheck: PolicyCheckResult;
+}
+
+/**
+ * Contact columns a vendor may receive, in file order
+ */
+const VENDOR_COLUMNS: Array<{
+  header: string;
+  key: VendorField;
+  width: number;
+}> = [
+  { header: 'Name', key: 'name', width: 25 },
+  { header: 'Email', key: 'email', width: 30 },
+  { header: 'Address', key: 'address', width: 40 },
+  { header: 'Phone', key: 'phone', width: 15 },
+];
+
+/**
+ * Columns written instead of VENDOR_COLUMNS for hashed-mode vendors
+ */
+const HASHED_VENDOR_COLUMNS: Array<{
+  header: string;
+  key: VendorField;
+  width: number;
+}> = [
+  { header: 'EMAIL_SHA256', key: 'email', width: 66 },
+  { header: 'PHONE_SHA256', key: 'phone', width: 66 },
+];
+
 @Injectable()
 export class SanitizationService {
   private readonly logger = new Logger(SanitizationService.name);
 
-  // Fields that are SAFE to send to vendor
-  private readonly SAFE_FIELDS = [
-    'name',
-    'firstName',
-    'lastName',
-    'email',
-    'address',
-    'city',
-    'state',
-    'zip',
-    'phone',
-  ];
-
-  // Fields that MUST be removed (sensitive PII)
-  private readonly SENSITIVE_FIELDS = [
-    'customerId',
-    'customer_id',
-    'id',
-    'signupDate',
-    'signup_date',
-    'totalSales',
-    'total_sales',
-    'sales',
-    'visit1Date',
-    'visit2Date',
-    'visit3Date',
-    'visit_1',
-    'visit_2',
-    'visit_3',
-    'totalVisits',
-    'total_visits',
-    'visits',
-    'revenue',
-    'ltv',
-    'lifetime_value',
-  ];
-
-  constructor(private readonly dcmIdService: DcmIdService) {}
+  constructor(
+    private readonly dcmIdService: DcmIdService,
+    private readonly contactNormalization: ContactNormalizationService,
+    private readonly piiPolicy: PiiPolicyService,
+  ) {}
 
   /**
    * Sanitize client data for vendor matching
    * CRITICAL: Removes ALL sensitive business data, keeps only contact info
+   * Contact fields are normalized (see ContactNormalizationService);
+   * what changed is reported in statistics.normalization
+   *
+   * DCM_IDs are opaque and in record order; the caller registers them
+   * (see DcmIdRegistryService)
    */
   async sanitizeForVendor(
     records: ClientRecord[],
@@ -99,36 +133,35 @@ export class SanitizationService {
     market: string,
   ): Promise<SanitizationResult> {
     this.logger.log(
-      `Sanitizing ${records.length} records for campaign ${campaignId}`,
+      `Sanitizing ${records.length} records for campaign ${campaignId}, market ${market}`,
     );
 
     const sanitizedRecords: SanitizedRecord[] = [];
     const dcmIdMapping = new Map<string, ClientRecord>();
+    const normalization = this.contactNormalization.createStats();
     let missingEmails = 0;
 
     // Generate DCM_IDs for all records
-    const timestamp = Date.now();
+    const dcmIds = this.dcmIdService.generateBatch(records.length);
 
     records.forEach((record, index) => {
-      const sequence = index + 1;
-      const dcmId = this.dcmIdService.generateDcmId(
-        campaignId,
-        market,
-        sequence,
-        timestamp,
-      );
+      const dcmId = dcmIds[index];
 
       // Extract only safe fields
+      const contact = this.contactNormalization.normalize(
+        record,
+        normalization,
+      );
       const sanitized: SanitizedRecord = {
         dcmId,
-        name: this.combineName(record),
-        email: record.email || '',
-        address: this.combineAddress(record),
-        phone: record.phone || '',
+        name: contact.name,
+        email: contact.email,
+        address: this.combineAddress(contact),
+        phone: contact.phone,
       };
 
       // Track missing emails
-      if (!record.email || record.email.trim() === '') {
+      if (!record.email || String(record.email).trim() === '') {
         missingEmails++;
       }
 
@@ -138,20 +171,24 @@ export class SanitizationService {
       dcmIdMapping.set(dcmId, record);
     });
 
-    // Validate no sensitive data leaked
-    this.validateNoLeaks(sanitizedRecords);
-
     const statistics = {
       totalRecords: records.length,
       missingEmails,
       missingEmailPercentage: (missingEmails / records.length) * 100,
-      fieldsRemoved: this.SENSITIVE_FIELDS,
+      fieldsRemoved: DEFAULT_DATA_SHARING_POLICY.blockedFieldNames,
+      normalization,
     };
 
     this.logger.log(
       `Sanitization complete: ${records.length} records, ${missingEmails} missing emails (${statistics.missingEmailPercentage.toFixed(1)}%)`,
     );
 
+    if (normalization.typoDomains.length > 0) {
+      this.logger.warn(
+        `Possible email domain typos: ${normalization.typoDomains.map((typo) => `${typo.domain} (${typo.count}, did you mean ${typo.suggestion}?)`).join(', ')}`,
+      );
+    }
+
     if (statistics.missingEmailPercentage > 30) {
       this.logger.warn(
         `High percentage of missing emails: ${statistics.missingEmailPercentage.toFixed(1)}%`,
@@ -166,23 +203,71 @@ export class SanitizationService {
   }
 
   /**
-   * Create Excel file with sanitized data for vendor
+   * Create the match request file in the vendor's format
+   * Only DCM_ID and the contact fields the vendor may receive are written;
+   * hashed-mode vendors get SHA-256 hashes of email/phone and nothing else
+   *
+   * CRITICAL: the file is checked against the vendor's data-sharing
+   * policy (see PiiPolicyService) and not created if anything fails.
+   * sources (dcmId -> client record) lets the check find each row's
+   * own customer ID and sales amount
    */
   async createVendorExcel(
     sanitizedRecords: SanitizedRecord[],
     campaignName: string,
-  ): Promise<Buffer> {
+    profile: VendorFileProfile = DEFAULT_VENDOR_FILE_PROFILE,
+    sources: Map<string, ClientRecord> = new Map(),
+  ): Promise<VendorFile> {
+    const hashed = profile.exportMode === 'hashed';
+    const columns = [
+      { header: profile.dcmIdColumn, key: 'dcmId' as const, width: 30 },
+      ...(hashed ? HASHED_VENDOR_COLUMNS : VENDOR_COLUMNS).filter((column) =>
+        profile.allowedFields.includes(column.key),
+      ),
+    ];
+    const rows = hashed
+      ? this.hashRecords(sanitizedRecords, profile)
+      : sanitizedRecords;
+
+    const policyCheck = this.piiPolicy.check(
+      columns,
+      rows,
+      resolveSharingPolicy(profile),
+      sources,
+    );
+    if (policyCheck.violations.length > 0) {
+      this.logger.error('SENSITIVE DATA LEAK DETECTED!');
+      this.logger.error(
+        policyCheck.violations
+          .map(
+            (violation) =>
+              `${violation.dcmId || 'Header'}: ${violation.check} in "${violation.column}"`,
+          )
+          .join('\n'),
+      );
+      throw new Error(
+        `Sanitization failed: Vendor file breaks the data-sharing policy (${policyCheck.violations.length} violations)`,
+      );
+    }
+
+    if (profile.acceptedFormats[0] === 'csv') {
+      const csv = Papa.unparse({
+        fields: columns.map((column) => column.header),
+        data: rows.map((record) => columns.map((column) => record[column.key])),
+      });
+
+      this.logger.log(
+        `Created vendor CSV with ${sanitizedRecords.length} records`,
+      );
+
+      return { buffer: Buffer.from(csv, 'utf-8'), policyCheck };
+    }
+
     const workbook = new ExcelJS.Workbook();
     const worksheet = workbook.addWorksheet('Matchback Request');
 
     // Add headers
-    worksheet.columns = [
-      { header: 'DCM_ID', key: 'dcmId', width: 30 },
-      { header: 'Name', key: 'name', width: 25 },
-      { header: 'Email', key: 'email', width: 30 },
-      { header: 'Address', key: 'address', width: 40 },
-      { header: 'Phone', key: 'phone', width: 15 },
-    ];
+    worksheet.columns = columns;
 
     // Style headers
     worksheet.getRow(1).font = { bold: true };
@@ -193,7 +278,7 @@ export class SanitizationService {
     };
 
     // Add data rows
-    sanitizedRecords.forEach((record) => {
+    rows.forEach((record) => {
       worksheet.addRow(record);
     });
 
@@ -208,69 +293,66 @@ export class SanitizationService {
 
     this.logger.log(`Created vendor Excel with ${sanitizedRecords.length} records`);
 
-    return Buffer.from(await workbook.xlsx.writeBuffer());
+    return {
+      buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+      policyCheck,
+    };
   }
 
   /**
-   * Validate that no sensitive data is present in sanitized records
+   * Replace email/phone with the vendor's salted SHA-256 hashes
+   * Name and address have no agreed normalization, so they are dropped
+   * CRITICAL: throws rather than write a value that is not a hash
    */
-  private validateNoLeaks(sanitizedRecords: SanitizedRecord[]): void {
-    const leaks: string[] = [];
-
-    // Whitelist of allowed field names (even if they contain "id")
-    const allowedFields = ['dcmid', 'dcm_id'];
-
-    sanitizedRecords.forEach((record, index) => {
-      // Check if any sensitive field names appear in the record
-      Object.keys(record).forEach((key) => {
-        const lowerKey = key.toLowerCase();
-
-        // Skip whitelisted fields
-        if (allowedFields.includes(lowerKey)) {
-          return;
-        }
+  private hashRecords(
+    sanitizedRecords: SanitizedRecord[],
+    profile: VendorFileProfile,
+  ): SanitizedRecord[] {
+    const rules = profile.hashing ?? DEFAULT_VENDOR_HASHING_RULES;
+    const fields = HASHABLE_VENDOR_FIELDS.filter((field) =>
+      profile.allowedFields.includes(field),
+    );
+    if (fields.length === 0) {
+      throw new Error(
+        `Hashed export needs at least one of: ${HASHABLE_VENDOR_FIELDS.join(', ')}`,
+      );
+    }
 
-        if (
-          this.SENSITIVE_FIELDS.some((sensitive) =>
-            lowerKey.includes(sensitive.toLowerCase()),
-          )
-        ) {
-          leaks.push(`Record ${index + 1}: Found sensitive field "${key}"`);
+    const hashedRecords = sanitizedRecords.map((record) => ({
+      dcmId: record.dcmId,
+      name: '',
+      email: hashIdentifier(normalizeEmailForHash(record.email, rules), rules),
+      address: '',
+      phone: hashIdentifier(normalizePhoneForHash(record.phone, rules), rules),
+    }));
+
+    hashedRecords.forEach((record) => {
+      fields.forEach((field) => {
+        if (record[field] && !SHA256_HEX_PATTERN.test(record[field])) {
+          throw new Error(
+            `Hashed export for ${record.dcmId} contains an unhashed ${field}`,
+          );
         }
       });
     });
 
-    if (leaks.length > 0) {
-      this.logger.error('SENSITIVE DATA LEAK DETECTED!');
-      this.logger.error(leaks.join('\n'));
-      throw new Error(
-        `Sanitization failed: Sensitive data detected in ${leaks.length} records`,
-      );
-    }
-
-    this.logger.log('Validation passed: No sensitive data leaks detected');
-  }
+    this.logger.log(
+      `Hashed ${fields.join(', ')} for ${hashedRecords.length} records${rules.salt ? ' (salted)' : ''}`,
+    );
 
-  /**
-   * Combine first and last name, or use name field
-   */
-  private combineName(record: ClientRecord): string {
-    if (record.firstName || record.lastName) {
-      return `${record.firstName || ''} ${record.lastName || ''}`.trim();
-    }
-    return record.name || '';
+    return hashedRecords;
   }
 
   /**
    * Combine address components
    */
-  private combineAddress(record: ClientRecord): string {
+  private combineAddress(contact: NormalizedContact): string {
     const parts: string[] = [];
 
-    if (record.address) parts.push(record.address);
-    if (record.city) parts.push(record.city);
-    if (record.state) parts.push(record.state);
-    if (record.zip) parts.push(record.zip);
+    if (contact.address) parts.push(contact.address);
+    if (contact.city) parts.push(contact.city);
+    if (contact.state) parts.push(contact.state);
+    if (contact.zip) parts.push(contact.zip);
 
     return parts.join(', ');
   }
@@ -281,6 +363,7 @@ export class SanitizationService {
   async processVendorResponse(
     vendorExcel: Buffer,
     dcmIdMapping: Map<string, ClientRecord>,
+    profile: VendorFileProfile = DEFAULT_VENDOR_FILE_PROFILE,
   ): Promise<ClientRecord[]> {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.load(vendorExcel as any);
@@ -288,12 +371,32 @@ export class SanitizationService {
     const worksheet = workbook.worksheets[0];
     const matchedRecords: ClientRecord[] = [];
 
-    // Skip header row
+    // Locate the vendor's DCM_ID and match columns by header
+    const normalize = (value: string) =>
+      value.toLowerCase().replace(/[_\s]/g, '');
+    let dcmIdColumn = 0;
+    let matchColumn = 0;
+    worksheet.getRow(1).eachCell((cell, columnNumber) => {
+      const header = normalize(cell.text);
+      if (header === normalize(profile.dcmIdColumn)) dcmIdColumn = columnNumber;
+      if (header === normalize(profile.matchColumn)) matchColumn = columnNumber;
+    });
+
+    if (!dcmIdColumn || !matchColumn) {
+      throw new Error(
+        `Vendor response must have "${profile.dcmIdColumn}" and "${profile.matchColumn}" columns`,
+      );
+    }
+
+    const matchedValues = profile.matchedValues.map(normalize);
+
     worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
       if (rowNumber === 1) return; // Skip header
 
-      const dcmId = row.getCell(1).value as string;
-      const matched = row.getCell(6)?.value; // Assuming match flag in column 6
+      const dcmId = this.dcmIdService.normalizeDcmId(
+        row.getCell(dcmIdColumn).text,
+      );
+      const matchCell = row.getCell(matchColumn);
 
       // Get original record
       const originalRecord = dcmIdMapping.get(dcmId);
@@ -301,7 +404,9 @@ export class SanitizationService {
         matchedRecords.push({
           ...originalRecord,
           dcmId,
-          matched: matched === 'Y' || matched === 'Yes' || matched === true,
+          matched:
+            matchCell.value === true ||
+            matchedValues.includes(normalize(matchCell.text)),
         });
       }
     });
@@ -0,0 +1,124 @@
+/**
+ * Client Record Mapping
+ *
+ * Converts rows produced by the Excel/CSV parsers (keyed by the client's
+ * header names) into ClientRecord objects used by the matching workflow.
+ */
+
+import type { ClientRecord } from '../sanitization.service';
+import { safeDateConversion } from '../../file-processing/utils/excel-dates';
+
+/**
+ * Known header variations for each ClientRecord field.
+ * Headers are compared after normalization (lowercase, alphanumerics only),
+ * so "Customer ID", "customer_id" and "CustomerID" are equivalent.
+ */
+export const CLIENT_RECORD_HEADERS: Record<string, string[]> = {
+  customerId: ['customerid', 'custid', 'clientid'],
+  firstName: ['firstname', 'fname'],
+  lastName: ['lastname', 'lname', 'surname'],
+  name: ['name', 'fullname', 'customername'],
+  email: ['emailaddress', 'email', 'emailaddr'],
+  phone: ['phone', 'phonenumber', 'mobile', 'cellphone'],
+  address: ['address', 'address1', 'streetaddress', 'street'],
+  city: ['city'],
+  state: ['state', 'st'],
+  zip: ['zip', 'zipcode', 'postalcode', 'postcode'],
+  market: ['market'],
+  signupDate: ['signupdate', 'signup', 'joindate'],
+  visit1Date: ['visit1', 'visit1date'],
+  visit2Date: ['visit2', 'visit2date'],
+  visit3Date: ['visit3', 'visit3date'],
+  totalVisits: ['totalvisits', 'visits', 'visitcount'],
+  totalSales: ['totalsales', 'sales', 'revenue'],
+};
+
+const DATE_FIELDS = ['signupDate', 'visit1Date', 'visit2Date', 'visit3Date'];
+const NUMBER_FIELDS = ['totalVisits', 'totalSales'];
+
+/**
+ * Visit-date columns of any number ("Visit 7", "visit_12_date")
+ */
+const VISIT_N_HEADER = /^visit(\d+)(date)?$/;
+
+/**
+ * Normalize a header for comparison
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map a parsed file row to a ClientRecord
+ * Unrecognized columns are kept under their original header name.
+ */
+export function toClientRecord(row: Record<string, any>): ClientRecord {
+  const record: ClientRecord = {};
+  const visits: { index: number; date: Date }[] = [];
+
+  for (const [header, value] of Object.entries(row)) {
+    // Keep the file row for reports; skip other parser bookkeeping fields
+    if (header === '_rowNumber') {
+      record.sourceRow = value;
+      continue;
+    }
+    if (header.startsWith('_')) continue;
+
+    const normalized = normalizeHeader(header);
+
+    // Every VisitN column feeds the visit timeline (visitDates)
+    const visitMatch = VISIT_N_HEADER.exec(normalized);
+    if (visitMatch) {
+      const date = safeDateConversion(value);
+      if (date) {
+        visits.push({ index: Number(visitMatch[1]), date });
+      }
+    }
+    const field = Object.keys(CLIENT_RECORD_HEADERS).find((key) =>
+      CLIENT_RECORD_HEADERS[key].includes(normalized),
+    );
+
+    if (!field) {
+      record[header] = value;
+      continue;
+    }
+
+    if (value === null || value === undefined || value === '') continue;
+
+    if (DATE_FIELDS.includes(field)) {
+      record[field] = safeDateConversion(value) ?? undefined;
+    } else if (NUMBER_FIELDS.includes(field)) {
+      const num = Number(String(value).replace(/[$,]/g, ''));
+      record[field] = isNaN(num) ? undefined : num;
+    } else {
+      record[field] = String(value).trim();
+    }
+  }
+
+  if (visits.length > 0) {
+    record.visitDates = visits
+      .sort((a, b) => a.index - b.index)
+      .map((visit) => visit.date);
+  }
+
+  return record;
+}
+
+/**
+ * Visit dates of a stored client row (MatchRecord.rawData)
+ * Every VisitN column, or Visit1-3 for rows stored before that
+ */
+export function getStoredVisitDates(
+  row: ClientRecord | null,
+  visit1Date?: Date | null,
+): Date[] {
+  const stored = row || {};
+  const dates: any[] = Array.isArray(stored.visitDates)
+    ? stored.visitDates
+    : [stored.visit1Date ?? visit1Date, stored.visit2Date, stored.visit3Date];
+
+  return dates
+    .filter((value) => value !== null && value !== undefined)
+    .map((value) => new Date(value))
+    .filter((date) => !isNaN(date.getTime()));
+}
@@ -0,0 +1,71 @@
+/**
+ * Identifier Hashing
+ *
+ * Hashed-mode vendors receive SHA-256 digests of normalized emails and
+ * phones instead of the values themselves. Inputs are already normalized
+ * by ContactNormalizationService (lowercase email, E.164 phone); the
+ * vendor's hashing rules then apply the extra steps their side uses, so
+ * both sides hash identical strings.
+ */
+
+import { createHash } from 'crypto';
+import type { VendorHashingRules } from '@matchback/types';
+
+export const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Gmail ignores dots in the local part
+ */
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+/**
+ * Apply the vendor's email rules ("john.doe+promo@gmail.com" ->
+ * "johndoe@gmail.com" with both rules on)
+ */
+export function normalizeEmailForHash(
+  email: string,
+  rules: VendorHashingRules,
+): string {
+  if (!email) return '';
+
+  const at = email.lastIndexOf('@');
+  let local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+
+  if (rules.stripEmailPlusTag) local = local.replace(/\+.*$/, '');
+  if (rules.stripGmailDots && GMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, '');
+  }
+
+  return `${local}@${domain}`;
+}
+
+/**
+ * Apply the vendor's phone format to an E.164 number
+ */
+export function normalizePhoneForHash(
+  phone: string,
+  rules: VendorHashingRules,
+): string {
+  if (!phone) return '';
+  return rules.phoneFormat === 'digits' ? phone.replace(/^\+/, '') : phone;
+}
+
+/**
+ * Lowercase hex SHA-256 of the value with the vendor's salt
+ * Empty values stay empty, so a missing email is not sent as a hash
+ */
+export function hashIdentifier(
+  value: string,
+  rules: VendorHashingRules,
+): string {
+  if (!value) return '';
+
+  const salted = !rules.salt
+    ? value
+    : rules.saltPosition === 'prefix'
+      ? `${rules.salt}${value}`
+      : `${value}${rules.salt}`;
+
+  return createHash('sha256').update(salted, 'utf8').digest('hex');
+}
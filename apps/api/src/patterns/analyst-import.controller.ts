@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { AuthUser } from '@matchback/types';
+import {
+  AnalystImportService,
+  MAX_ANALYST_WORKBOOK_SIZE,
+} from './analyst-import.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('campaigns/:id/patterns')
+@Roles('admin')
+export class AnalystImportController {
+  constructor(private readonly analystImportService: AnalystImportService) {}
+
+  /**
+   * POST /campaigns/:id/patterns/import
+   * Import an analyst-returned pattern workbook (multipart field "file").
+   * ?dryRun=true returns the diff report without writing anything.
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: MAX_ANALYST_WORKBOOK_SIZE },
+    }),
+  )
+  async import(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: AuthUser,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    if (!file || !file.buffer || file.size === 0) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    return this.analystImportService.importWorkbook(
+      id,
+      file.buffer,
+      file.originalname,
+      { dryRun: dryRun === 'true', uploadedBy: user?.id },
+    );
+  }
+}
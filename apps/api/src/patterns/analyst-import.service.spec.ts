@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  AnalystImportService,
+  ANALYST_IMPORT_OVERRIDE,
+} from './analyst-import.service';
+import { PatternAnalysisService } from './pattern-analysis.service';
+import { PatternCorrectionService } from './pattern-correction.service';
+import { PatternRuleSetsService } from './pattern-rule-sets.service';
+import { DEFAULT_PATTERN_RULE_SET } from './pattern-analysis.service';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { ExcelService } from '../storage/excel.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('AnalystImportService', () => {
+  let service: AnalystImportService;
+
+  const campaign = {
+    id: 'campaign-1',
+    billingNumber: 'TIDE123',
+    dropDate: new Date('2024-09-01'),
+  };
+
+  const record = (dcmId: string, customerId: string, totalVisits: number) => ({
+    id: dcmId,
+    dcmId,
+    customerId,
+    signupDate: new Date('2023-01-01'),
+    visit1Date: new Date('2024-09-05'),
+    totalVisits,
+    matched: true,
+    campaignId: 'campaign-1',
+    market: 'NYC',
+    rawData: null,
+  });
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockRecordRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work: (manager: any) => Promise<any>) =>
+      work({ getRepository: () => mockRecordRepository }),
+    ),
+  };
+
+  const mockExcelService = {
+    parseAnalystPatterns: jest.fn(),
+  };
+
+  const mockStorageService = {
+    uploadAnalystPatterns: jest
+      .fn()
+      .mockResolvedValue({ file: { id: 'file-1' } }),
+  };
+
+  const mockRuleSetsService = {
+    resolveForCampaign: jest.fn().mockResolvedValue(DEFAULT_PATTERN_RULE_SET),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalystImportService,
+        PatternAnalysisService,
+        PatternCorrectionService,
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+        {
+          provide: getRepositoryToken(MatchRecord),
+          useValue: mockRecordRepository,
+        },
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: ExcelService, useValue: mockExcelService },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: PatternRuleSetsService, useValue: mockRuleSetsService },
+      ],
+    }).compile();
+
+    service = module.get<AnalystImportService>(AnalystImportService);
+
+    mockCampaignRepository.findOne.mockResolvedValue(campaign);
+    mockRecordRepository.find.mockResolvedValue([
+      record('DCM-1', 'CUST001', 5),
+      record('DCM-2', 'CUST002', 1),
+      record('DCM-3', 'CUST003', 4),
+      record('DCM-4', 'CUST004', 1),
+      record('DCM-5', 'CUST004', 2),
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const row = (
+    rowNumber: number,
+    fields: { dcmId?: string; customerId?: string },
+    inPattern: boolean | null,
+  ) => ({
+    rowNumber,
+    ...fields,
+    inPattern,
+    source: inPattern === null ? null : 'value',
+    colorConflict: false,
+  });
+
+  it('should write analyst results and report differences', async () => {
+    mockExcelService.parseAnalystPatterns.mockResolvedValue({
+      keyColumn: 'DCM_ID',
+      rows: [
+        row(2, { dcmId: 'DCM-1' }, true), // Agrees (5 visits)
+        row(3, { dcmId: 'DCM-2' }, true), // Differs (1 visit)
+        row(4, { customerId: 'CUST003' }, false), // Joined on CustomerID
+        row(5, { dcmId: 'DCM-404' }, false),
+        row(6, { dcmId: 'DCM-1' }, null),
+      ],
+    });
+
+    const report = await service.importWorkbook(
+      'campaign-1',
+      Buffer.from('xlsx'),
+      'analyst.xlsx',
+      { uploadedBy: 'user-1' },
+    );
+
+    expect(report.applied).toBe(true);
+    expect(report.fileId).toBe('file-1');
+    expect(report.matchedRows).toBe(3);
+    expect(report.agreements).toBe(1);
+    expect(report.disagreements).toEqual([
+      expect.objectContaining({
+        dcmId: 'DCM-2',
+        analystInPattern: true,
+        computedInPattern: false,
+      }),
+      expect.objectContaining({
+        dcmId: 'DCM-3',
+        analystInPattern: false,
+        computedInPattern: true,
+      }),
+    ]);
+    expect(report.unmatchedRows).toEqual([{ rowNumber: 5, dcmId: 'DCM-404' }]);
+    expect(report.unreadableRows).toHaveLength(1);
+    expect(mockRecordRepository.update).toHaveBeenCalledTimes(3);
+    expect(mockRecordRepository.update).toHaveBeenCalledWith(
+      { campaignId: 'campaign-1', dcmId: 'DCM-3' },
+      { inPattern: false, patternOverride: ANALYST_IMPORT_OVERRIDE },
+    );
+    expect(mockStorageService.uploadAnalystPatterns).toHaveBeenCalledWith(
+      'campaign-1',
+      expect.any(Buffer),
+      'analyst.xlsx',
+      expect.objectContaining({ uploadedBy: 'user-1' }),
+    );
+  });
+
+  it('should not join ambiguous CustomerIDs', async () => {
+    mockExcelService.parseAnalystPatterns.mockResolvedValue({
+      keyColumn: 'CustomerID',
+      rows: [row(2, { customerId: 'CUST004' }, true)],
+    });
+
+    const report = await service.importWorkbook(
+      'campaign-1',
+      Buffer.from('xlsx'),
+      'analyst.xlsx',
+    );
+
+    expect(report.matchedRows).toBe(0);
+    expect(report.unreadableRows[0].reason).toContain('matches 2 records');
+  });
+
+  it('should not write anything on a dry run', async () => {
+    mockExcelService.parseAnalystPatterns.mockResolvedValue({
+      keyColumn: 'DCM_ID',
+      rows: [row(2, { dcmId: 'DCM-2' }, true)],
+    });
+
+    const report = await service.importWorkbook(
+      'campaign-1',
+      Buffer.from('xlsx'),
+      'analyst.xlsx',
+      { dryRun: true },
+    );
+
+    expect(report.applied).toBe(false);
+    expect(report.disagreements).toHaveLength(1);
+    expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    expect(mockStorageService.uploadAnalystPatterns).not.toHaveBeenCalled();
+  });
+
+  it('should reject unreadable workbooks', async () => {
+    mockExcelService.parseAnalystPatterns.mockRejectedValue(
+      new Error('No Pattern column found in analyst workbook'),
+    );
+
+    await expect(
+      service.importWorkbook('campaign-1', Buffer.from('x'), 'analyst.xlsx'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should throw for unknown campaigns', async () => {
+    mockCampaignRepository.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.importWorkbook('missing', Buffer.from('x'), 'analyst.xlsx'),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
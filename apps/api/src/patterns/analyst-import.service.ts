@@ -0,0 +1,321 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import type { PatternRuleSet } from '@matchback/types';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import {
+  ExcelService,
+  AnalystPatternRow,
+  ParsedAnalystPatterns,
+} from '../storage/excel.service';
+import { StorageService } from '../storage/storage.service';
+import { getStoredVisitDates } from '../matching/utils/client-record.mapper';
+import { PatternAnalysisService } from './pattern-analysis.service';
+import { PatternCorrectionService } from './pattern-correction.service';
+import { PatternRuleSetsService } from './pattern-rule-sets.service';
+
+/**
+ * patternOverride written for analyst-imported results
+ */
+export const ANALYST_IMPORT_OVERRIDE = 'ANALYST_IMPORT';
+
+/**
+ * Maximum analyst workbook size (50 MB, same as client uploads)
+ */
+export const MAX_ANALYST_WORKBOOK_SIZE = 50 * 1024 * 1024;
+
+export interface AnalystPatternDiff {
+  rowNumber: number;
+  dcmId: string;
+  customerId: string | null;
+  analystInPattern: boolean;
+  computedInPattern: boolean;
+  computedOverride: string | null;
+}
+
+export interface AnalystImportReport {
+  campaignId: string;
+  fileId: string | null; // null for dry runs
+  applied: boolean;
+  keyColumn: 'DCM_ID' | 'CustomerID';
+  ruleSet: Pick<PatternRuleSet, 'id' | 'name' | 'version'>;
+  totalRows: number;
+  matchedRows: number;
+  unmatchedRows: { rowNumber: number; dcmId?: string; customerId?: string }[];
+  unreadableRows: {
+    rowNumber: number;
+    dcmId?: string;
+    customerId?: string;
+    reason: string;
+  }[];
+  colorConflicts: number;
+  agreements: number;
+  disagreements: AnalystPatternDiff[];
+  summary: {
+    analystInPattern: number;
+    analystOutOfPattern: number;
+    computedInPattern: number;
+    computedOutOfPattern: number;
+  };
+}
+
+/**
+ * Analyst Import Service
+ *
+ * Imports pattern results returned by the external analyst:
+ * 1. Read the color-coded Pattern column (ExcelService.parseAnalystPatterns)
+ * 2. Join rows to MatchRecords on DCM_ID, else CustomerID
+ * 3. Recompute each record with PatternAnalysisService/PatternCorrectionService
+ *    under the campaign's rule set and diff the two results
+ * 4. Write inPattern with patternOverride = 'ANALYST_IMPORT'
+ *
+ * The analyst's result always wins; the diff report shows where our own
+ * rules would have decided differently. Dry runs skip steps 4 and storage.
+ */
+@Injectable()
+export class AnalystImportService {
+  private readonly logger = new Logger(AnalystImportService.name);
+
+  constructor(
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(MatchRecord)
+    private readonly matchRecordRepository: Repository<MatchRecord>,
+    private readonly dataSource: DataSource,
+    private readonly excelService: ExcelService,
+    private readonly storageService: StorageService,
+    private readonly patternAnalysis: PatternAnalysisService,
+    private readonly patternCorrection: PatternCorrectionService,
+    private readonly patternRuleSets: PatternRuleSetsService,
+  ) {}
+
+  /**
+   * Import an analyst workbook for a campaign
+   */
+  async importWorkbook(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string,
+    options: { dryRun?: boolean; uploadedBy?: string } = {},
+  ): Promise<AnalystImportReport> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID ${campaignId} not found`);
+    }
+
+    let parsed: ParsedAnalystPatterns;
+    try {
+      parsed = await this.excelService.parseAnalystPatterns(buffer);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid analyst workbook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    const records = await this.matchRecordRepository.find({
+      where: { campaignId },
+    });
+    const rules = await this.patternRuleSets.resolveForCampaign(campaignId);
+
+    const report: AnalystImportReport = {
+      campaignId,
+      fileId: null,
+      applied: false,
+      keyColumn: parsed.keyColumn,
+      ruleSet: { id: rules.id, name: rules.name, version: rules.version },
+      totalRows: parsed.rows.length,
+      matchedRows: 0,
+      unmatchedRows: [],
+      unreadableRows: [],
+      colorConflicts: parsed.rows.filter((row) => row.colorConflict).length,
+      agreements: 0,
+      disagreements: [],
+      summary: {
+        analystInPattern: 0,
+        analystOutOfPattern: 0,
+        computedInPattern: 0,
+        computedOutOfPattern: 0,
+      },
+    };
+
+    const updates = new Map<string, boolean>();
+    const join = this.buildJoin(records);
+
+    for (const row of parsed.rows) {
+      if (row.inPattern === null) {
+        report.unreadableRows.push({
+          rowNumber: row.rowNumber,
+          dcmId: row.dcmId,
+          customerId: row.customerId,
+          reason: 'Pattern cell has no recognizable value or fill color',
+        });
+        continue;
+      }
+
+      const { record, reason } = join(row);
+
+      if (!record) {
+        if (reason) {
+          report.unreadableRows.push({
+            rowNumber: row.rowNumber,
+            dcmId: row.dcmId,
+            customerId: row.customerId,
+            reason,
+          });
+        } else {
+          report.unmatchedRows.push({
+            rowNumber: row.rowNumber,
+            dcmId: row.dcmId,
+            customerId: row.customerId,
+          });
+        }
+        continue;
+      }
+
+      if (updates.has(record.dcmId)) {
+        report.unreadableRows.push({
+          rowNumber: row.rowNumber,
+          dcmId: row.dcmId,
+          customerId: row.customerId,
+          reason: `Duplicate row for ${record.dcmId}`,
+        });
+        continue;
+      }
+
+      const computed = this.computePattern(record, rules, campaign.dropDate);
+
+      report.matchedRows++;
+      report.summary[
+        row.inPattern ? 'analystInPattern' : 'analystOutOfPattern'
+      ]++;
+      report.summary[
+        computed.inPattern ? 'computedInPattern' : 'computedOutOfPattern'
+      ]++;
+
+      if (computed.inPattern === row.inPattern) {
+        report.agreements++;
+      } else {
+        report.disagreements.push({
+          rowNumber: row.rowNumber,
+          dcmId: record.dcmId,
+          customerId: record.customerId,
+          analystInPattern: row.inPattern,
+          computedInPattern: computed.inPattern,
+          computedOverride: computed.patternOverride,
+        });
+      }
+
+      updates.set(record.dcmId, row.inPattern);
+    }
+
+    if (options.dryRun) {
+      return report;
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(MatchRecord);
+
+      for (const [dcmId, inPattern] of updates) {
+        await repository.update(
+          { campaignId, dcmId },
+          { inPattern, patternOverride: ANALYST_IMPORT_OVERRIDE },
+        );
+      }
+    });
+
+    const { file } = await this.storageService.uploadAnalystPatterns(
+      campaignId,
+      buffer,
+      filename,
+      { recordCount: parsed.rows.length, uploadedBy: options.uploadedBy },
+    );
+
+    this.logger.log(
+      `Analyst patterns imported for campaign ${campaignId}: ${updates.size} records updated, ` +
+        `${report.disagreements.length} differ from rules "${rules.name}" v${rules.version}`,
+    );
+
+    return { ...report, fileId: file.id, applied: true };
+  }
+
+  /**
+   * Row -> MatchRecord lookup (DCM_ID first, then CustomerID)
+   * A CustomerID shared by several records cannot be joined safely.
+   */
+  private buildJoin(
+    records: MatchRecord[],
+  ): (row: AnalystPatternRow) => { record?: MatchRecord; reason?: string } {
+    const byDcmId = new Map(records.map((record) => [record.dcmId, record]));
+    const byCustomerId = new Map<string, MatchRecord[]>();
+
+    for (const record of records) {
+      if (!record.customerId) continue; // Cleared by a PII purge
+      const matches = byCustomerId.get(record.customerId) || [];
+      matches.push(record);
+      byCustomerId.set(record.customerId, matches);
+    }
+
+    return (row) => {
+      if (row.dcmId && byDcmId.has(row.dcmId)) {
+        return { record: byDcmId.get(row.dcmId) };
+      }
+
+      const matches = row.customerId ? byCustomerId.get(row.customerId) : null;
+      if (!matches) {
+        return {};
+      }
+      if (matches.length > 1) {
+        return {
+          reason: `CustomerID ${row.customerId} matches ${matches.length} records`,
+        };
+      }
+      return { record: matches[0] };
+    };
+  }
+
+  /**
+   * What our own rules decide for a stored record
+   */
+  private computePattern(
+    record: MatchRecord,
+    rules: PatternRuleSet,
+    dropDate: Date,
+  ): { inPattern: boolean; patternOverride: string | null } {
+    const analyzed = this.patternAnalysis.analyzePattern(
+      {
+        id: record.id,
+        dcmId: record.dcmId,
+        customerId: record.customerId,
+        signupDate: record.signupDate,
+        totalVisits: record.totalVisits,
+        visit1Date: record.visit1Date ?? undefined,
+        visitDates: getStoredVisitDates(record.rawData, record.visit1Date),
+        matched: record.matched,
+        campaignId: record.campaignId,
+        market: record.market,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      },
+      rules,
+      new Date(dropDate),
+    );
+    const corrected = this.patternCorrection.correctPatternFlaws(
+      analyzed,
+      rules,
+    );
+
+    return {
+      inPattern: corrected.inPattern === true,
+      patternOverride: corrected.patternOverride ?? null,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsInt,
+  Min,
+  IsBoolean,
+  IsArray,
+  IsIn,
+} from 'class-validator';
+import type {
+  PatternCorrectionType,
+  PatternDetectionMode,
+} from '@matchback/types';
+import {
+  PATTERN_CORRECTIONS,
+  PATTERN_DETECTION_MODES,
+} from '../pattern-rule-sets.service';
+
+export class CreatePatternRuleSetDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsUUID()
+  campaignId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  billingNumber?: string;
+
+  @IsOptional()
+  @IsIn(PATTERN_DETECTION_MODES)
+  mode?: PatternDetectionMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  visitThreshold?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  windowDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  requireVisit1Date?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(PATTERN_CORRECTIONS, { each: true })
+  corrections?: PatternCorrectionType[];
+
+  @IsOptional()
+  @IsString()
+  createdBy?: string;
+}
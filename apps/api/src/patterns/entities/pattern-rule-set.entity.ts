@@ -0,0 +1,57 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import type {
+  PatternCorrectionType,
+  PatternDetectionMode,
+} from '@matchback/types';
+
+/**
+ * Versioned pattern rules for a campaign or a client (billing number).
+ * Rows are never updated - saving changes creates the next version,
+ * so MatchRecords can always be traced back to the rules that produced them.
+ */
+@Entity('pattern_rule_sets')
+@Index('IDX_pattern_rule_sets_campaignId', ['campaignId'])
+@Index('IDX_pattern_rule_sets_billingNumber', ['billingNumber'])
+export class PatternRuleSet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'uuid', nullable: true })
+  campaignId: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  billingNumber: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'visit-count' })
+  mode: PatternDetectionMode;
+
+  @Column({ type: 'int', default: 3 })
+  visitThreshold: number;
+
+  @Column({ type: 'int', default: 30 })
+  windowDays: number;
+
+  @Column({ type: 'boolean', default: true })
+  requireVisit1Date: boolean;
+
+  @Column({ type: 'jsonb' })
+  corrections: PatternCorrectionType[];
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -1,5 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { PatternAnalysisService } from './pattern-analysis.service';
+import {
+  PatternAnalysisService,
+  DEFAULT_PATTERN_RULE_SET,
+} from './pattern-analysis.service';
 import { MatchRecord } from '@matchback/types';
 
 describe('PatternAnalysisService', () => {
@@ -196,6 +199,178 @@ describe('PatternAnalysisService', () => {
     });
   });
 
+  describe('rule sets', () => {
+    const baseRecord: MatchRecord = {
+      id: '10',
+      dcmId: 'TEST-010-12345-00010',
+      customerId: 'CUST010',
+      signupDate: new Date('2024-01-01'),
+      visit1Date: new Date('2024-09-01'),
+      totalVisits: 3,
+      matched: true,
+      campaignId: 'campaign-1',
+      market: 'Boston',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should stamp the default rule set on analyzed records', () => {
+      const result = service.analyzePattern(baseRecord);
+
+      expect(result.patternRuleSetId).toBeNull();
+      expect(result.patternRuleSetVersion).toBe(0);
+    });
+
+    it('should use the rule set visit threshold', () => {
+      const rules = {
+        ...DEFAULT_PATTERN_RULE_SET,
+        id: 'rules-1',
+        version: 2,
+        visitThreshold: 4,
+      };
+
+      const result = service.analyzePattern(baseRecord, rules);
+
+      expect(result.inPattern).toBe(false);
+      expect(result.patternRuleSetId).toBe('rules-1');
+      expect(result.patternRuleSetVersion).toBe(2);
+    });
+
+    it('should only count visit dates inside the window', () => {
+      const record = {
+        ...baseRecord,
+        visitDates: [
+          new Date('2024-09-01'),
+          new Date('2024-09-05'),
+          new Date('2024-09-20'),
+        ],
+      };
+
+      expect(service.analyzePattern(record).inPattern).toBe(true);
+      expect(
+        service.analyzePattern(record, {
+          ...DEFAULT_PATTERN_RULE_SET,
+          windowDays: 7,
+        }).inPattern,
+      ).toBe(false);
+    });
+
+    it('should use totalVisits when visit dates are incomplete', () => {
+      const record = {
+        ...baseRecord,
+        visitDates: [new Date('2024-09-01')],
+      };
+
+      expect(service.analyzePattern(record).inPattern).toBe(true);
+    });
+
+    it('should allow records without visit1Date when not required', () => {
+      const record = { ...baseRecord, visit1Date: undefined };
+
+      expect(service.analyzePattern(record).inPattern).toBe(false);
+      expect(
+        service.analyzePattern(record, {
+          ...DEFAULT_PATTERN_RULE_SET,
+          requireVisit1Date: false,
+        }).inPattern,
+      ).toBe(true);
+    });
+  });
+
+  describe('visit-cadence mode', () => {
+    const rules = {
+      ...DEFAULT_PATTERN_RULE_SET,
+      mode: 'visit-cadence' as const,
+    };
+    const dropDate = new Date('2024-09-01');
+
+    const withVisits = (dates: string[]): MatchRecord => ({
+      id: '30',
+      dcmId: 'TEST-030-12345-00030',
+      customerId: 'CUST030',
+      signupDate: new Date('2024-01-01'),
+      visit1Date: new Date(dates[0]),
+      visitDates: dates.map((date) => new Date(date)),
+      totalVisits: dates.length,
+      matched: true,
+      campaignId: 'campaign-1',
+      market: 'Boston',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    it('should mark a regular cadence that continues after the drop as IN pattern', () => {
+      const record = withVisits([
+        '2024-07-01',
+        '2024-07-15',
+        '2024-07-29',
+        '2024-08-12',
+        '2024-08-26',
+        '2024-09-09',
+      ]);
+
+      const result = service.analyzePattern(record, rules, dropDate);
+
+      expect(result.inPattern).toBe(true);
+      expect(result.patternOverride).toBe('VISIT_CADENCE');
+    });
+
+    it('should mark visits accelerating after the drop as OUT of pattern', () => {
+      const record = withVisits([
+        '2024-06-01',
+        '2024-06-29',
+        '2024-07-27',
+        '2024-08-24',
+        '2024-09-02',
+        '2024-09-05',
+        '2024-09-08',
+      ]);
+
+      const result = service.analyzePattern(record, rules, dropDate);
+
+      expect(result.inPattern).toBe(false);
+    });
+
+    it('should mark customers without a cadence before the drop as OUT of pattern', () => {
+      // Count rule would say IN (3 visits within 30 days)
+      const record = withVisits(['2024-09-02', '2024-09-04', '2024-09-06']);
+
+      expect(service.analyzePattern(record).inPattern).toBe(true);
+      expect(service.analyzePattern(record, rules, dropDate).inPattern).toBe(
+        false,
+      );
+    });
+
+    it('should mark irregular visits before the drop as OUT of pattern', () => {
+      const record = withVisits([
+        '2024-08-01',
+        '2024-08-02',
+        '2024-08-28',
+        '2024-08-29',
+      ]);
+
+      const cadence = service.getVisitCadence(record, dropDate, rules);
+
+      expect(cadence?.regular).toBe(false);
+      expect(service.analyzePattern(record, rules, dropDate).inPattern).toBe(
+        false,
+      );
+    });
+
+    it('should fall back to the count rule without a visit timeline', () => {
+      const record = {
+        ...withVisits(['2024-09-02']),
+        visitDates: undefined,
+        totalVisits: 4,
+      };
+
+      const result = service.analyzePattern(record, rules, dropDate);
+
+      expect(result.inPattern).toBe(true);
+      expect(result.patternOverride).toBeUndefined();
+    });
+  });
+
   describe('getPatternStatistics', () => {
     it('should calculate pattern statistics correctly', () => {
       const records: MatchRecord[] = [
@@ -1,5 +1,37 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { MatchRecord } from '@matchback/types';
+import { MatchRecord, PatternRuleSet } from '@matchback/types';
+
+/**
+ * Built-in rules used when no rule set is configured
+ * for the campaign or its client
+ */
+export const DEFAULT_PATTERN_RULE_SET: PatternRuleSet = {
+  id: null,
+  name: 'Default',
+  version: 0,
+  mode: 'visit-count',
+  visitThreshold: 3,
+  windowDays: 30,
+  requireVisit1Date: true,
+  corrections: ['NEW_SIGNUP_CORRECTION'],
+};
+
+/**
+ * Allowed spread of visit intervals (coefficient of variation) for a
+ * visit history to count as a regular cadence, and how much shorter the
+ * post-drop interval may get before the customer counts as accelerated
+ */
+export const CADENCE_TOLERANCE = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VisitCadence {
+  visitsBeforeDrop: number;
+  visitsAfterDrop: number;
+  intervalBeforeDrop: number | null; // Median days between visits
+  intervalAfterDrop: number | null;
+  regular: boolean; // Pre-drop visits follow a regular interval
+}
 
 /**
  * Pattern Analysis Service
@@ -8,6 +40,20 @@ import { MatchRecord } from '@matchback/types';
  * - 3+ visits in a month = "In Pattern" (regular customer)
  * - Less than 3 visits = "Out of Pattern" (campaign influenced)
  *
+ * Threshold, window and missing-visit handling come from the rule set
+ * (see PatternRuleSetsService); the defaults above match the rule above.
+ * The rule set id/version is stamped on every analyzed record.
+ *
+ * Visit-cadence mode (rule set mode 'visit-cadence') uses the full visit
+ * timeline instead of a count:
+ * - IN pattern: a regular cadence (visitThreshold+ visits, at least every
+ *   windowDays) before the drop date that continues after it
+ * - OUT of pattern: no regular cadence before the drop, or visits after
+ *   the drop noticeably faster than before (campaign lift)
+ * Records with fewer than two dated visits, or analyzed without a drop
+ * date, fall back to the count rule. Cadence results are marked with
+ * patternOverride = 'VISIT_CADENCE'.
+ *
  * IMPORTANT: This service applies the BASE rule only.
  * Pattern correction (for new signup flaws) happens in PatternCorrectionService.
  */
@@ -19,15 +65,46 @@ export class PatternAnalysisService {
    * Analyze pattern for a single match record
    * Base rule: 3+ visits = in pattern (regular customer, no campaign credit)
    */
-  analyzePattern(record: MatchRecord): MatchRecord {
-    const inPattern = this.isInPattern(record.totalVisits, record.visit1Date);
+  analyzePattern(
+    record: MatchRecord,
+    rules: PatternRuleSet = DEFAULT_PATTERN_RULE_SET,
+    dropDate?: Date,
+  ): MatchRecord {
+    const stamp = {
+      patternRuleSetId: rules.id,
+      patternRuleSetVersion: rules.version,
+    };
+
+    if (rules.mode === 'visit-cadence' && dropDate) {
+      const cadence = this.getVisitCadence(record, dropDate, rules);
+
+      if (cadence) {
+        const inPattern = this.isCadenceInPattern(cadence);
+
+        this.logger.debug(
+          `Cadence analysis for ${record.dcmId}: ${cadence.visitsBeforeDrop} visits before drop ` +
+            `(every ${cadence.intervalBeforeDrop ?? '-'} days), ${cadence.visitsAfterDrop} after ` +
+            `(every ${cadence.intervalAfterDrop ?? '-'} days) -> ${inPattern ? 'IN' : 'OUT OF'} pattern`,
+        );
+
+        return {
+          ...record,
+          ...stamp,
+          inPattern,
+          patternOverride: 'VISIT_CADENCE',
+        };
+      }
+    }
+
+    const inPattern = this.isInPattern(record, rules);
 
     this.logger.debug(
-      `Pattern analysis for ${record.dcmId}: ${record.totalVisits} visits -> ${inPattern ? 'IN' : 'OUT OF'} pattern`
+      `Pattern analysis for ${record.dcmId}: ${record.totalVisits} visits -> ${inPattern ? 'IN' : 'OUT OF'} pattern`,
     );
 
     return {
       ...record,
+      ...stamp,
       inPattern,
     };
   }
@@ -35,16 +112,24 @@ export class PatternAnalysisService {
   /**
    * Batch process multiple records
    */
-  analyzePatterns(records: MatchRecord[]): MatchRecord[] {
-    this.logger.log(`Analyzing patterns for ${records.length} records`);
+  analyzePatterns(
+    records: MatchRecord[],
+    rules: PatternRuleSet = DEFAULT_PATTERN_RULE_SET,
+    dropDate?: Date,
+  ): MatchRecord[] {
+    this.logger.log(
+      `Analyzing patterns for ${records.length} records (rules: ${rules.name} v${rules.version})`,
+    );
 
-    const analyzed = records.map(record => this.analyzePattern(record));
+    const analyzed = records.map((record) =>
+      this.analyzePattern(record, rules, dropDate),
+    );
 
-    const inPatternCount = analyzed.filter(r => r.inPattern).length;
-    const outPatternCount = analyzed.filter(r => !r.inPattern).length;
+    const inPatternCount = analyzed.filter((r) => r.inPattern).length;
+    const outPatternCount = analyzed.filter((r) => !r.inPattern).length;
 
     this.logger.log(
-      `Pattern analysis complete: ${inPatternCount} in pattern, ${outPatternCount} out of pattern`
+      `Pattern analysis complete: ${inPatternCount} in pattern, ${outPatternCount} out of pattern`,
     );
 
     return analyzed;
@@ -52,18 +137,146 @@ export class PatternAnalysisService {
 
   /**
    * Base pattern detection logic
-   * 3+ visits = in pattern (regular customer)
+   * visitThreshold+ visits within the window = in pattern (regular customer)
    *
    * Note: This is the BASE rule. Pattern correction may override this result.
    */
-  private isInPattern(totalVisits: number, visit1Date?: Date): boolean {
+  private isInPattern(record: MatchRecord, rules: PatternRuleSet): boolean {
+    // Without visit1Date the pattern cannot be placed in time
+    if (!record.visit1Date && rules.requireVisit1Date) {
+      return false;
+    }
+
+    const visits = this.countVisitsInWindow(record, rules.windowDays);
+
     // If no visit data available, cannot determine pattern
-    if (!visit1Date || totalVisits === 0) {
+    if (visits === 0) {
+      return false;
+    }
+
+    return visits >= rules.visitThreshold;
+  }
+
+  /**
+   * Count visits inside the window starting at the first visit
+   * totalVisits is used as-is when individual visit dates are not known,
+   * or cover fewer visits than totalVisits (e.g. only Visit1 provided)
+   */
+  private countVisitsInWindow(record: MatchRecord, windowDays: number): number {
+    const visitTimes = this.getVisitTimes(record);
+
+    if (
+      visitTimes.length === 0 ||
+      visitTimes.length < (record.totalVisits || 0)
+    ) {
+      return record.totalVisits || 0;
+    }
+
+    const windowEnd = visitTimes[0] + windowDays * DAY_MS;
+    return visitTimes.filter((time) => time <= windowEnd).length;
+  }
+
+  /**
+   * Describe a record's visit timeline around the drop date
+   * Returns null when there are fewer than two dated visits
+   */
+  getVisitCadence(
+    record: MatchRecord,
+    dropDate: Date,
+    rules: PatternRuleSet = DEFAULT_PATTERN_RULE_SET,
+  ): VisitCadence | null {
+    const visitTimes = this.getVisitTimes(record);
+
+    if (visitTimes.length < 2) {
+      return null;
+    }
+
+    const dropTime = new Date(dropDate).getTime();
+    const before = visitTimes.filter((time) => time < dropTime);
+    const after = visitTimes.filter((time) => time >= dropTime);
+
+    const intervalsBefore = this.getIntervals(before);
+    // The first post-drop interval is measured from the last visit before it
+    const intervalsAfter = this.getIntervals(
+      before.length > 0 ? [before[before.length - 1], ...after] : after,
+    );
+
+    const intervalBeforeDrop = this.median(intervalsBefore);
+
+    return {
+      visitsBeforeDrop: before.length,
+      visitsAfterDrop: after.length,
+      intervalBeforeDrop,
+      intervalAfterDrop: this.median(intervalsAfter),
+      regular:
+        before.length >= rules.visitThreshold &&
+        intervalBeforeDrop !== null &&
+        intervalBeforeDrop <= rules.windowDays &&
+        this.variation(intervalsBefore) <= CADENCE_TOLERANCE,
+    };
+  }
+
+  /**
+   * Cadence rule: regular before the drop and not accelerated after it
+   */
+  private isCadenceInPattern(cadence: VisitCadence): boolean {
+    if (!cadence.regular || cadence.intervalBeforeDrop === null) {
       return false;
     }
 
-    // Base rule: 3 or more visits = in pattern (regular customer)
-    return totalVisits >= 3;
+    // No visits after the drop - nothing for the campaign to claim
+    if (cadence.intervalAfterDrop === null || cadence.visitsAfterDrop === 0) {
+      return true;
+    }
+
+    return (
+      cadence.intervalAfterDrop >=
+      cadence.intervalBeforeDrop * (1 - CADENCE_TOLERANCE)
+    );
+  }
+
+  /**
+   * Sorted timestamps of the record's dated visits
+   */
+  private getVisitTimes(record: MatchRecord): number[] {
+    return (record.visitDates || [])
+      .map((date) => new Date(date).getTime())
+      .filter((time) => !isNaN(time))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Days between consecutive visits
+   */
+  private getIntervals(times: number[]): number[] {
+    return times.slice(1).map((time, i) => (time - times[i]) / DAY_MS);
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  /**
+   * Coefficient of variation (0 = perfectly regular)
+   */
+  private variation(values: number[]): number {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    if (!mean) {
+      return Infinity;
+    }
+
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance) / mean;
   }
 
   /**
@@ -78,9 +291,9 @@ export class PatternAnalysisService {
     percentageOutOfPattern: number;
   } {
     const total = records.length;
-    const inPattern = records.filter(r => r.inPattern === true).length;
-    const outOfPattern = records.filter(r => r.inPattern === false).length;
-    const noVisitData = records.filter(r => r.inPattern === undefined).length;
+    const inPattern = records.filter((r) => r.inPattern === true).length;
+    const outOfPattern = records.filter((r) => r.inPattern === false).length;
+    const noVisitData = records.filter((r) => r.inPattern === undefined).length;
 
     return {
       total,
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PatternCorrectionService } from './pattern-correction.service';
 import { MatchRecord } from '@matchback/types';
+import { DEFAULT_PATTERN_RULE_SET } from './pattern-analysis.service';
 
 describe('PatternCorrectionService', () => {
   let service: PatternCorrectionService;
@@ -201,6 +202,45 @@ describe('PatternCorrectionService', () => {
     });
   });
 
+  describe('correctPatternFlaws - rule sets', () => {
+    const newSignup: MatchRecord = {
+      id: '20',
+      dcmId: 'TEST-020-12345-00020',
+      customerId: 'CUST020',
+      signupDate: new Date('2024-09-01'),
+      visit1Date: new Date('2024-09-15'),
+      totalVisits: 3,
+      matched: true,
+      inPattern: true,
+      campaignId: 'campaign-1',
+      market: 'Boston',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should NOT correct when the rule set disables the correction', () => {
+      const result = service.correctPatternFlaws(newSignup, {
+        ...DEFAULT_PATTERN_RULE_SET,
+        corrections: [],
+      });
+
+      expect(result.inPattern).toBe(true);
+      expect(result.patternOverride).toBeUndefined();
+    });
+
+    it('should use the rule set visit threshold', () => {
+      const rules = { ...DEFAULT_PATTERN_RULE_SET, visitThreshold: 5 };
+
+      expect(service.correctPatternFlaws(newSignup, rules).inPattern).toBe(
+        true,
+      );
+      expect(
+        service.correctPatternFlaws({ ...newSignup, totalVisits: 5 }, rules)
+          .patternOverride,
+      ).toBe('NEW_SIGNUP_CORRECTION');
+    });
+  });
+
   describe('correctPatternFlawsBatch', () => {
     it('should correct multiple records in batch', () => {
       const records: MatchRecord[] = [
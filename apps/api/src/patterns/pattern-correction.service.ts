@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { MatchRecord } from '@matchback/types';
+import { MatchRecord, PatternRuleSet } from '@matchback/types';
+import { DEFAULT_PATTERN_RULE_SET } from './pattern-analysis.service';
 
 /**
  * Pattern Correction Service
@@ -10,6 +11,8 @@ import { MatchRecord } from '@matchback/types';
  * - New signups with 3+ visits in the same month as signup MUST be "Out of Pattern"
  * - This overrides the base pattern detection rule
  * - Essential for accurate campaign attribution
+ * - Skipped when the rule set does not list NEW_SIGNUP_CORRECTION;
+ *   "3+ visits" follows the rule set's visit threshold
  *
  * Why this correction is needed:
  * - A new customer signing up during campaign month is campaign-influenced
@@ -25,7 +28,15 @@ export class PatternCorrectionService {
    *
    * CRITICAL LOGIC - DO NOT MODIFY
    */
-  correctPatternFlaws(record: MatchRecord): MatchRecord {
+  correctPatternFlaws(
+    record: MatchRecord,
+    rules: PatternRuleSet = DEFAULT_PATTERN_RULE_SET
+  ): MatchRecord {
+    // Correction disabled by the rule set
+    if (!rules.corrections.includes('NEW_SIGNUP_CORRECTION')) {
+      return record;
+    }
+
     // Only correct if record is currently marked as "in pattern"
     if (!record.inPattern) {
       return record;
@@ -46,7 +57,7 @@ export class PatternCorrectionService {
     if (
       signupYear === visitYear &&
       signupMonth === visitMonth &&
-      record.totalVisits >= 3 &&
+      record.totalVisits >= rules.visitThreshold &&
       record.inPattern === true
     ) {
       this.logger.warn(
@@ -66,12 +77,17 @@ export class PatternCorrectionService {
   /**
    * Batch correct pattern flaws for multiple records
    */
-  correctPatternFlawsBatch(records: MatchRecord[]): MatchRecord[] {
+  correctPatternFlawsBatch(
+    records: MatchRecord[],
+    rules: PatternRuleSet = DEFAULT_PATTERN_RULE_SET
+  ): MatchRecord[] {
     this.logger.log(
       `Applying pattern flaw correction to ${records.length} records`
     );
 
-    const corrected = records.map(record => this.correctPatternFlaws(record));
+    const corrected = records.map(record =>
+      this.correctPatternFlaws(record, rules)
+    );
 
     // Count corrections
     const correctionCount = corrected.filter(
@@ -147,12 +163,19 @@ export class PatternCorrectionService {
    * Validate that correction logic was applied correctly
    * Returns true if all records are correctly classified
    */
-  validateCorrections(records: MatchRecord[]): {
+  validateCorrections(
+    records: MatchRecord[],
+    rules: PatternRuleSet = DEFAULT_PATTERN_RULE_SET
+  ): {
     isValid: boolean;
     errors: string[];
   } {
     const errors: string[] = [];
 
+    if (!rules.corrections.includes('NEW_SIGNUP_CORRECTION')) {
+      return { isValid: true, errors };
+    }
+
     records.forEach(record => {
       // Skip records without visit data
       if (!record.visit1Date) {
@@ -168,7 +191,7 @@ export class PatternCorrectionService {
       if (
         signupYear === visitYear &&
         signupMonth === visitMonth &&
-        record.totalVisits >= 3 &&
+        record.totalVisits >= rules.visitThreshold &&
         record.inPattern === true &&
         record.patternOverride !== 'NEW_SIGNUP_CORRECTION'
       ) {
@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { PatternRuleSetsService } from './pattern-rule-sets.service';
+import { CreatePatternRuleSetDto } from './dto/create-pattern-rule-set.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('pattern-rules')
+@Roles('admin')
+export class PatternRuleSetsController {
+  constructor(private readonly ruleSetsService: PatternRuleSetsService) {}
+
+  /**
+   * POST /pattern-rules
+   * Create the next rule set version for a campaign or client
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreatePatternRuleSetDto) {
+    return this.ruleSetsService.create(dto);
+  }
+
+  /**
+   * GET /pattern-rules
+   * List rule set versions, optionally for one campaign or client
+   */
+  @Get()
+  async findAll(
+    @Query('campaignId') campaignId?: string,
+    @Query('billingNumber') billingNumber?: string,
+  ) {
+    return this.ruleSetsService.findAll({ campaignId, billingNumber });
+  }
+
+  /**
+   * GET /pattern-rules/campaign/:campaignId
+   * Rules currently applied to a campaign
+   */
+  @Get('campaign/:campaignId')
+  async findForCampaign(@Param('campaignId') campaignId: string) {
+    return this.ruleSetsService.resolveForCampaign(campaignId);
+  }
+
+  /**
+   * GET /pattern-rules/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.ruleSetsService.findOne(id);
+  }
+}
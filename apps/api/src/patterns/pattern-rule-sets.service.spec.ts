@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PatternRuleSetsService } from './pattern-rule-sets.service';
+import { PatternRuleSet } from './entities/pattern-rule-set.entity';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { DEFAULT_PATTERN_RULE_SET } from './pattern-analysis.service';
+
+describe('PatternRuleSetsService', () => {
+  let service: PatternRuleSetsService;
+
+  const mockRuleSetRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'rules-1', ...data })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockCampaignRepository = {
+    findOne: jest.fn(),
+    exists: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PatternRuleSetsService,
+        {
+          provide: getRepositoryToken(PatternRuleSet),
+          useValue: mockRuleSetRepository,
+        },
+        {
+          provide: getRepositoryToken(Campaign),
+          useValue: mockCampaignRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PatternRuleSetsService>(PatternRuleSetsService);
+
+    mockCampaignRepository.findOne.mockResolvedValue({
+      id: 'campaign-1',
+      billingNumber: 'TIDE123',
+    });
+    mockCampaignRepository.exists.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create version 1 with default values', async () => {
+      mockRuleSetRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.create({
+        name: 'Tide rules',
+        billingNumber: 'TIDE123',
+      });
+
+      expect(result).toMatchObject({
+        version: 1,
+        billingNumber: 'TIDE123',
+        campaignId: null,
+        mode: 'visit-count',
+        visitThreshold: 3,
+        windowDays: 30,
+        requireVisit1Date: true,
+        corrections: ['NEW_SIGNUP_CORRECTION'],
+      });
+    });
+
+    it('should create the next version for an existing scope', async () => {
+      mockRuleSetRepository.findOne.mockResolvedValue({ version: 2 });
+
+      const result = await service.create({
+        name: 'Campaign rules',
+        campaignId: 'campaign-1',
+        visitThreshold: 4,
+      });
+
+      expect(mockRuleSetRepository.findOne).toHaveBeenCalledWith({
+        where: { campaignId: 'campaign-1' },
+        order: { version: 'DESC' },
+      });
+      expect(result.version).toBe(3);
+      expect(result.visitThreshold).toBe(4);
+    });
+
+    it('should require exactly one scope', async () => {
+      await expect(service.create({ name: 'No scope' })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.create({
+          name: 'Both',
+          campaignId: 'campaign-1',
+          billingNumber: 'TIDE123',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject invalid thresholds and unknown corrections', async () => {
+      await expect(
+        service.create({
+          name: 'Bad',
+          billingNumber: 'TIDE123',
+          visitThreshold: 0,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create({
+          name: 'Bad',
+          billingNumber: 'TIDE123',
+          corrections: ['UNKNOWN' as any],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRuleSetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown modes', async () => {
+      await expect(
+        service.create({
+          name: 'Bad',
+          billingNumber: 'TIDE123',
+          mode: 'visit-frequency' as any,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject unknown campaigns', async () => {
+      mockCampaignRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        service.create({ name: 'Rules', campaignId: 'missing' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('resolveForCampaign', () => {
+    it('should prefer the campaign rule set', async () => {
+      const campaignRules = { id: 'rules-c', version: 1 };
+      mockRuleSetRepository.findOne.mockResolvedValueOnce(campaignRules);
+
+      const result = await service.resolveForCampaign('campaign-1');
+
+      expect(result).toBe(campaignRules);
+      expect(mockRuleSetRepository.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the client rule set', async () => {
+      const clientRules = { id: 'rules-b', version: 4 };
+      mockRuleSetRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(clientRules);
+
+      const result = await service.resolveForCampaign('campaign-1');
+
+      expect(result).toBe(clientRules);
+      expect(mockRuleSetRepository.findOne).toHaveBeenLastCalledWith({
+        where: { billingNumber: 'TIDE123' },
+        order: { version: 'DESC' },
+      });
+    });
+
+    it('should fall back to the default rules', async () => {
+      mockRuleSetRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.resolveForCampaign('campaign-1');
+
+      expect(result).toBe(DEFAULT_PATTERN_RULE_SET);
+    });
+
+    it('should use the client pattern defaults before the built-in rules', async () => {
+      mockRuleSetRepository.findOne.mockResolvedValue(null);
+      mockCampaignRepository.findOne.mockResolvedValueOnce({
+        id: 'campaign-1',
+        billingNumber: 'TIDE123',
+        client: {
+          name: 'Tide',
+          patternDefaults: { visitThreshold: 4, mode: 'visit-cadence' },
+        },
+      });
+
+      const result = await service.resolveForCampaign('campaign-1');
+
+      expect(result).toEqual({
+        ...DEFAULT_PATTERN_RULE_SET,
+        name: 'Tide defaults',
+        visitThreshold: 4,
+        mode: 'visit-cadence',
+      });
+      expect(result.id).toBeNull();
+    });
+
+    it('should throw for unknown campaigns', async () => {
+      mockCampaignRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.resolveForCampaign('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw when the rule set does not exist', async () => {
+      mockRuleSetRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
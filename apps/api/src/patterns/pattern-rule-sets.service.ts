@@ -0,0 +1,234 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import type {
+  PatternCorrectionType,
+  PatternDetectionMode,
+  PatternRuleSet as PatternRules,
+} from '@matchback/types';
+import { PatternRuleSet } from './entities/pattern-rule-set.entity';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { DEFAULT_PATTERN_RULE_SET } from './pattern-analysis.service';
+
+/**
+ * Corrections a rule set may enable
+ */
+export const PATTERN_CORRECTIONS: PatternCorrectionType[] = [
+  'NEW_SIGNUP_CORRECTION',
+];
+
+/**
+ * Supported pattern detection modes
+ */
+export const PATTERN_DETECTION_MODES: PatternDetectionMode[] = [
+  'visit-count',
+  'visit-cadence',
+];
+
+export interface CreatePatternRuleSetOptions {
+  name: string;
+  campaignId?: string;
+  billingNumber?: string;
+  mode?: PatternDetectionMode;
+  visitThreshold?: number;
+  windowDays?: number;
+  requireVisit1Date?: boolean;
+  corrections?: PatternCorrectionType[];
+  createdBy?: string;
+}
+
+/**
+ * Pattern Rule Sets Service
+ *
+ * Stores pattern rules per campaign or per client (billing number):
+ * - Detection mode (visit count or visit cadence around the drop date)
+ * - Visit threshold for "in pattern"
+ * - Window (days from first visit) the visits must fall in
+ * - Whether a missing visit1Date means out of pattern
+ * - Which corrections are applied
+ *
+ * Rule sets are immutable. Creating a rule set for a scope that already
+ * has one adds the next version; analysis always uses the latest
+ * (campaign scope first, then client, then the client's pattern
+ * defaults, then DEFAULT_PATTERN_RULE_SET).
+ */
+@Injectable()
+export class PatternRuleSetsService {
+  private readonly logger = new Logger(PatternRuleSetsService.name);
+
+  constructor(
+    @InjectRepository(PatternRuleSet)
+    private readonly ruleSetRepository: Repository<PatternRuleSet>,
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+  ) {}
+
+  /**
+   * Create the next version of a campaign's or client's rules
+   */
+  async create(options: CreatePatternRuleSetOptions): Promise<PatternRuleSet> {
+    const { campaignId, billingNumber } = options;
+
+    if (!!campaignId === !!billingNumber) {
+      throw new BadRequestException(
+        'A rule set must be scoped to exactly one of campaignId or billingNumber',
+      );
+    }
+
+    const ruleSet = this.ruleSetRepository.create({
+      name: options.name,
+      campaignId: campaignId ?? null,
+      billingNumber: billingNumber ?? null,
+      mode: options.mode ?? DEFAULT_PATTERN_RULE_SET.mode,
+      visitThreshold:
+        options.visitThreshold ?? DEFAULT_PATTERN_RULE_SET.visitThreshold,
+      windowDays: options.windowDays ?? DEFAULT_PATTERN_RULE_SET.windowDays,
+      requireVisit1Date:
+        options.requireVisit1Date ?? DEFAULT_PATTERN_RULE_SET.requireVisit1Date,
+      corrections: options.corrections ?? [
+        ...DEFAULT_PATTERN_RULE_SET.corrections,
+      ],
+      createdBy: options.createdBy ?? null,
+    });
+
+    this.validate(ruleSet);
+
+    if (campaignId) {
+      const exists = await this.campaignRepository.exists({
+        where: { id: campaignId },
+      });
+      if (!exists) {
+        throw new NotFoundException(`Campaign with ID ${campaignId} not found`);
+      }
+    }
+
+    const latest = await this.findLatest({ campaignId, billingNumber });
+    ruleSet.version = (latest?.version ?? 0) + 1;
+
+    const saved = await this.ruleSetRepository.save(ruleSet);
+
+    this.logger.log(
+      `Pattern rule set "${saved.name}" v${saved.version} created for ${
+        campaignId ? `campaign ${campaignId}` : `client ${billingNumber}`
+      }`,
+    );
+
+    return saved;
+  }
+
+  /**
+   * List rule sets (all versions), newest first
+   */
+  async findAll(
+    scope: { campaignId?: string; billingNumber?: string } = {},
+  ): Promise<PatternRuleSet[]> {
+    const where: FindOptionsWhere<PatternRuleSet> = {};
+    if (scope.campaignId) where.campaignId = scope.campaignId;
+    if (scope.billingNumber) where.billingNumber = scope.billingNumber;
+
+    return this.ruleSetRepository.find({
+      where,
+      order: { createdAt: 'DESC', version: 'DESC' },
+    });
+  }
+
+  /**
+   * Get a rule set by ID
+   */
+  async findOne(id: string): Promise<PatternRuleSet> {
+    const ruleSet = await this.ruleSetRepository.findOne({ where: { id } });
+
+    if (!ruleSet) {
+      throw new NotFoundException(`Pattern rule set ${id} not found`);
+    }
+
+    return ruleSet;
+  }
+
+  /**
+   * Rules that apply to a campaign right now
+   */
+  async resolveForCampaign(campaignId: string): Promise<PatternRules> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+      relations: ['client'],
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID ${campaignId} not found`);
+    }
+
+    const ruleSet =
+      (await this.findLatest({ campaignId })) ??
+      (await this.findLatest({ billingNumber: campaign.billingNumber }));
+
+    if (ruleSet) {
+      return ruleSet;
+    }
+
+    // Client pattern defaults sit between rule sets and the built-in rules
+    const defaults = campaign.client?.patternDefaults;
+    if (defaults && Object.keys(defaults).length > 0) {
+      return {
+        ...DEFAULT_PATTERN_RULE_SET,
+        ...defaults,
+        name: `${campaign.client.name} defaults`,
+      };
+    }
+
+    return DEFAULT_PATTERN_RULE_SET;
+  }
+
+  /**
+   * Latest version for one scope
+   */
+  private async findLatest(scope: {
+    campaignId?: string;
+    billingNumber?: string;
+  }): Promise<PatternRuleSet | null> {
+    const where = scope.campaignId
+      ? { campaignId: scope.campaignId }
+      : { billingNumber: scope.billingNumber };
+
+    return this.ruleSetRepository.findOne({
+      where,
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * Thresholds must be positive and corrections known
+   */
+  private validate(ruleSet: PatternRuleSet): void {
+    if (!PATTERN_DETECTION_MODES.includes(ruleSet.mode)) {
+      throw new BadRequestException(`Unknown pattern mode: ${ruleSet.mode}`);
+    }
+
+    if (
+      !Number.isInteger(ruleSet.visitThreshold) ||
+      ruleSet.visitThreshold < 1
+    ) {
+      throw new BadRequestException(
+        'visitThreshold must be a positive integer',
+      );
+    }
+
+    if (!Number.isInteger(ruleSet.windowDays) || ruleSet.windowDays < 1) {
+      throw new BadRequestException('windowDays must be a positive integer');
+    }
+
+    const unknown = ruleSet.corrections.filter(
+      (correction) => !PATTERN_CORRECTIONS.includes(correction),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown pattern corrections: ${unknown.join(', ')}`,
+      );
+    }
+  }
+}
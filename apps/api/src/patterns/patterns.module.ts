@@ -1,7 +1,16 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { PatternAnalysisService } from './pattern-analysis.service';
 import { CustomerClassificationService } from './customer-classification.service';
 import { PatternCorrectionService } from './pattern-correction.service';
+import { PatternRuleSetsService } from './pattern-rule-sets.service';
+import { PatternRuleSetsController } from './pattern-rule-sets.controller';
+import { AnalystImportService } from './analyst-import.service';
+import { AnalystImportController } from './analyst-import.controller';
+import { PatternRuleSet } from './entities/pattern-rule-set.entity';
+import { Campaign } from '../campaigns/entities/campaign.entity';
+import { MatchRecord } from '../campaigns/entities/match-record.entity';
+import { StorageModule } from '../storage/storage.module';
 
 /**
  * Patterns Module
@@ -9,25 +18,37 @@ import { PatternCorrectionService } from './pattern-correction.service';
  * Provides pattern detection, customer classification, and critical pattern correction services.
  *
  * Services:
- * - PatternAnalysisService: Base pattern detection (3+ visits = in pattern)
+ * - PatternAnalysisService: Base pattern detection (3+ visits = in pattern by default)
  * - CustomerClassificationService: Customer type classification (NEW_SIGNUP, etc.)
  * - PatternCorrectionService: CRITICAL pattern flaw correction for new signups
+ * - PatternRuleSetsService: Versioned rules per campaign or client
+ * - AnalystImportService: Import analyst-returned pattern workbooks
  *
  * Usage:
- * 1. Analyze patterns with PatternAnalysisService
- * 2. Apply corrections with PatternCorrectionService (MUST run after step 1)
- * 3. Classify customers with CustomerClassificationService
+ * 1. Resolve rules with PatternRuleSetsService
+ * 2. Analyze patterns with PatternAnalysisService
+ * 3. Apply corrections with PatternCorrectionService (MUST run after step 2)
+ * 4. Classify customers with CustomerClassificationService
  */
 @Module({
+  imports: [
+    TypeOrmModule.forFeature([PatternRuleSet, Campaign, MatchRecord]),
+    StorageModule,
+  ],
+  controllers: [PatternRuleSetsController, AnalystImportController],
   providers: [
     PatternAnalysisService,
     CustomerClassificationService,
     PatternCorrectionService,
+    PatternRuleSetsService,
+    AnalystImportService,
   ],
   exports: [
     PatternAnalysisService,
     CustomerClassificationService,
     PatternCorrectionService,
+    PatternRuleSetsService,
+    AnalystImportService,
   ],
 })
 export class PatternsModule {}
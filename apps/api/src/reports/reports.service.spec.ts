@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as ExcelJS from 'exceljs';
+import { ReportsService, MatchRecord } from './reports.service';
+import { CacCalculatorService } from './cac-calculator.service';
+import { PivotTableService } from './pivot-table.service';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+
+  const records: MatchRecord[] = [
+    { matched: true, inPattern: false, totalSales: 100, market: 'Houston' },
+    { matched: false, inPattern: false, market: 'Houston' },
+    { matched: true, inPattern: false, totalSales: 300, market: 'Dallas' },
+    { matched: true, inPattern: true, totalSales: 50, market: 'Dallas' },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ReportsService, CacCalculatorService, PivotTableService],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+  });
+
+  describe('generateCampaignReport', () => {
+    it('should roll up each market alongside the campaign total', async () => {
+      const report = await service.generateCampaignReport(
+        records,
+        'Fall Drop',
+        new Date('2024-10-01'),
+        'Houston, Dallas',
+        600,
+        { Houston: 200, Dallas: 400 },
+      );
+
+      expect(report.summary).toEqual({
+        totalRecords: 4,
+        totalMatches: 3,
+        matchRate: 0.75,
+        totalRevenue: 450,
+        attributableRevenue: 400,
+      });
+      expect(report.byMarket).toEqual([
+        expect.objectContaining({
+          market: 'Houston',
+          totalRecords: 2,
+          totalMatches: 1,
+          matchRate: 0.5,
+          attributableRevenue: 100,
+          campaignCost: 200,
+          cacOutOfPattern: 200,
+          roasOutOfPattern: 0.5,
+        }),
+        expect.objectContaining({
+          market: 'Dallas',
+          totalRecords: 2,
+          totalMatches: 2,
+          attributableRevenue: 300,
+          campaignCost: 400,
+        }),
+      ]);
+    });
+
+    it('should roll records without a market up under the report market', async () => {
+      const report = await service.generateCampaignReport(
+        [{ matched: true, inPattern: false, totalSales: 100 }],
+        'Fall Drop',
+        new Date('2024-10-01'),
+        'Houston',
+        0,
+      );
+
+      expect(report.byMarket).toEqual([
+        expect.objectContaining({ market: 'Houston', campaignCost: 0 }),
+      ]);
+    });
+  });
+
+  describe('exportToExcel', () => {
+    it('should add a By Market sheet ending with the campaign total', async () => {
+      const report = await service.generateCampaignReport(
+        records,
+        'Fall Drop',
+        new Date('2024-10-01'),
+        'Houston, Dallas',
+        600,
+        { Houston: 200, Dallas: 400 },
+      );
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load((await service.exportToExcel(report)) as any);
+      const sheet = workbook.getWorksheet('By Market')!;
+
+      expect(sheet.getColumn(1).values.slice(1)).toEqual([
+        'Market',
+        'Houston',
+        'Dallas',
+        'Campaign Total',
+      ]);
+      expect(sheet.getRow(4).getCell(7).value).toBe('$600.00');
+    });
+  });
+});
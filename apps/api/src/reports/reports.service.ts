@@ -17,6 +17,18 @@ export interface MatchRecord {
   [key: string]: any;
 }
 
+export interface MarketReportSummary {
+  market: string;
+  totalRecords: number;
+  totalMatches: number;
+  matchRate: number;
+  totalRevenue: number;
+  attributableRevenue: number;
+  campaignCost: number;
+  cacOutOfPattern: number;
+  roasOutOfPattern: number;
+}
+
 export interface CampaignReport {
   campaignName: string;
   campaignDate: Date;
@@ -38,6 +50,9 @@ export interface CampaignReport {
     totalRevenue: number;
     attributableRevenue: number;
   };
+
+  // Per-market rollup (summary above is the campaign total)
+  byMarket: MarketReportSummary[];
 }
 
 @Injectable()
@@ -51,6 +66,7 @@ export class ReportsService {
 
   /**
    * Generate complete campaign report
+   * Records without a market are rolled up under `market`
    */
   async generateCampaignReport(
     records: MatchRecord[],
@@ -58,6 +74,7 @@ export class ReportsService {
     campaignDate: Date,
     market: string,
     campaignCost: number,
+    marketCosts: Record<string, number> = {},
   ): Promise<CampaignReport> {
     this.logger.log(
       `Generating campaign report for ${campaignName} - ${records.length} records`,
@@ -78,15 +95,36 @@ export class ReportsService {
     );
 
     // Calculate summary stats
-    const totalMatches = records.filter((r) => r.matched === true).length;
-    const matchRate = records.length > 0 ? totalMatches / records.length : 0;
-    const totalRevenue = records.reduce(
-      (sum, r) => sum + (r.totalSales || 0),
-      0,
+    const summary = this.summarize(records);
+    const { totalMatches, matchRate, attributableRevenue } = summary;
+
+    // Roll up by market
+    const recordsByMarket = new Map<string, MatchRecord[]>();
+    records.forEach((record) => {
+      const recordMarket = record.market || market;
+      recordsByMarket.set(recordMarket, [
+        ...(recordsByMarket.get(recordMarket) ?? []),
+        record,
+      ]);
+    });
+
+    const byMarket = Array.from(recordsByMarket.entries()).map(
+      ([marketName, marketRecords]): MarketReportSummary => {
+        const marketCost = marketCosts[marketName] ?? 0;
+        const marketMetrics = this.cacCalculator.calculateMetrics(
+          marketRecords,
+          marketCost,
+        );
+
+        return {
+          market: marketName,
+          ...this.summarize(marketRecords),
+          campaignCost: marketCost,
+          cacOutOfPattern: marketMetrics.cacOutOfPattern,
+          roasOutOfPattern: marketMetrics.roasOutOfPattern,
+        };
+      },
     );
-    const attributableRevenue = records
-      .filter((r) => r.matched === true && r.inPattern === false)
-      .reduce((sum, r) => sum + (r.totalSales || 0), 0);
 
     const report: CampaignReport = {
       campaignName,
@@ -96,13 +134,8 @@ export class ReportsService {
       newCustomersPivot,
       missingEmailStats,
       cacMetrics,
-      summary: {
-        totalRecords: records.length,
-        totalMatches,
-        matchRate,
-        totalRevenue,
-        attributableRevenue,
-      },
+      summary,
+      byMarket,
     };
 
     this.logger.log(
@@ -124,6 +157,10 @@ export class ReportsService {
     const summarySheet = workbook.addWorksheet('Summary');
     this.addSummarySheet(summarySheet, report);
 
+    // Per-market rollup with the campaign total
+    const byMarketSheet = workbook.addWorksheet('By Market');
+    this.addByMarketSheet(byMarketSheet, report);
+
     // Pivot Table 1: Matched Sales
     const matchedSalesSheet = workbook.addWorksheet('Matched Sales');
     this.pivotTableService.addPivotTableToWorksheet(
@@ -247,6 +284,77 @@ export class ReportsService {
     worksheet.getColumn(2).width = 25;
   }
 
+  /**
+   * Add by-market sheet to workbook
+   * One row per market, then the campaign total
+   */
+  private addByMarketSheet(
+    worksheet: ExcelJS.Worksheet,
+    report: CampaignReport,
+  ): void {
+    const header = worksheet.addRow([
+      'Market',
+      'Records',
+      'Matches',
+      'Match Rate',
+      'Total Revenue',
+      'Attributable Revenue',
+      'Cost',
+      'CAC (Out-of-Pattern)',
+      'ROAS (Out-of-Pattern)',
+    ]);
+    header.font = { bold: true };
+
+    const rows: MarketReportSummary[] = [
+      ...report.byMarket,
+      {
+        market: 'Campaign Total',
+        ...report.summary,
+        campaignCost: report.cacMetrics.campaignCost,
+        cacOutOfPattern: report.cacMetrics.cacOutOfPattern,
+        roasOutOfPattern: report.cacMetrics.roasOutOfPattern,
+      },
+    ];
+
+    rows.forEach((row) => {
+      worksheet.addRow([
+        row.market,
+        row.totalRecords,
+        row.totalMatches,
+        `${(row.matchRate * 100).toFixed(1)}%`,
+        `$${row.totalRevenue.toFixed(2)}`,
+        `$${row.attributableRevenue.toFixed(2)}`,
+        `$${row.campaignCost.toFixed(2)}`,
+        `$${row.cacOutOfPattern.toFixed(2)}`,
+        `${row.roasOutOfPattern.toFixed(2)}x`,
+      ]);
+    });
+
+    worksheet.lastRow!.font = { bold: true };
+
+    worksheet.getColumn(1).width = 20;
+    for (let column = 2; column <= 9; column++) {
+      worksheet.getColumn(column).width = 18;
+    }
+  }
+
+  /**
+   * Record counts and revenue for a set of records
+   */
+  private summarize(records: MatchRecord[]): CampaignReport['summary'] {
+    const totalMatches = records.filter((r) => r.matched === true).length;
+
+    return {
+      totalRecords: records.length,
+      totalMatches,
+      matchRate: records.length > 0 ? totalMatches / records.length : 0,
+      totalRevenue: records.reduce((sum, r) => sum + (r.totalSales || 0), 0),
+      attributableRevenue: records
+        .filter((r) => r.matched === true && r.inPattern === false)
+        .reduce((sum, r) => sum + (r.totalSales || 0), 0),
+    };
+  }
+
   /**
    * Add metrics sheet to workbook
    */
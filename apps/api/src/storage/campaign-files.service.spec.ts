@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CampaignFilesService } from './campaign-files.service';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+
+describe('CampaignFilesService', () => {
+  let service: CampaignFilesService;
+
+  const mockRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'file-1', ...data })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignFilesService,
+        {
+          provide: getRepositoryToken(CampaignFile),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CampaignFilesService>(CampaignFilesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('register', () => {
+    it('should record size, checksum and upload details', async () => {
+      const buffer = Buffer.from('hello');
+
+      const file = await service.register({
+        campaignId: 'campaign-1',
+        kind: 'client-data',
+        storageKey: 'campaigns/campaign-1/client-data/1-data.xlsx',
+        originalFilename: 'data.xlsx',
+        contentType: 'application/octet-stream',
+        buffer,
+        market: 'Houston',
+        recordCount: 10,
+        uploadedBy: 'user-1',
+        encryptionKeyId: '2026-10',
+      });
+
+      expect(file).toEqual(
+        expect.objectContaining({
+          id: 'file-1',
+          kind: 'client-data',
+          size: 5,
+          market: 'Houston',
+          recordCount: 10,
+          uploadedBy: 'user-1',
+          encryptionKeyId: '2026-10',
+          checksum:
+            '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+        }),
+      );
+    });
+  });
+
+  describe('findLatest', () => {
+    it('should return newest file of a kind', async () => {
+      mockRepository.findOne.mockResolvedValue({ id: 'file-2' });
+
+      const file = await service.findLatest('campaign-1', 'sanitized');
+
+      expect(file).toEqual({ id: 'file-2' });
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: { campaignId: 'campaign-1', kind: 'sanitized' },
+        order: { createdAt: 'DESC' },
+      });
+    });
+
+    it('should filter by market when provided', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await service.findLatest('campaign-1', 'sanitized', 'Houston');
+
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          campaignId: 'campaign-1',
+          kind: 'sanitized',
+          market: 'Houston',
+        },
+        order: { createdAt: 'DESC' },
+      });
+    });
+  });
+});
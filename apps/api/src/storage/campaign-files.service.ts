@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import type { CampaignFileKind } from '@matchback/types';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+
+export interface RegisterCampaignFileOptions {
+  campaignId: string;
+  kind: CampaignFileKind;
+  storageKey: string;
+  originalFilename: string;
+  contentType: string;
+  buffer: Buffer;
+  market?: string;
+  recordCount?: number;
+  uploadedBy?: string;
+  encryptionKeyId?: string;
+}
+
+/**
+ * Campaign Files Service
+ *
+ * Registry of every file stored for a campaign in R2:
+ * - Client data uploads
+ * - Sanitized vendor files
+ * - Vendor responses
+ * - Generated reports
+ *
+ * The registry is the source of truth for "which file is current" -
+ * storage keys are timestamped, so the latest entry per kind wins.
+ */
+@Injectable()
+export class CampaignFilesService {
+  private readonly logger = new Logger(CampaignFilesService.name);
+
+  constructor(
+    @InjectRepository(CampaignFile)
+    private readonly campaignFileRepository: Repository<CampaignFile>,
+  ) {}
+
+  /**
+   * Record a stored file in the registry
+   */
+  async register(options: RegisterCampaignFileOptions): Promise<CampaignFile> {
+    const file = this.campaignFileRepository.create({
+      campaignId: options.campaignId,
+      kind: options.kind,
+      storageKey: options.storageKey,
+      originalFilename: options.originalFilename,
+      contentType: options.contentType,
+      size: options.buffer.length,
+      market: options.market || null,
+      recordCount: options.recordCount ?? null,
+      checksum: this.calculateChecksum(options.buffer),
+      uploadedBy: options.uploadedBy || null,
+      encryptionKeyId: options.encryptionKeyId || null,
+    });
+
+    const saved = await this.campaignFileRepository.save(file);
+
+    this.logger.log(
+      `Registered ${options.kind} file for campaign ${options.campaignId}: ${options.storageKey}`,
+    );
+
+    return saved;
+  }
+
+  /**
+   * Find the most recent file of a kind for a campaign (optionally per market)
+   */
+  async findLatest(
+    campaignId: string,
+    kind: CampaignFileKind,
+    market?: string,
+  ): Promise<CampaignFile | null> {
+    return this.campaignFileRepository.findOne({
+      where: market ? { campaignId, kind, market } : { campaignId, kind },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * List files for a campaign, newest first
+   */
+  async findByCampaign(
+    campaignId: string,
+    kind?: CampaignFileKind,
+  ): Promise<CampaignFile[]> {
+    return this.campaignFileRepository.find({
+      where: kind ? { campaignId, kind } : { campaignId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Find a single file belonging to a campaign
+   */
+  async findById(campaignId: string, id: string): Promise<CampaignFile | null> {
+    return this.campaignFileRepository.findOne({
+      where: { id, campaignId },
+    });
+  }
+
+  /**
+   * Remove a file from the registry once its object has been deleted
+   */
+  async remove(file: CampaignFile): Promise<void> {
+    await this.campaignFileRepository.delete(file.id);
+
+    this.logger.log(
+      `Removed ${file.kind} file for campaign ${file.campaignId}: ${file.storageKey}`,
+    );
+  }
+
+  /**
+   * SHA-256 checksum of file contents (hex)
+   */
+  calculateChecksum(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+}
@@ -108,6 +108,35 @@ describe('ExcelService', () => {
       expect(result.records[0].Visit1).toBe(44930);
     });
 
+    it('should apply a client column mapping', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet('Data');
+
+      worksheet.columns = [
+        { header: 'Member No', key: 'customerId', width: 15 },
+        { header: 'Joined On', key: 'signupDate', width: 15 },
+        { header: 'First Trip', key: 'visit1', width: 15 },
+      ];
+
+      worksheet.addRow({
+        customerId: 'CUST001',
+        signupDate: 44927,
+        visit1: 44930,
+      });
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      const result = await service.parseClientData(Buffer.from(buffer), {
+        'Member No': 'CustomerID',
+        'Joined On': 'SignupDate',
+        'First Trip': 'Visit1',
+      });
+
+      expect(result.validRows).toBe(1);
+      expect(result.records[0].CustomerID).toBe('CUST001');
+      expect(result.records[0].SignupDate).toBe(44927);
+      expect(result.records[0].Visit1).toBe(44930);
+    });
+
     it('should handle missing email addresses gracefully', async () => {
       const workbook = new ExcelJS.Workbook();
       const worksheet = workbook.addWorksheet('Data');
@@ -154,6 +183,60 @@ describe('ExcelService', () => {
     });
   });
 
+  describe('parseAnalystPatterns', () => {
+    const fill = (argb: string): ExcelJS.Fill => ({
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb },
+    });
+
+    it('should read pattern values and fill colors', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet('Results');
+      worksheet.addRow(['DCM_ID', 'CustomerID', 'Pattern']);
+      worksheet.addRow(['DCM-1', 'CUST001', 1]);
+      worksheet.addRow(['DCM-2', 'CUST002', 0]);
+      worksheet.addRow(['DCM-3', 'CUST003', null]);
+      worksheet.addRow(['DCM-4', 'CUST004', null]);
+      worksheet.addRow(['DCM-5', 'CUST005', 1]);
+      worksheet.addRow(['DCM-6', 'CUST006', null]);
+
+      worksheet.getCell('C4').fill = fill('FF00B050'); // Green
+      worksheet.getCell('C5').fill = fill('FFFFC000'); // Orange
+      worksheet.getCell('C6').fill = fill('FFFFC000'); // Orange, value says in
+      worksheet.getCell('C7').fill = fill('FFD9D9D9'); // Grey
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      const result = await service.parseAnalystPatterns(Buffer.from(buffer));
+
+      expect(result.keyColumn).toBe('DCM_ID');
+      expect(result.rows.map((row) => row.inPattern)).toEqual([
+        true,
+        false,
+        true,
+        false,
+        true,
+        null,
+      ]);
+      expect(result.rows[2].source).toBe('color');
+      expect(result.rows[4].source).toBe('value');
+      expect(result.rows[4].colorConflict).toBe(true);
+      expect(result.rows[0].customerId).toBe('CUST001');
+    });
+
+    it('should reject workbooks without a Pattern column', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet('Results');
+      worksheet.addRow(['DCM_ID', 'Notes']);
+
+      const buffer = await workbook.xlsx.writeBuffer();
+
+      await expect(
+        service.parseAnalystPatterns(Buffer.from(buffer)),
+      ).rejects.toThrow('No Pattern column');
+    });
+  });
+
   describe('createSanitizedExcel', () => {
     it('should create sanitized Excel file for vendor', async () => {
       const records = [
@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as ExcelJS from 'exceljs';
 import { excelDateToJS, parseDate } from '@matchback/utils';
-import { ClientDataRow, MatchRecord } from '@matchback/types';
+import { ClientDataRow, ClientDataField, MatchRecord } from '@matchback/types';
 
 export interface ParsedExcelData {
   records: ClientDataRow[];
@@ -10,6 +10,30 @@ export interface ParsedExcelData {
   errors: string[];
 }
 
+export interface AnalystPatternRow {
+  rowNumber: number;
+  dcmId?: string;
+  customerId?: string;
+  inPattern: boolean | null; // null = unreadable
+  source: 'value' | 'color' | null;
+  fillColor?: string; // ARGB of the Pattern cell fill
+  colorConflict: boolean; // Cell value and fill color disagree
+}
+
+export interface ParsedAnalystPatterns {
+  rows: AnalystPatternRow[];
+  keyColumn: 'DCM_ID' | 'CustomerID';
+}
+
+const ANALYST_PATTERN_HEADERS = ['pattern', 'inpattern', 'patternflag'];
+const ANALYST_DCM_ID_HEADERS = ['dcmid'];
+const ANALYST_CUSTOMER_ID_HEADERS = ['customerid', 'custid'];
+
+/**
+ * Cell value after unwrapping formulas, rich text and hyperlinks
+ */
+type PlainCellValue = string | number | boolean | Date | null;
+
 export interface ExcelColumn {
   key: string;
   header: string;
@@ -24,8 +48,12 @@ export class ExcelService {
    * Parse client data Excel file
    * Handles Visit1 and Visit_1 column variations
    * Converts Excel serial dates to JavaScript Date objects
+   * Optional columnMapping (source header -> field) covers client-specific headers
    */
-  async parseClientData(buffer: Buffer): Promise<ParsedExcelData> {
+  async parseClientData(
+    buffer: Buffer,
+    columnMapping: Record<string, ClientDataField> = {},
+  ): Promise<ParsedExcelData> {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.load(buffer as any);
 
@@ -41,7 +69,7 @@ export class ExcelService {
 
     // Get header row to detect column variations
     const headerRow = worksheet.getRow(1);
-    const columnMap = this.buildColumnMap(headerRow);
+    const columnMap = this.buildColumnMap(headerRow, columnMapping);
 
     this.logger.log(`Detected columns: ${Object.keys(columnMap).join(', ')}`);
 
@@ -77,8 +105,12 @@ export class ExcelService {
   /**
    * Build a map of column names to their positions
    * Handles variations like Visit1 vs Visit_1
+   * Mapped headers are also registered under their ClientDataRow field name
    */
-  private buildColumnMap(headerRow: ExcelJS.Row): Map<string, number> {
+  private buildColumnMap(
+    headerRow: ExcelJS.Row,
+    columnMapping: Record<string, ClientDataField> = {},
+  ): Map<string, number> {
     const columnMap = new Map<string, number>();
 
     headerRow.eachCell((cell, colNumber) => {
@@ -90,6 +122,11 @@ export class ExcelService {
 
         // Also store original name
         columnMap.set(header.toLowerCase(), colNumber);
+
+        const field = columnMapping[header];
+        if (field) {
+          columnMap.set(field.toLowerCase(), colNumber);
+        }
       }
     });
 
@@ -196,6 +233,169 @@ export class ExcelService {
     throw new Error(`Unsupported date value type: ${typeof value}`);
   }
 
+  /**
+   * Parse an analyst-returned pattern workbook
+   * The Pattern column holds 1/0 (or In/Out, Yes/No) and/or a fill color:
+   * green = in pattern, orange = out of pattern. The cell value wins when
+   * both are present; disagreements are flagged as colorConflict.
+   */
+  async parseAnalystPatterns(buffer: Buffer): Promise<ParsedAnalystPatterns> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      throw new Error('No worksheet found in Excel file');
+    }
+
+    const findColumn = (variants: string[]): number | undefined => {
+      let found: number | undefined;
+      worksheet.getRow(1).eachCell((cell, colNumber) => {
+        const header = String(this.cellValue(cell) ?? '')
+          .toLowerCase()
+          .replace(/[^a-z0-9]/g, '');
+        if (!found && variants.includes(header)) {
+          found = colNumber;
+        }
+      });
+      return found;
+    };
+
+    const patternColumn = findColumn(ANALYST_PATTERN_HEADERS);
+    const dcmIdColumn = findColumn(ANALYST_DCM_ID_HEADERS);
+    const customerIdColumn = findColumn(ANALYST_CUSTOMER_ID_HEADERS);
+
+    if (!patternColumn) {
+      throw new Error('No Pattern column found in analyst workbook');
+    }
+    if (!dcmIdColumn && !customerIdColumn) {
+      throw new Error('Analyst workbook needs a DCM_ID or CustomerID column');
+    }
+
+    const rows: AnalystPatternRow[] = [];
+
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return; // Skip header
+
+      const text = (colNumber?: number) => {
+        if (!colNumber) return undefined;
+        const value = this.cellValue(row.getCell(colNumber));
+        return value === null || value === undefined || value === ''
+          ? undefined
+          : String(value).trim();
+      };
+
+      const dcmId = text(dcmIdColumn);
+      const customerId = text(customerIdColumn);
+      if (!dcmId && !customerId) return; // Blank row
+
+      const cell = row.getCell(patternColumn);
+      const valuePattern = this.parsePatternValue(this.cellValue(cell));
+      const fillColor =
+        cell.fill?.type === 'pattern' ? cell.fill.fgColor?.argb : undefined;
+      const colorPattern = fillColor
+        ? this.classifyPatternColor(fillColor)
+        : null;
+
+      rows.push({
+        rowNumber,
+        dcmId,
+        customerId,
+        inPattern: valuePattern ?? colorPattern,
+        source:
+          valuePattern !== null
+            ? 'value'
+            : colorPattern !== null
+              ? 'color'
+              : null,
+        fillColor,
+        colorConflict:
+          valuePattern !== null &&
+          colorPattern !== null &&
+          valuePattern !== colorPattern,
+      });
+    });
+
+    this.logger.log(
+      `Parsed ${rows.length} analyst pattern rows (key: ${dcmIdColumn ? 'DCM_ID' : 'CustomerID'})`,
+    );
+
+    return { rows, keyColumn: dcmIdColumn ? 'DCM_ID' : 'CustomerID' };
+  }
+
+  /**
+   * Plain value of a cell (formula results, rich text and hyperlinks
+   * unwrapped; error values and empty cells are null)
+   */
+  private cellValue(cell: ExcelJS.Cell): PlainCellValue {
+    let value: ExcelJS.CellValue = cell.value;
+
+    if (value && typeof value === 'object' && 'formula' in value) {
+      value = value.result;
+    } else if (value && typeof value === 'object' && 'sharedFormula' in value) {
+      value = value.result;
+    }
+
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'object' || value instanceof Date) return value;
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) return value.text;
+    return null;
+  }
+
+  /**
+   * 1/0, In/Out, Yes/No, True/False -> boolean
+   */
+  private parsePatternValue(value: PlainCellValue): boolean | null {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') {
+      return value === 1 ? true : value === 0 ? false : null;
+    }
+    if (typeof value !== 'string') return null;
+
+    const normalized = value.trim().toLowerCase();
+    if (['1', 'in', 'in pattern', 'yes', 'y', 'true'].includes(normalized)) {
+      return true;
+    }
+    if (
+      ['0', 'out', 'out of pattern', 'no', 'n', 'false'].includes(normalized)
+    ) {
+      return false;
+    }
+    return null;
+  }
+
+  /**
+   * Green fill = in pattern, orange/red fill = out of pattern
+   * Greys, whites and other hues are not a pattern marking
+   */
+  private classifyPatternColor(argb: string): boolean | null {
+    const hex = argb.length === 8 ? argb.slice(2) : argb;
+    if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+    const [r, g, b] = [0, 2, 4].map(
+      (i) => parseInt(hex.slice(i, i + 2), 16) / 255,
+    );
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+
+    // Low saturation - white, grey or black
+    if (max === 0 || delta / max < 0.2) return null;
+
+    let hue: number;
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+
+    if (hue >= 70 && hue <= 170) return true;
+    if (hue < 50 || hue >= 340) return false;
+    return null;
+  }
+
   /**
    * Create Excel file from match records for vendor
    */
@@ -1,11 +1,19 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { EncryptionModule } from '../encryption/encryption.module';
 import { ExcelService } from './excel.service';
 import { StorageService } from './storage.service';
+import { CampaignFilesService } from './campaign-files.service';
 
 @Module({
-  imports: [ConfigModule],
-  providers: [ExcelService, StorageService],
-  exports: [ExcelService, StorageService],
+  imports: [
+    ConfigModule,
+    EncryptionModule,
+    TypeOrmModule.forFeature([CampaignFile]),
+  ],
+  providers: [ExcelService, StorageService, CampaignFilesService],
+  exports: [ExcelService, StorageService, CampaignFilesService],
 })
 export class StorageModule {}
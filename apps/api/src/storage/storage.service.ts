@@ -9,12 +9,27 @@ import {
   HeadObjectCommand,
 } from '@aws-sdk/client-s3';
 import { Readable } from 'stream';
+import type { CampaignFileKind } from '@matchback/types';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { CampaignFilesService } from './campaign-files.service';
+import { EncryptionService, RewrappedFile } from '../encryption/encryption.service';
 
 export interface UploadResult {
   key: string;
   url: string;
   size: number;
   etag?: string;
+  encryptionKeyId: string;
+}
+
+export interface CampaignFileDetails {
+  market?: string;
+  recordCount?: number;
+  uploadedBy?: string;
+}
+
+export interface CampaignFileUploadResult extends UploadResult {
+  file: CampaignFile;
 }
 
 export interface FileMetadata {
@@ -32,7 +47,11 @@ export class StorageService {
   private readonly bucketName: string;
   private readonly publicUrl: string;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private readonly campaignFilesService: CampaignFilesService,
+    private readonly encryptionService: EncryptionService
+  ) {
     const accountId = this.configService.get<string>('R2_ACCOUNT_ID') || '';
     const accessKeyId = this.configService.get<string>('R2_ACCESS_KEY_ID') || '';
     const secretAccessKey = this.configService.get<string>('R2_SECRET_ACCESS_KEY') || '';
@@ -60,6 +79,7 @@ export class StorageService {
 
   /**
    * Upload a file to R2 storage
+   * The object is envelope-encrypted; size is the plaintext size
    */
   async uploadFile(
     key: string,
@@ -68,16 +88,13 @@ export class StorageService {
     metadata?: Record<string, string>
   ): Promise<UploadResult> {
     try {
-      const command = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-        Body: buffer,
-        ContentType: contentType,
-        Metadata: metadata,
+      const encrypted = this.encryptionService.encryptFile(buffer);
+      const encryptionKeyId = this.encryptionService.activeKeyId;
+      const response = await this.putObject(key, encrypted, contentType, {
+        ...metadata,
+        encryptionKeyId,
       });
 
-      const response = await this.s3Client.send(command);
-
       this.logger.log(`File uploaded successfully: ${key}`);
 
       return {
@@ -85,6 +102,7 @@ export class StorageService {
         url: this.getFileUrl(key),
         size: buffer.length,
         etag: response.ETag,
+        encryptionKeyId,
       };
     } catch (error) {
       this.logger.error(`Failed to upload file: ${key}`, error.stack);
@@ -93,23 +111,13 @@ export class StorageService {
   }
 
   /**
-   * Download a file from R2 storage
+   * Download a file from R2 storage, decrypted
    */
   async downloadFile(key: string): Promise<Buffer> {
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-      });
-
-      const response = await this.s3Client.send(command);
-
-      if (!response.Body) {
-        throw new Error('No file content returned');
-      }
-
-      // Convert stream to buffer
-      const buffer = await this.streamToBuffer(response.Body as Readable);
+      const buffer = this.encryptionService.decryptFile(
+        await this.getObject(key)
+      );
 
       this.logger.log(`File downloaded successfully: ${key}`);
 
@@ -120,6 +128,35 @@ export class StorageService {
     }
   }
 
+  /**
+   * Move a stored file to the active encryption key (key rotation)
+   * Encrypted files are re-wrapped, plaintext files encrypted; the
+   * object is only rewritten when something changed
+   */
+  async rewrapFile(key: string): Promise<RewrappedFile> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: key })
+      );
+      const rewrapped = this.encryptionService.rewrapFile(
+        await this.getObject(key)
+      );
+
+      if (rewrapped.changed) {
+        await this.putObject(key, rewrapped.buffer, response.ContentType, {
+          ...response.Metadata,
+          encryptionKeyId: rewrapped.keyId,
+        });
+        this.logger.log(`File moved to key ${rewrapped.keyId}: ${key}`);
+      }
+
+      return rewrapped;
+    } catch (error) {
+      this.logger.error(`Failed to re-encrypt file: ${key}`, error.stack);
+      throw new Error(`File re-encryption failed: ${error.message}`);
+    }
+  }
+
   /**
    * Delete a file from R2 storage
    */
@@ -214,6 +251,7 @@ export class StorageService {
 
   /**
    * Generate a public URL for a file
+   * Objects are encrypted; read their contents through downloadFile
    */
   getFileUrl(key: string): string {
     if (this.publicUrl) {
@@ -229,7 +267,7 @@ export class StorageService {
    */
   generateCampaignFileKey(
     campaignId: string,
-    fileType: 'client-data' | 'sanitized' | 'vendor-response' | 'report',
+    fileType: CampaignFileKind,
     filename: string
   ): string {
     const timestamp = Date.now();
@@ -237,19 +275,47 @@ export class StorageService {
   }
 
   /**
-   * Upload client data file
+   * Upload a campaign file and record it in the campaign file registry
    */
-  async uploadClientData(
+  async uploadCampaignFile(
     campaignId: string,
+    kind: CampaignFileKind,
     buffer: Buffer,
-    filename: string = 'client-data.xlsx'
-  ): Promise<UploadResult> {
-    const key = this.generateCampaignFileKey(campaignId, 'client-data', filename);
-    return this.uploadFile(key, buffer, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', {
+    filename: string,
+    contentType: string = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    details: CampaignFileDetails = {}
+  ): Promise<CampaignFileUploadResult> {
+    const key = this.generateCampaignFileKey(campaignId, kind, filename);
+    const result = await this.uploadFile(key, buffer, contentType, {
+      campaignId,
+      fileType: kind,
+      originalFilename: filename,
+    });
+
+    const file = await this.campaignFilesService.register({
       campaignId,
-      fileType: 'client-data',
+      kind,
+      storageKey: key,
       originalFilename: filename,
+      contentType,
+      buffer,
+      encryptionKeyId: result.encryptionKeyId,
+      ...details,
     });
+
+    return { ...result, file };
+  }
+
+  /**
+   * Upload client data file
+   */
+  async uploadClientData(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string = 'client-data.xlsx',
+    details?: CampaignFileDetails
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'client-data', buffer, filename, undefined, details);
   }
 
   /**
@@ -258,14 +324,47 @@ export class StorageService {
   async uploadSanitizedData(
     campaignId: string,
     buffer: Buffer,
-    filename: string = 'sanitized-data.xlsx'
-  ): Promise<UploadResult> {
-    const key = this.generateCampaignFileKey(campaignId, 'sanitized', filename);
-    return this.uploadFile(key, buffer, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', {
-      campaignId,
-      fileType: 'sanitized',
-      originalFilename: filename,
-    });
+    filename: string = 'sanitized-data.xlsx',
+    details?: CampaignFileDetails,
+    contentType?: string
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'sanitized', buffer, filename, contentType, details);
+  }
+
+  /**
+   * Upload duplicate customer report (rows merged before sanitizing)
+   */
+  async uploadDuplicateReport(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string = 'duplicate-report.xlsx',
+    details?: CampaignFileDetails
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'duplicate-report', buffer, filename, undefined, details);
+  }
+
+  /**
+   * Upload signed data-sharing policy check of a vendor file
+   */
+  async uploadPolicyReport(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string = 'policy-check.json',
+    details?: CampaignFileDetails
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'policy-report', buffer, filename, 'application/json', details);
+  }
+
+  /**
+   * Upload signed certificate of a data retention purge
+   */
+  async uploadPurgeCertificate(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string = 'purge-certificate.json',
+    details?: CampaignFileDetails
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'purge-certificate', buffer, filename, 'application/json', details);
   }
 
   /**
@@ -274,14 +373,23 @@ export class StorageService {
   async uploadVendorResponse(
     campaignId: string,
     buffer: Buffer,
-    filename: string = 'vendor-response.xlsx'
-  ): Promise<UploadResult> {
-    const key = this.generateCampaignFileKey(campaignId, 'vendor-response', filename);
-    return this.uploadFile(key, buffer, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', {
-      campaignId,
-      fileType: 'vendor-response',
-      originalFilename: filename,
-    });
+    filename: string = 'vendor-response.xlsx',
+    details?: CampaignFileDetails,
+    contentType?: string
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'vendor-response', buffer, filename, contentType, details);
+  }
+
+  /**
+   * Upload analyst-returned pattern workbook
+   */
+  async uploadAnalystPatterns(
+    campaignId: string,
+    buffer: Buffer,
+    filename: string = 'analyst-patterns.xlsx',
+    details?: CampaignFileDetails
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'analyst-patterns', buffer, filename, undefined, details);
   }
 
   /**
@@ -290,14 +398,46 @@ export class StorageService {
   async uploadReport(
     campaignId: string,
     buffer: Buffer,
-    filename: string = 'matchback-report.xlsx'
-  ): Promise<UploadResult> {
-    const key = this.generateCampaignFileKey(campaignId, 'report', filename);
-    return this.uploadFile(key, buffer, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', {
-      campaignId,
-      fileType: 'report',
-      originalFilename: filename,
+    filename: string = 'matchback-report.xlsx',
+    details?: CampaignFileDetails
+  ): Promise<CampaignFileUploadResult> {
+    return this.uploadCampaignFile(campaignId, 'report', buffer, filename, undefined, details);
+  }
+
+  /**
+   * Read an object as stored (encrypted)
+   */
+  private async getObject(key: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
     });
+
+    const response = await this.s3Client.send(command);
+
+    if (!response.Body) {
+      throw new Error('No file content returned');
+    }
+
+    // Convert stream to buffer
+    return this.streamToBuffer(response.Body as Readable);
+  }
+
+  private async putObject(
+    key: string,
+    body: Buffer,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ) {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      Metadata: metadata,
+    });
+
+    return this.s3Client.send(command);
   }
 
   /**
@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import type { AuthUser, CampaignFileKind } from '@matchback/types';
+import { UploadsService, MAX_UPLOAD_SIZE } from './uploads.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CampaignAccessGuard } from '../campaigns/guards/campaign-access.guard';
+
+/**
+ * Content-Disposition for a stored file: a quote-safe ASCII fallback
+ * plus the exact UTF-8 name (RFC 6266 / RFC 5987)
+ */
+function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+@Controller('campaigns/:id/files')
+@UseGuards(CampaignAccessGuard)
+export class UploadsController {
+  constructor(private readonly uploadsService: UploadsService) {}
+
+  /**
+   * POST /campaigns/:id/files
+   * Upload a client list (multipart field "file", optional "market"
+   * and "profileId" - otherwise the client's saved profile is auto-selected)
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_SIZE } }),
+  )
+  async upload(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: AuthUser,
+    @Body('market') market?: string,
+    @Body('profileId') profileId?: string,
+  ) {
+    return this.uploadsService.uploadClientData(id, file, {
+      market,
+      profileId,
+      uploadedBy: user?.id,
+    });
+  }
+
+  /**
+   * POST /campaigns/:id/files/preview
+   * Show the first rows of a client list after column mapping
+   * (multipart field "file", optional "profileId")
+   */
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_SIZE } }),
+  )
+  async preview(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body('profileId') profileId?: string,
+  ) {
+    return this.uploadsService.previewClientData(id, file, { profileId });
+  }
+
+  /**
+   * GET /campaigns/:id/files
+   * List stored files for a campaign
+   */
+  @Get()
+  async findAll(
+    @Param('id') id: string,
+    @Query('kind') kind?: CampaignFileKind,
+  ) {
+    return this.uploadsService.listFiles(id, kind);
+  }
+
+  /**
+   * GET /campaigns/:id/files/:fileId/download
+   * Download a stored file (admins only - files hold customer rows)
+   */
+  @Roles('admin')
+  @Get(':fileId/download')
+  async download(
+    @Param('id') id: string,
+    @Param('fileId') fileId: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { file, buffer } = await this.uploadsService.downloadFile(id, fileId);
+
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': attachmentDisposition(file.originalFilename),
+    });
+
+    return new StreamableFile(buffer);
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { UploadsController } from './uploads.controller';
+import { UploadsService } from './uploads.service';
+import { FileProcessingModule } from '../file-processing/file-processing.module';
+import { StorageModule } from '../storage/storage.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { MarketsModule } from '../markets/markets.module';
+import { JobsModule } from '../jobs/jobs.module';
+
+/**
+ * Uploads Module
+ *
+ * REST endpoints for campaign files:
+ * - Upload client lists (xlsx/xls/csv)
+ * - List stored files
+ * - Download stored files
+ *
+ * Dependencies:
+ * - FileProcessingModule: Validate uploads before storing
+ * - StorageModule: Store files in R2 and register them
+ * - CampaignsModule: Verify campaign exists
+ * - MarketsModule: Resolve market aliases to codes
+ * - JobsModule: Start the campaign pipeline
+ */
+@Module({
+  imports: [
+    FileProcessingModule,
+    StorageModule,
+    CampaignsModule,
+    MarketsModule,
+    JobsModule,
+  ],
+  controllers: [UploadsController],
+  providers: [UploadsService],
+})
+export class UploadsModule {}
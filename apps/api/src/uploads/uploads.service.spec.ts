@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { UploadsService } from './uploads.service';
+import {
+  FileParserService,
+  FileType,
+} from '../file-processing/file-parser.service';
+import { ColumnMappingService } from '../file-processing/column-mapping.service';
+import { StorageService } from '../storage/storage.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { MarketsService } from '../markets/markets.service';
+import { PipelineService } from '../jobs/pipeline.service';
+
+describe('UploadsService', () => {
+  let service: UploadsService;
+
+  const mockFileParser = {
+    detectFileType: jest.fn(),
+    parseFile: jest.fn(),
+    validateParsedData: jest.fn(),
+  };
+
+  const mockColumnMappingService = {
+    resolveForCampaign: jest.fn(),
+    findProfile: jest.fn(),
+    preview: jest.fn(),
+  };
+
+  const mockStorageService = {
+    uploadClientData: jest.fn(),
+    downloadFile: jest.fn(),
+  };
+
+  const mockCampaignFilesService = {
+    findByCampaign: jest.fn(),
+    findById: jest.fn(),
+  };
+
+  const mockCampaignsService = {
+    findOne: jest.fn(),
+  };
+
+  const mockMarketsService = {
+    canonicalize: jest.fn((markets: string[]) =>
+      Promise.resolve(
+        markets.map((market) => (market === 'Houston' ? 'HOU' : market)),
+      ),
+    ),
+  };
+
+  const mockPipelineService = {
+    startFromClientUpload: jest.fn(),
+  };
+
+  const upload = (originalname: string) =>
+    ({
+      originalname,
+      mimetype: 'application/octet-stream',
+      size: 4,
+      buffer: Buffer.from('data'),
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadsService,
+        { provide: FileParserService, useValue: mockFileParser },
+        { provide: ColumnMappingService, useValue: mockColumnMappingService },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: CampaignFilesService, useValue: mockCampaignFilesService },
+        { provide: CampaignsService, useValue: mockCampaignsService },
+        { provide: MarketsService, useValue: mockMarketsService },
+        { provide: PipelineService, useValue: mockPipelineService },
+      ],
+    }).compile();
+
+    service = module.get<UploadsService>(UploadsService);
+
+    mockCampaignsService.findOne.mockResolvedValue({
+      id: 'campaign-1',
+      markets: ['HOU'],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('uploadClientData', () => {
+    beforeEach(() => {
+      mockFileParser.detectFileType.mockReturnValue(FileType.CSV);
+      mockFileParser.parseFile.mockResolvedValue({
+        headers: ['Customer ID', 'Email'],
+        data: [{ 'Customer ID': 'CUST001' }, { 'Customer ID': 'CUST002' }],
+        metadata: { warnings: [] },
+      });
+      mockFileParser.validateParsedData.mockReturnValue({
+        isValid: true,
+        errors: [],
+      });
+      mockColumnMappingService.resolveForCampaign.mockResolvedValue({
+        profile: null,
+        mappings: { 'Customer ID': 'CustomerID', Email: 'EmailAddress' },
+        suggestions: [],
+      });
+      mockStorageService.uploadClientData.mockResolvedValue({
+        file: { id: 'file-1', storageKey: 'campaigns/campaign-1/x.csv' },
+      });
+      mockPipelineService.startFromClientUpload.mockResolvedValue({
+        currentStage: 'parse',
+        completedStages: [],
+        jobIds: { parse: 'job-1' },
+      });
+    });
+
+    it('should store a valid file and start the pipeline from it', async () => {
+      const result = await service.uploadClientData(
+        'campaign-1',
+        upload('clients.csv'),
+        { market: 'Houston', uploadedBy: 'user-1' },
+      );
+
+      expect(mockStorageService.uploadClientData).toHaveBeenCalledWith(
+        'campaign-1',
+        expect.any(Buffer),
+        'clients.csv',
+        { market: 'HOU', recordCount: 2, uploadedBy: 'user-1' },
+      );
+      expect(mockPipelineService.startFromClientUpload).toHaveBeenCalledWith(
+        'campaign-1',
+        'campaigns/campaign-1/x.csv',
+        'csv',
+        undefined,
+      );
+      expect(result.jobId).toBe('job-1');
+      expect(result.pipeline.currentStage).toBe('parse');
+      expect(result.recordCount).toBe(2);
+      expect(result.columnMapping.missingFields).toEqual(['SignupDate']);
+      expect(result.warnings).toContain('No column mapped to SignupDate');
+    });
+
+    it('should start the pipeline with an explicitly chosen profile', async () => {
+      const profile = {
+        id: 'profile-1',
+        name: 'Tide export',
+        mappings: { 'Customer ID': 'CustomerID', Email: 'SignupDate' },
+      };
+      mockColumnMappingService.findProfile.mockResolvedValue(profile);
+
+      const result = await service.uploadClientData(
+        'campaign-1',
+        upload('clients.csv'),
+        { profileId: 'profile-1' },
+      );
+
+      expect(
+        mockColumnMappingService.resolveForCampaign,
+      ).not.toHaveBeenCalled();
+      expect(mockPipelineService.startFromClientUpload).toHaveBeenCalledWith(
+        'campaign-1',
+        'campaigns/campaign-1/x.csv',
+        'csv',
+        'profile-1',
+      );
+      expect(result.columnMapping.profileName).toBe('Tide export');
+    });
+
+    it('should reject unsupported extensions', async () => {
+      await expect(
+        service.uploadClientData('campaign-1', upload('clients.pdf')),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockFileParser.parseFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject files that fail validation without storing them', async () => {
+      mockFileParser.parseFile.mockResolvedValue({
+        headers: [],
+        data: [],
+        metadata: { warnings: [] },
+      });
+      mockFileParser.validateParsedData.mockReturnValue({
+        isValid: false,
+        errors: ['No data found in file'],
+      });
+
+      await expect(
+        service.uploadClientData('campaign-1', upload('clients.xlsx')),
+      ).rejects.toThrow('No data found in file');
+      expect(mockStorageService.uploadClientData).not.toHaveBeenCalled();
+      expect(mockPipelineService.startFromClientUpload).not.toHaveBeenCalled();
+    });
+
+    it('should store a market alias as its campaign market code', async () => {
+      await service.uploadClientData('campaign-1', upload('clients.csv'), {
+        market: 'Houston',
+      });
+
+      expect(mockMarketsService.canonicalize).toHaveBeenCalledWith(['Houston']);
+      expect(mockStorageService.uploadClientData).toHaveBeenCalledWith(
+        'campaign-1',
+        expect.any(Buffer),
+        'clients.csv',
+        expect.objectContaining({ market: 'HOU' }),
+      );
+    });
+
+    it('should reject markets outside the campaign', async () => {
+      await expect(
+        service.uploadClientData('campaign-1', upload('clients.xlsx'), {
+          market: 'Dallas',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a missing file', async () => {
+      await expect(
+        service.uploadClientData('campaign-1', undefined),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('downloadFile', () => {
+    it('should return file contents from storage', async () => {
+      const buffer = Buffer.from('xlsx');
+      mockCampaignFilesService.findById.mockResolvedValue({
+        id: 'file-1',
+        storageKey: 'campaigns/campaign-1/client-data/1-clients.xlsx',
+      });
+      mockStorageService.downloadFile.mockResolvedValue(buffer);
+
+      const result = await service.downloadFile('campaign-1', 'file-1');
+
+      expect(mockCampaignFilesService.findById).toHaveBeenCalledWith(
+        'campaign-1',
+        'file-1',
+      );
+      expect(result.buffer).toBe(buffer);
+    });
+
+    it('should throw NotFoundException for unknown files', async () => {
+      mockCampaignFilesService.findById.mockResolvedValue(null);
+
+      await expect(
+        service.downloadFile('campaign-1', 'missing'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
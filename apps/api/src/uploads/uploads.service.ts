@@ -0,0 +1,240 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import type {
+  CampaignFileKind,
+  CampaignPipelineState,
+  ClientDataField,
+} from '@matchback/types';
+import {
+  FileParserService,
+  FileType,
+} from '../file-processing/file-parser.service';
+import {
+  ColumnMappingService,
+  ColumnMappingPreview,
+  REQUIRED_CLIENT_DATA_FIELDS,
+} from '../file-processing/column-mapping.service';
+import { StorageService } from '../storage/storage.service';
+import { CampaignFilesService } from '../storage/campaign-files.service';
+import { CampaignFile } from '../campaigns/entities/campaign-file.entity';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { MarketsService } from '../markets/markets.service';
+import { PipelineService } from '../jobs/pipeline.service';
+
+/**
+ * Maximum client list size accepted by the upload endpoint (50 MB)
+ */
+export const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+const ALLOWED_EXTENSIONS = ['xlsx', 'xls', 'csv'];
+
+export interface ClientUploadResult {
+  file: CampaignFile;
+  jobId: string | null; // Pipeline parse job; null when it could not be queued
+  pipeline: CampaignPipelineState;
+  recordCount: number;
+  headers: string[];
+  columnMapping: {
+    profileId: string | null;
+    profileName: string | null;
+    mappings: Record<string, ClientDataField>;
+    missingFields: ClientDataField[];
+  };
+  warnings: string[];
+}
+
+/**
+ * Uploads Service
+ *
+ * Accepts client list uploads for a campaign:
+ * 1. Validate extension and parse with FileParserService
+ * 2. Pick the client's column mapping profile (or fuzzy suggestions)
+ * 3. Store the original file in R2 (registered in campaign_files)
+ * 4. Start the campaign pipeline from the stored file
+ *
+ * Files are parsed once up front so broken uploads are rejected
+ * immediately instead of failing later inside the queue.
+ */
+@Injectable()
+export class UploadsService {
+  private readonly logger = new Logger(UploadsService.name);
+
+  constructor(
+    private readonly fileParser: FileParserService,
+    private readonly columnMappingService: ColumnMappingService,
+    private readonly storageService: StorageService,
+    private readonly campaignFilesService: CampaignFilesService,
+    private readonly campaignsService: CampaignsService,
+    private readonly marketsService: MarketsService,
+    private readonly pipelineService: PipelineService,
+  ) {}
+
+  /**
+   * Validate and store a client list, then start the pipeline
+   */
+  async uploadClientData(
+    campaignId: string,
+    upload: Express.Multer.File | undefined,
+    options: { market?: string; uploadedBy?: string; profileId?: string } = {},
+  ): Promise<ClientUploadResult> {
+    this.assertUpload(upload);
+
+    // Throws NotFoundException for unknown campaigns
+    const campaign = await this.campaignsService.findOne(campaignId);
+
+    // Campaign markets are stored as codes, so aliases ("Houston") match
+    const [market] = options.market
+      ? await this.marketsService.canonicalize([options.market])
+      : [];
+
+    if (market && !campaign.markets.includes(market)) {
+      throw new BadRequestException(
+        `Market ${options.market} is not part of campaign ${campaignId}`,
+      );
+    }
+
+    const fileType = this.fileParser.detectFileType(
+      upload.buffer,
+      upload.originalname,
+    );
+    const parsed = await this.fileParser.parseFile(
+      upload.buffer,
+      upload.originalname,
+    );
+
+    const validation = this.fileParser.validateParsedData(parsed, []);
+    if (!validation.isValid) {
+      throw new BadRequestException(validation.errors.join('; '));
+    }
+
+    // An explicit profile is kept in the pipeline state; otherwise the
+    // parse stage selects the same profile again from the stored headers
+    const profile = options.profileId
+      ? await this.columnMappingService.findProfile(options.profileId)
+      : null;
+    const resolved = profile
+      ? { profile, mappings: profile.mappings }
+      : await this.columnMappingService.resolveForCampaign(
+          campaignId,
+          parsed.headers,
+        );
+
+    const mappedFields = Object.values(resolved.mappings);
+    const missingFields = REQUIRED_CLIENT_DATA_FIELDS.filter(
+      (field) => !mappedFields.includes(field),
+    );
+
+    const { file } = await this.storageService.uploadClientData(
+      campaignId,
+      upload.buffer,
+      upload.originalname,
+      {
+        market,
+        recordCount: parsed.data.length,
+        uploadedBy: options.uploadedBy,
+      },
+    );
+
+    const pipeline = await this.pipelineService.startFromClientUpload(
+      campaignId,
+      file.storageKey,
+      fileType === FileType.CSV ? 'csv' : 'excel',
+      profile?.id,
+    );
+    const jobId = pipeline.jobIds.parse ?? null;
+
+    this.logger.log(
+      `Client data uploaded for campaign ${campaignId}: ${upload.originalname} (${parsed.data.length} records, job ${jobId})`,
+    );
+
+    return {
+      file,
+      jobId,
+      pipeline,
+      recordCount: parsed.data.length,
+      headers: parsed.headers,
+      columnMapping: {
+        profileId: resolved.profile?.id ?? null,
+        profileName: resolved.profile?.name ?? null,
+        mappings: resolved.mappings,
+        missingFields,
+      },
+      warnings: [
+        ...parsed.metadata.warnings,
+        ...missingFields.map((field) => `No column mapped to ${field}`),
+      ],
+    };
+  }
+
+  /**
+   * Show the first rows of a client list after column mapping
+   * Nothing is stored or queued.
+   */
+  async previewClientData(
+    campaignId: string,
+    upload: Express.Multer.File | undefined,
+    options: { profileId?: string; limit?: number } = {},
+  ): Promise<ColumnMappingPreview> {
+    this.assertUpload(upload);
+
+    return this.columnMappingService.preview(
+      campaignId,
+      upload.buffer,
+      upload.originalname,
+      options,
+    );
+  }
+
+  /**
+   * List stored files for a campaign, newest first
+   */
+  async listFiles(
+    campaignId: string,
+    kind?: CampaignFileKind,
+  ): Promise<CampaignFile[]> {
+    await this.campaignsService.findOne(campaignId);
+    return this.campaignFilesService.findByCampaign(campaignId, kind);
+  }
+
+  /**
+   * Load a stored file and its contents
+   */
+  async downloadFile(
+    campaignId: string,
+    fileId: string,
+  ): Promise<{ file: CampaignFile; buffer: Buffer }> {
+    const file = await this.campaignFilesService.findById(campaignId, fileId);
+
+    if (!file) {
+      throw new NotFoundException(
+        `File ${fileId} not found for campaign ${campaignId}`,
+      );
+    }
+
+    const buffer = await this.storageService.downloadFile(file.storageKey);
+
+    return { file, buffer };
+  }
+
+  /**
+   * Reject missing files and unsupported extensions
+   */
+  private assertUpload(
+    upload: Express.Multer.File | undefined,
+  ): asserts upload is Express.Multer.File {
+    if (!upload || !upload.buffer || upload.size === 0) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const extension = upload.originalname.toLowerCase().split('.').pop();
+    if (!extension || !ALLOWED_EXTENSIONS.includes(extension)) {
+      throw new BadRequestException(
+        'Unsupported file type. Please upload an Excel (.xlsx, .xls) or CSV file.',
+      );
+    }
+  }
+}
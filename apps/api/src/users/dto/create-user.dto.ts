@@ -0,0 +1,34 @@
+import {
+  IsEmail,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  MinLength,
+  IsUUID,
+} from 'class-validator';
+import type { UserRole } from '@matchback/types';
+import { USER_ROLES, MIN_PASSWORD_LENGTH } from '../users.service';
+
+export class CreateUserDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsIn(USER_ROLES)
+  @IsOptional()
+  role?: UserRole;
+
+  @IsUUID()
+  @IsOptional()
+  clientId?: string;
+
+  @IsString()
+  @MinLength(MIN_PASSWORD_LENGTH)
+  @IsOptional()
+  password?: string;
+}
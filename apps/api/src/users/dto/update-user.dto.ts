@@ -0,0 +1,35 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  IsBoolean,
+  MinLength,
+  IsUUID,
+} from 'class-validator';
+import type { UserRole } from '@matchback/types';
+import { USER_ROLES, MIN_PASSWORD_LENGTH } from '../users.service';
+
+export class UpdateUserDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsIn(USER_ROLES)
+  @IsOptional()
+  role?: UserRole;
+
+  @IsUUID()
+  @IsOptional()
+  clientId?: string | null;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsString()
+  @MinLength(MIN_PASSWORD_LENGTH)
+  @IsOptional()
+  password?: string;
+}
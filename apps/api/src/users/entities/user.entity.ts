@@ -5,7 +5,11 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   Index,
+  ManyToOne,
+  JoinColumn,
 } from 'typeorm';
+import type { UserRole } from '@matchback/types';
+import { Client } from '../../clients/entities/client.entity';
 
 @Entity('users')
 export class User {
@@ -24,7 +28,24 @@ export class User {
     enum: ['admin', 'client_viewer'],
     default: 'client_viewer',
   })
-  role: 'admin' | 'client_viewer';
+  role: UserRole;
+
+  /**
+   * bcrypt hash; NULL for users who only sign in by magic link.
+   * Never selected unless asked for explicitly.
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  passwordHash: string | null;
+
+  /**
+   * Client a viewer belongs to (NULL for admins)
+   */
+  @Column({ type: 'uuid', nullable: true })
+  clientId: string | null;
+
+  @ManyToOne(() => Client, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'clientId' })
+  client: Client | null;
 
   @Column({ type: 'boolean', default: true })
   isActive: boolean;
@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { UsersService } from './users.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('users')
+@Roles('admin')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * POST /users
+   * Invite a user (password optional - magic link otherwise)
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreateUserDto) {
+    return this.usersService.create(dto);
+  }
+
+  /**
+   * GET /users
+   * List users
+   */
+  @Get()
+  async findAll() {
+    return this.usersService.findAll();
+  }
+
+  /**
+   * GET /users/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.usersService.findOne(id);
+  }
+
+  /**
+   * PATCH /users/:id
+   * Change name, role, active flag or password
+   */
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateUserDto) {
+    return this.usersService.update(id, dto);
+  }
+}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as bcrypt from 'bcryptjs';
+import { UsersService } from './users.service';
+import { User } from './entities/user.entity';
+
+describe('UsersService', () => {
+  let service: UsersService;
+
+  const mockUserRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'user-1', ...data })),
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(({ where }) =>
+      Promise.resolve({ id: where.id, email: 'analyst@example.com' }),
+    ),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should lowercase the email and store a bcrypt hash', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      const user = await service.create({
+        email: ' Analyst@Example.com ',
+        role: 'admin',
+        password: 'correct-horse-battery',
+      });
+
+      const saved = mockUserRepository.save.mock.calls[0][0];
+      expect(saved.email).toBe('analyst@example.com');
+      expect(saved.passwordHash).not.toBe('correct-horse-battery');
+      expect(
+        await bcrypt.compare('correct-horse-battery', saved.passwordHash),
+      ).toBe(true);
+      expect(user).not.toHaveProperty('passwordHash');
+    });
+
+    it('should default to client_viewer without a password', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await service.create({
+        email: 'viewer@client.com',
+        clientId: 'client-1',
+      });
+
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: 'client_viewer',
+          clientId: 'client-1',
+          passwordHash: null,
+        }),
+      );
+    });
+
+    it('should require a client for client viewers', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({ email: 'viewer@client.com' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject duplicate emails', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ id: 'user-1' });
+
+      await expect(
+        service.create({ email: 'viewer@client.com' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject short passwords', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          email: 'viewer@client.com',
+          clientId: 'client-1',
+          password: 'short',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('verifyPassword', () => {
+    it('should refuse users without a password', async () => {
+      const user = { passwordHash: null } as User;
+
+      await expect(service.verifyPassword(user, 'anything')).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw when the user does not exist', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('recordLogin', () => {
+    it('should stamp lastLoginAt', async () => {
+      await service.recordLogin('user-1');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', {
+        lastLoginAt: expect.any(Date),
+      });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcryptjs';
+import type { UserRole } from '@matchback/types';
+import { User } from './entities/user.entity';
+
+/**
+ * bcrypt cost factor for stored passwords
+ */
+export const PASSWORD_HASH_ROUNDS = 12;
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+export const USER_ROLES: UserRole[] = ['admin', 'client_viewer'];
+
+export interface CreateUserOptions {
+  email: string;
+  name?: string;
+  role?: UserRole;
+  clientId?: string | null;
+  password?: string;
+}
+
+export interface UpdateUserOptions {
+  name?: string;
+  role?: UserRole;
+  clientId?: string | null;
+  isActive?: boolean;
+  password?: string;
+}
+
+/**
+ * Users Service
+ *
+ * Manages platform accounts:
+ * - Admins run campaigns end to end
+ * - Client viewers get read-only access to their campaigns
+ *
+ * Client viewers must belong to a client; admins belong to none.
+ * Emails are stored lowercased so lookups are case-insensitive.
+ * Passwords are optional; users without one sign in by magic link.
+ */
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Create a user
+   */
+  async create(options: CreateUserOptions): Promise<User> {
+    const email = this.normalizeEmail(options.email);
+
+    const existing = await this.userRepository.findOne({ where: { email } });
+    if (existing) {
+      throw new ConflictException(`User ${email} already exists`);
+    }
+
+    const role = options.role ?? 'client_viewer';
+    const clientId = options.clientId ?? null;
+    this.validateClientLink(role, clientId);
+
+    const user = this.userRepository.create({
+      email,
+      name: options.name ?? null,
+      role,
+      clientId,
+      passwordHash: options.password
+        ? await this.hashPassword(options.password)
+        : null,
+    });
+
+    const saved = await this.userRepository.save(user);
+    this.logger.log(`Created ${saved.role} user ${saved.email}`);
+
+    // Re-read so the (unselected) hash is never handed back
+    return this.userRepository.findOneOrFail({ where: { id: saved.id } });
+  }
+
+  /**
+   * List users
+   */
+  async findAll(): Promise<User[]> {
+    return this.userRepository.find({ order: { email: 'ASC' } });
+  }
+
+  /**
+   * Get a user by ID
+   */
+  async findOne(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  /**
+   * Get an active user by ID, or null (used when checking sessions)
+   */
+  async findActive(id: string): Promise<User | null> {
+    return this.userRepository.findOne({ where: { id, isActive: true } });
+  }
+
+  /**
+   * Look up a user by email, optionally including the password hash
+   */
+  async findByEmail(
+    email: string,
+    options: { withPassword?: boolean } = {},
+  ): Promise<User | null> {
+    const query = this.userRepository
+      .createQueryBuilder('user')
+      .where('user.email = :email', { email: this.normalizeEmail(email) });
+
+    if (options.withPassword) {
+      query.addSelect('user.passwordHash');
+    }
+
+    return query.getOne();
+  }
+
+  /**
+   * Update a user's profile, role, status or password
+   */
+  async update(id: string, changes: UpdateUserOptions): Promise<User> {
+    const user = await this.findOne(id);
+    const { password, ...rest } = changes;
+
+    Object.assign(user, rest);
+    this.validateClientLink(user.role, user.clientId);
+    const saved = await this.userRepository.save(user);
+
+    if (password !== undefined) {
+      await this.setPassword(id, password);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Replace a user's password
+   */
+  async setPassword(id: string, password: string): Promise<void> {
+    await this.userRepository.update(id, {
+      passwordHash: await this.hashPassword(password),
+    });
+  }
+
+  /**
+   * Check a password against the stored hash
+   */
+  async verifyPassword(user: User, password: string): Promise<boolean> {
+    if (!user.passwordHash) {
+      return false;
+    }
+    return bcrypt.compare(password, user.passwordHash);
+  }
+
+  /**
+   * Stamp a successful sign-in
+   */
+  async recordLogin(id: string): Promise<void> {
+    await this.userRepository.update(id, { lastLoginAt: new Date() });
+  }
+
+  private validateClientLink(role: UserRole, clientId: string | null): void {
+    if (role === 'client_viewer' && !clientId) {
+      throw new BadRequestException('Client viewers must belong to a client');
+    }
+    if (role === 'admin' && clientId) {
+      throw new BadRequestException('Admins cannot belong to a client');
+    }
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new BadRequestException(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      );
+    }
+    return bcrypt.hash(password, PASSWORD_HASH_ROUNDS);
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsArray,
+  IsIn,
+  ArrayMinSize,
+  IsInt,
+  IsBoolean,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type {
+  PiiValueCheck,
+  VendorExportMode,
+  VendorField,
+  VendorFileFormat,
+} from '@matchback/types';
+import {
+  PII_VALUE_CHECKS,
+  VENDOR_EXPORT_MODES,
+  VENDOR_FIELDS,
+  VENDOR_FILE_FORMATS,
+} from '../vendor-file-profile';
+
+export class VendorContactDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsString()
+  @IsOptional()
+  role?: string;
+}
+
+export class VendorHashingRulesDto {
+  @IsBoolean()
+  stripEmailPlusTag: boolean;
+
+  @IsBoolean()
+  stripGmailDots: boolean;
+
+  @IsIn(['e164', 'digits'])
+  phoneFormat: 'e164' | 'digits';
+
+  @IsString()
+  @MinLength(8)
+  @IsOptional()
+  salt: string | null;
+
+  @IsIn(['prefix', 'suffix'])
+  saltPosition: 'prefix' | 'suffix';
+}
+
+export class DataSharingPolicyDto {
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  agreementReference: string | null;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(VENDOR_FIELDS, { each: true })
+  allowedFields: VendorField[];
+
+  @IsArray()
+  @IsString({ each: true })
+  blockedFieldNames: string[];
+
+  @IsArray()
+  @IsIn(PII_VALUE_CHECKS, { each: true })
+  valueChecks: PiiValueCheck[];
+}
+
+/**
+ * File profile fields default to DEFAULT_VENDOR_FILE_PROFILE
+ */
+export class CreateVendorDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VendorContactDto)
+  @IsOptional()
+  contacts?: VendorContactDto[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(VENDOR_FILE_FORMATS, { each: true })
+  @IsOptional()
+  acceptedFormats?: VendorFileFormat[];
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  dcmIdColumn?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  matchColumn?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsOptional()
+  matchedValues?: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsOptional()
+  unmatchedValues?: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(VENDOR_FIELDS, { each: true })
+  @IsOptional()
+  allowedFields?: VendorField[];
+
+  @IsIn(VENDOR_EXPORT_MODES)
+  @IsOptional()
+  exportMode?: VendorExportMode;
+
+  /**
+   * Defaults to DEFAULT_VENDOR_HASHING_RULES for hashed vendors
+   */
+  @ValidateNested()
+  @Type(() => VendorHashingRulesDto)
+  @IsOptional()
+  hashing?: VendorHashingRulesDto;
+
+  /**
+   * Defaults to DEFAULT_DATA_SHARING_POLICY
+   */
+  @ValidateNested()
+  @Type(() => DataSharingPolicyDto)
+  @IsOptional()
+  sharingPolicy?: DataSharingPolicyDto;
+
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  @IsOptional()
+  responseSlaDays?: number;
+}
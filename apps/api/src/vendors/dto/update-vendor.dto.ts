@@ -0,0 +1,108 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsArray,
+  IsIn,
+  IsBoolean,
+  ArrayMinSize,
+  IsInt,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type {
+  VendorExportMode,
+  VendorField,
+  VendorFileFormat,
+} from '@matchback/types';
+import {
+  DataSharingPolicyDto,
+  VendorContactDto,
+  VendorHashingRulesDto,
+} from './create-vendor.dto';
+import {
+  VENDOR_EXPORT_MODES,
+  VENDOR_FIELDS,
+  VENDOR_FILE_FORMATS,
+} from '../vendor-file-profile';
+
+/**
+ * Vendors are deactivated rather than deleted - campaigns keep referring to them
+ */
+export class UpdateVendorDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VendorContactDto)
+  @IsOptional()
+  contacts?: VendorContactDto[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(VENDOR_FILE_FORMATS, { each: true })
+  @IsOptional()
+  acceptedFormats?: VendorFileFormat[];
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  dcmIdColumn?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  matchColumn?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsOptional()
+  matchedValues?: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsOptional()
+  unmatchedValues?: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(VENDOR_FIELDS, { each: true })
+  @IsOptional()
+  allowedFields?: VendorField[];
+
+  @IsIn(VENDOR_EXPORT_MODES)
+  @IsOptional()
+  exportMode?: VendorExportMode;
+
+  @ValidateNested()
+  @Type(() => VendorHashingRulesDto)
+  @IsOptional()
+  hashing?: VendorHashingRulesDto;
+
+  @ValidateNested()
+  @Type(() => DataSharingPolicyDto)
+  @IsOptional()
+  sharingPolicy?: DataSharingPolicyDto;
+
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  @IsOptional()
+  responseSlaDays?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,89 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type {
+  DataSharingPolicy,
+  VendorContact,
+  VendorExportMode,
+  VendorField,
+  VendorFileFormat,
+  VendorHashingRules,
+} from '@matchback/types';
+
+/**
+ * A matching vendor and the file conventions it uses.
+ * Match requests are built, and replies parsed, from this profile.
+ */
+@Entity('vendors')
+export class Vendor {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  /**
+   * Address match requests are sent to (stored lowercase)
+   */
+  @Column({ type: 'varchar', length: 255, unique: true })
+  email: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  contacts: VendorContact[];
+
+  @Column({ type: 'simple-array' })
+  acceptedFormats: VendorFileFormat[];
+
+  @Column({ type: 'varchar', length: 100, default: 'DCM_ID' })
+  dcmIdColumn: string;
+
+  @Column({ type: 'varchar', length: 100, default: 'Match' })
+  matchColumn: string;
+
+  @Column({ type: 'simple-array' })
+  matchedValues: string[];
+
+  @Column({ type: 'simple-array' })
+  unmatchedValues: string[];
+
+  @Column({ type: 'simple-array' })
+  allowedFields: VendorField[];
+
+  /**
+   * Hashed vendors only ever receive SHA-256 hashes of email/phone
+   */
+  @Column({ type: 'varchar', length: 20, default: 'plaintext' })
+  exportMode: VendorExportMode;
+
+  /**
+   * Normalization and salt applied before hashing
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  hashing: VendorHashingRules | null;
+
+  /**
+   * Terms of the vendor's data-sharing agreement; null = default policy
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  sharingPolicy: DataSharingPolicy | null;
+
+  /**
+   * Business days the vendor has to return a match file before
+   * follow-up reminders escalate and the campaign is flagged overdue
+   */
+  @Column({ type: 'int', default: 3 })
+  responseSlaDays: number;
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
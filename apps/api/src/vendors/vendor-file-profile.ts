@@ -0,0 +1,148 @@
+import type {
+  DataSharingPolicy,
+  PiiValueCheck,
+  VendorExportMode,
+  VendorField,
+  VendorFileFormat,
+  VendorFileProfile,
+  VendorHashingRules,
+} from '@matchback/types';
+
+export const VENDOR_FILE_FORMATS: VendorFileFormat[] = ['xlsx', 'csv'];
+
+export const VENDOR_FIELDS: VendorField[] = [
+  'name',
+  'email',
+  'address',
+  'phone',
+];
+
+export const VENDOR_EXPORT_MODES: VendorExportMode[] = ['plaintext', 'hashed'];
+
+/**
+ * Fields that can be sent as hashes; the rest are never sent in hashed mode
+ */
+export const HASHABLE_VENDOR_FIELDS: VendorField[] = ['email', 'phone'];
+
+/**
+ * Hashing rules for hashed-mode vendors that do not specify their own
+ */
+export const DEFAULT_VENDOR_HASHING_RULES: VendorHashingRules = {
+  stripEmailPlusTag: false,
+  stripGmailDots: false,
+  phoneFormat: 'e164',
+  salt: null,
+  saltPosition: 'suffix',
+};
+
+export const PII_VALUE_CHECKS: PiiValueCheck[] = [
+  'sales-amount',
+  'date',
+  'customer-id',
+  'ssn',
+  'card-number',
+];
+
+/**
+ * Policy for vendors without their own data-sharing agreement terms
+ * blockedFieldNames always applies; vendor policies can only add to it
+ */
+export const DEFAULT_DATA_SHARING_POLICY: DataSharingPolicy = {
+  agreementReference: null,
+  allowedFields: [...VENDOR_FIELDS],
+  blockedFieldNames: [
+    'customerId',
+    'customer_id',
+    'id',
+    'signupDate',
+    'signup_date',
+    'totalSales',
+    'total_sales',
+    'sales',
+    'visit1Date',
+    'visit2Date',
+    'visit3Date',
+    'visitDates',
+    'visit_1',
+    'visit_2',
+    'visit_3',
+    'totalVisits',
+    'total_visits',
+    'visits',
+    'revenue',
+    'ltv',
+    'lifetime_value',
+  ],
+  valueChecks: [...PII_VALUE_CHECKS],
+};
+
+/**
+ * File conventions used for vendors that are not in the registry
+ * (the original fixed format: Excel, DCM_ID + Match Y/N, all contact fields)
+ */
+export const DEFAULT_VENDOR_FILE_PROFILE: VendorFileProfile = {
+  acceptedFormats: ['xlsx'],
+  dcmIdColumn: 'DCM_ID',
+  matchColumn: 'Match',
+  matchedValues: ['Y', 'YES', '1', 'TRUE'],
+  unmatchedValues: ['N', 'NO', '0', 'FALSE'],
+  allowedFields: [...VENDOR_FIELDS],
+  exportMode: 'plaintext',
+  hashing: null,
+  sharingPolicy: null,
+};
+
+/**
+ * File profile of a registered vendor, or the default
+ */
+export function toVendorFileProfile(
+  vendor: VendorFileProfile | null | undefined,
+): VendorFileProfile {
+  if (!vendor) {
+    return DEFAULT_VENDOR_FILE_PROFILE;
+  }
+
+  return {
+    acceptedFormats: vendor.acceptedFormats,
+    dcmIdColumn: vendor.dcmIdColumn,
+    matchColumn: vendor.matchColumn,
+    matchedValues: vendor.matchedValues,
+    unmatchedValues: vendor.unmatchedValues,
+    allowedFields: vendor.allowedFields,
+    exportMode: vendor.exportMode,
+    hashing: vendor.hashing,
+    sharingPolicy: vendor.sharingPolicy,
+  };
+}
+
+/**
+ * Policy a vendor file is checked against: the vendor's own, with the
+ * default blocked field names always included
+ */
+export function resolveSharingPolicy(
+  profile: VendorFileProfile,
+): DataSharingPolicy {
+  const policy = profile.sharingPolicy ?? DEFAULT_DATA_SHARING_POLICY;
+
+  return {
+    ...policy,
+    blockedFieldNames: [
+      ...new Set([
+        ...DEFAULT_DATA_SHARING_POLICY.blockedFieldNames,
+        ...policy.blockedFieldNames,
+      ]),
+    ],
+  };
+}
+
+/**
+ * File format of a filename, or null when it is not one we handle
+ */
+export function detectVendorFileFormat(
+  filename: string,
+): VendorFileFormat | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.xlsx') || lower.endsWith('.xls')) return 'xlsx';
+  if (lower.endsWith('.csv')) return 'csv';
+  return null;
+}
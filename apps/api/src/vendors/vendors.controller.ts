@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { VendorsService } from './vendors.service';
+import { CreateVendorDto } from './dto/create-vendor.dto';
+import { UpdateVendorDto } from './dto/update-vendor.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('vendors')
+@Roles('admin')
+export class VendorsController {
+  constructor(private readonly vendorsService: VendorsService) {}
+
+  /**
+   * POST /vendors
+   * Register a vendor
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() dto: CreateVendorDto) {
+    return this.vendorsService.create(dto);
+  }
+
+  /**
+   * GET /vendors
+   * List vendors (?active=true for the ones campaigns can use)
+   */
+  @Get()
+  async findAll(@Query('active') active?: string) {
+    return this.vendorsService.findAll({
+      active: active === undefined ? undefined : active === 'true',
+    });
+  }
+
+  /**
+   * GET /vendors/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.vendorsService.findOne(id);
+  }
+
+  /**
+   * PATCH /vendors/:id
+   * Update contacts, file profile or deactivate
+   */
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateVendorDto) {
+    return this.vendorsService.update(id, dto);
+  }
+}
@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { VendorsService } from './vendors.service';
+import { Vendor } from './entities/vendor.entity';
+import {
+  DEFAULT_VENDOR_FILE_PROFILE,
+  DEFAULT_VENDOR_HASHING_RULES,
+} from './vendor-file-profile';
+
+describe('VendorsService', () => {
+  let service: VendorsService;
+
+  const vendor = () => ({
+    id: 'vendor-1',
+    name: 'Acme Data',
+    email: 'matches@acme.com',
+    contacts: [],
+    ...DEFAULT_VENDOR_FILE_PROFILE,
+    acceptedFormats: ['csv'],
+    matchColumn: 'Found',
+    matchedValues: ['X'],
+    unmatchedValues: ['-'],
+    allowedFields: ['name', 'email'],
+    active: true,
+  });
+
+  const mockVendorRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve({ id: 'vendor-1', ...data })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VendorsService,
+        { provide: getRepositoryToken(Vendor), useValue: mockVendorRepository },
+      ],
+    }).compile();
+
+    service = module.get<VendorsService>(VendorsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should register a vendor with the default file profile', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      const created = await service.create({
+        name: 'Acme Data',
+        email: 'Matches@Acme.com',
+      });
+
+      expect(created).toEqual(
+        expect.objectContaining({
+          email: 'matches@acme.com',
+          contacts: [],
+          active: true,
+          acceptedFormats: ['xlsx'],
+          dcmIdColumn: 'DCM_ID',
+          matchColumn: 'Match',
+        }),
+      );
+    });
+
+    it('should reject an email already registered to another vendor', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(vendor());
+
+      await expect(
+        service.create({ name: 'Other', email: 'matches@acme.com' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject a value that means both matched and not matched', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          name: 'Acme Data',
+          email: 'matches@acme.com',
+          matchedValues: ['Y'],
+          unmatchedValues: ['y', 'N'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockVendorRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject identical DCM_ID and match column names', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          name: 'Acme Data',
+          email: 'matches@acme.com',
+          dcmIdColumn: 'ID',
+          matchColumn: 'id',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should give hashed vendors the default hashing rules', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      const created = await service.create({
+        name: 'Acme Data',
+        email: 'matches@acme.com',
+        exportMode: 'hashed',
+      });
+
+      expect(created.hashing).toEqual(DEFAULT_VENDOR_HASHING_RULES);
+    });
+
+    it('should reject hashed vendors with no email or phone to hash', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          name: 'Acme Data',
+          email: 'matches@acme.com',
+          exportMode: 'hashed',
+          allowedFields: ['name', 'address'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+    it('should reject fields the data-sharing policy does not permit', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          name: 'Acme Data',
+          email: 'matches@acme.com',
+          allowedFields: ['name', 'email'],
+          sharingPolicy: {
+            agreementReference: 'DSA-2026-014',
+            allowedFields: ['email'],
+            blockedFieldNames: [],
+            valueChecks: [],
+          },
+        }),
+      ).rejects.toThrow('does not permit: name');
+    });
+  });
+
+  describe('update', () => {
+    it('should deactivate a vendor', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(vendor());
+
+      const updated = await service.update('vendor-1', { active: false });
+
+      expect(updated.active).toBe(false);
+    });
+
+    it('should keep hashing rules when switching to hashed mode', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(vendor());
+
+      const updated = await service.update('vendor-1', {
+        exportMode: 'hashed',
+        hashing: { ...DEFAULT_VENDOR_HASHING_RULES, salt: 'pepper-2026' },
+      });
+
+      expect(updated.hashing?.salt).toBe('pepper-2026');
+    });
+
+    it('should throw when the vendor does not exist', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('missing', { active: false }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getFileProfile', () => {
+    it('should return the vendor profile', async () => {
+      mockVendorRepository.findOne.mockResolvedValue(vendor());
+
+      const profile = await service.getFileProfile('vendor-1');
+
+      expect(profile).toEqual({
+        acceptedFormats: ['csv'],
+        dcmIdColumn: 'DCM_ID',
+        matchColumn: 'Found',
+        matchedValues: ['X'],
+        unmatchedValues: ['-'],
+        allowedFields: ['name', 'email'],
+        exportMode: 'plaintext',
+        hashing: null,
+        sharingPolicy: null,
+      });
+    });
+
+    it('should fall back to the default profile without a vendor', async () => {
+      const profile = await service.getFileProfile(null);
+
+      expect(profile).toBe(DEFAULT_VENDOR_FILE_PROFILE);
+      expect(mockVendorRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
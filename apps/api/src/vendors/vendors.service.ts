@@ -0,0 +1,218 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { VendorFileProfile } from '@matchback/types';
+import { Vendor } from './entities/vendor.entity';
+import { CreateVendorDto } from './dto/create-vendor.dto';
+import { UpdateVendorDto } from './dto/update-vendor.dto';
+import {
+  DEFAULT_VENDOR_FILE_PROFILE,
+  DEFAULT_VENDOR_HASHING_RULES,
+  HASHABLE_VENDOR_FIELDS,
+  toVendorFileProfile,
+} from './vendor-file-profile';
+
+/**
+ * Response SLA for vendors not in the registry (business days)
+ */
+export const DEFAULT_VENDOR_RESPONSE_SLA_DAYS = 3;
+
+/**
+ * Vendors Service
+ *
+ * Registry of matching vendors:
+ * - Contacts and the address match requests go to
+ * - File formats they accept
+ * - DCM_ID and match-flag column names, and accepted match values
+ * - Contact fields they may receive, in plaintext or as SHA-256 hashes
+ * - The data-sharing policy of their agreement (caps those fields)
+ * - Business days they have to reply (drives follow-up reminders)
+ *
+ * Campaigns without a registered vendor use DEFAULT_VENDOR_FILE_PROFILE.
+ */
+@Injectable()
+export class VendorsService {
+  private readonly logger = new Logger(VendorsService.name);
+
+  constructor(
+    @InjectRepository(Vendor)
+    private readonly vendorRepository: Repository<Vendor>,
+  ) {}
+
+  /**
+   * Register a vendor
+   */
+  async create(dto: CreateVendorDto): Promise<Vendor> {
+    const email = dto.email.toLowerCase();
+    await this.assertEmailAvailable(email);
+
+    const vendor = this.vendorRepository.create({
+      ...DEFAULT_VENDOR_FILE_PROFILE,
+      ...dto,
+      email,
+      contacts: dto.contacts ?? [],
+      responseSlaDays: dto.responseSlaDays ?? DEFAULT_VENDOR_RESPONSE_SLA_DAYS,
+      active: true,
+    });
+    this.applyHashingDefaults(vendor);
+    this.validateProfile(vendor);
+
+    const saved = await this.vendorRepository.save(vendor);
+
+    this.logger.log(`Vendor ${saved.name} (${saved.email}) registered`);
+    return saved;
+  }
+
+  /**
+   * List vendors
+   */
+  async findAll(filters: { active?: boolean } = {}): Promise<Vendor[]> {
+    return this.vendorRepository.find({
+      where: filters.active === undefined ? {} : { active: filters.active },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * Get a vendor by ID
+   */
+  async findOne(id: string): Promise<Vendor> {
+    const vendor = await this.vendorRepository.findOne({ where: { id } });
+    if (!vendor) {
+      throw new NotFoundException(`Vendor ${id} not found`);
+    }
+    return vendor;
+  }
+
+  /**
+   * Look up a vendor by the address match requests go to
+   */
+  async findByEmail(email: string): Promise<Vendor | null> {
+    return this.vendorRepository.findOne({
+      where: { email: email.toLowerCase() },
+    });
+  }
+
+  /**
+   * Update contacts, file profile or active flag
+   */
+  async update(id: string, dto: UpdateVendorDto): Promise<Vendor> {
+    const vendor = await this.findOne(id);
+
+    if (dto.email) {
+      dto.email = dto.email.toLowerCase();
+      if (dto.email !== vendor.email) {
+        await this.assertEmailAvailable(dto.email);
+      }
+    }
+
+    Object.assign(vendor, dto);
+    this.applyHashingDefaults(vendor);
+    this.validateProfile(vendor);
+
+    return this.vendorRepository.save(vendor);
+  }
+
+  /**
+   * Registered vendor of a campaign, if any
+   */
+  async findForCampaign(campaign: {
+    vendorId: string | null;
+  }): Promise<Vendor | null> {
+    return campaign.vendorId ? this.findOne(campaign.vendorId) : null;
+  }
+
+  /**
+   * File profile for a campaign's vendor (default when unregistered)
+   */
+  async getFileProfile(
+    vendorId: string | null | undefined,
+  ): Promise<VendorFileProfile> {
+    if (!vendorId) {
+      return DEFAULT_VENDOR_FILE_PROFILE;
+    }
+    return toVendorFileProfile(await this.findOne(vendorId));
+  }
+
+  private async assertEmailAvailable(email: string): Promise<void> {
+    const existing = await this.findByEmail(email);
+    if (existing) {
+      throw new ConflictException(
+        `${email} is already registered to vendor ${existing.name}`,
+      );
+    }
+  }
+
+  /**
+   * Hashed vendors without their own rules get the defaults
+   */
+  private applyHashingDefaults(vendor: Vendor): void {
+    if (vendor.exportMode === 'hashed' && !vendor.hashing) {
+      vendor.hashing = { ...DEFAULT_VENDOR_HASHING_RULES };
+    }
+  }
+
+  /**
+   * Reject profiles that could not be parsed unambiguously, hashed
+   * profiles that would leave nothing to match on and fields the
+   * data-sharing agreement does not permit
+   */
+  private validateProfile(profile: VendorFileProfile): void {
+    const normalize = (value: string) => value.trim().toLowerCase();
+
+    if (normalize(profile.dcmIdColumn) === normalize(profile.matchColumn)) {
+      throw new BadRequestException(
+        'DCM_ID and match columns must have different names',
+      );
+    }
+
+    // Stored as comma-separated lists
+    const values = [...profile.matchedValues, ...profile.unmatchedValues];
+    if (values.some((value) => value.includes(','))) {
+      throw new BadRequestException('Match values cannot contain commas');
+    }
+
+    const matched = new Set(profile.matchedValues.map(normalize));
+    const overlap = profile.unmatchedValues.filter((value) =>
+      matched.has(normalize(value)),
+    );
+    if (overlap.length > 0) {
+      throw new BadRequestException(
+        `Values cannot mean both matched and not matched: ${overlap.join(', ')}`,
+      );
+    }
+
+    if (matched.has('')) {
+      throw new BadRequestException(
+        'A blank match cell always means not matched',
+      );
+    }
+
+    if (
+      profile.exportMode === 'hashed' &&
+      !profile.allowedFields.some((field) =>
+        HASHABLE_VENDOR_FIELDS.includes(field),
+      )
+    ) {
+      throw new BadRequestException(
+        `Hashed vendors must be allowed at least one of: ${HASHABLE_VENDOR_FIELDS.join(', ')}`,
+      );
+    }
+
+    const permitted = profile.sharingPolicy?.allowedFields;
+    const notPermitted = permitted
+      ? profile.allowedFields.filter((field) => !permitted.includes(field))
+      : [];
+    if (notPermitted.length > 0) {
+      throw new BadRequestException(
+        `The data-sharing policy does not permit: ${notPermitted.join(', ')}`,
+      );
+    }
+  }
+}
@@ -10,7 +10,8 @@ import { UploadedFilesList } from '@/components/campaigns/UploadedFilesList';
 import { CampaignActions } from '@/components/campaigns/CampaignActions';
 import { MetricsVisualization } from '@/components/campaigns/MetricsVisualization';
 import { CampaignTimeline } from '@/components/campaigns/CampaignTimeline';
-import { RefreshCw, Mail, Calendar } from 'lucide-react';
+import { VendorEmailTimeline } from '@/components/campaigns/VendorEmailTimeline';
+import { RefreshCw, Mail, Calendar, AlertTriangle, X } from 'lucide-react';
 
 export default function CampaignDetailsPage() {
   const params = useParams();
@@ -37,6 +38,15 @@ export default function CampaignDetailsPage() {
     loadCampaign();
   }, [campaignId]);
 
+  const handleAcknowledgeAlert = async (alertId: string) => {
+    try {
+      await api.acknowledgeCampaignAlert(campaignId, alertId);
+      await loadCampaign();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+    }
+  };
+
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', {
       month: 'long',
@@ -71,6 +81,10 @@ export default function CampaignDetailsPage() {
     );
   }
 
+  const openAlerts = (campaign.alerts ?? []).filter(
+    (alert) => !alert.acknowledgedAt
+  );
+
   return (
     <div className="min-h-screen p-8">
       <div className="max-w-6xl mx-auto space-y-8">
@@ -99,6 +113,36 @@ export default function CampaignDetailsPage() {
           </div>
         </div>
 
+        {/* Alerts */}
+        {openAlerts.length > 0 && (
+          <div className="space-y-3">
+            {openAlerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex items-start gap-3 p-4 rounded-lg bg-red-500/10 border border-red-500/20"
+              >
+                <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-red-300">
+                    {alert.type === 'email-bounced'
+                      ? 'Vendor email bounced'
+                      : 'Vendor email delayed'}
+                  </p>
+                  <p className="text-sm text-white/60 mt-1">{alert.message}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleAcknowledgeAlert(alert.id)}
+                  className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                  title="Acknowledge"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Campaign Info and Timeline Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Basic Info */}
@@ -128,14 +172,33 @@ export default function CampaignDetailsPage() {
               <div>
                 <p className="text-sm text-white/60 mb-1">Markets</p>
                 <div className="flex flex-wrap gap-2">
-                  {campaign.markets.map((market) => (
-                    <span
-                      key={market}
-                      className="px-3 py-1 text-sm rounded-lg bg-white/10 text-white/80"
-                    >
-                      {market}
-                    </span>
-                  ))}
+                  {campaign.markets.map((market) => {
+                    const state = campaign.marketStates?.find((s) => s.market === market);
+                    return (
+                      <span
+                        key={market}
+                        title={state?.lastError}
+                        className={`px-3 py-1 text-sm rounded-lg ${
+                          state?.status === 'error'
+                            ? 'bg-red-500/20 text-red-300'
+                            : 'bg-white/10 text-white/80'
+                        }`}
+                      >
+                        {market}
+                        {state && (
+                          <span className="text-xs text-white/50">
+                            {' '}
+                            · {state.recordCount.toLocaleString()} records
+                            {!!state.duplicatesMerged &&
+                              ` (${state.duplicatesMerged.toLocaleString()} duplicates merged)`}{' '}
+                            · {state.status}
+                            {state.matchRate !== undefined &&
+                              ` (${(state.matchRate * 100).toFixed(1)}% matched)`}
+                          </span>
+                        )}
+                      </span>
+                    );
+                  })}
                 </div>
               </div>
               <div>
@@ -174,6 +237,18 @@ export default function CampaignDetailsPage() {
                 <div>
                   <p className="text-sm text-white/60 mb-1">Vendor Email</p>
                   <p className="text-white break-all">{campaign.vendorEmail}</p>
+                  {campaign.vendorFollowUp && !campaign.vendorFollowUp.stoppedAt && (
+                    <p
+                      className={`text-xs mt-1 ${
+                        campaign.vendorResponseOverdue ? 'text-red-400' : 'text-white/60'
+                      }`}
+                    >
+                      {campaign.vendorResponseOverdue ? 'Overdue since' : 'Reply due'}{' '}
+                      {formatDate(campaign.vendorFollowUp.dueAt)}
+                      {campaign.vendorFollowUp.remindersSent > 0 &&
+                        ` · ${campaign.vendorFollowUp.remindersSent} reminder(s) sent`}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex items-start gap-3">
@@ -192,6 +267,9 @@ export default function CampaignDetailsPage() {
           <div className="lg:col-span-2">
             <CampaignTimeline campaign={campaign} />
           </div>
+
+          {/* Vendor Request Delivery */}
+          <VendorEmailTimeline campaignId={campaignId} />
         </div>
 
         {/* Metrics Visualization */}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { api } from '@/lib/api';
+import { GlassCard, GlassInput, GlassButton } from '@/components/ui';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await api.login(email, password);
+      router.push('/campaigns');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      setError('Enter your email to receive a sign-in link');
+      return;
+    }
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await api.requestMagicLink(email);
+      setLinkSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <GlassCard className="w-full max-w-md">
+        <h1 className="text-3xl font-bold text-white mb-2">Sign in</h1>
+        <p className="text-white/60 mb-6">Matchback Platform</p>
+
+        {linkSent ? (
+          <p className="text-white/80">
+            If {email} has an account, a sign-in link is on its way. It
+            expires in 15 minutes.
+          </p>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-4">
+            <GlassInput
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <GlassInput
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex flex-col gap-3">
+              <GlassButton type="submit" disabled={isSubmitting || !password}>
+                Sign in
+              </GlassButton>
+              <GlassButton
+                type="button"
+                variant="secondary"
+                disabled={isSubmitting}
+                onClick={handleMagicLink}
+              >
+                Email me a sign-in link
+              </GlassButton>
+            </div>
+          </form>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import { GlassCard } from '@/components/ui';
+
+function VerifyMagicLink() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (!token) {
+      setError('Sign-in link is missing its token');
+      return;
+    }
+
+    api
+      .verifyMagicLink(token)
+      .then(() => router.replace('/campaigns'))
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : 'Sign-in failed')
+      );
+  }, [searchParams, router]);
+
+  if (!error) {
+    return <p className="text-white/80">Signing you in…</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-red-400">{error}</p>
+      <Link href="/login" className="text-sm text-white/60 hover:text-white">
+        ← Request a new link
+      </Link>
+    </div>
+  );
+}
+
+export default function VerifyMagicLinkPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <GlassCard className="w-full max-w-md">
+        <Suspense fallback={<p className="text-white/80">Signing you in…</p>}>
+          <VerifyMagicLink />
+        </Suspense>
+      </GlassCard>
+    </div>
+  );
+}
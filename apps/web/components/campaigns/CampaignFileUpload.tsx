@@ -57,7 +57,7 @@ export function CampaignFileUpload({
 
       const endpoint =
         type === 'client-data'
-          ? `http://localhost:3001/campaigns/${campaignId}/uploads/client-data`
+          ? `http://localhost:3001/campaigns/${campaignId}/files`
           : `http://localhost:3001/campaigns/${campaignId}/uploads/vendor-response`;
 
       const xhr = new XMLHttpRequest();
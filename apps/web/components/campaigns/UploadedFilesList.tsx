@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react';
 import { api, UploadedFile } from '@/lib/api';
 import { GlassCard } from '../ui';
-import { File, FileCheck, AlertCircle, RefreshCw } from 'lucide-react';
+import { File, FileCheck, AlertCircle, RefreshCw, Download } from 'lucide-react';
 
 interface UploadedFilesListProps {
   campaignId: string;
@@ -31,6 +31,20 @@ export function UploadedFilesList({ campaignId }: UploadedFilesListProps) {
     loadFiles();
   }, [campaignId]);
 
+  const handleDownload = async (file: UploadedFile) => {
+    try {
+      const blob = await api.downloadFile(campaignId, file.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.originalFilename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download file');
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -49,18 +63,24 @@ export function UploadedFilesList({ campaignId }: UploadedFilesListProps) {
     });
   };
 
-  const getFileIcon = (type: string) => {
-    if (type === 'client') {
+  const getFileIcon = (kind: UploadedFile['kind']) => {
+    if (kind === 'client-data') {
       return <File className="w-5 h-5 text-blue-400" />;
-    } else if (type === 'vendor') {
+    } else if (kind === 'vendor-response') {
       return <FileCheck className="w-5 h-5 text-green-400" />;
     }
     return <File className="w-5 h-5 text-gray-400" />;
   };
 
-  const getFileLabel = (type: string) => {
-    if (type === 'client') return 'Client Data';
-    if (type === 'vendor') return 'Vendor Response';
+  const getFileLabel = (kind: UploadedFile['kind']) => {
+    if (kind === 'client-data') return 'Client Data';
+    if (kind === 'sanitized') return 'Sanitized';
+    if (kind === 'vendor-response') return 'Vendor Response';
+    if (kind === 'analyst-patterns') return 'Analyst Patterns';
+    if (kind === 'duplicate-report') return 'Duplicate Report';
+    if (kind === 'policy-report') return 'Policy Check';
+    if (kind === 'purge-certificate') return 'Purge Certificate';
+    if (kind === 'report') return 'Report';
     return 'Unknown';
   };
 
@@ -107,20 +127,20 @@ export function UploadedFilesList({ campaignId }: UploadedFilesListProps) {
         </div>
       ) : (
         <div className="space-y-3">
-          {files.map((file, index) => (
+          {files.map((file) => (
             <div
-              key={index}
+              key={file.id}
               className="flex items-center justify-between p-4 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
             >
               <div className="flex items-center gap-3 flex-1 min-w-0">
-                {getFileIcon(file.type)}
+                {getFileIcon(file.kind)}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
                     <p className="text-sm font-medium text-white truncate">
-                      {file.filename}
+                      {file.originalFilename}
                     </p>
                     <span className="px-2 py-0.5 text-xs rounded bg-white/10 text-white/70 flex-shrink-0">
-                      {getFileLabel(file.type)}
+                      {getFileLabel(file.kind)}
                     </span>
                   </div>
                   <div className="flex items-center gap-3 mt-1">
@@ -129,11 +149,19 @@ export function UploadedFilesList({ campaignId }: UploadedFilesListProps) {
                     </p>
                     <span className="text-white/40">•</span>
                     <p className="text-xs text-white/60">
-                      {formatDate(file.uploadedAt)}
+                      {formatDate(file.createdAt)}
                     </p>
                   </div>
                 </div>
               </div>
+              <button
+                type="button"
+                onClick={() => handleDownload(file)}
+                className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                title="Download"
+              >
+                <Download className="w-4 h-4" />
+              </button>
             </div>
           ))}
         </div>
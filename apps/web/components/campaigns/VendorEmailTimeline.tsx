@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api, OutboundEmail } from '@/lib/api';
+import { GlassCard } from '../ui';
+import {
+  Mail,
+  Send,
+  CheckCircle,
+  Clock,
+  Eye,
+  AlertCircle,
+  RefreshCw,
+} from 'lucide-react';
+
+interface VendorEmailTimelineProps {
+  campaignId: string;
+}
+
+export function VendorEmailTimeline({ campaignId }: VendorEmailTimelineProps) {
+  const [emails, setEmails] = useState<OutboundEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEmails = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await api.getCampaignEmails(campaignId);
+        setEmails(
+          data.filter(
+            (email) =>
+              email.kind === 'vendor-request' || email.kind === 'vendor-reminder'
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load emails');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEmails();
+  }, [campaignId]);
+
+  const formatDate = (date: string): string => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getEventDisplay = (type: string) => {
+    switch (type) {
+      case 'email.sent':
+        return { label: 'Sent', icon: <Send className="w-4 h-4 text-blue-400" /> };
+      case 'email.delivered':
+        return {
+          label: 'Delivered',
+          icon: <CheckCircle className="w-4 h-4 text-green-400" />,
+        };
+      case 'email.delivery_delayed':
+        return {
+          label: 'Delivery delayed',
+          icon: <Clock className="w-4 h-4 text-yellow-400" />,
+        };
+      case 'email.opened':
+        return { label: 'Opened', icon: <Eye className="w-4 h-4 text-purple-400" /> };
+      case 'email.bounced':
+        return {
+          label: 'Bounced',
+          icon: <AlertCircle className="w-4 h-4 text-red-400" />,
+        };
+      case 'email.complained':
+        return {
+          label: 'Marked as spam',
+          icon: <AlertCircle className="w-4 h-4 text-red-400" />,
+        };
+      default:
+        return {
+          label: type.replace('email.', ''),
+          icon: <Mail className="w-4 h-4 text-gray-400" />,
+        };
+    }
+  };
+
+  const getStatusClass = (status: OutboundEmail['status']) => {
+    if (status === 'delivered') return 'bg-green-500/20 text-green-300';
+    if (status === 'delivery_delayed') return 'bg-yellow-500/20 text-yellow-300';
+    if (status === 'sent') return 'bg-blue-500/20 text-blue-300';
+    return 'bg-red-500/20 text-red-300';
+  };
+
+  if (loading) {
+    return (
+      <GlassCard>
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="w-5 h-5 text-white/60 animate-spin" />
+        </div>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <GlassCard>
+      <h2 className="text-xl font-semibold text-white mb-6">Vendor Requests</h2>
+
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : emails.length === 0 ? (
+        <div className="text-center py-8">
+          <Mail className="w-12 h-12 text-white/20 mx-auto mb-3" />
+          <p className="text-white/60">No vendor requests sent yet</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {emails.map((email) => (
+            <div key={email.id}>
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-white truncate">
+                    {email.subject}
+                  </p>
+                  <p className="text-xs text-white/60">{email.toAddress}</p>
+                </div>
+                <span
+                  className={`px-2 py-0.5 text-xs rounded flex-shrink-0 ${getStatusClass(
+                    email.status
+                  )}`}
+                >
+                  {email.status.replace('_', ' ')}
+                </span>
+              </div>
+
+              <ol className="space-y-2 border-l border-white/10 ml-2 pl-4">
+                <li className="flex items-center gap-2 text-sm text-white/80">
+                  <Send className="w-4 h-4 text-blue-400" />
+                  <span>
+                    {email.status === 'failed'
+                      ? 'Send failed'
+                      : email.kind === 'vendor-reminder'
+                        ? 'Reminded'
+                        : 'Requested'}
+                  </span>
+                  <span className="text-xs text-white/50">
+                    {formatDate(email.createdAt)}
+                  </span>
+                </li>
+                {email.events
+                  .filter((event) => event.type !== 'email.sent')
+                  .map((event, index) => {
+                    const display = getEventDisplay(event.type);
+                    return (
+                      <li
+                        key={index}
+                        className="flex items-center gap-2 text-sm text-white/80"
+                      >
+                        {display.icon}
+                        <span>{display.label}</span>
+                        <span className="text-xs text-white/50">
+                          {formatDate(event.occurredAt)}
+                        </span>
+                        {event.detail && (
+                          <span className="text-xs text-white/50 truncate">
+                            – {event.detail}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+              </ol>
+
+              {email.error && (
+                <p className="text-xs text-red-400 mt-2">{email.error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </GlassCard>
+  );
+}
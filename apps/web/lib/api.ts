@@ -3,6 +3,7 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 export interface Campaign {
   id: string;
   name: string;
+  clientId: string;
   billingNumber: string;
   dropDate: string;
   redropDate?: string;
@@ -12,6 +13,7 @@ export interface Campaign {
   campaignType: 'acquisition' | 'winback' | 'retention' | 'seasonal';
   priority: 'normal' | 'high' | 'urgent';
   expectedRecords?: number;
+  vendorId: string | null;
   vendorEmail: string;
   notes?: string;
   metrics?: {
@@ -25,10 +27,52 @@ export interface Campaign {
     roas?: number;
     cac?: number;
   };
+  alerts?: CampaignAlert[];
+  vendorFollowUp?: VendorFollowUp | null;
+  vendorResponseOverdue: boolean;
+  marketStates: CampaignMarketState[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface VendorFollowUp {
+  replyToEmail: string;
+  requestedAt: string;
+  dueAt: string;
+  slaDays: number;
+  remindersSent: number;
+  lastReminderAt?: string;
+  overdueSince?: string;
+  stoppedAt?: string;
+  stopReason?: 'responded' | 'reminders-exhausted' | 'campaign-moved-on';
+}
+
+export interface CampaignMarketState {
+  market: string;
+  status: 'sanitized' | 'requested' | 'responded' | 'error';
+  recordCount: number;
+  duplicatesMerged?: number;
+  dcmIdRange: { first: string; last: string };
+  sanitizedFileKey: string;
+  policyReportKey?: string;
+  replyToEmail?: string;
+  outboundEmailId?: string;
+  requestedAt?: string;
+  respondedAt?: string;
+  matchedRecords?: number;
+  matchRate?: number;
+  lastError?: string;
+}
+
+export interface CampaignAlert {
+  id: string;
+  type: 'email-bounced' | 'email-delayed' | 'vendor-overdue';
+  message: string;
+  outboundEmailId?: string;
+  raisedAt: string;
+  acknowledgedAt?: string;
+}
+
 export interface CreateCampaignDto {
   name: string;
   billingNumber: string;
@@ -38,39 +82,110 @@ export interface CreateCampaignDto {
   campaignType: 'acquisition' | 'winback' | 'retention' | 'seasonal';
   priority?: 'normal' | 'high' | 'urgent';
   expectedRecords?: number;
+  vendorId?: string;
   vendorEmail: string;
   notes?: string;
 }
 
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: 'admin' | 'client_viewer';
+  clientId: string | null;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  user: AuthUser;
+}
+
+const TOKEN_STORAGE_KEY = 'matchback.accessToken';
+
 export interface CampaignStats {
+  clientId: string | null;
   total: number;
   byStatus: Record<string, number>;
   byType: Record<string, number>;
 }
 
 class ApiClient {
-  private async request<T>(
-    endpoint: string,
-    options?: RequestInit
-  ): Promise<T> {
+  private getToken(): string | null {
+    if (typeof window === 'undefined') return null;
+    return window.localStorage.getItem(TOKEN_STORAGE_KEY);
+  }
+
+  private async send(endpoint: string, options?: RequestInit): Promise<Response> {
     const url = `${API_BASE_URL}${endpoint}`;
+    const token = this.getToken();
 
     const response = await fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options?.headers,
       },
     });
 
+    if (response.status === 401 && typeof window !== 'undefined') {
+      // Session expired or revoked - sign in again
+      window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+      if (!window.location.pathname.startsWith('/login')) {
+        window.location.href = '/login';
+      }
+    }
+
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Request failed' }));
       throw new Error(error.message || `HTTP ${response.status}`);
     }
 
+    return response;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options?: RequestInit
+  ): Promise<T> {
+    const response = await this.send(endpoint, options);
     return response.json();
   }
 
+  // Auth operations
+  async login(email: string, password: string): Promise<AuthSession> {
+    const session = await this.request<AuthSession>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, session.accessToken);
+    return session;
+  }
+
+  async requestMagicLink(email: string): Promise<void> {
+    await this.request('/auth/magic-link', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthSession> {
+    const session = await this.request<AuthSession>('/auth/magic-link/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, session.accessToken);
+    return session;
+  }
+
+  async getCurrentUser(): Promise<AuthUser> {
+    return this.request('/auth/me');
+  }
+
+  logout(): void {
+    window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+
   // Campaign operations
   async getCampaigns(params?: {
     status?: string;
@@ -117,9 +232,30 @@ class ApiClient {
     return this.request('/campaigns/stats');
   }
 
+  async acknowledgeCampaignAlert(
+    campaignId: string,
+    alertId: string
+  ): Promise<CampaignAlert> {
+    return this.request(`/campaigns/${campaignId}/alerts/${alertId}/acknowledge`, {
+      method: 'POST',
+    });
+  }
+
+  // Email operations
+  async getCampaignEmails(campaignId: string): Promise<OutboundEmail[]> {
+    return this.request(`/campaigns/${campaignId}/emails`);
+  }
+
   // Upload operations
   async getUploadedFiles(campaignId: string): Promise<UploadedFile[]> {
-    return this.request(`/campaigns/${campaignId}/uploads`);
+    return this.request(`/campaigns/${campaignId}/files`);
+  }
+
+  async downloadFile(campaignId: string, fileId: string): Promise<Blob> {
+    const response = await this.send(
+      `/campaigns/${campaignId}/files/${fileId}/download`
+    );
+    return response.blob();
   }
 
   async processCampaign(campaignId: string): Promise<void> {
@@ -130,10 +266,42 @@ class ApiClient {
 }
 
 export interface UploadedFile {
-  filename: string;
+  id: string;
+  kind:
+    | 'client-data'
+    | 'sanitized'
+    | 'vendor-response'
+    | 'analyst-patterns'
+    | 'duplicate-report'
+    | 'policy-report'
+    | 'purge-certificate'
+    | 'report';
+  originalFilename: string;
+  contentType: string;
   size: number;
-  uploadedAt: string;
-  type: 'client' | 'vendor' | 'unknown';
+  market?: string | null;
+  recordCount?: number | null;
+  createdAt: string;
+}
+
+export interface OutboundEmail {
+  id: string;
+  kind: 'vendor-request' | 'vendor-reminder' | 'notification';
+  toAddress: string;
+  subject: string;
+  status:
+    | 'sent'
+    | 'delivery_delayed'
+    | 'delivered'
+    | 'bounced'
+    | 'complained'
+    | 'failed';
+  error: string | null;
+  events: Array<{ type: string; occurredAt: string; detail?: string }>;
+  deliveredAt: string | null;
+  openedAt: string | null;
+  bouncedAt: string | null;
+  createdAt: string;
 }
 
 export const api = new ApiClient();
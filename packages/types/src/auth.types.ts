@@ -0,0 +1,14 @@
+export type UserRole = 'admin' | 'client_viewer';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  clientId: string | null; // Set for client viewers
+}
+
+export interface AuthSession {
+  accessToken: string;
+  user: AuthUser;
+}
@@ -1,12 +1,29 @@
+import type {
+  ContactNormalizationStats,
+  DuplicateMergeRules,
+} from './matching.types';
+import type { ClientRetentionPolicy } from './client.types';
+
 export type CampaignStatus = 'pending' | 'collecting' | 'matching' | 'analyzing' | 'complete' | 'error';
 
 export type CampaignType = 'acquisition' | 'winback' | 'retention' | 'seasonal';
 
 export type Priority = 'normal' | 'high' | 'urgent';
 
+export type CampaignFileKind =
+  | 'client-data'
+  | 'sanitized'
+  | 'vendor-response'
+  | 'analyst-patterns'
+  | 'duplicate-report'
+  | 'policy-report'
+  | 'purge-certificate'
+  | 'report';
+
 export interface Campaign {
   id: string;
   name: string;
+  clientId: string;
   billingNumber: string;
   dropDate: Date;
   redropDate?: Date;
@@ -16,13 +33,84 @@ export interface Campaign {
   campaignType: CampaignType;
   priority: Priority;
   expectedRecords?: number;
+  vendorId: string | null; // NULL = vendor not in the registry (default file profile)
   vendorEmail: string;
   notes?: string;
   metrics?: CampaignMetrics;
+  pipeline?: CampaignPipelineState;
+  alerts?: CampaignAlert[];
+  vendorFollowUp?: VendorFollowUpState | null;
+  vendorResponseOverdue: boolean; // Vendor has not replied within its SLA
+  marketStates: CampaignMarketState[]; // One entry per market in the client upload
+  duplicateMergeRules: DuplicateMergeRules | null; // NULL = default rules (max of each)
+  completedAt: Date | null; // Start of the retention period
+  dataPurge: CampaignDataPurgeState | null; // What the retention policy has removed
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CampaignAlertType =
+  | 'email-bounced'
+  | 'email-delayed'
+  | 'vendor-overdue';
+
+export interface CampaignAlert {
+  id: string;
+  type: CampaignAlertType;
+  message: string;
+  outboundEmailId?: string;
+  raisedAt: Date;
+  acknowledgedAt?: Date;
+}
+
+export type VendorReminderLevel = 'reminder' | 'overdue' | 'final';
+
+/**
+ * Follow-up on the last vendor match request
+ * Reminders go out on weekday mornings until the vendor replies
+ */
+export interface VendorFollowUpState {
+  replyToEmail: string; // Same address as the request, so replies still route
+  requestedAt: string;
+  dueAt: string; // requestedAt + slaDays business days
+  slaDays: number;
+  remindersSent: number;
+  lastReminderAt?: string;
+  lastReminderLevel?: VendorReminderLevel;
+  overdueSince?: string;
+  stoppedAt?: string;
+  stopReason?: 'responded' | 'reminders-exhausted' | 'campaign-moved-on';
+}
+
+export type CampaignMarketStatus =
+  | 'sanitized'
+  | 'requested'
+  | 'responded'
+  | 'error';
+
+/**
+ * Matchback progress for one market of a campaign
+ * A multi-market upload is split by market: each market gets its own
+ * DCM_ID range, sanitized file and vendor request
+ */
+export interface CampaignMarketState {
+  market: string;
+  status: CampaignMarketStatus;
+  recordCount: number; // Customers after duplicate rows were merged
+  duplicatesMerged?: number; // Rows folded into another row of the same customer
+  dcmIdRange: { first: string; last: string };
+  sanitizedFileKey: string;
+  policyReportKey?: string; // Signed data-sharing policy check of the file
+  replyToEmail?: string;
+  outboundEmailId?: string;
+  requestedAt?: string;
+  respondedAt?: string;
+  matchedRecords?: number;
+  matchRate?: number;
+  lastError?: string;
+  contactNormalization?: ContactNormalizationStats;
+}
+
 export interface CampaignMetrics {
   totalRecords?: number;
   matchedRecords?: number;
@@ -31,12 +119,71 @@ export interface CampaignMetrics {
   outOfPattern?: number;
   newCustomers?: number;
   revenue?: number;
+  campaignCost?: number; // Sum of cost line items when the report ran
   roas?: number;
   cac?: number;
 }
 
+export type CampaignCostCategory =
+  | 'print'
+  | 'postage'
+  | 'data'
+  | 'redrop'
+  | 'other';
+
+/**
+ * A single spend line on a campaign
+ * market = null means the cost is shared by all campaign markets
+ */
+export interface CampaignCost {
+  id: string;
+  campaignId: string;
+  category: CampaignCostCategory;
+  description?: string;
+  amount: number;
+  market?: string | null;
+  incurredOn?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CampaignCostSummary {
+  campaignId: string;
+  total: number;
+  byCategory: Partial<Record<CampaignCostCategory, number>>;
+  // Market-specific costs plus each market's share of shared costs
+  // (split by record count, evenly when there are no records yet)
+  byMarket: Record<string, number>;
+}
+
+/**
+ * Matchback pipeline stages, in execution order.
+ * Client upload: parse -> sanitize -> vendor-request -> (wait for vendor reply)
+ * Vendor reply: merge -> pattern-analysis -> report
+ */
+export type PipelineStage =
+  | 'parse'
+  | 'sanitize'
+  | 'vendor-request'
+  | 'merge'
+  | 'pattern-analysis'
+  | 'report';
+
+export interface CampaignPipelineState {
+  currentStage: PipelineStage | 'awaiting-vendor' | 'complete';
+  completedStages: PipelineStage[];
+  failedStage?: PipelineStage;
+  lastError?: string;
+  clientFileKey?: string;
+  clientFileType?: 'excel' | 'csv';
+  columnMappingProfileId?: string; // Chosen at upload; otherwise selected from the headers
+  jobIds: Partial<Record<PipelineStage, string>>;
+  updatedAt: string;
+}
+
 export interface CreateCampaignDto {
   name: string;
+  clientId?: string; // Resolved from billingNumber when omitted
   billingNumber: string;
   dropDate: string | Date;
   redropDate?: string | Date;
@@ -44,6 +191,73 @@ export interface CreateCampaignDto {
   campaignType: CampaignType;
   priority?: Priority;
   expectedRecords?: number;
-  vendorEmail: string;
+  vendorId?: string; // Registered vendor; defaults to the client's vendor
+  vendorEmail?: string; // Linked to the registered vendor with this address, if any
   notes?: string;
+  costs?: Array<
+    Pick<CampaignCost, 'category' | 'amount' | 'description' | 'market'>
+  >;
+}
+
+export interface CampaignFile {
+  id: string;
+  campaignId: string;
+  kind: CampaignFileKind;
+  storageKey: string;
+  originalFilename: string;
+  contentType: string;
+  size: number;
+  market?: string;
+  recordCount?: number;
+  checksum: string;
+  uploadedBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * What a data retention purge removes
+ * - raw-files: client uploads, vendor files and responses
+ * - pii: contact details on match records, and every stored file
+ *   except policy checks and purge certificates
+ */
+export type DataPurgeScope = 'raw-files' | 'pii';
+
+export interface CampaignDataPurgeState {
+  rawFilesPurgedAt?: string;
+  piiPurgedAt?: string;
+  certificateKeys: string[]; // Storage keys of the purge certificates
+  deletedFiles?: PurgeCertificate['files']; // Deleted by a purge that has not finished yet
+}
+
+/**
+ * Signed record of a retention purge, stored with the campaign files so
+ * it can be shown to the client. The signature is an HMAC-SHA256 of the
+ * certificate without the signature, keyed with
+ * PURGE_CERTIFICATE_SIGNING_SECRET
+ */
+export interface PurgeCertificate {
+  certificateId: string;
+  campaignId: string;
+  campaignName: string;
+  clientId: string;
+  clientName: string;
+  scopes: DataPurgeScope[];
+  policy: ClientRetentionPolicy; // Effective policy, defaults included
+  completedAt: string;
+  files: {
+    storageKey: string;
+    kind: CampaignFileKind;
+    originalFilename: string;
+    checksum: string; // SHA-256 of the file as stored for the campaign
+    deletedAt: string;
+  }[];
+  records: {
+    count: number;
+    clearedFields: string[];
+  };
+  inboundEmailEvents: number; // Stored vendor replies (with attachments) deleted
+  queueJobs: number; // Finished pipeline jobs removed (their data holds records)
+  retained: string[]; // What is kept, e.g. campaign metrics
+  purgedAt: string;
+  signature: string;
 }
@@ -0,0 +1,46 @@
+import type { PatternRuleSet } from './matching.types';
+
+export interface ClientContact {
+  name: string;
+  email: string;
+  phone?: string;
+  role?: string; // e.g. "Marketing Director", "Billing"
+}
+
+export interface ClientBranding {
+  displayName?: string;
+  logoUrl?: string;
+  primaryColor?: string; // Hex, e.g. #667eea
+}
+
+/**
+ * Pattern settings applied when a campaign has no rule set of its own
+ */
+export type ClientPatternDefaults = Partial<
+  Pick<
+    PatternRuleSet,
+    'mode' | 'visitThreshold' | 'windowDays' | 'requireVisit1Date' | 'corrections'
+  >
+>;
+
+/**
+ * How long campaign data is kept after the campaign is complete
+ * null = kept until removed by hand
+ */
+export interface ClientRetentionPolicy {
+  rawFilesDays: number | null; // Client uploads, vendor files and responses
+  piiDays: number | null; // Contact details on match records, and files still kept
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  billingNumber: string;
+  contacts: ClientContact[];
+  defaultVendorId?: string | null;
+  patternDefaults?: ClientPatternDefaults | null;
+  branding?: ClientBranding | null;
+  retentionPolicy?: ClientRetentionPolicy | null; // NULL = default policy
+  createdAt: Date;
+  updatedAt: Date;
+}
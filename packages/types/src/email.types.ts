@@ -0,0 +1,58 @@
+export type InboundEmailEventStatus =
+  | 'received' // Stored, not processed yet
+  | 'processed'
+  | 'ignored' // Not an email.received event
+  | 'failed';
+
+export interface InboundEmailEvent {
+  id: string;
+  messageId: string; // svix-id header
+  eventType: string;
+  fromAddress: string | null;
+  subject: string | null;
+  campaignId: string | null;
+  status: InboundEmailEventStatus;
+  error: string | null;
+  result: Record<string, any> | null;
+  attempts: number;
+  signedAt: Date;
+  processedAt: Date | null;
+  createdAt: Date;
+}
+
+export type OutboundEmailKind =
+  | 'vendor-request'
+  | 'vendor-reminder'
+  | 'notification';
+
+export type OutboundEmailStatus =
+  | 'sent'
+  | 'delivery_delayed'
+  | 'delivered'
+  | 'bounced'
+  | 'complained'
+  | 'failed'; // Rejected when sending
+
+export interface OutboundEmailEventEntry {
+  type: string; // Resend event type, e.g. email.delivered
+  occurredAt: Date;
+  detail?: string; // Bounce or delay reason
+  messageId?: string; // svix-id of the status webhook delivery
+}
+
+export interface OutboundEmail {
+  id: string;
+  providerId: string | null; // Resend email id
+  kind: OutboundEmailKind;
+  campaignId: string | null;
+  toAddress: string;
+  subject: string;
+  status: OutboundEmailStatus;
+  error: string | null;
+  events: OutboundEmailEventEntry[];
+  deliveredAt: Date | null;
+  openedAt: Date | null;
+  bouncedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,3 +1,8 @@
 export * from './campaign.types';
 export * from './matching.types';
 export * from './report.types';
+export * from './auth.types';
+export * from './client.types';
+export * from './email.types';
+export * from './vendor.types';
+export * from './market.types';
@@ -0,0 +1,32 @@
+/**
+ * A market in the managed registry
+ * Uploads are normalized to `code` via the name, aliases and ZIP prefixes
+ */
+export interface Market {
+  id: string;
+  code: string; // Canonical code, e.g. "HOU" - used on campaigns and DCM_IDs
+  name: string; // Display name, e.g. "Houston"
+  aliases: string[]; // Other spellings seen in client files
+  zipPrefixes: string[]; // "770" or a range "770-775"
+  timezone: string | null; // IANA time zone, e.g. "America/Chicago"
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A market value from an upload that the registry did not recognize
+ * Admins resolve it to a market, which adds it as an alias
+ */
+export interface UnresolvedMarketValue {
+  id: string;
+  value: string; // As first seen in the file
+  normalizedValue: string;
+  campaignId: string;
+  occurrences: number; // Rows carrying the value, across uploads
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  resolvedMarketCode: string | null;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+}
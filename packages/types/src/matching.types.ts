@@ -1,16 +1,21 @@
+import type { DataSharingPolicy, PiiValueCheck } from './vendor.types';
+
 export type CustomerType = 'NEW_SIGNUP' | 'NEW_VISITOR' | 'WINBACK' | 'EXISTING';
 
 export interface MatchRecord {
   id: string;
   dcmId: string;
-  customerId: string;
+  customerId: string | null; // null after a data retention PII purge
   emailAddress?: string;
   signupDate: Date;
   totalVisits: number;
   visit1Date?: Date;
+  visitDates?: Date[]; // Individual visit dates when the client file provides them
   matched: boolean;
   inPattern?: boolean;
   patternOverride?: string;
+  patternRuleSetId?: string | null; // null = built-in default rules
+  patternRuleSetVersion?: number;
   customerType?: CustomerType;
   totalSales?: number;
   campaignId: string;
@@ -19,6 +24,33 @@ export interface MatchRecord {
   updatedAt: Date;
 }
 
+export type PatternCorrectionType = 'NEW_SIGNUP_CORRECTION';
+
+/**
+ * How "in pattern" is decided
+ * - visit-count: visitThreshold+ visits within windowDays
+ * - visit-cadence: visit timeline before the drop date vs after it
+ */
+export type PatternDetectionMode = 'visit-count' | 'visit-cadence';
+
+/**
+ * Versioned pattern rules, scoped to a campaign or a client (billing number)
+ * Rule sets are immutable - edits create a new version.
+ */
+export interface PatternRuleSet {
+  id: string | null; // null = built-in default rules
+  name: string;
+  version: number;
+  mode: PatternDetectionMode;
+  campaignId?: string | null;
+  billingNumber?: string | null;
+  visitThreshold: number; // Visits needed to be "in pattern"
+  windowDays: number; // Window the visits must fall in (from first visit)
+  requireVisit1Date: boolean; // Missing visit1Date = out of pattern
+  corrections: PatternCorrectionType[];
+  createdAt?: Date;
+}
+
 export interface ClientDataRow {
   CustomerID: string;
   LastName?: string;
@@ -31,6 +63,96 @@ export interface ClientDataRow {
   Market?: string;
 }
 
+export type ClientDataField = keyof ClientDataRow;
+
+/**
+ * How a numeric field is combined when duplicate rows are merged
+ * - sum: add the rows (rows are separate visits/transactions)
+ * - max: largest value (rows repeat the same running total)
+ * - first: value from the first row in the file
+ */
+export type DuplicateMergeStrategy = 'sum' | 'max' | 'first';
+
+export interface DuplicateMergeRules {
+  totalSales: DuplicateMergeStrategy;
+  totalVisits: DuplicateMergeStrategy;
+}
+
+/**
+ * Key two client rows were found to be the same customer by, in the
+ * order they are tried
+ */
+export type DuplicateMatchKey = 'customerId' | 'email' | 'nameAddress';
+
+/**
+ * What contact normalization changed in one vendor file
+ * Invalid emails, phones and ZIPs are left out of the file rather
+ * than sent in a form the vendor cannot match on
+ */
+export interface ContactNormalizationStats {
+  emailsNormalized: number; // Case, whitespace or mailto: removed
+  invalidEmails: number;
+  typoDomains: Array<{ domain: string; suggestion: string; count: number }>;
+  phonesFormatted: number; // Rewritten to E.164
+  invalidPhones: number;
+  streetSuffixesStandardized: number;
+  statesStandardized: number;
+  invalidStates: number;
+  zipsStandardized: number; // ZIP / ZIP+4 format fixed
+  invalidZips: number;
+}
+
+/**
+ * One cell or column of a vendor file that broke the data-sharing policy
+ * The offending value itself is never recorded
+ */
+export interface PiiPolicyViolation {
+  dcmId: string; // Row of the file; empty for column problems
+  column: string;
+  check: PiiValueCheck | 'blocked-field' | 'field-not-allowed';
+}
+
+/**
+ * Signed record that a vendor file passed its data-sharing policy check
+ * Stored next to the vendor file; the signature is an HMAC-SHA256 of the
+ * report without the signature, keyed with PII_POLICY_SIGNING_SECRET
+ */
+export interface PolicyCheckReport {
+  campaignId: string;
+  market: string;
+  vendorFile: {
+    storageKey: string;
+    sha256: string; // Of the file bytes as sent
+    rows: number;
+  };
+  policy: DataSharingPolicy; // Effective policy, defaults included
+  columns: string[];
+  cellsScanned: number;
+  violations: PiiPolicyViolation[];
+  checkedAt: string;
+  signature: string;
+}
+
+/**
+ * Saved mapping of a client's export headers to ClientDataRow fields
+ * mappings: source header -> canonical field
+ */
+export interface ColumnMappingProfile {
+  id: string;
+  billingNumber: string;
+  name: string;
+  mappings: Record<string, ClientDataField>;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ColumnMappingSuggestion {
+  sourceHeader: string;
+  field: ClientDataField;
+  confidence: number; // 0-1
+}
+
 export interface SanitizedData {
   dcmId: string;
   firstName?: string;
@@ -0,0 +1,78 @@
+export type VendorFileFormat = 'xlsx' | 'csv';
+
+/**
+ * Sanitized contact fields a vendor may be sent (DCM_ID is always included)
+ */
+export type VendorField = 'name' | 'email' | 'address' | 'phone';
+
+export interface VendorContact {
+  name: string;
+  email: string;
+  phone?: string;
+  role?: string; // e.g. "Data Operations"
+}
+
+/**
+ * What the vendor receives for each record
+ * - plaintext: contact fields as written (after normalization)
+ * - hashed: SHA-256 hex of normalized email and phone only
+ */
+export type VendorExportMode = 'plaintext' | 'hashed';
+
+/**
+ * Vendor's rules for normalizing identifiers before hashing
+ * Emails are always trimmed and lowercased first.
+ */
+export interface VendorHashingRules {
+  stripEmailPlusTag: boolean; // "jane+promo@x.com" -> "jane@x.com"
+  stripGmailDots: boolean; // "j.ane@gmail.com" -> "jane@gmail.com"
+  phoneFormat: 'e164' | 'digits'; // "+17135550100" or "17135550100"
+  salt: string | null;
+  saltPosition: 'prefix' | 'suffix';
+}
+
+/**
+ * Patterns every outgoing cell of a vendor file is scanned for
+ */
+export type PiiValueCheck =
+  | 'sales-amount'
+  | 'date'
+  | 'customer-id'
+  | 'ssn'
+  | 'card-number';
+
+/**
+ * What the vendor's data-sharing agreement permits
+ */
+export interface DataSharingPolicy {
+  agreementReference: string | null; // e.g. "DSA-2026-014"
+  allowedFields: VendorField[]; // The file profile may not send more than this
+  blockedFieldNames: string[]; // Never sent, in addition to the defaults
+  valueChecks: PiiValueCheck[];
+}
+
+/**
+ * How a vendor exchanges match files
+ */
+export interface VendorFileProfile {
+  acceptedFormats: VendorFileFormat[]; // First one is used for match requests
+  dcmIdColumn: string; // Header of the DCM_ID column, e.g. "DCM_ID"
+  matchColumn: string; // Header of the match flag column, e.g. "Match"
+  matchedValues: string[]; // Case-insensitive, e.g. ["Y", "YES"]
+  unmatchedValues: string[]; // Case-insensitive; a blank cell is always "not matched"
+  allowedFields: VendorField[];
+  exportMode: VendorExportMode;
+  hashing: VendorHashingRules | null; // Set when exportMode is "hashed"
+  sharingPolicy: DataSharingPolicy | null; // null = default policy
+}
+
+export interface Vendor extends VendorFileProfile {
+  id: string;
+  name: string;
+  email: string; // Where match requests are sent
+  contacts: VendorContact[];
+  responseSlaDays: number; // Business days to return a match file
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,42 @@
+/**
+ * Business day helpers (Monday-Friday; holidays are not excluded)
+ */
+
+function isWeekend(date: Date): boolean {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Date that is `days` business days after `date`, at the same time of day
+ * A request sent on Friday with 3 business days is due on Wednesday
+ */
+export function addBusinessDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  let remaining = days;
+
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    if (!isWeekend(result)) {
+      remaining--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Number of whole business days from `start` to `end`
+ * (0 when `end` is on or before `start`)
+ */
+export function businessDaysBetween(start: Date, end: Date): number {
+  let count = 0;
+  let next = addBusinessDays(start, 1);
+
+  while (next <= end) {
+    count++;
+    next = addBusinessDays(next, 1);
+  }
+
+  return count;
+}
@@ -1,2 +1,3 @@
 export * from './excel-date.util';
 export * from './market-detection.util';
+export * from './business-days.util';
@@ -8,15 +8,106 @@ export interface MarketInfo {
   percentage: number;
 }
 
+/**
+ * A registered market and every spelling that refers to it
+ */
+export interface MarketAliasEntry {
+  code: string; // Canonical code, e.g. "HOU"
+  name: string; // e.g. "Houston"
+  aliases: string[]; // e.g. ["houston tx", "greater houston"]
+  zipPrefixes?: string[]; // "770" or a range "770-775"
+}
+
+/**
+ * Maps a raw market value (and optionally the record's ZIP) to a
+ * canonical market code; undefined when the value is not recognized
+ */
+export type MarketResolver = (
+  value: string | undefined,
+  zip?: string
+) => string | undefined;
+
+/**
+ * Normalize a market value for comparison
+ * "Houston, TX" and "houston  tx" both become "houston tx"
+ */
+export function normalizeMarketValue(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build a resolver from registered markets
+ * Codes, names and aliases are compared normalized; when the value is
+ * blank or unknown, the longest matching ZIP prefix decides
+ */
+export function createMarketResolver(entries: MarketAliasEntry[]): MarketResolver {
+  const byValue = new Map<string, string>();
+  const zipRanges: Array<{ from: string; to: string; code: string }> = [];
+
+  entries.forEach(entry => {
+    [entry.code, entry.name, ...entry.aliases].forEach(value => {
+      byValue.set(normalizeMarketValue(value), entry.code);
+    });
+
+    (entry.zipPrefixes || []).forEach(prefix => {
+      const [from, to = from] = prefix.split('-');
+      zipRanges.push({ from, to, code: entry.code });
+    });
+  });
+
+  // Most specific prefix first
+  zipRanges.sort((a, b) => b.from.length - a.from.length);
+
+  return (value, zip) => {
+    const code = value ? byValue.get(normalizeMarketValue(value)) : undefined;
+    if (code || !zip) {
+      return code;
+    }
+
+    const digits = String(zip).replace(/\D/g, '');
+    const range = zipRanges.find(r => {
+      const prefix = digits.slice(0, r.from.length);
+      return prefix.length === r.from.length && prefix >= r.from && prefix <= r.to;
+    });
+
+    return range?.code;
+  };
+}
+
+/**
+ * Market a record belongs to: the resolved code when a resolver is given
+ * and recognizes it, otherwise the trimmed raw value
+ */
+function recordMarket(
+  record: { market?: string; zip?: string },
+  resolve?: MarketResolver
+): string | undefined {
+  const resolved = resolve?.(record.market, record.zip);
+  if (resolved) {
+    return resolved;
+  }
+
+  const market = record.market?.trim();
+  return market || undefined;
+}
+
 /**
  * Detect markets from a dataset
+ * Pass a resolver so aliases of one market count once
  */
-export function detectMarkets(records: Array<{ market?: string }>): string[] {
+export function detectMarkets(
+  records: Array<{ market?: string; zip?: string }>,
+  resolve?: MarketResolver
+): string[] {
   const markets = new Set<string>();
 
   records.forEach(record => {
-    if (record.market) {
-      markets.add(record.market.trim());
+    const market = recordMarket(record, resolve);
+    if (market) {
+      markets.add(market);
     }
   });
 
@@ -26,13 +117,16 @@ export function detectMarkets(records: Array<{ market?: string }>): string[] {
 /**
  * Get detailed market information from records
  */
-export function getMarketInfo(records: Array<{ market?: string }>): MarketInfo[] {
+export function getMarketInfo(
+  records: Array<{ market?: string; zip?: string }>,
+  resolve?: MarketResolver
+): MarketInfo[] {
   const marketCounts = new Map<string, number>();
   const total = records.length;
 
   records.forEach(record => {
-    if (record.market) {
-      const market = record.market.trim();
+    const market = recordMarket(record, resolve);
+    if (market) {
       marketCounts.set(market, (marketCounts.get(market) || 0) + 1);
     }
   });
@@ -48,12 +142,14 @@ export function getMarketInfo(records: Array<{ market?: string }>): MarketInfo[]
 
 /**
  * Validate that records don't mix markets
+ * With a resolver, records and allowedMarkets are compared by market code
  */
 export function validateMarketSeparation(
-  records: Array<{ market?: string }>,
-  allowedMarkets?: string[]
+  records: Array<{ market?: string; zip?: string }>,
+  allowedMarkets?: string[],
+  resolve?: MarketResolver
 ): { valid: boolean; markets: string[]; error?: string } {
-  const detectedMarkets = detectMarkets(records);
+  const detectedMarkets = detectMarkets(records, resolve);
 
   if (detectedMarkets.length === 0) {
     return {
@@ -71,12 +167,18 @@ export function validateMarketSeparation(
     };
   }
 
-  if (allowedMarkets && !allowedMarkets.includes(detectedMarkets[0])) {
-    return {
-      valid: false,
-      markets: detectedMarkets,
-      error: `Unexpected market: ${detectedMarkets[0]}. Expected one of: ${allowedMarkets.join(', ')}`,
-    };
+  if (allowedMarkets) {
+    const allowed = allowedMarkets.map(
+      market => recordMarket({ market }, resolve) ?? market
+    );
+
+    if (!allowed.includes(detectedMarkets[0])) {
+      return {
+        valid: false,
+        markets: detectedMarkets,
+        error: `Unexpected market: ${detectedMarkets[0]}. Expected one of: ${allowedMarkets.join(', ')}`,
+      };
+    }
   }
 
   return {
@@ -87,14 +189,17 @@ export function validateMarketSeparation(
 
 /**
  * Group records by market
+ * Without a resolver records are keyed by their raw market value
  */
-export function groupByMarket<T extends { market?: string }>(
-  records: T[]
+export function groupByMarket<T extends { market?: string; zip?: string }>(
+  records: T[],
+  resolve?: MarketResolver
 ): Map<string, T[]> {
   const grouped = new Map<string, T[]>();
 
   records.forEach(record => {
-    const market = record.market || 'UNKNOWN';
+    const market =
+      (resolve && recordMarket(record, resolve)) || record.market || 'UNKNOWN';
     if (!grouped.has(market)) {
       grouped.set(market, []);
     }